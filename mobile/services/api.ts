@@ -1,6 +1,11 @@
 const API_BASE = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:3000';
+const API_TOKEN = process.env.EXPO_PUBLIC_API_TOKEN; // Personal API token from the web app's Account page
 const REQUEST_TIMEOUT = 30000; // 30 seconds
 
+function authHeaders(): Record<string, string> {
+  return API_TOKEN ? { Authorization: `Bearer ${API_TOKEN}` } : {};
+}
+
 interface RequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   body?: unknown;
@@ -52,6 +57,7 @@ async function request<T>(endpoint: string, options: RequestOptions = {}): Promi
     method,
     headers: {
       'Content-Type': 'application/json',
+      ...authHeaders(),
       ...headers,
     },
   };
@@ -223,6 +229,7 @@ export const api = {
 
       const response = await fetch(`${API_BASE}/api/feedstock/${id}/truck-photo`, {
         method: 'POST',
+        headers: authHeaders(),
         body: formData,
       });
 
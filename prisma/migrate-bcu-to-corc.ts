@@ -0,0 +1,60 @@
+/**
+ * BCU -> CORC migration command
+ *
+ *   npm run db:migrate-bcu                      dry run: print the diff report
+ *   npm run db:migrate-bcu -- --create-periods  also plan closed legacy periods
+ *   npm run db:migrate-bcu -- --apply           convert the BCUs that are ready
+ *   npm run db:migrate-bcu -- --json            print the report as JSON
+ *
+ * --actor <user id> is recorded in the audit log (default: the OS user).
+ * See src/lib/services/bcu-migration.ts for the mapping.
+ */
+import { userInfo } from 'os';
+import db from '@/lib/db';
+import {
+  applyBCUMigration,
+  formatMigrationReport,
+  planBCUMigration,
+} from '@/lib/services/bcu-migration';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const apply = process.argv.includes('--apply');
+  const json = process.argv.includes('--json');
+  const options = { createPeriods: process.argv.includes('--create-periods') };
+
+  if (!apply) {
+    const report = await planBCUMigration(options);
+    console.log(json ? JSON.stringify(report, null, 2) : formatMigrationReport(report));
+    if (!json) console.log('Dry run only. Re-run with --apply to migrate the BCUs marked ready.');
+    return;
+  }
+
+  const actor = getArg('--actor') ?? `cli:${userInfo().username}`;
+  const result = await applyBCUMigration(options, { actor, route: 'CLI db:migrate-bcu' });
+
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  console.log(formatMigrationReport(result.report));
+  for (const period of result.periodsCreated) {
+    console.log(`Created monitoring period ${period.id} (${period.periodStart.toISOString().slice(0, 10)}..${period.periodEnd.toISOString().slice(0, 10)})`);
+  }
+  for (const item of result.migrated) {
+    console.log(`Migrated BCU ${item.serialNumber} -> CORC issuance ${item.corcId}`);
+  }
+  console.log(`\n${result.migrated.length} BCU(s) migrated, ${result.report.blocked} blocked.`);
+}
+
+main()
+  .catch((error) => {
+    console.error('BCU migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => db.$disconnect());
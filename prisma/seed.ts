@@ -1,3 +1,4 @@
+import { randomBytes, scryptSync } from 'crypto';
 import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
@@ -889,6 +890,25 @@ async function main() {
   await prisma.evidenceFile.createMany({ data: evidenceFiles });
   console.log(`  ✓ Created ${evidenceFiles.length} evidence files\n`);
 
+  // ============================================
+  // PHASE 12: ADMIN USER
+  // ============================================
+  // Users are not cleared; the admin is created or its password reset.
+  // Same "scrypt:<salt>:<key>" format as src/lib/services/user-auth.ts
+  const adminEmail = process.env.SEED_ADMIN_EMAIL?.trim().toLowerCase();
+  const adminPassword = process.env.SEED_ADMIN_PASSWORD;
+  if (adminEmail && adminPassword) {
+    console.log('Phase 12: Creating admin user...');
+    const salt = randomBytes(16);
+    const passwordHash = `scrypt:${salt.toString('hex')}:${scryptSync(adminPassword, salt, 64).toString('hex')}`;
+    await prisma.user.upsert({
+      where: { email: adminEmail },
+      update: { passwordHash, role: 'admin', isActive: true },
+      create: { email: adminEmail, name: 'Administrator', role: 'admin', passwordHash },
+    });
+    console.log(`  ✓ Admin user ${adminEmail} ready\n`);
+  }
+
   // ============================================
   // SUMMARY
   // ============================================
@@ -0,0 +1,108 @@
+export const dynamic = 'force-dynamic';
+
+import { headers } from 'next/headers';
+import { UserCircle } from 'lucide-react';
+import db from '@/lib/db';
+import { getRolePermissions } from '@/lib/permissions';
+import { USER_ROLES } from '@/lib/validations/user';
+import { formatDateTime } from '@/lib/utils';
+import { PageContainer, PageHeader } from '@/components/layout/page-container';
+import { Badge, Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { ApiTokenManager, SignOutButton } from '@/components/users';
+
+async function getAccount(userId: string | null) {
+  if (!userId) return null;
+  return db.user.findUnique({
+    where: { id: userId },
+    include: { apiTokens: { orderBy: { createdAt: 'desc' } } },
+  });
+}
+
+export default async function AccountPage() {
+  const requestHeaders = await headers();
+  const userId = requestHeaders.get('X-User-ID');
+  const email = requestHeaders.get('X-User-Email');
+  const role = requestHeaders.get('X-User-Role') ?? '';
+
+  const account = await getAccount(userId);
+  const roleInfo = USER_ROLES.find((r) => r.value === role);
+  const permissions = getRolePermissions(role);
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Account"
+        description="Your profile, permissions and API tokens"
+        icon={UserCircle}
+        action={<SignOutButton />}
+      />
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Profile</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-[var(--muted-foreground)]">Name</span>
+              <span className="font-medium">{account?.name ?? 'Development User'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-[var(--muted-foreground)]">Email</span>
+              <span className="font-medium">{account?.email ?? email}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-[var(--muted-foreground)]">Role</span>
+              <span className="font-medium">{roleInfo?.label ?? role}</span>
+            </div>
+            {account?.lastLoginAt && (
+              <div className="flex justify-between">
+                <span className="text-[var(--muted-foreground)]">Last login</span>
+                <span className="font-medium">{formatDateTime(account.lastLoginAt)}</span>
+              </div>
+            )}
+            {roleInfo && (
+              <p className="text-[var(--muted-foreground)] pt-2 border-t">{roleInfo.description}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Permissions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-1.5">
+              {permissions.map((permission) => (
+                <Badge key={permission} variant="outline" className="font-mono">
+                  {permission}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {account ? (
+        <ApiTokenManager
+          tokens={account.apiTokens.map((token) => ({
+            id: token.id,
+            name: token.name,
+            tokenPrefix: token.tokenPrefix,
+            expiresAt: token.expiresAt?.toISOString() ?? null,
+            lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+            revokedAt: token.revokedAt?.toISOString() ?? null,
+            createdAt: token.createdAt.toISOString(),
+          }))}
+        />
+      ) : (
+        <Card>
+          <CardContent className="py-6 text-sm text-[var(--muted-foreground)]">
+            API tokens belong to a user account. Authentication is disabled, so you are
+            signed in as the development user.
+          </CardContent>
+        </Card>
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import { auditQuerySchema } from '@/lib/validations/audit';
+import {
+  parsePaginationParams,
+  calculateSkip,
+  createPaginatedResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api-utils';
+
+/**
+ * GET /api/audit
+ * Query the audit log by entity, actor, action and time range (newest first)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const pagination = parsePaginationParams(searchParams);
+
+    const result = auditQuerySchema.safeParse({
+      entityType: searchParams.get('entityType') ?? undefined,
+      entityId: searchParams.get('entityId') ?? undefined,
+      actor: searchParams.get('actor') ?? undefined,
+      action: searchParams.get('action') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+    });
+
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    const { entityType, entityId, actor, action, from, to } = result.data;
+
+    const where: Prisma.AuditLogWhereInput = {};
+    if (entityType) where.entityType = entityType;
+    if (entityId) where.entityId = entityId;
+    if (actor) where.actor = actor;
+    if (action) where.action = action;
+    if (from || to) {
+      where.createdAt = {
+        ...(from ? { gte: from } : {}),
+        ...(to ? { lte: to } : {}),
+      };
+    }
+
+    const total = await db.auditLog.count({ where });
+
+    const entries = await db.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: calculateSkip(pagination.page, pagination.limit),
+      take: pagination.limit,
+    });
+
+    return NextResponse.json(createPaginatedResponse(entries, total, pagination));
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return serverErrorResponse('Failed to fetch audit log');
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loginSchema } from '@/lib/validations/user';
+import { verifyLogin, createSession, toPublicUser } from '@/lib/services/user-auth';
+import { getRolePermissions } from '@/lib/permissions';
+import { SESSION_COOKIE } from '@/lib/auth';
+import {
+  errorResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api-utils';
+
+/**
+ * POST /api/auth/login
+ * Check email and password and start a session (HTTP-only cookie)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = loginSchema.safeParse(body);
+
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    const user = await verifyLogin(result.data.email, result.data.password);
+
+    if (!user) {
+      return errorResponse('Invalid email or password', 401, 'INVALID_CREDENTIALS');
+    }
+
+    const session = await createSession(user.id, request.headers.get('User-Agent'));
+
+    const response = NextResponse.json({
+      user: toPublicUser(user),
+      permissions: getRolePermissions(user.role),
+    });
+    response.cookies.set(SESSION_COOKIE, session.token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      expires: session.expiresAt,
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error logging in:', error);
+    return serverErrorResponse('Failed to log in');
+  }
+}
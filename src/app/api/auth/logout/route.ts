@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSession } from '@/lib/services/user-auth';
+import { SESSION_COOKIE } from '@/lib/auth';
+import { serverErrorResponse } from '@/lib/api-utils';
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await deleteSession(token);
+    }
+
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('Error logging out:', error);
+    return serverErrorResponse('Failed to log out');
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRolePermissions } from '@/lib/permissions';
+import { serverErrorResponse } from '@/lib/api-utils';
+
+/**
+ * GET /api/auth/me
+ * The signed-in user and the permissions of their role
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const role = request.headers.get('X-User-Role') ?? '';
+
+    return NextResponse.json({
+      id: request.headers.get('X-User-ID'),
+      email: request.headers.get('X-User-Email'),
+      role,
+      permissions: getRolePermissions(role),
+    });
+  } catch (error) {
+    console.error('Error fetching current user:', error);
+    return serverErrorResponse('Failed to fetch current user');
+  }
+}
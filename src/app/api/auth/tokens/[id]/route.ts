@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { toPublicApiToken } from '@/lib/services/user-auth';
+import { requestHasPermission } from '@/lib/permissions';
+import { notFoundResponse, serverErrorResponse } from '@/lib/api-utils';
+
+/**
+ * DELETE /api/auth/tokens/[id]
+ * Revoke an API token (own tokens, or any token for user managers)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const token = await db.apiToken.findUnique({ where: { id } });
+
+    if (
+      !token ||
+      (token.userId !== request.headers.get('X-User-ID') && !requestHasPermission(request, 'users:manage'))
+    ) {
+      return notFoundResponse('API token');
+    }
+
+    const revoked = await db.apiToken.update({
+      where: { id },
+      data: { revokedAt: token.revokedAt ?? new Date() },
+    });
+
+    return NextResponse.json(toPublicApiToken(revoked));
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    return serverErrorResponse('Failed to revoke API token');
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { createApiTokenSchema } from '@/lib/validations/user';
+import { createApiToken, toPublicApiToken } from '@/lib/services/user-auth';
+import {
+  errorResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api-utils';
+
+/**
+ * GET /api/auth/tokens
+ * List the signed-in user's API tokens (values are never returned)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = request.headers.get('X-User-ID') ?? '';
+
+    const tokens = await db.apiToken.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(tokens.map(toPublicApiToken));
+  } catch (error) {
+    console.error('Error fetching API tokens:', error);
+    return serverErrorResponse('Failed to fetch API tokens');
+  }
+}
+
+/**
+ * POST /api/auth/tokens
+ * Create an API token; the value is only returned in this response
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = createApiTokenSchema.safeParse(body);
+
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    const userId = request.headers.get('X-User-ID') ?? '';
+    const user = await db.user.findUnique({ where: { id: userId }, select: { id: true } });
+
+    if (!user) {
+      return errorResponse('API tokens can only be created for a user account', 400, 'NO_USER_ACCOUNT');
+    }
+
+    const created = await createApiToken(user.id, result.data);
+
+    return NextResponse.json(created, { status: 201 });
+  } catch (error) {
+    console.error('Error creating API token:', error);
+    return serverErrorResponse('Failed to create API token');
+  }
+}
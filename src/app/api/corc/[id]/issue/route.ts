@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { issueCORCSchema } from '@/lib/validations/corc';
+import { isSystemAccountType } from '@/lib/validations/registry-account';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { ensureRootLot, toWholeUnits } from '@/lib/services/credit-lots';
+import { allocateCORCSerialBlock, serialBlockCovers } from '@/lib/services/serial-allocator';
 
 /**
  * POST /api/corc/[id]/issue
  * Issue a CORC (change status from draft to issued)
+ *
+ * Creates the root lot holding serials 1..N, one per whole tCO2e, and posts
+ * the issuance to the registry ledger. Unit n's registry serial is sequence
+ * serialSequenceStart + n - 1 of the issuance's reserved block.
  */
 export async function POST(
   request: NextRequest,
@@ -26,7 +34,7 @@ export async function POST(
     // Check current status
     const existing = await db.cORCIssuance.findUnique({
       where: { id },
-      select: { status: true, netCORCsTCO2e: true },
+      include: { monitoringPeriod: { select: { facility: true } } },
     });
 
     if (!existing) {
@@ -50,21 +58,59 @@ export async function POST(
       );
     }
 
-    const corc = await db.cORCIssuance.update({
-      where: { id },
-      data: {
-        status: 'issued',
-        issuanceDate: result.data.issuanceDate,
-        ownerName: result.data.ownerName,
-        ownerAccountId: result.data.ownerAccountId,
-      },
-      include: {
-        monitoringPeriod: {
-          include: {
-            facility: true,
+    if (toWholeUnits(existing.netCORCsTCO2e) < 1) {
+      return NextResponse.json(
+        { error: 'Cannot issue CORC with less than 1 tCO2e of net CORCs' },
+        { status: 400 }
+      );
+    }
+
+    const account = result.data.registryAccountId
+      ? await db.registryAccount.findUnique({ where: { id: result.data.registryAccountId } })
+      : null;
+
+    if (result.data.registryAccountId && (!account || !account.isActive || isSystemAccountType(account.accountType))) {
+      return NextResponse.json(
+        { error: 'Registry account not found or cannot hold credits' },
+        { status: 400 }
+      );
+    }
+
+    // A draft whose net CORCs grew past its reserved block gets a new block,
+    // so its units never run into the next issuance's serials
+    const serialBlock = existing.serialYear !== null && !serialBlockCovers(existing, existing.netCORCsTCO2e)
+      ? await allocateCORCSerialBlock(existing.monitoringPeriod.facility, existing.serialYear, existing.netCORCsTCO2e)
+      : null;
+
+    const corc = await db.$transaction(async (tx) => {
+      const issued = await tx.cORCIssuance.update({
+        where: { id },
+        data: {
+          ...serialBlock,
+          status: 'issued',
+          issuanceDate: result.data.issuanceDate,
+          ownerName: account?.name ?? result.data.ownerName,
+          ownerAccountId: account?.externalAccountId ?? result.data.ownerAccountId,
+        },
+        include: {
+          monitoringPeriod: {
+            include: {
+              facility: true,
+            },
           },
         },
-      },
+      });
+      await ensureRootLot({ type: 'corc', id }, tx, account?.id);
+      return issued;
+    });
+
+    await recordAudit(getAuditContext(request), {
+      entityType: 'corc_issuance',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: corc,
+      note: 'Issued',
     });
 
     return NextResponse.json(corc);
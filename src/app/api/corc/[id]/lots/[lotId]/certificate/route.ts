@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { errorResponse } from '@/lib/api-utils';
+import { getAuditContext } from '@/lib/services/audit-log';
+import {
+  ensureRetirementCertificate,
+  getRetirementCertificateView,
+  renderRetirementCertificatePdf,
+  CERTIFICATE_PROBLEM_STATUS,
+} from '@/lib/services/retirement-certificates';
+
+/**
+ * GET /api/corc/[id]/lots/[lotId]/certificate
+ * Download the retirement certificate of a retired lot as a PDF
+ *
+ * Lots retired before certificates existed get their certificate on the
+ * first download.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; lotId: string }> }
+) {
+  try {
+    const { id, lotId } = await params;
+
+    const lot = await db.creditLot.findFirst({
+      where: { id: lotId, corcIssuanceId: id },
+      select: { id: true },
+    });
+
+    if (!lot) {
+      return NextResponse.json(
+        { error: 'Lot not found for this CORC' },
+        { status: 404 }
+      );
+    }
+
+    const outcome = await ensureRetirementCertificate(lotId, getAuditContext(request).actor);
+    if (!outcome.ok) {
+      return errorResponse(
+        outcome.problem.message,
+        CERTIFICATE_PROBLEM_STATUS[outcome.problem.code],
+        outcome.problem.code
+      );
+    }
+
+    const view = await getRetirementCertificateView(lotId);
+    if (!view) {
+      return NextResponse.json(
+        { error: 'Certificate not found' },
+        { status: 404 }
+      );
+    }
+
+    const pdf = renderRetirementCertificatePdf(view);
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.length),
+        'Content-Disposition': `attachment; filename="${view.certificateNumber}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating retirement certificate:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate retirement certificate' },
+      { status: 500 }
+    );
+  }
+}
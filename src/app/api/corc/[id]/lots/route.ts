@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { getHoldingLots, summarizeLots, fallbackBalance } from '@/lib/services/credit-lots';
+import { formatUnitSerialRange } from '@/lib/validations/serial-number';
+
+/**
+ * GET /api/corc/[id]/lots
+ * Lots of a CORC issuance with serial ranges, lineage and balance
+ *
+ * unitSerials gives the registry serials of each lot's first and last unit
+ * when the issuance has a reserved serial block.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const corc = await db.cORCIssuance.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        serialNumber: true,
+        status: true,
+        netCORCsTCO2e: true,
+        serialPattern: true,
+        serialFacilityCode: true,
+        serialYear: true,
+        serialSequenceStart: true,
+        serialSequenceEnd: true,
+      },
+    });
+
+    if (!corc) {
+      return NextResponse.json(
+        { error: 'CORC not found' },
+        { status: 404 }
+      );
+    }
+
+    const lots = await getHoldingLots({ type: 'corc', id });
+
+    return NextResponse.json({
+      serialNumber: corc.serialNumber,
+      balance: lots.length > 0 ? summarizeLots(lots) : fallbackBalance(corc.status, corc.netCORCsTCO2e),
+      lots: lots.map((lot) => ({ ...lot, unitSerials: formatUnitSerialRange(corc, lot) })),
+    });
+  } catch (error) {
+    console.error('Error fetching CORC lots:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch CORC lots' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
+import { errorResponse } from '@/lib/api-utils';
 import { retireCORCSchema } from '@/lib/validations/corc';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { formatLotSerialRange } from '@/lib/validations/credit-lot';
+import { applyLotOperation, LOT_PROBLEM_STATUS } from '@/lib/services/credit-lots';
+import { ensureRetirementCertificate } from '@/lib/services/retirement-certificates';
 
 /**
  * POST /api/corc/[id]/retire
- * Retire a CORC (change status from issued to retired)
+ * Retire units of a CORC lot
+ *
+ * Body: retirementBeneficiary, optional lotId (defaults to the only active
+ * lot) and quantity in whole tCO2e (defaults to the whole lot). The
+ * issuance becomes retired once no units remain. The retired lot gets a
+ * retirement certificate, returned as `certificate` (null if it could not
+ * be created yet).
  */
 export async function POST(
   request: NextRequest,
@@ -26,7 +37,6 @@ export async function POST(
     // Check current status
     const existing = await db.cORCIssuance.findUnique({
       where: { id },
-      select: { status: true },
     });
 
     if (!existing) {
@@ -43,24 +53,74 @@ export async function POST(
       );
     }
 
-    const corc = await db.cORCIssuance.update({
-      where: { id },
-      data: {
-        status: 'retired',
-        retirementDate: result.data.retirementDate,
-        retirementBeneficiary: result.data.retirementBeneficiary,
-        notes: result.data.notes,
-      },
-      include: {
-        monitoringPeriod: {
-          include: {
-            facility: true,
+    const auditContext = getAuditContext(request);
+    const retired = await db.$transaction(async (tx) => {
+      const outcome = await applyLotOperation(
+        { type: 'corc', id },
+        result.data,
+        {
+          operation: 'retirement',
+          retirementDate: result.data.retirementDate,
+          retirementBeneficiary: result.data.retirementBeneficiary,
+          retirementPurpose: result.data.retirementPurpose,
+          notes: result.data.notes,
+          createdBy: auditContext.actor,
+        },
+        tx
+      );
+      if (!outcome.ok) {
+        return { outcome };
+      }
+
+      const corc = await tx.cORCIssuance.findUniqueOrThrow({
+        where: { id },
+        include: {
+          monitoringPeriod: {
+            include: {
+              facility: true,
+            },
           },
         },
-      },
+      });
+
+      const { moved } = outcome.split;
+      await recordAudit(auditContext, {
+        entityType: 'corc_issuance',
+        entityId: id,
+        action: 'update',
+        before: existing,
+        after: corc,
+        note: `Retired ${moved.quantity} tCO2e (${formatLotSerialRange(corc.serialNumber, moved)}) for ${moved.retirementBeneficiary}`,
+      }, tx);
+
+      return { outcome, corc };
     });
 
-    return NextResponse.json(corc);
+    const { outcome, corc } = retired;
+    if (!outcome.ok) {
+      return errorResponse(
+        outcome.problem.message,
+        LOT_PROBLEM_STATUS[outcome.problem.code],
+        outcome.problem.code,
+        outcome.problem
+      );
+    }
+
+    // The retirement is committed; a certificate that fails here is created
+    // on its first download instead
+    let certificate: { id: string; certificateNumber: string; verificationCode: string } | null = null;
+    try {
+      const created = await ensureRetirementCertificate(outcome.split.moved.id, auditContext.actor);
+      certificate = created.ok ? created.certificate : null;
+    } catch (error) {
+      console.error('Error creating retirement certificate:', error);
+    }
+
+    return NextResponse.json({
+      ...corc,
+      lots: outcome.split,
+      certificate,
+    });
   } catch (error) {
     console.error('Error retiring CORC:', error);
     return NextResponse.json(
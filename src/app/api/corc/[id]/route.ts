@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import db from '@/lib/db';
 import { updateCORCSchema } from '@/lib/validations/corc';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import {
+  resolveCalculationRunSources,
+  replaceCORCSources,
+  SOURCE_PROBLEM_STATUS,
+} from '@/lib/services/corc-sources';
 
 /**
  * GET /api/corc/[id]
@@ -76,7 +84,6 @@ export async function PUT(
     // Check current status
     const existing = await db.cORCIssuance.findUnique({
       where: { id },
-      select: { status: true },
     });
 
     if (!existing) {
@@ -104,20 +111,51 @@ export async function PUT(
 
     const { id: _id, ...updateData } = result.data;
 
-    const corc = await db.cORCIssuance.update({
-      where: { id },
-      data: updateData,
-      include: {
-        monitoringPeriod: {
-          include: {
-            facility: true,
+    // Pointing the draft at another calculation run re-links its sources
+    const newRunId = updateData.calculationRunId !== existing.calculationRunId
+      ? updateData.calculationRunId
+      : undefined;
+
+    const outcome = await db.$transaction(async (tx) => {
+      if (newRunId) {
+        const resolved = await resolveCalculationRunSources(newRunId, id, tx);
+        if (!resolved.ok) return resolved;
+        await replaceCORCSources(id, resolved.sources, tx);
+      }
+
+      const updated = await tx.cORCIssuance.update({
+        where: { id },
+        data: updateData,
+        include: {
+          monitoringPeriod: {
+            include: {
+              facility: true,
+            },
           },
         },
-      },
+      });
+      return { ok: true as const, corc: updated };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (!outcome.ok) {
+      const { problem } = outcome;
+      return errorResponse(problem.message, SOURCE_PROBLEM_STATUS[problem.code], problem.code, problem);
+    }
+    const corc = outcome.corc;
+
+    await recordAudit(getAuditContext(request), {
+      entityType: 'corc_issuance',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: corc,
     });
 
     return NextResponse.json(corc);
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return errorResponse('Another issuance claimed these batches at the same time; try again', 409, 'CONFLICT');
+    }
     console.error('Error updating CORC:', error);
     return NextResponse.json(
       { error: 'Failed to update CORC' },
@@ -140,7 +178,6 @@ export async function DELETE(
     // Check current status
     const existing = await db.cORCIssuance.findUnique({
       where: { id },
-      select: { status: true },
     });
 
     if (!existing) {
@@ -161,6 +198,13 @@ export async function DELETE(
       where: { id },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'corc_issuance',
+      entityId: id,
+      action: 'delete',
+      before: existing,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting CORC:', error);
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { errorResponse } from '@/lib/api-utils';
+import { transferCORCSchema } from '@/lib/validations/corc';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { formatLotSerialRange } from '@/lib/validations/credit-lot';
+import { applyLotOperation, LOT_PROBLEM_STATUS } from '@/lib/services/credit-lots';
+
+/**
+ * POST /api/corc/[id]/transfer
+ * Transfer units of a CORC lot to a new owner
+ *
+ * Body: newOwnerName, optional newAccountId, lotId (defaults to the only
+ * active lot) and quantity in whole tCO2e (defaults to the whole lot).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const result = transferCORCSchema.safeParse({ ...body, id });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', issues: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db.cORCIssuance.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'CORC not found' },
+        { status: 404 }
+      );
+    }
+
+    if (existing.status !== 'issued') {
+      return NextResponse.json(
+        { error: `Only issued CORCs can be transferred (current status: ${existing.status})` },
+        { status: 400 }
+      );
+    }
+
+    const auditContext = getAuditContext(request);
+    const outcome = await db.$transaction((tx) =>
+      applyLotOperation(
+        { type: 'corc', id },
+        result.data,
+        {
+          operation: 'transfer',
+          toAccountId: result.data.toAccountId,
+          ownerName: result.data.newOwnerName,
+          ownerAccountId: result.data.newAccountId,
+          notes: result.data.notes,
+          createdBy: auditContext.actor,
+        },
+        tx
+      )
+    );
+
+    if (!outcome.ok) {
+      return errorResponse(
+        outcome.problem.message,
+        LOT_PROBLEM_STATUS[outcome.problem.code],
+        outcome.problem.code,
+        outcome.problem
+      );
+    }
+
+    const corc = await db.cORCIssuance.findUniqueOrThrow({
+      where: { id },
+      include: {
+        monitoringPeriod: {
+          include: {
+            facility: true,
+          },
+        },
+      },
+    });
+
+    const { moved } = outcome.split;
+    await recordAudit(auditContext, {
+      entityType: 'corc_issuance',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: corc,
+      note: `Transferred ${moved.quantity} tCO2e (${formatLotSerialRange(corc.serialNumber, moved)}) to ${moved.ownerName}`,
+    });
+
+    return NextResponse.json({ ...corc, lots: outcome.split });
+  } catch (error) {
+    console.error('Error transferring CORC:', error);
+    return NextResponse.json(
+      { error: 'Failed to transfer CORC' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import db from '@/lib/db';
-import { createCORCSchema, generateCORCSerialNumber } from '@/lib/validations/corc';
+import { createCORCSchema } from '@/lib/validations/corc';
+import { getLatestCalculationRun } from '@/lib/services/calculation-runs';
+import type { CORCCalculationResult } from '@/lib/corc';
 import {
   parsePaginationParams,
   calculateSkip,
   createPaginatedResponse,
   serverErrorResponse,
+  errorResponse,
   VALID_CORC_STATUSES,
   validateStatusParam,
   validateUUIDParam,
 } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { allocateCORCSerialBlock, type CORCSerialBlock } from '@/lib/services/serial-allocator';
+import {
+  resolveCalculationRunSources,
+  sourceLinksCreateInput,
+  SOURCE_PROBLEM_STATUS,
+} from '@/lib/services/corc-sources';
 
 /**
  * GET /api/corc
@@ -81,10 +92,15 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/corc
  * Create a new CORC issuance (typically from a monitoring period calculation)
+ *
+ * The issuance is linked to every production batch and sequestration event
+ * its calculation run included; 409 BATCH_ALREADY_ISSUED when a batch
+ * already backs another issuance.
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
+    let serialBlock: CORCSerialBlock | null = null;
 
     // If creating from a monitoring period, auto-populate values
     if (body.fromMonitoringPeriod && body.monitoringPeriodId) {
@@ -109,19 +125,39 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Get existing CORC count for serial number generation
-      const existingCount = await db.cORCIssuance.count();
-      const facilityCode = period.facility.registrationNumber.substring(0, 6).toUpperCase();
-      const year = new Date().getFullYear();
-
-      body.serialNumber = body.serialNumber || generateCORCSerialNumber(facilityCode, year, existingCount + 1);
-      body.cStoredTCO2e = period.cStoredTCO2e;
-      body.cBaselineTCO2e = period.cBaselineTCO2e ?? 0;
-      body.cLossTCO2e = period.cLossTCO2e;
-      body.persistenceFractionPercent = period.persistenceFractionPercent;
-      body.eProjectTCO2e = period.eProjectTCO2e;
-      body.eLeakageTCO2e = period.eLeakageTCO2e ?? 0;
-      body.netCORCsTCO2e = period.netCORCsTCO2e;
+      // Totals come from the calculation snapshot the issuance is created from
+      const calculationRun = body.calculationRunId
+        ? await db.calculationRun.findFirst({
+            where: { id: body.calculationRunId, monitoringPeriodId: period.id },
+          })
+        : await getLatestCalculationRun(period.id);
+
+      if (!calculationRun) {
+        return NextResponse.json(
+          { error: 'No saved calculation run found for this monitoring period' },
+          { status: 400 }
+        );
+      }
+
+      const runResult = calculationRun.result as unknown as CORCCalculationResult;
+
+      // Vintage is the year the period ends; one serial per whole tCO2e
+      if (!body.serialNumber) {
+        serialBlock = await allocateCORCSerialBlock(
+          period.facility,
+          period.periodEnd.getFullYear(),
+          runResult.netCORCsTCO2e
+        );
+        body.serialNumber = serialBlock.serialNumber;
+      }
+      body.cStoredTCO2e = runResult.cStoredTCO2e;
+      body.cBaselineTCO2e = runResult.cBaselineTCO2e ?? 0;
+      body.cLossTCO2e = runResult.cLossTCO2e;
+      body.persistenceFractionPercent = runResult.persistenceFractionPercent;
+      body.eProjectTCO2e = runResult.eProjectTCO2e;
+      body.eLeakageTCO2e = runResult.eLeakageTCO2e ?? 0;
+      body.netCORCsTCO2e = runResult.netCORCsTCO2e;
+      body.calculationRunId = calculationRun.id;
     }
 
     const result = createCORCSchema.safeParse(body);
@@ -145,19 +181,54 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const corc = await db.cORCIssuance.create({
-      data: result.data,
-      include: {
-        monitoringPeriod: {
-          include: {
-            facility: true,
+    // The double-use check and the links share a serializable transaction,
+    // so two issuances created at once cannot claim the same batch
+    const calculationRunId = result.data.calculationRunId;
+    const outcome = await db.$transaction(async (tx) => {
+      let links = {};
+      if (calculationRunId) {
+        const resolved = await resolveCalculationRunSources(calculationRunId, null, tx);
+        if (!resolved.ok) return resolved;
+        links = sourceLinksCreateInput(resolved.sources);
+      }
+
+      const created = await tx.cORCIssuance.create({
+        data: { ...result.data, ...serialBlock, ...links },
+        include: {
+          monitoringPeriod: {
+            include: {
+              facility: true,
+            },
+          },
+          _count: {
+            select: {
+              productionBatches: true,
+              sequestrationEvents: true,
+            },
           },
         },
-      },
+      });
+      return { ok: true as const, corc: created };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (!outcome.ok) {
+      const { problem } = outcome;
+      return errorResponse(problem.message, SOURCE_PROBLEM_STATUS[problem.code], problem.code, problem);
+    }
+    const corc = outcome.corc;
+
+    await recordAudit(getAuditContext(request), {
+      entityType: 'corc_issuance',
+      entityId: corc.id,
+      action: 'create',
+      after: corc,
     });
 
     return NextResponse.json(corc, { status: 201 });
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return errorResponse('Another issuance claimed these batches at the same time; try again', 409, 'CONFLICT');
+    }
     console.error('Error creating CORC:', error);
     return NextResponse.json(
       { error: 'Failed to create CORC' },
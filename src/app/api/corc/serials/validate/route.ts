@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateSerialQuerySchema } from '@/lib/validations/serial-number';
+import { lookupSerial } from '@/lib/services/serial-allocator';
+import { serverErrorResponse, validationErrorResponse } from '@/lib/api-utils';
+
+/**
+ * GET /api/corc/serials/validate?serial=CORC-SBF-2025-000123-7
+ * Decode a CORC serial to its facility, vintage and sequence
+ *
+ * Checks the check character and finds the issuance (and unit within it)
+ * holding the serial. Always 200 for a well-formed request; `valid` and
+ * `problems` report what is wrong with the serial itself.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const result = validateSerialQuerySchema.safeParse({ serial: searchParams.get('serial') ?? '' });
+
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    return NextResponse.json(await lookupSerial(result.data.serial));
+  } catch (error) {
+    console.error('Error validating CORC serial:', error);
+    return serverErrorResponse('Failed to validate serial');
+  }
+}
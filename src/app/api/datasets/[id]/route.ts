@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { emissionFactorSchema } from '@/lib/validations/emission-factor';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 
 // GET single emission factor
 export async function GET(
@@ -40,11 +41,30 @@ export async function PUT(
     const body = await request.json();
     const validatedData = emissionFactorSchema.parse(body);
 
+    const existing = await db.emissionFactor.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Emission factor not found' },
+        { status: 404 }
+      );
+    }
+
     const factor = await db.emissionFactor.update({
       where: { id },
       data: validatedData,
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'emission_factor',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: factor,
+    });
+
     return NextResponse.json(factor);
   } catch (error) {
     console.error('Error updating emission factor:', error);
@@ -62,10 +82,17 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params;
-    await db.emissionFactor.delete({
+    const factor = await db.emissionFactor.delete({
       where: { id },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'emission_factor',
+      entityId: id,
+      action: 'delete',
+      before: factor,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting emission factor:', error);
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 
 interface CSVRow {
   name: string;
   category: string;
+  activity_type?: string;
   unit: string;
   year: string;
   source: string;
@@ -116,6 +118,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const auditContext = getAuditContext(request);
     const results = {
       imported: 0,
       skipped: 0,
@@ -144,6 +147,7 @@ export async function POST(request: NextRequest) {
           name: row.name,
           category: validateCategory(row.category),
           categoryOther: row.category.toLowerCase() === 'other' ? row.category : null,
+          activityType: row.activity_type ? row.activity_type.toLowerCase() : null,
           unit: row.unit,
           year,
           source: validateSource(row.source),
@@ -174,14 +178,29 @@ export async function POST(request: NextRequest) {
             continue;
           } else {
             // Update existing
-            await db.emissionFactor.update({
+            const updated = await db.emissionFactor.update({
               where: { id: existing.id },
               data,
             });
+            await recordAudit(auditContext, {
+              entityType: 'emission_factor',
+              entityId: existing.id,
+              action: 'update',
+              before: existing,
+              after: updated,
+              note: `CSV import ${file.name}, row ${rowNum}`,
+            });
             results.imported++;
           }
         } else {
-          await db.emissionFactor.create({ data });
+          const created = await db.emissionFactor.create({ data });
+          await recordAudit(auditContext, {
+            entityType: 'emission_factor',
+            entityId: created.id,
+            action: 'create',
+            after: created,
+            note: `CSV import ${file.name}, row ${rowNum}`,
+          });
           results.imported++;
         }
       } catch (error) {
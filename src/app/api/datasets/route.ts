@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { emissionFactorSchema } from '@/lib/validations/emission-factor';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 
 // GET all emission factors
 export async function GET(request: NextRequest) {
@@ -55,6 +56,13 @@ export async function POST(request: NextRequest) {
       data: validatedData,
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'emission_factor',
+      entityId: factor.id,
+      action: 'create',
+      after: factor,
+    });
+
     return NextResponse.json(factor, { status: 201 });
   } catch (error) {
     console.error('Error creating emission factor:', error);
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { updateEnergyUsageSchema } from '@/lib/validations/energy';
+import {
+  findRecordPeriodLock,
+  findUpdatePeriodLock,
+  describePeriodLock,
+} from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 
 export async function GET(
   request: NextRequest,
@@ -55,6 +62,32 @@ export async function PUT(
 
     const { id: _id, ...data } = result.data;
 
+    const before = await db.energyUsage.findUnique({
+      where: { id },
+    });
+
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Energy usage not found' },
+        { status: 404 }
+      );
+    }
+
+    const newStart = data.periodStart ?? data.periodEnd;
+    const newEnd = data.periodEnd ?? data.periodStart;
+    const periodLock =
+      (await findUpdatePeriodLock(
+        'energy_usage',
+        id,
+        newStart && newEnd ? [{ dates: [{ start: newStart, end: newEnd }] }] : []
+      )) ??
+      (data.productionBatchId
+        ? await findRecordPeriodLock('production_batch', data.productionBatchId)
+        : null);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     const energyUsage = await db.energyUsage.update({
       where: { id },
       data,
@@ -63,6 +96,14 @@ export async function PUT(
       },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'energy_usage',
+      entityId: id,
+      action: 'update',
+      before,
+      after: energyUsage,
+    });
+
     return NextResponse.json(energyUsage);
   } catch (error) {
     console.error('Error updating energy usage:', error);
@@ -83,7 +124,6 @@ export async function DELETE(
     // Check if record exists before attempting delete
     const existing = await db.energyUsage.findUnique({
       where: { id },
-      select: { id: true },
     });
 
     if (!existing) {
@@ -93,10 +133,22 @@ export async function DELETE(
       );
     }
 
+    const periodLock = await findRecordPeriodLock('energy_usage', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     await db.energyUsage.delete({
       where: { id },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'energy_usage',
+      entityId: id,
+      action: 'delete',
+      before: existing,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting energy usage:', error);
@@ -1,13 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { createEnergyUsageSchema } from '@/lib/validations/energy';
+import {
+  findPeriodLock,
+  findRecordPeriodLock,
+  describePeriodLock,
+} from '@/lib/services/period-lock';
 import {
   parsePaginationParams,
   calculateSkip,
   createPaginatedResponse,
+  errorResponse,
   serverErrorResponse,
   validationErrorResponse,
 } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 
 export async function GET(request: NextRequest) {
   try {
@@ -46,6 +53,15 @@ export async function POST(request: NextRequest) {
       return validationErrorResponse(result.error.issues);
     }
 
+    const periodLock =
+      (await findPeriodLock({ dates: [{ start: result.data.periodStart, end: result.data.periodEnd }] })) ??
+      (result.data.productionBatchId
+        ? await findRecordPeriodLock('production_batch', result.data.productionBatchId)
+        : null);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     const energyUsage = await db.energyUsage.create({
       data: result.data,
       include: {
@@ -53,6 +69,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'energy_usage',
+      entityId: energyUsage.id,
+      action: 'create',
+      after: energyUsage,
+    });
+
     return NextResponse.json(energyUsage, { status: 201 });
   } catch (error) {
     console.error('Error creating energy usage:', error);
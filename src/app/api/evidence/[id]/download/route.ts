@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { openEvidenceFile } from '@/lib/services/evidence-storage';
+
+/**
+ * Stream an evidence file from storage
+ *
+ * Not listed in PUBLIC_PATHS, so the middleware requires credentials.
+ * The stored SHA-256 is returned as the ETag and X-Content-SHA256 header.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const evidence = await db.evidenceFile.findUnique({
+      where: { id },
+    });
+
+    if (!evidence) {
+      return NextResponse.json({ error: 'Evidence file not found' }, { status: 404 });
+    }
+
+    if (evidence.sha256 && request.headers.get('If-None-Match') === `"${evidence.sha256}"`) {
+      return new NextResponse(null, { status: 304 });
+    }
+
+    const stream = await openEvidenceFile(evidence);
+
+    if (!stream) {
+      return NextResponse.json(
+        { error: 'No stored content for this evidence file' },
+        { status: 404 }
+      );
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': evidence.mimeType,
+      'Content-Length': String(evidence.fileSize),
+      'Content-Disposition': `${request.nextUrl.searchParams.get('inline') === 'true' ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(evidence.fileName)}`,
+      'Cache-Control': 'private, no-store',
+    };
+    if (evidence.sha256) {
+      headers.ETag = `"${evidence.sha256}"`;
+      headers['X-Content-SHA256'] = evidence.sha256;
+    }
+
+    return new NextResponse(stream, { headers });
+  } catch (error) {
+    console.error('Error downloading evidence file:', error);
+    return NextResponse.json({ error: 'Failed to download evidence file' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { deleteEvidenceFile } from '@/lib/services/evidence-storage';
+import { findEvidenceLinksPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const evidence = await db.evidenceFile.findUnique({
+      where: { id },
+    });
+
+    if (!evidence) {
+      return NextResponse.json({ error: 'Evidence file not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(evidence);
+  } catch (error) {
+    console.error('Error fetching evidence file:', error);
+    return NextResponse.json({ error: 'Failed to fetch evidence file' }, { status: 500 });
+  }
+}
+
+/**
+ * Evidence can still be added to records in a locked period (e.g. at the
+ * verifier's request), but not removed from them.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const evidence = await db.evidenceFile.findUnique({
+      where: { id },
+    });
+
+    if (!evidence) {
+      return NextResponse.json({ error: 'Evidence file not found' }, { status: 404 });
+    }
+
+    const periodLock = await findEvidenceLinksPeriodLock(evidence);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
+    const deleted = await deleteEvidenceFile(id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Evidence file not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting evidence file:', error);
+    return NextResponse.json({ error: 'Failed to delete evidence file' }, { status: 500 });
+  }
+}
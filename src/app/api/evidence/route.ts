@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import {
+  ACCEPTED_EVIDENCE_MIME_TYPES,
+  EVIDENCE_LINK_FIELDS,
+  MAX_FILE_SIZE,
+  evidenceUploadSchema,
+  type EvidenceLinks,
+} from '@/lib/validations/evidence';
+import { findMissingEvidenceLinks, storeEvidenceFile } from '@/lib/services/evidence-storage';
+
+// GET evidence files linked to a record, e.g. ?productionBatchId=...
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const where: Record<string, string> = {};
+    for (const field of EVIDENCE_LINK_FIELDS) {
+      const value = searchParams.get(field);
+      if (value) where[field] = value;
+    }
+
+    if (Object.keys(where).length === 0) {
+      return NextResponse.json(
+        { error: `Filter by one of: ${EVIDENCE_LINK_FIELDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const files = await db.evidenceFile.findMany({
+      where,
+      orderBy: { uploadedAt: 'desc' },
+    });
+
+    return NextResponse.json(files);
+  } catch (error) {
+    console.error('Error fetching evidence files:', error);
+    return NextResponse.json({ error: 'Failed to fetch evidence files' }, { status: 500 });
+  }
+}
+
+// POST multipart upload: one or more "file" parts plus category and record link fields
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+
+    const fields: Record<string, string> = {};
+    for (const [key, value] of formData.entries()) {
+      if (typeof value === 'string' && value !== '') fields[key] = value;
+    }
+
+    const result = evidenceUploadSchema.safeParse(fields);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', issues: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { category, description, ...linkFields } = result.data;
+    const links: EvidenceLinks = Object.fromEntries(
+      EVIDENCE_LINK_FIELDS.filter((field) => linkFields[field]).map((field) => [field, linkFields[field]])
+    );
+
+    const files = formData.getAll('file').filter((f): f is File => typeof f !== 'string');
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+
+    for (const file of files) {
+      if (!ACCEPTED_EVIDENCE_MIME_TYPES.includes(file.type)) {
+        return NextResponse.json(
+          { error: `File type "${file.type}" is not supported for ${file.name}` },
+          { status: 400 }
+        );
+      }
+      if (file.size > MAX_FILE_SIZE) {
+        return NextResponse.json(
+          { error: `File ${file.name} exceeds the maximum size of 10MB` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const missing = await findMissingEvidenceLinks(links);
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: 'Linked record not found', fields: missing },
+        { status: 404 }
+      );
+    }
+
+    const stored = [];
+    for (const file of files) {
+      stored.push(
+        await storeEvidenceFile({
+          bytes: Buffer.from(await file.arrayBuffer()),
+          fileName: file.name,
+          mimeType: file.type,
+          category,
+          description,
+          links,
+        })
+      );
+    }
+
+    return NextResponse.json(
+      {
+        files: stored.map((s) => ({ ...s.evidence, deduplicated: s.deduplicated })),
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error uploading evidence file:', error);
+    return NextResponse.json({ error: 'Failed to upload evidence file' }, { status: 500 });
+  }
+}
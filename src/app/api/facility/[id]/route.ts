@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { updateFacilitySchema } from '@/lib/validations/facility';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { refreshFacilityTemperatureProfiles } from '@/lib/services/temperature-log';
 
 /**
  * GET /api/facility/[id]
@@ -82,11 +84,37 @@ export async function PUT(
 
     const { id: _id, ...updateData } = result.data;
 
+    const existing = await db.facility.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Facility not found' },
+        { status: 404 }
+      );
+    }
+
     const facility = await db.facility.update({
       where: { id },
       data: updateData,
     });
 
+    if (
+      facility.pyrolysisMinTemperatureC !== existing.pyrolysisMinTemperatureC ||
+      facility.temperatureMaxGapSeconds !== existing.temperatureMaxGapSeconds
+    ) {
+      await refreshFacilityTemperatureProfiles(id);
+    }
+
+    await recordAudit(getAuditContext(request), {
+      entityType: 'facility',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: facility,
+    });
+
     return NextResponse.json(facility);
   } catch (error) {
     console.error('Error updating facility:', error);
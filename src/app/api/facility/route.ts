@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { createFacilitySchema } from '@/lib/validations/facility';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 
 /**
  * GET /api/facility
@@ -67,6 +68,13 @@ export async function POST(request: NextRequest) {
       data: result.data,
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'facility',
+      entityId: facility.id,
+      action: 'create',
+      after: facility,
+    });
+
     return NextResponse.json(facility, { status: 201 });
   } catch (error) {
     console.error('Error creating facility:', error);
@@ -2,6 +2,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { updateFeedstockDeliverySchema } from '@/lib/validations/feedstock';
 import { calculateFeedstockRoute } from '@/lib/services/routing';
+import {
+  findRecordPeriodLock,
+  findUpdatePeriodLock,
+  describePeriodLock,
+} from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 
 export async function GET(
   request: NextRequest,
@@ -62,7 +69,6 @@ export async function PUT(
     // Check if record exists before attempting update
     const existing = await db.feedstockDelivery.findUnique({
       where: { id },
-      select: { sourceLat: true, sourceLng: true },
     });
 
     if (!existing) {
@@ -72,6 +78,11 @@ export async function PUT(
       );
     }
 
+    const periodLock = await findUpdatePeriodLock('feedstock_delivery', id, data.date ? [{ dates: [data.date] }] : []);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     // Check if coordinates are changing
     const coordsChanged =
       data.sourceLat !== existing.sourceLat || data.sourceLng !== existing.sourceLng;
@@ -90,6 +101,14 @@ export async function PUT(
       },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'feedstock_delivery',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: feedstock,
+    });
+
     // Fire-and-forget: recalculate route if coordinates changed
     if (coordsChanged && feedstock.sourceLat && feedstock.sourceLng) {
       calculateFeedstockRoute(feedstock.id).catch((err) =>
@@ -117,7 +136,6 @@ export async function DELETE(
     // Check if record exists before attempting delete
     const existing = await db.feedstockDelivery.findUnique({
       where: { id },
-      select: { id: true },
     });
 
     if (!existing) {
@@ -127,10 +145,22 @@ export async function DELETE(
       );
     }
 
+    const periodLock = await findRecordPeriodLock('feedstock_delivery', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     await db.feedstockDelivery.delete({
       where: { id },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'feedstock_delivery',
+      entityId: id,
+      action: 'delete',
+      before: existing,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting feedstock:', error);
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
-import { writeFile, mkdir } from 'fs/promises';
-import { existsSync } from 'fs';
-import path from 'path';
+import { storeEvidenceFile } from '@/lib/services/evidence-storage';
+import { findRecordPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 
 export async function POST(
   request: NextRequest,
@@ -14,13 +15,17 @@ export async function POST(
     // Verify feedstock delivery exists
     const feedstock = await db.feedstockDelivery.findUnique({
       where: { id },
-      select: { id: true },
     });
 
     if (!feedstock) {
       return NextResponse.json({ error: 'Feedstock delivery not found' }, { status: 404 });
     }
 
+    const periodLock = await findRecordPeriodLock('feedstock_delivery', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     const formData = await request.formData();
     const file = formData.get('photo') as File | null;
 
@@ -46,25 +51,19 @@ export async function POST(
       );
     }
 
-    // Create uploads directory if it doesn't exist
-    const uploadDir = path.join(process.cwd(), 'public', 'uploads', 'truck-photos');
-    if (!existsSync(uploadDir)) {
-      await mkdir(uploadDir, { recursive: true });
-    }
-
-    // Generate unique filename
-    const ext = file.name.split('.').pop() || 'jpg';
-    const filename = `${id}-${Date.now()}.${ext}`;
-    const filepath = path.join(uploadDir, filename);
-
-    // Save file
-    const bytes = await file.arrayBuffer();
-    const buffer = Buffer.from(bytes);
-    await writeFile(filepath, buffer);
+    // Kept as weight-in evidence of the delivery, so the photo is hashed and
+    // stored like any other evidence and only served to signed-in users
+    const { evidence } = await storeEvidenceFile({
+      bytes: Buffer.from(await file.arrayBuffer()),
+      fileName: file.name || `truck-photo-${id}`,
+      mimeType: file.type,
+      category: 'weight_in',
+      description: 'Truck photo',
+      links: { feedstockDeliveryId: id },
+    });
 
-    // Update database with photo URL
-    const photoUrl = `/uploads/truck-photos/${filename}`;
-    await db.feedstockDelivery.update({
+    const photoUrl = `/api/evidence/${evidence.id}/download?inline=true`;
+    const updated = await db.feedstockDelivery.update({
       where: { id },
       data: {
         truckPhotoUrl: photoUrl,
@@ -72,6 +71,14 @@ export async function POST(
       },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'feedstock_delivery',
+      entityId: id,
+      action: 'update',
+      before: feedstock,
+      after: updated,
+    });
+
     return NextResponse.json({
       success: true,
       photoUrl,
@@ -89,8 +96,21 @@ export async function DELETE(
   try {
     const { id } = await params;
 
-    // Clear the photo URL from database
-    await db.feedstockDelivery.update({
+    const existing = await db.feedstockDelivery.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Feedstock delivery not found' }, { status: 404 });
+    }
+
+    const periodLock = await findRecordPeriodLock('feedstock_delivery', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
+    // Clear the photo URL; the photo itself stays in the delivery's evidence
+    const updated = await db.feedstockDelivery.update({
       where: { id },
       data: {
         truckPhotoUrl: null,
@@ -98,6 +118,14 @@ export async function DELETE(
       },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'feedstock_delivery',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: updated,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting truck photo:', error);
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getFeedstockAllocationReport } from '@/lib/services/feedstock-allocation';
+
+// GET feedstock deliveries that are over-allocated or never consumed
+export async function GET() {
+  try {
+    const report = await getFeedstockAllocationReport();
+
+    return NextResponse.json({
+      overAllocatedCount: report.overAllocated.length,
+      unconsumedCount: report.unconsumed.length,
+      ...report,
+    });
+  } catch (error) {
+    console.error('Error building feedstock allocation report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build feedstock allocation report' },
+      { status: 500 }
+    );
+  }
+}
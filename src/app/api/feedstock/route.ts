@@ -2,11 +2,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { createFeedstockDeliverySchema } from '@/lib/validations/feedstock';
 import { calculateFeedstockRoute } from '@/lib/services/routing';
+import { findPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 import { mapFeedstockToPuroCategory, PURO_BIOMASS_CATEGORIES } from '@/lib/validations/puro-categories';
 import {
   parsePaginationParams,
   calculateSkip,
   createPaginatedResponse,
+  errorResponse,
   serverErrorResponse,
   validationErrorResponse,
 } from '@/lib/api-utils';
@@ -65,6 +68,11 @@ export async function POST(request: NextRequest) {
       return validationErrorResponse(result.error.issues);
     }
 
+    const periodLock = await findPeriodLock({ dates: [result.data.date] });
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     // Auto-map Puro category from feedstock type if not provided
     const puroCategory = body.puroCategory || mapFeedstockToPuroCategory(result.data.feedstockType);
     const puroCategoryInfo = puroCategory
@@ -83,6 +91,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'feedstock_delivery',
+      entityId: feedstock.id,
+      action: 'create',
+      after: feedstock,
+    });
+
     // Fire-and-forget: calculate route if coordinates exist
     if (feedstock.sourceLat && feedstock.sourceLng) {
       calculateFeedstockRoute(feedstock.id).catch((err) =>
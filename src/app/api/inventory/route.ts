@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBiocharInventory, summarizeStockByLocation } from '@/lib/services/biochar-inventory';
+
+// GET biochar inventory ledger per production batch and stock by location
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const productionBatchId = searchParams.get('productionBatchId');
+    const asOfParam = searchParams.get('asOf');
+
+    const asOf = asOfParam ? new Date(asOfParam) : new Date();
+    if (isNaN(asOf.getTime())) {
+      return NextResponse.json({ error: 'Invalid asOf date' }, { status: 400 });
+    }
+
+    const batches = await getBiocharInventory({
+      productionBatchIds: productionBatchId ? [productionBatchId] : undefined,
+      asOf,
+    });
+
+    const totals = batches.reduce(
+      (acc, b) => ({
+        producedTonnes: acc.producedTonnes + b.producedTonnes,
+        storedTonnes: acc.storedTonnes + b.storedTonnes,
+        deliveredTonnes: acc.deliveredTonnes + b.deliveredTonnes,
+        remainingTonnes: acc.remainingTonnes + b.remainingTonnes,
+        overAllocatedTonnes: acc.overAllocatedTonnes + b.overAllocatedTonnes,
+      }),
+      { producedTonnes: 0, storedTonnes: 0, deliveredTonnes: 0, remainingTonnes: 0, overAllocatedTonnes: 0 }
+    );
+
+    return NextResponse.json({
+      asOf,
+      totals,
+      byLocation: summarizeStockByLocation(batches),
+      batches,
+    });
+  } catch (error) {
+    console.error('Error fetching biochar inventory:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch biochar inventory' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { updateLeakageAssessmentSchema, calculateTotalLeakage } from '@/lib/validations/leakage-assessment';
+import {
+  findRecordPeriodLock,
+  findUpdatePeriodLock,
+  describePeriodLock,
+} from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
 
 /**
  * GET /api/leakage-assessment/[id]
@@ -87,6 +93,17 @@ export async function PUT(
 
     const { id: _id, ...updateData } = result.data;
 
+    // Refuse edits to an assessment in a locked period, or moving one into it
+    const periodLock = await findUpdatePeriodLock('leakage_assessment', id, [
+      {
+        facilityId: updateData.facilityId ?? existing.facilityId,
+        dates: [updateData.assessmentDate ?? existing.assessmentDate],
+      },
+    ]);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     const assessment = await db.leakageAssessment.update({
       where: { id },
       data: updateData,
@@ -128,6 +145,11 @@ export async function DELETE(
       );
     }
 
+    const periodLock = await findRecordPeriodLock('leakage_assessment', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     await db.leakageAssessment.delete({
       where: { id },
     });
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { createLeakageAssessmentSchema, calculateTotalLeakage } from '@/lib/validations/leakage-assessment';
+import { findPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
 import {
   parsePaginationParams,
   calculateSkip,
   createPaginatedResponse,
+  errorResponse,
   serverErrorResponse,
   notFoundResponse,
   validationErrorResponse,
@@ -91,6 +93,14 @@ export async function POST(request: NextRequest) {
       return notFoundResponse('Facility');
     }
 
+    const periodLock = await findPeriodLock({
+      facilityId: result.data.facilityId,
+      dates: [result.data.assessmentDate],
+    });
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     const assessment = await db.leakageAssessment.create({
       data: result.data,
       include: {
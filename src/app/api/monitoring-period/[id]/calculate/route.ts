@@ -1,17 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
 import db from '@/lib/db';
 import {
-  calculateCORCs,
-  validateCORCInput,
-  getCORCCalculationBreakdown,
+  aggregateStorageLines,
   createDefaultEProjectInput,
   createDefaultLeakageInput,
+  compareMethodologies,
+  getMethodology,
+  GWP_SETS,
+  CALCULATION_MODES,
 } from '@/lib/corc';
-import type { CORCCalculationInput } from '@/lib/corc';
+import type { CORCCalculationInput, CalculationMode, CarbonStorageLineInput, GwpSetId } from '@/lib/corc';
+import { loadEmissionFactorResolver } from '@/lib/services/emission-factors';
+import { hashSourceRecords } from '@/lib/services/calculation-runs';
+import { isPeriodWriteLocked } from '@/lib/services/period-lock';
+import { findBatchConflicts } from '@/lib/services/corc-sources';
+import {
+  summarizeLabCampaigns,
+  currentLabCampaign,
+  LAB_TEST_CAMPAIGN_SELECT,
+  SAMPLING_CAMPAIGN_SELECT,
+} from '@/lib/services/lab-campaigns';
+import type { CampaignSummary } from '@/lib/services/lab-campaigns';
+import {
+  resolveBatchCalculationData,
+  summarizeDataGaps,
+  describeDataGaps,
+  CALCULATION_DATA_MODES,
+} from '@/lib/services/data-completeness';
+import type { BatchDataGap, CalculationDataMode } from '@/lib/services/data-completeness';
+import { estimateBatchStackEmissions, STACK_EMISSION_SAMPLE_SELECT } from '@/lib/services/stack-emissions';
+import type { BatchStackEmissions } from '@/lib/services/stack-emissions';
+import { errorResponse } from '@/lib/api-utils';
+import { TRANSPORT_FUEL_TYPES } from '@/lib/validations/transport';
 
 /**
  * POST /api/monitoring-period/[id]/calculate
  * Run CORC calculation for a monitoring period
+ *
+ * Energy, fuel and transport emissions are priced with the active
+ * EmissionFactor records; the response lists the factor applied to each line.
+ * Lines that fell back to a methodology default are listed as
+ * `emissionFactorGaps`; a line whose unit no default covers blocks a strict
+ * calculation (422).
+ * Saved runs are also stored as an immutable CalculationRun snapshot; the
+ * batches and events it records are the ones an issuance from it links to.
+ *
+ * In the default strict data mode a batch missing lab results, dry mass,
+ * moisture or feedstock allocation blocks the calculation (422 with the
+ * gaps). The estimate mode fills gaps with placeholders and labels the
+ * result non-issuable; estimates are never saved.
+ *
+ * The calculation runs under the methodology version the period pins;
+ * `methodologyResults` repeats it side by side with the results under the
+ * further versions the period is registered with (e.g. Verra VM0044).
+ * Those are reported and snapshotted but never issued from.
+ * Gases are converted to CO2e under the facility's GWP basis (the
+ * methodology's default when unset); `gwpSet` in the body recalculates the
+ * period under another basis.
  */
 export async function POST(
   request: NextRequest,
@@ -20,7 +66,32 @@ export async function POST(
   try {
     const { id } = await params;
     const body = await request.json();
-    const { saveResult = true, meanSoilTempCOverride, returnFullBreakdown = false } = body;
+    const {
+      saveResult = true,
+      meanSoilTempCOverride,
+      returnFullBreakdown = false,
+      calculationMode = 'aggregated',
+      dataMode = 'strict',
+      gwpSet: gwpSetOverride,
+    } = body as {
+      saveResult?: boolean;
+      meanSoilTempCOverride?: number;
+      returnFullBreakdown?: boolean;
+      calculationMode?: CalculationMode;
+      dataMode?: CalculationDataMode;
+      gwpSet?: GwpSetId;
+    };
+
+    if (!CALCULATION_MODES.includes(calculationMode)) {
+      return errorResponse(`Unknown calculation mode: ${calculationMode}`, 400, 'BAD_REQUEST');
+    }
+    if (!CALCULATION_DATA_MODES.some((m) => m.value === dataMode)) {
+      return errorResponse(`Unknown data mode: ${dataMode}`, 400, 'BAD_REQUEST');
+    }
+    if (gwpSetOverride !== undefined && !(gwpSetOverride in GWP_SETS)) {
+      return errorResponse(`Unknown GWP set: ${gwpSetOverride}`, 400, 'BAD_REQUEST');
+    }
+    const persist = saveResult && dataMode === 'strict';
 
     // Get monitoring period with facility
     const monitoringPeriod = await db.monitoringPeriod.findUnique({
@@ -37,6 +108,24 @@ export async function POST(
       );
     }
 
+    const methodology = getMethodology(monitoringPeriod.methodologyVersion);
+    if (!methodology) {
+      return errorResponse(
+        `Monitoring period is pinned to methodology version ${monitoringPeriod.methodologyVersion}, which is not registered`,
+        422,
+        'UNKNOWN_METHODOLOGY_VERSION'
+      );
+    }
+
+    // A closed or verified period keeps the results it was closed with
+    if (persist && await isPeriodWriteLocked(monitoringPeriod)) {
+      return errorResponse(
+        `Cannot save a calculation for a ${monitoringPeriod.status} monitoring period without an unlock`,
+        423,
+        'PERIOD_LOCKED'
+      );
+    }
+
     // Get all production batches within this period
     const productionBatches = await db.productionBatch.findMany({
       where: {
@@ -48,10 +137,9 @@ export async function POST(
         status: 'complete',
       },
       include: {
-        labTests: {
-          orderBy: { testDate: 'desc' },
-          take: 1, // Most recent lab test
-        },
+        labTests: { select: LAB_TEST_CAMPAIGN_SELECT },
+        samplingCampaigns: { select: SAMPLING_CAMPAIGN_SELECT },
+        stackEmissionSamples: { select: STACK_EMISSION_SAMPLE_SELECT },
         feedstockAllocations: {
           include: {
             feedstockDelivery: true,
@@ -68,20 +156,33 @@ export async function POST(
       );
     }
 
-    // Get sequestration events within this period with batch quantities
+    // Get sequestration events of this facility's biochar within this
+    // period with batch quantities
     const sequestrationEvents = await db.sequestrationEvent.findMany({
       where: {
         finalDeliveryDate: {
           gte: monitoringPeriod.periodStart,
           lte: monitoringPeriod.periodEnd,
         },
+        batches: { some: { productionBatch: { facilityId: monitoringPeriod.facilityId } } },
       },
       include: {
         batches: {
           select: {
+            productionBatchId: true,
             quantityTonnes: true,
           },
         },
+        transportEvents: {
+          select: {
+            id: true,
+            date: true,
+            fuelType: true,
+            fuelTypeOther: true,
+            fuelUnit: true,
+            fuelAmount: true,
+          },
+        },
       },
     });
 
@@ -91,6 +192,12 @@ export async function POST(
       orderBy: { assessmentDate: 'desc' },
     });
 
+    const gwpSet = gwpSetOverride ?? (monitoringPeriod.facility.gwpSet as GwpSetId | null) ?? methodology.rules.defaultGwpSet;
+
+    // Active emission factors from the /datasets table, priced under the GWP basis
+    const factorResolver = await loadEmissionFactorResolver(GWP_SETS[gwpSet]);
+    const region = monitoringPeriod.facility.country;
+
     // Aggregate production data
     let totalBiocharDryMassTonnes = 0;
     let weightedOrganicCarbonPercent = 0;
@@ -99,43 +206,107 @@ export async function POST(
     let totalProductionEnergyKgCO2e = 0;
     let totalStackCH4Kg = 0;
     let totalStackN2OKg = 0;
+    const batchQuality = new Map<string, { organicCarbon: number; hydrogen: number; dryMassFraction: number; serialNumber: number }>();
+    const labQuality: Array<{ productionBatchId: string; batchSerialNumber: number; campaign: CampaignSummary | null }> = [];
+    const labWarnings: string[] = [];
+    const dataGaps: BatchDataGap[] = [];
+    const stackEmissions: Array<{ productionBatchId: string; batchSerialNumber: number } & BatchStackEmissions> = [];
+    const stackWarnings: string[] = [];
 
     for (const batch of productionBatches) {
-      const dryMass = batch.dryMassTonnes ?? batch.outputBiocharWeightTonnes;
+      // Quality parameters from the current sampling campaign: the lower
+      // confidence bound of C_org and the mean H across its replicates
+      const campaigns = summarizeLabCampaigns(batch.samplingCampaigns, batch.labTests);
+      const campaign = currentLabCampaign(campaigns);
+      const {
+        dryMassTonnes: dryMass,
+        organicCarbonPercent: organicCarbon,
+        hydrogenPercent: hydrogen,
+        gaps,
+      } = resolveBatchCalculationData({ ...batch, labTestCount: batch.labTests.length, labCampaign: campaign });
+      dataGaps.push(...gaps);
       totalBiocharDryMassTonnes += dryMass;
 
-      // Get quality parameters from lab test or batch
-      const labTest = batch.labTests[0];
-      const organicCarbon = labTest?.organicCarbonPercent ?? batch.organicCarbonPercent ?? 80;
-      const hydrogen = labTest?.hydrogenPercent ?? batch.hydrogenPercent ?? 2;
+      labQuality.push({ productionBatchId: batch.id, batchSerialNumber: batch.serialNumber, campaign });
+      // The latest campaign's problems explain why an older one is in use
+      const reported = new Set([campaigns[0], campaign].filter((c): c is CampaignSummary => c !== null && c !== undefined));
+      for (const warning of [...reported].flatMap((c) => c.warnings)) {
+        labWarnings.push(`Production batch #${batch.serialNumber}: ${warning}`);
+      }
 
       weightedOrganicCarbonPercent += organicCarbon * dryMass;
       weightedHydrogenPercent += hydrogen * dryMass;
 
-      // Sum stack emissions
-      totalStackCH4Kg += batch.ch4EmissionsKg ?? 0;
-      totalStackN2OKg += batch.n2oEmissionsKg ?? 0;
+      batchQuality.set(batch.id, {
+        organicCarbon,
+        hydrogen,
+        // Sequestered quantities are recorded as delivered weight
+        dryMassFraction: batch.outputBiocharWeightTonnes > 0 ? dryMass / batch.outputBiocharWeightTonnes : 1,
+        serialNumber: batch.serialNumber,
+      });
+
+      // Stack emissions from CEMS or spot samples, the entered value, or
+      // the default factor, in that order
+      const stack = estimateBatchStackEmissions(batch, dryMass);
+      stackEmissions.push({ productionBatchId: batch.id, batchSerialNumber: batch.serialNumber, ...stack });
+      totalStackCH4Kg += stack.CH4.kg;
+      totalStackN2OKg += stack.N2O.kg;
+      for (const estimate of [stack.CH4, stack.N2O].filter((e) => e.source === 'default')) {
+        stackWarnings.push(
+          `Production batch #${batch.serialNumber}: no ${estimate.gas} stack measurement, default factor used (${estimate.kg.toFixed(2)} kg)`
+        );
+      }
 
-      // Sum feedstock transport emissions
+      // Sum feedstock transport emissions (tonne-km x road freight factor)
       for (const allocation of batch.feedstockAllocations) {
         const delivery = allocation.feedstockDelivery;
-        // Estimate transport emissions: distance * weight * emission factor
-        const transportEmissions = (delivery.deliveryDistanceKm ?? 0) *
-          (allocation.weightUsedTonnes ?? 0) * 0.1; // 0.1 kg CO2e per tonne-km estimate
-        totalBiomassEmissionsKgCO2e += transportEmissions;
+        const line = factorResolver.applyLine(
+          {
+            lineType: 'feedstock_transport',
+            recordType: 'feedstock_delivery',
+            recordId: delivery.id,
+            description: `Feedstock delivery #${delivery.serialNumber} to batch #${batch.serialNumber}`,
+            quantity: (delivery.deliveryDistanceKm ?? 0) * (allocation.weightUsedTonnes ?? 0),
+            unit: 'tkm',
+          },
+          { category: 'transport', activityType: 'road_freight', unit: 'tkm', year: delivery.date.getFullYear(), region }
+        );
+        totalBiomassEmissionsKgCO2e += line.kgCO2e;
       }
 
-      // Sum energy usage emissions (estimate based on energy type and quantity)
+      // Sum energy usage emissions
       for (const energy of batch.energyUsages) {
-        // Simple emission factor estimation: electricity ~0.5 kg CO2e/kWh, diesel ~2.7 kg CO2e/L
-        let emissionFactor = 0.5; // default for electricity
-        if (energy.energyType === 'diesel') emissionFactor = 2.7;
-        else if (energy.energyType === 'gas') emissionFactor = 2.0;
-        else if (energy.energyType === 'propane') emissionFactor = 1.5;
-        totalProductionEnergyKgCO2e += energy.quantity * emissionFactor;
+        const activityType = energy.energyType === 'other'
+          ? energy.energyTypeOther ?? 'other'
+          : energy.energyType;
+        const line = factorResolver.applyLine(
+          {
+            lineType: 'energy',
+            recordType: 'energy_usage',
+            recordId: energy.id,
+            description: `${activityType} for batch #${batch.serialNumber}`,
+            quantity: energy.quantity,
+            unit: energy.unit,
+          },
+          {
+            category: energy.energyType === 'electricity' ? 'electricity' : 'fuel',
+            activityType,
+            unit: energy.unit,
+            year: energy.periodStart.getFullYear(),
+            region,
+          },
+          energy.energyType
+        );
+        totalProductionEnergyKgCO2e += line.kgCO2e;
       }
     }
 
+    // Strict calculations only run on measured data
+    const dataCompleteness = summarizeDataGaps(productionBatches.length, dataGaps);
+    if (dataMode === 'strict' && !dataCompleteness.complete) {
+      return errorResponse(describeDataGaps(dataCompleteness), 422, 'DATA_INCOMPLETE', dataCompleteness);
+    }
+
     // Guard against division by zero
     if (totalBiocharDryMassTonnes === 0) {
       return NextResponse.json(
@@ -160,12 +331,80 @@ export async function POST(
     }
 
     // Calculate end-use emissions (transport to sequestration sites)
+    // Metered fuel on linked transport events takes precedence, then road
+    // distance x tonnes, then a per-tonne default when neither is recorded.
     let totalEndUseTransportKgCO2e = 0;
     for (const event of sequestrationEvents) {
-      // Sum quantity from batches
       const totalQuantity = event.batches.reduce((sum, b) => sum + b.quantityTonnes, 0);
-      // Estimate based on distance if available
-      totalEndUseTransportKgCO2e += totalQuantity * 10; // 10 kg CO2e per tonne estimate
+      const fuelledTransports = event.transportEvents.filter(t => (t.fuelAmount ?? 0) > 0);
+
+      if (fuelledTransports.length > 0) {
+        for (const transport of fuelledTransports) {
+          const fuelType = transport.fuelType === 'other'
+            ? transport.fuelTypeOther ?? 'other'
+            : transport.fuelType ?? 'diesel';
+          const unit = transport.fuelUnit ??
+            TRANSPORT_FUEL_TYPES.find(t => t.value === transport.fuelType)?.unit ??
+            'unit';
+          const line = factorResolver.applyLine(
+            {
+              lineType: 'end_use_transport',
+              recordType: 'transport_event',
+              recordId: transport.id,
+              description: `${fuelType} for delivery to sequestration site`,
+              quantity: transport.fuelAmount ?? 0,
+              unit,
+            },
+            {
+              category: fuelType === 'electricity' ? 'electricity' : 'fuel',
+              activityType: fuelType,
+              unit,
+              year: transport.date.getFullYear(),
+              region,
+            }
+          );
+          totalEndUseTransportKgCO2e += line.kgCO2e;
+        }
+      } else if (event.routeDistanceKm) {
+        const line = factorResolver.applyLine(
+          {
+            lineType: 'end_use_transport',
+            recordType: 'sequestration_event',
+            recordId: event.id,
+            description: `Delivery to ${event.deliveryPostcode}`,
+            quantity: event.routeDistanceKm * totalQuantity,
+            unit: 'tkm',
+          },
+          { category: 'transport', activityType: 'road_freight', unit: 'tkm', year: event.finalDeliveryDate.getFullYear(), region }
+        );
+        totalEndUseTransportKgCO2e += line.kgCO2e;
+      } else {
+        const line = factorResolver.applyLine(
+          {
+            lineType: 'end_use_transport',
+            recordType: 'sequestration_event',
+            recordId: event.id,
+            description: `Delivery to ${event.deliveryPostcode} (no route distance)`,
+            quantity: totalQuantity,
+            unit: 't',
+          },
+          { category: 'transport', activityType: 'end_use_delivery', unit: 't', year: event.finalDeliveryDate.getFullYear(), region }
+        );
+        totalEndUseTransportKgCO2e += line.kgCO2e;
+      }
+    }
+
+    // Lines no factor could price in their unit would understate E_project,
+    // so strict calculations stop until a dataset factor is added
+    const emissionFactorGaps = factorResolver.getFactorGaps();
+    const unpricedLines = emissionFactorGaps.filter((line) => line.unitMismatch);
+    if (dataMode === 'strict' && unpricedLines.length > 0) {
+      return errorResponse(
+        `${unpricedLines.length} emission line(s) have no emission factor for their unit; add a dataset factor or use the estimate mode`,
+        422,
+        'EMISSION_FACTOR_MISSING',
+        unpricedLines
+      );
     }
 
     // Build project emissions input
@@ -213,6 +452,44 @@ export async function POST(
         }
       : createDefaultLeakageInput();
 
+    // Disaggregated mode: one storage line per production batch × sequestration event,
+    // each with its own H/C_org and soil temperature
+    const storageLines: CarbonStorageLineInput[] = [];
+    const excludedSequestrationBatches: { sequestrationEventId: string; productionBatchId: string; quantityTonnes: number }[] = [];
+
+    if (calculationMode === 'disaggregated') {
+      for (const event of sequestrationEvents) {
+        for (const sb of event.batches) {
+          const quality = batchQuality.get(sb.productionBatchId);
+          if (!quality) {
+            // Biochar from a batch outside this period's completed production
+            excludedSequestrationBatches.push({
+              sequestrationEventId: event.id,
+              productionBatchId: sb.productionBatchId,
+              quantityTonnes: sb.quantityTonnes,
+            });
+            continue;
+          }
+          storageLines.push({
+            productionBatchId: sb.productionBatchId,
+            sequestrationEventId: event.id,
+            label: `Batch #${quality.serialNumber} → ${event.deliveryPostcode}`,
+            biocharDryMassTonnes: sb.quantityTonnes * quality.dryMassFraction,
+            organicCarbonPercent: quality.organicCarbon,
+            hydrogenPercent: quality.hydrogen,
+            meanSoilTempC: event.meanAnnualSoilTempC ?? meanSoilTempCOverride ?? 15,
+          });
+        }
+      }
+
+      if (storageLines.length === 0) {
+        return NextResponse.json(
+          { error: 'No sequestered biochar from this period\'s production batches to calculate per event' },
+          { status: 400 }
+        );
+      }
+    }
+
     // Build CORC calculation input
     const calculationInput: CORCCalculationInput = {
       biocharDryMassTonnes: totalBiocharDryMassTonnes,
@@ -223,10 +500,47 @@ export async function POST(
       baselineCarbonStorageTCO2e: 0,
       projectEmissions,
       leakageEmissions: leakageInput,
+      gwpSet,
+      ...(storageLines.length > 0 && {
+        ...aggregateStorageLines(storageLines),
+        storageLines,
+      }),
     };
 
     // Validate input
-    const validation = validateCORCInput(calculationInput);
+    const validation = methodology.validate(calculationInput);
+    validation.warnings.push(...labWarnings, ...stackWarnings);
+    if (dataMode === 'estimate') {
+      validation.warnings.push(
+        'Estimate: placeholder values stand in for missing batch data; this result cannot be saved or issued',
+        ...dataGaps.map((g) => `Production batch #${g.batchSerialNumber}: ${g.message}`)
+      );
+    }
+
+    for (const line of factorResolver.getGwpMismatches()) {
+      validation.warnings.push(
+        `Emission factor "${line.factorName}" lists GWP values other than ${GWP_SETS[gwpSet].name}; ` +
+        (line.derivedFromComponents
+          ? 'its CO2e was re-derived from the gas components'
+          : 'its stored total was used as it has no complete gas breakdown')
+      );
+    }
+
+    for (const line of emissionFactorGaps) {
+      validation.warnings.push(
+        line.unitMismatch
+          ? `${line.description}: no emission factor for ${line.unit} (the default "${line.factorName}" is in ${line.factorUnit}); not priced`
+          : `${line.description}: no dataset emission factor, methodology default "${line.factorName}" used`
+      );
+    }
+
+    // Batches another issuance already holds cannot back one from this run
+    const issuedBatches = await findBatchConflicts(productionBatches.map(b => b.id), null);
+    for (const conflict of issuedBatches) {
+      validation.warnings.push(
+        `Production batch #${conflict.batchSerialNumber} already backs CORC ${conflict.corcSerialNumber}; an issuance from this run will be refused`
+      );
+    }
     if (!validation.isValid) {
       return NextResponse.json(
         {
@@ -238,26 +552,83 @@ export async function POST(
       );
     }
 
-    // Run calculation
+    // Run calculation (the full breakdown is always kept for the snapshot)
+    const fullBreakdown = methodology.calculateWithBreakdown(calculationInput);
     const result = returnFullBreakdown
-      ? getCORCCalculationBreakdown(calculationInput)
-      : { result: calculateCORCs(calculationInput) };
-
-    // Save result to monitoring period if requested
-    if (saveResult) {
-      await db.monitoringPeriod.update({
-        where: { id },
-        data: {
-          cStoredTCO2e: result.result.cStoredTCO2e,
-          cBaselineTCO2e: result.result.cBaselineTCO2e,
-          cLossTCO2e: result.result.cLossTCO2e,
-          persistenceFractionPercent: result.result.persistenceFractionPercent,
-          eProjectTCO2e: result.result.eProjectTCO2e,
-          eLeakageTCO2e: result.result.eLeakageTCO2e,
-          netCORCsTCO2e: result.result.netCORCsTCO2e,
-          calculatedAt: new Date(),
+      ? fullBreakdown
+      : { result: fullBreakdown.result };
+    const methodologyResults = compareMethodologies(calculationInput, [
+      methodology.rules.version,
+      ...monitoringPeriod.additionalMethodologyVersions,
+    ]);
+
+    // Save result to monitoring period and snapshot the run if requested
+    let calculationRunId: string | null = null;
+    if (persist) {
+      const breakdown = {
+        cStoredBreakdown: fullBreakdown.cStoredBreakdown,
+        persistenceBreakdown: fullBreakdown.persistenceBreakdown,
+        projectEmissionsBreakdown: fullBreakdown.projectEmissionsBreakdown,
+        leakageBreakdown: fullBreakdown.leakageBreakdown,
+        formulaSteps: fullBreakdown.formulaSteps,
+        labQuality,
+        stackEmissions,
+        methodologyResults,
+        emissionFactorGaps,
+      };
+      // Only the period's scope goes into the hash; its stored results are
+      // written by this save and would change the hash on every recalculation
+      const sourceHash = hashSourceRecords({
+        monitoringPeriod: {
+          facilityId: monitoringPeriod.facilityId,
+          periodStart: monitoringPeriod.periodStart,
+          periodEnd: monitoringPeriod.periodEnd,
+          methodologyVersion: monitoringPeriod.methodologyVersion,
         },
+        facility: monitoringPeriod.facility,
+        productionBatches,
+        sequestrationEvents,
+        leakageAssessment,
+        gwpSet,
+        emissionFactors: factorResolver.lines.map((line) => ({
+          factorId: line.factorId,
+          factorUnit: line.factorUnit,
+          kgCO2ePerUnit: line.kgCO2ePerUnit,
+        })),
       });
+
+      const [calculationRun] = await db.$transaction([
+        db.calculationRun.create({
+          data: {
+            monitoringPeriodId: id,
+            calculationVersion: fullBreakdown.result.calculationVersion,
+            input: calculationInput as unknown as Prisma.InputJsonValue,
+            result: fullBreakdown.result as unknown as Prisma.InputJsonValue,
+            breakdown: breakdown as unknown as Prisma.InputJsonValue,
+            validationWarnings: validation.warnings,
+            emissionFactorIds: factorResolver.getFactorIdsUsed(),
+            emissionFactorLines: factorResolver.lines as unknown as Prisma.InputJsonValue,
+            productionBatchIds: productionBatches.map(b => b.id),
+            sequestrationEventIds: sequestrationEvents.map(e => e.id),
+            sourceHash,
+            netCORCsTCO2e: fullBreakdown.result.netCORCsTCO2e,
+          },
+        }),
+        db.monitoringPeriod.update({
+          where: { id },
+          data: {
+            cStoredTCO2e: fullBreakdown.result.cStoredTCO2e,
+            cBaselineTCO2e: fullBreakdown.result.cBaselineTCO2e,
+            cLossTCO2e: fullBreakdown.result.cLossTCO2e,
+            persistenceFractionPercent: fullBreakdown.result.persistenceFractionPercent,
+            eProjectTCO2e: fullBreakdown.result.eProjectTCO2e,
+            eLeakageTCO2e: fullBreakdown.result.eLeakageTCO2e,
+            netCORCsTCO2e: fullBreakdown.result.netCORCsTCO2e,
+            calculatedAt: new Date(),
+          },
+        }),
+      ]);
+      calculationRunId = calculationRun.id;
     }
 
     return NextResponse.json({
@@ -266,6 +637,17 @@ export async function POST(
       validation,
       productionBatchCount: productionBatches.length,
       sequestrationEventCount: sequestrationEvents.length,
+      emissionFactorLines: factorResolver.lines,
+      emissionFactorIds: factorResolver.getFactorIdsUsed(),
+      emissionFactorGaps,
+      calculationRunId,
+      excludedSequestrationBatches,
+      labQuality,
+      stackEmissions,
+      methodologyResults,
+      dataMode,
+      issuable: dataMode === 'strict',
+      dataCompleteness,
     });
   } catch (error) {
     console.error('Error calculating CORCs:', error);
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { CURRENT_METHODOLOGY_VERSION, getMethodology } from '@/lib/corc';
+import type { CORCCalculationInput, CORCCalculationResult } from '@/lib/corc';
+
+/**
+ * GET /api/monitoring-period/[id]/calculation-runs/[runId]
+ * Get a calculation snapshot and re-run it from its stored input, under
+ * the methodology version it was calculated with, to confirm the recorded
+ * figures can be reproduced
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; runId: string }> }
+) {
+  try {
+    const { id, runId } = await params;
+
+    const run = await db.calculationRun.findFirst({
+      where: { id: runId, monitoringPeriodId: id },
+      include: {
+        corcIssuances: {
+          select: {
+            id: true,
+            serialNumber: true,
+            status: true,
+            netCORCsTCO2e: true,
+          },
+        },
+      },
+    });
+
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Calculation run not found' },
+        { status: 404 }
+      );
+    }
+
+    const storedResult = run.result as unknown as CORCCalculationResult;
+    let reproducedNetCORCsTCO2e: number | null = null;
+    let reproductionError: string | null = null;
+
+    const methodology = getMethodology(run.calculationVersion);
+    try {
+      if (!methodology) {
+        throw new Error(`Methodology version ${run.calculationVersion} is not registered`);
+      }
+      reproducedNetCORCsTCO2e = methodology.calculate(run.input as unknown as CORCCalculationInput).netCORCsTCO2e;
+    } catch (error) {
+      reproductionError = error instanceof Error ? error.message : String(error);
+    }
+
+    return NextResponse.json({
+      ...run,
+      reproduction: {
+        currentVersion: CURRENT_METHODOLOGY_VERSION,
+        versionMatches: run.calculationVersion === CURRENT_METHODOLOGY_VERSION,
+        storedNetCORCsTCO2e: storedResult.netCORCsTCO2e,
+        reproducedNetCORCsTCO2e,
+        matches: reproducedNetCORCsTCO2e !== null &&
+          Math.abs(reproducedNetCORCsTCO2e - storedResult.netCORCsTCO2e) < 0.000001,
+        error: reproductionError,
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching calculation run:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch calculation run' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+
+/**
+ * GET /api/monitoring-period/[id]/calculation-runs
+ * List the calculation snapshots for a monitoring period, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const runs = await db.calculationRun.findMany({
+      where: { monitoringPeriodId: id },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        calculationVersion: true,
+        netCORCsTCO2e: true,
+        sourceHash: true,
+        validationWarnings: true,
+        emissionFactorIds: true,
+        createdAt: true,
+        _count: {
+          select: { corcIssuances: true },
+        },
+      },
+    });
+
+    return NextResponse.json(runs);
+  } catch (error) {
+    console.error('Error fetching calculation runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch calculation runs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildMonitoringPeriodExport } from '@/lib/services/data-room-export';
+import { errorResponse } from '@/lib/api-utils';
+
+/**
+ * GET /api/monitoring-period/[id]/export
+ * Download the verifier data room for a monitoring period as a ZIP
+ *
+ * Bundles evidence file contents, so it needs the data_room:export
+ * permission (verifiers, MRV managers and admins).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const result = await buildMonitoringPeriodExport(id, request.headers.get('X-User-Email'));
+
+    if (!result) {
+      return NextResponse.json({ error: 'Monitoring period not found' }, { status: 404 });
+    }
+
+    if ('problem' in result) {
+      return errorResponse(result.problem.message, 413, result.problem.code, result.problem);
+    }
+
+    return new NextResponse(new Uint8Array(result.zip), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Length': String(result.zip.length),
+        'Content-Disposition': `attachment; filename="${result.fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting monitoring period:', error);
+    return NextResponse.json({ error: 'Failed to export monitoring period' }, { status: 500 });
+  }
+}
@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
-import { updateMonitoringPeriodSchema } from '@/lib/validations/monitoring-period';
+import { errorResponse, forbiddenResponse } from '@/lib/api-utils';
+import { requestHasPermission } from '@/lib/permissions';
+import { getMethodology } from '@/lib/corc';
+import {
+  updateMonitoringPeriodSchema,
+  isMonitoringPeriodLocked,
+} from '@/lib/validations/monitoring-period';
+import {
+  checkStatusTransition,
+  applyStatusTransition,
+} from '@/lib/services/monitoring-period-lifecycle';
 
 /**
  * GET /api/monitoring-period/[id]
@@ -101,6 +111,11 @@ export async function GET(
 /**
  * PUT /api/monitoring-period/[id]
  * Update a monitoring period
+ *
+ * Status changes go through the lifecycle guards (active → closed → verified,
+ * closed → active with a reason). Other fields of a closed or verified
+ * period cannot be changed, so its methodology version stays the one it
+ * was verified under.
  */
 export async function PUT(
   request: NextRequest,
@@ -119,17 +134,83 @@ export async function PUT(
       );
     }
 
-    const { id: _id, ...updateData } = result.data;
+    const { id: _id, status, reason, ...updateData } = result.data;
+    const changedBy = request.headers.get('X-User-ID');
 
-    const monitoringPeriod = await db.monitoringPeriod.update({
-      where: { id },
-      data: updateData,
-      include: {
-        facility: true,
-      },
+    const unknownVersion = [
+      ...(updateData.methodologyVersion ? [updateData.methodologyVersion] : []),
+      ...(updateData.additionalMethodologyVersions ?? []),
+    ].find((version) => !getMethodology(version));
+    if (unknownVersion) {
+      return errorResponse(`Unknown methodology version: ${unknownVersion}`, 400, 'BAD_REQUEST');
+    }
+
+    // Verifiers may only sign off; every other change is an MRV manager's
+    const permission = status === 'verified' && Object.keys(updateData).length === 0
+      ? 'periods:verify'
+      : 'periods:manage';
+    if (!requestHasPermission(request, permission)) {
+      return forbiddenResponse(`This change needs the ${permission} permission`);
+    }
+
+    const updated = await db.$transaction(async (tx) => {
+      const existing = await tx.monitoringPeriod.findUnique({ where: { id } });
+
+      if (!existing) {
+        return { notFound: true as const };
+      }
+
+      if (Object.keys(updateData).length > 0) {
+        if (isMonitoringPeriodLocked(existing.status)) {
+          return { locked: existing.status };
+        }
+        await tx.monitoringPeriod.update({ where: { id }, data: updateData });
+      }
+
+      if (status && status !== existing.status) {
+        const current = await tx.monitoringPeriod.findUniqueOrThrow({ where: { id } });
+        const transitionProblem = await checkStatusTransition(current, status, reason, tx);
+        if (transitionProblem) {
+          return { transitionProblem };
+        }
+        await applyStatusTransition(current, status, { reason, changedBy }, tx);
+      }
+
+      const monitoringPeriod = await tx.monitoringPeriod.findUnique({
+        where: { id },
+        include: {
+          facility: true,
+        },
+      });
+
+      return { monitoringPeriod };
     });
 
-    return NextResponse.json(monitoringPeriod);
+    if (updated.notFound) {
+      return NextResponse.json(
+        { error: 'Monitoring period not found' },
+        { status: 404 }
+      );
+    }
+
+    if (updated.locked) {
+      return errorResponse(
+        `A ${updated.locked} monitoring period cannot be edited; reopen it first`,
+        423,
+        'PERIOD_LOCKED'
+      );
+    }
+
+    if (updated.transitionProblem) {
+      return errorResponse(
+        updated.transitionProblem.message,
+        400,
+        updated.transitionProblem.code,
+        updated.transitionProblem
+      );
+    }
+
+    return NextResponse.json(updated.monitoringPeriod);
   } catch (error) {
     console.error('Error updating monitoring period:', error);
     return NextResponse.json(
@@ -150,6 +231,26 @@ export async function DELETE(
   try {
     const { id } = await params;
 
+    const existing = await db.monitoringPeriod.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Monitoring period not found' },
+        { status: 404 }
+      );
+    }
+
+    if (isMonitoringPeriodLocked(existing.status)) {
+      return errorResponse(
+        `A ${existing.status} monitoring period cannot be deleted`,
+        423,
+        'PERIOD_LOCKED'
+      );
+    }
+
     // Check if there are any CORCs issued for this period
     const corcCount = await db.cORCIssuance.count({
       where: { monitoringPeriodId: id },
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { errorResponse } from '@/lib/api-utils';
+import {
+  monitoringPeriodUnlockSchema,
+  isMonitoringPeriodLocked,
+} from '@/lib/validations/monitoring-period';
+import { activeUnlockWhere } from '@/lib/services/period-lock';
+
+/**
+ * GET /api/monitoring-period/[id]/unlock
+ * List unlocks recorded for a monitoring period, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const unlocks = await db.monitoringPeriodUnlock.findMany({
+      where: { monitoringPeriodId: id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return NextResponse.json(unlocks);
+  } catch (error) {
+    console.error('Error fetching monitoring period unlocks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch monitoring period unlocks' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/monitoring-period/[id]/unlock
+ * Temporarily lift the write-lock of a closed or verified period
+ *
+ * Body: { reason, durationHours? (default 24, max 168) }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const result = monitoringPeriodUnlockSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', issues: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const period = await db.monitoringPeriod.findUnique({
+      where: { id },
+      select: { status: true },
+    });
+
+    if (!period) {
+      return NextResponse.json(
+        { error: 'Monitoring period not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isMonitoringPeriodLocked(period.status)) {
+      return errorResponse(`An ${period.status} monitoring period is not locked`, 400, 'NOT_LOCKED');
+    }
+
+    const unlock = await db.monitoringPeriodUnlock.create({
+      data: {
+        monitoringPeriodId: id,
+        reason: result.data.reason,
+        unlockedBy: request.headers.get('X-User-ID'),
+        expiresAt: new Date(Date.now() + result.data.durationHours * 60 * 60 * 1000),
+      },
+    });
+
+    return NextResponse.json(unlock, { status: 201 });
+  } catch (error) {
+    console.error('Error unlocking monitoring period:', error);
+    return NextResponse.json(
+      { error: 'Failed to unlock monitoring period' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/monitoring-period/[id]/unlock
+ * Revoke active unlocks, restoring the write-lock immediately
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const { count } = await db.monitoringPeriodUnlock.updateMany({
+      where: { monitoringPeriodId: id, ...activeUnlockWhere() },
+      data: { revokedAt: new Date(), revokedBy: request.headers.get('X-User-ID') },
+    });
+
+    return NextResponse.json({ success: true, revoked: count });
+  } catch (error) {
+    console.error('Error relocking monitoring period:', error);
+    return NextResponse.json(
+      { error: 'Failed to relock monitoring period' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { createMonitoringPeriodSchema } from '@/lib/validations/monitoring-period';
+import { CURRENT_METHODOLOGY_VERSION, getMethodology } from '@/lib/corc';
 import {
   parsePaginationParams,
   calculateSkip,
@@ -85,6 +86,13 @@ export async function POST(request: NextRequest) {
       return validationErrorResponse(result.error.issues);
     }
 
+    const methodologyVersion = result.data.methodologyVersion ?? CURRENT_METHODOLOGY_VERSION;
+    const unknownVersion = [methodologyVersion, ...(result.data.additionalMethodologyVersions ?? [])]
+      .find((version) => !getMethodology(version));
+    if (unknownVersion) {
+      return badRequestResponse(`Unknown methodology version: ${unknownVersion}`);
+    }
+
     // Check for overlapping periods
     const overlapping = await db.monitoringPeriod.findFirst({
       where: {
@@ -103,7 +111,7 @@ export async function POST(request: NextRequest) {
     }
 
     const monitoringPeriod = await db.monitoringPeriod.create({
-      data: result.data,
+      data: { ...result.data, methodologyVersion },
       include: {
         facility: {
           select: {
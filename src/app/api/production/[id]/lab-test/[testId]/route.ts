@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { updateLabTestSchema, calculateLabTestDerivedValues } from '@/lib/validations/lab-test';
+import { findRecordPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { refreshBatchLabQuality } from '@/lib/services/lab-campaigns';
 
 /**
  * GET /api/production/[id]/lab-test/[testId]
@@ -64,6 +68,11 @@ export async function PUT(
       );
     }
 
+    const periodLock = await findRecordPeriodLock('lab_test', testId);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     const result = updateLabTestSchema.safeParse({ ...body, id: testId });
 
     if (!result.success) {
@@ -75,6 +84,21 @@ export async function PUT(
 
     const { id: _id, ...updateData } = result.data;
 
+    if (updateData.campaignId) {
+      const campaign = await db.biocharSamplingCampaign.findFirst({
+        where: { id: updateData.campaignId, productionBatchId: id },
+        select: { id: true },
+      });
+      if (!campaign) {
+        return errorResponse('Sampling campaign not found for this batch', 400, 'INVALID_CAMPAIGN');
+      }
+    }
+
+    // Returning a test to the statistics clears the reason it was excluded
+    if (updateData.excludedFromStatistics === false) {
+      updateData.exclusionReason = null;
+    }
+
     // Recalculate derived values if carbon/hydrogen changed
     let derivedValues = null;
     const totalCarbon = updateData.totalCarbonPercent ?? existing.totalCarbonPercent;
@@ -104,24 +128,15 @@ export async function PUT(
         },
       });
 
-      // Update production batch with quality data if this is the latest test
-      const latestTest = await tx.biocharLabTest.findFirst({
-        where: { productionBatchId: id },
-        orderBy: { testDate: 'desc' },
-      });
+      await refreshBatchLabQuality(id, tx);
 
-      if (latestTest && latestTest.id === testId && derivedValues) {
-        await tx.productionBatch.update({
-          where: { id },
-          data: {
-            totalCarbonPercent: totalCarbon,
-            organicCarbonPercent: derivedValues.organicCarbonPercent,
-            hydrogenPercent: hydrogen,
-            hCorgRatio: derivedValues.hCorgRatio,
-            qualityValidationStatus: derivedValues.passesQualityThreshold ? 'passed' : 'failed',
-          },
-        });
-      }
+      await recordAudit(getAuditContext(request), {
+        entityType: 'lab_test',
+        entityId: testId,
+        action: 'update',
+        before: existing,
+        after: test,
+      }, tx);
 
       return test;
     });
@@ -162,46 +177,26 @@ export async function DELETE(
       );
     }
 
-    await db.biocharLabTest.delete({
-      where: { id: testId },
-    });
-
-    // Update production batch to use next most recent test (if any)
-    const nextTest = await db.biocharLabTest.findFirst({
-      where: { productionBatchId: id },
-      orderBy: { testDate: 'desc' },
-    });
+    const periodLock = await findRecordPeriodLock('lab_test', testId);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
 
-    if (nextTest) {
-      const derivedValues = calculateLabTestDerivedValues({
-        totalCarbonPercent: nextTest.totalCarbonPercent,
-        inorganicCarbonPercent: nextTest.inorganicCarbonPercent,
-        hydrogenPercent: nextTest.hydrogenPercent,
+    await db.$transaction(async (tx) => {
+      await tx.biocharLabTest.delete({
+        where: { id: testId },
       });
 
-      await db.productionBatch.update({
-        where: { id },
-        data: {
-          totalCarbonPercent: nextTest.totalCarbonPercent,
-          organicCarbonPercent: derivedValues.organicCarbonPercent,
-          hydrogenPercent: nextTest.hydrogenPercent,
-          hCorgRatio: derivedValues.hCorgRatio,
-          qualityValidationStatus: derivedValues.passesQualityThreshold ? 'passed' : 'failed',
-        },
-      });
-    } else {
-      // No more lab tests, clear quality data
-      await db.productionBatch.update({
-        where: { id },
-        data: {
-          totalCarbonPercent: null,
-          organicCarbonPercent: null,
-          hydrogenPercent: null,
-          hCorgRatio: null,
-          qualityValidationStatus: 'pending',
-        },
-      });
-    }
+      // Recompute the batch from the tests that remain
+      await refreshBatchLabQuality(id, tx);
+
+      await recordAudit(getAuditContext(request), {
+        entityType: 'lab_test',
+        entityId: testId,
+        action: 'delete',
+        before: existing,
+      }, tx);
+    });
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { createLabTestSchema, calculateLabTestDerivedValues } from '@/lib/validations/lab-test';
+import { findRecordPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { refreshBatchLabQuality } from '@/lib/services/lab-campaigns';
 
 /**
  * GET /api/production/[id]/lab-test
@@ -66,6 +70,12 @@ export async function POST(
       );
     }
 
+    // Lab results feed the batch's C_org and H/C_org, so they share its lock
+    const periodLock = await findRecordPeriodLock('production_batch', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     const result = createLabTestSchema.safeParse({ ...body, productionBatchId: id });
 
     if (!result.success) {
@@ -75,6 +85,16 @@ export async function POST(
       );
     }
 
+    if (result.data.campaignId) {
+      const campaign = await db.biocharSamplingCampaign.findFirst({
+        where: { id: result.data.campaignId, productionBatchId: id },
+        select: { id: true },
+      });
+      if (!campaign) {
+        return errorResponse('Sampling campaign not found for this batch', 400, 'INVALID_CAMPAIGN');
+      }
+    }
+
     // Calculate derived values
     const derivedValues = calculateLabTestDerivedValues({
       totalCarbonPercent: result.data.totalCarbonPercent,
@@ -93,24 +113,23 @@ export async function POST(
         },
       });
 
-      // Update production batch with quality data from latest test
-      await tx.productionBatch.update({
-        where: { id },
-        data: {
-          totalCarbonPercent: result.data.totalCarbonPercent,
-          organicCarbonPercent: derivedValues.organicCarbonPercent,
-          hydrogenPercent: result.data.hydrogenPercent,
-          hCorgRatio: derivedValues.hCorgRatio,
-          qualityValidationStatus: derivedValues.passesQualityThreshold ? 'passed' : 'failed',
-        },
-      });
+      // Batch quality comes from the replicates of its current campaign
+      const campaign = await refreshBatchLabQuality(id, tx);
+
+      await recordAudit(getAuditContext(request), {
+        entityType: 'lab_test',
+        entityId: test.id,
+        action: 'create',
+        after: test,
+      }, tx);
 
-      return test;
+      return { test, campaign };
     });
 
     return NextResponse.json({
-      ...labTest,
+      ...labTest.test,
       qualityClassification: derivedValues.qualityClassification,
+      campaign: labTest.campaign,
     }, { status: 201 });
   } catch (error) {
     console.error('Error creating lab test:', error);
@@ -1,6 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import db from '@/lib/db';
-import { updateProductionBatchSchema } from '@/lib/validations/production';
+import { updateProductionBatchSchema, pyrolysisWindowError } from '@/lib/validations/production';
+import { checkFeedstockAllocations } from '@/lib/services/feedstock-allocation';
+import {
+  findRecordPeriodLock,
+  findUpdatePeriodLock,
+  describePeriodLock,
+} from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext, auditFeedstockAllocations } from '@/lib/services/audit-log';
+import { attachBatchTemperatureReadings } from '@/lib/services/temperature-log';
 
 export async function GET(
   request: NextRequest,
@@ -94,8 +104,43 @@ export async function PUT(
 
     const { id: _id, feedstockAllocations, ...batchData } = result.data;
 
-    // Use a transaction to update batch and allocations together
-    const productionBatch = await db.$transaction(async (tx) => {
+    // Update batch and allocations in one serializable transaction so
+    // concurrent batches cannot both take the last share of a delivery
+    const updated = await db.$transaction(async (tx) => {
+      // Refuse edits to a batch in a locked period, or moving one into it
+      const periodLock = await findUpdatePeriodLock(
+        'production_batch',
+        id,
+        batchData.productionDate
+          ? [{ facilityId: batchData.facilityId, dates: [batchData.productionDate] }]
+          : [],
+        tx
+      );
+      if (periodLock) {
+        return { periodLock };
+      }
+
+      // Check cumulative allocation of each delivery, ignoring this batch's current share
+      if (feedstockAllocations && feedstockAllocations.length > 0) {
+        const allocationProblems = await checkFeedstockAllocations(feedstockAllocations, id, tx);
+        if (allocationProblems.length > 0) {
+          return { allocationProblems };
+        }
+      }
+
+      const before = await tx.productionBatch.findUnique({
+        where: { id },
+        include: { feedstockAllocations: true },
+      });
+
+      const windowError = before ? pyrolysisWindowError(
+        batchData.pyrolysisStartAt !== undefined ? batchData.pyrolysisStartAt : before.pyrolysisStartAt,
+        batchData.pyrolysisEndAt !== undefined ? batchData.pyrolysisEndAt : before.pyrolysisEndAt
+      ) : null;
+      if (windowError) {
+        return { windowError };
+      }
+
       // Update the production batch
       await tx.productionBatch.update({
         where: { id },
@@ -132,8 +177,19 @@ export async function PUT(
         }
       }
 
+      // A new reactor, window or facility changes which readings belong to
+      // the batch and the rules they are checked against
+      if (
+        batchData.reactorId !== undefined ||
+        batchData.pyrolysisStartAt !== undefined ||
+        batchData.pyrolysisEndAt !== undefined ||
+        batchData.facilityId !== undefined
+      ) {
+        await attachBatchTemperatureReadings(id, tx);
+      }
+
       // Return batch with allocations
-      return tx.productionBatch.findUnique({
+      const productionBatch = await tx.productionBatch.findUnique({
         where: { id },
         include: {
           evidence: true,
@@ -152,10 +208,44 @@ export async function PUT(
           },
         },
       });
-    });
 
-    return NextResponse.json(productionBatch);
+      if (before && productionBatch) {
+        await recordAudit(getAuditContext(request), {
+          entityType: 'production_batch',
+          entityId: id,
+          action: 'update',
+          before: { ...before, feedstockAllocations: auditFeedstockAllocations(before.feedstockAllocations) },
+          after: { ...productionBatch, feedstockAllocations: auditFeedstockAllocations(productionBatch.feedstockAllocations) },
+        }, tx);
+      }
+
+      return { productionBatch };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (updated.periodLock) {
+      return errorResponse(describePeriodLock(updated.periodLock), 423, 'PERIOD_LOCKED', updated.periodLock);
+    }
+
+    if (updated.windowError) {
+      return errorResponse(updated.windowError, 400, 'INVALID_PYROLYSIS_WINDOW');
+    }
+
+    if ('allocationProblems' in updated) {
+      return NextResponse.json(
+        {
+          error: 'Feedstock allocation exceeds 100% of a delivery',
+          code: 'OVER_ALLOCATION',
+          details: updated.allocationProblems,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(updated.productionBatch);
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return errorResponse('Another batch drew on these deliveries at the same time; try again', 409, 'CONFLICT');
+    }
     console.error('Error updating production batch:', error);
     return NextResponse.json(
       { error: 'Failed to update production batch' },
@@ -174,7 +264,7 @@ export async function DELETE(
     // Check if record exists before attempting delete
     const existing = await db.productionBatch.findUnique({
       where: { id },
-      select: { id: true },
+      include: { feedstockAllocations: true },
     });
 
     if (!existing) {
@@ -184,10 +274,22 @@ export async function DELETE(
       );
     }
 
+    const periodLock = await findRecordPeriodLock('production_batch', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     await db.productionBatch.delete({
       where: { id },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'production_batch',
+      entityId: id,
+      action: 'delete',
+      before: { ...existing, feedstockAllocations: auditFeedstockAllocations(existing.feedstockAllocations) },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting production batch:', error);
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { updateSamplingCampaignSchema } from '@/lib/validations/lab-test';
+import { findRecordPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { refreshBatchLabQuality } from '@/lib/services/lab-campaigns';
+
+/**
+ * PUT /api/production/[id]/sampling-campaigns/[campaignId]
+ * Update a sampling campaign
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; campaignId: string }> }
+) {
+  try {
+    const { id, campaignId } = await params;
+    const body = await request.json();
+
+    const existing = await db.biocharSamplingCampaign.findFirst({
+      where: { id: campaignId, productionBatchId: id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Sampling campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    const periodLock = await findRecordPeriodLock('production_batch', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
+    const result = updateSamplingCampaignSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', issues: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await db.$transaction(async (tx) => {
+      const updated = await tx.biocharSamplingCampaign.update({
+        where: { id: campaignId },
+        data: result.data,
+      });
+
+      // The sampling date decides which campaign is current
+      await refreshBatchLabQuality(id, tx);
+
+      await recordAudit(getAuditContext(request), {
+        entityType: 'sampling_campaign',
+        entityId: campaignId,
+        action: 'update',
+        before: existing,
+        after: updated,
+      }, tx);
+
+      return updated;
+    });
+
+    return NextResponse.json(campaign);
+  } catch (error) {
+    console.error('Error updating sampling campaign:', error);
+    return NextResponse.json(
+      { error: 'Failed to update sampling campaign' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/production/[id]/sampling-campaigns/[campaignId]
+ * Delete a sampling campaign; its lab tests are kept outside any campaign
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; campaignId: string }> }
+) {
+  try {
+    const { id, campaignId } = await params;
+
+    const existing = await db.biocharSamplingCampaign.findFirst({
+      where: { id: campaignId, productionBatchId: id },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Sampling campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    const periodLock = await findRecordPeriodLock('production_batch', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
+    await db.$transaction(async (tx) => {
+      await tx.biocharSamplingCampaign.delete({
+        where: { id: campaignId },
+      });
+
+      await refreshBatchLabQuality(id, tx);
+
+      await recordAudit(getAuditContext(request), {
+        entityType: 'sampling_campaign',
+        entityId: campaignId,
+        action: 'delete',
+        before: existing,
+      }, tx);
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting sampling campaign:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete sampling campaign' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { samplingCampaignSchema } from '@/lib/validations/lab-test';
+import { findRecordPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { getBatchLabCampaigns, currentLabCampaign } from '@/lib/services/lab-campaigns';
+
+/**
+ * GET /api/production/[id]/sampling-campaigns
+ * List a batch's sampling campaigns with replicate statistics
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const batch = await db.productionBatch.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Production batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const campaigns = await getBatchLabCampaigns(id);
+
+    return NextResponse.json({
+      campaigns,
+      current: currentLabCampaign(campaigns),
+    });
+  } catch (error) {
+    console.error('Error fetching sampling campaigns:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch sampling campaigns' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/production/[id]/sampling-campaigns
+ * Create a sampling campaign; lab tests join it through their campaignId
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const batch = await db.productionBatch.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!batch) {
+      return NextResponse.json(
+        { error: 'Production batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const periodLock = await findRecordPeriodLock('production_batch', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
+    const result = samplingCampaignSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', issues: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await db.$transaction(async (tx) => {
+      const created = await tx.biocharSamplingCampaign.create({
+        data: { ...result.data, productionBatchId: id },
+      });
+
+      await recordAudit(getAuditContext(request), {
+        entityType: 'sampling_campaign',
+        entityId: created.id,
+        action: 'create',
+        after: created,
+      }, tx);
+
+      return created;
+    });
+
+    return NextResponse.json(campaign, { status: 201 });
+  } catch (error) {
+    console.error('Error creating sampling campaign:', error);
+    return NextResponse.json(
+      { error: 'Failed to create sampling campaign' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { stackEmissionUploadSchema } from '@/lib/validations/stack-emission';
+import { findRecordPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { getBatchStackEmissions } from '@/lib/services/stack-emissions';
+
+/**
+ * GET /api/production/[id]/stack-emissions
+ * Sample counts per gas and method, with the CH4 and N2O the batch is
+ * credited with and the path each took
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const estimates = await getBatchStackEmissions(id);
+    if (!estimates) {
+      return NextResponse.json(
+        { error: 'Production batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const samples = await db.stackEmissionSample.groupBy({
+      by: ['gas', 'method'],
+      where: { productionBatchId: id },
+      _count: { _all: true },
+      _min: { sampledAt: true },
+      _max: { sampledAt: true },
+    });
+
+    return NextResponse.json({
+      estimates,
+      samples: samples.map((s) => ({
+        gas: s.gas,
+        method: s.method,
+        count: s._count._all,
+        from: s._min.sampledAt,
+        to: s._max.sampledAt,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching stack emissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch stack emissions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/production/[id]/stack-emissions
+ * Ingest CEMS or spot samples of one gas:
+ * { gas, method, concentrationUnit, samples: [{ sampledAt, concentration, flueGasFlowNm3PerHour }] }
+ *
+ * Samples already stored for the same gas, method and time are skipped,
+ * so an export can be re-sent.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const before = await getBatchStackEmissions(id);
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Production batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const periodLock = await findRecordPeriodLock('production_batch', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
+    const result = stackEmissionUploadSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', issues: result.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { gas, method, concentrationUnit, samples } = result.data;
+
+    const ingested = await db.$transaction(async (tx) => {
+      const { count: stored } = await tx.stackEmissionSample.createMany({
+        data: samples.map((s) => ({ ...s, productionBatchId: id, gas, method, concentrationUnit })),
+        skipDuplicates: true,
+      });
+      const estimates = await getBatchStackEmissions(id, tx);
+
+      await recordAudit(getAuditContext(request), {
+        entityType: 'production_batch',
+        entityId: id,
+        action: 'update',
+        before: { stackEmissions: before },
+        after: { stackEmissions: estimates },
+        note: `Ingested ${stored} ${method.toUpperCase()} ${gas} stack sample(s)`,
+      }, tx);
+
+      return { received: samples.length, stored, duplicates: samples.length - stored, estimates };
+    }, { timeout: 2 * 60 * 1000 });
+
+    return NextResponse.json(ingested, { status: 201 });
+  } catch (error) {
+    console.error('Error ingesting stack emissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to ingest stack emissions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/production/[id]/stack-emissions?gas=CH4&method=cems
+ * Remove the samples of one gas and method, e.g. to replace a bad upload
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const parsed = stackEmissionUploadSchema.pick({ gas: true, method: true }).safeParse({
+      gas: searchParams.get('gas'),
+      method: searchParams.get('method'),
+    });
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const before = await getBatchStackEmissions(id);
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Production batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const periodLock = await findRecordPeriodLock('production_batch', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
+    const { gas, method } = parsed.data;
+    const removed = await db.$transaction(async (tx) => {
+      const { count } = await tx.stackEmissionSample.deleteMany({
+        where: { productionBatchId: id, gas, method },
+      });
+      const estimates = await getBatchStackEmissions(id, tx);
+
+      await recordAudit(getAuditContext(request), {
+        entityType: 'production_batch',
+        entityId: id,
+        action: 'update',
+        before: { stackEmissions: before },
+        after: { stackEmissions: estimates },
+        note: `Removed ${count} ${method.toUpperCase()} ${gas} stack sample(s)`,
+      }, tx);
+
+      return { removed: count, estimates };
+    });
+
+    return NextResponse.json(removed);
+  } catch (error) {
+    console.error('Error deleting stack emissions:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete stack emissions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import db from '@/lib/db';
-import { createProductionBatchSchema } from '@/lib/validations/production';
+import { createProductionBatchSchema, pyrolysisWindowError } from '@/lib/validations/production';
+import { checkFeedstockAllocations } from '@/lib/services/feedstock-allocation';
+import { findPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
+import { recordAudit, getAuditContext, auditFeedstockAllocations } from '@/lib/services/audit-log';
+import { attachBatchTemperatureReadings } from '@/lib/services/temperature-log';
 import {
   parsePaginationParams,
   calculateSkip,
   createPaginatedResponse,
+  errorResponse,
   serverErrorResponse,
   validationErrorResponse,
 } from '@/lib/api-utils';
@@ -63,8 +69,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { evidenceByAllocation, outputEvidence, temperatureEvidence, ...restBody } = body;
-    const result = createProductionBatchSchema.safeParse(restBody);
+    const result = createProductionBatchSchema.safeParse(body);
 
     if (!result.success) {
       return validationErrorResponse(result.error.issues);
@@ -72,8 +77,30 @@ export async function POST(request: NextRequest) {
 
     const { feedstockAllocations, ...batchData } = result.data;
 
-    // Use a transaction to create batch and allocations together
-    const productionBatch = await db.$transaction(async (tx) => {
+    const windowError = pyrolysisWindowError(batchData.pyrolysisStartAt, batchData.pyrolysisEndAt);
+    if (windowError) {
+      return errorResponse(windowError, 400, 'INVALID_PYROLYSIS_WINDOW');
+    }
+
+    // Create batch and allocations in one serializable transaction so
+    // concurrent batches cannot both take the last share of a delivery
+    const created = await db.$transaction(async (tx) => {
+      const periodLock = await findPeriodLock(
+        { facilityId: batchData.facilityId, dates: [batchData.productionDate] },
+        tx
+      );
+      if (periodLock) {
+        return { periodLock };
+      }
+
+      // Check cumulative allocation of each delivery across all batches
+      if (feedstockAllocations && feedstockAllocations.length > 0) {
+        const allocationProblems = await checkFeedstockAllocations(feedstockAllocations, undefined, tx);
+        if (allocationProblems.length > 0) {
+          return { allocationProblems };
+        }
+      }
+
       // Create the production batch
       const batch = await tx.productionBatch.create({
         data: batchData,
@@ -101,78 +128,13 @@ export async function POST(request: NextRequest) {
         });
       }
 
-      // Create evidence files if provided
-      const evidenceRecords: Array<{
-        fileName: string;
-        fileType: string;
-        fileSize: number;
-        mimeType: string;
-        storagePath: string;
-        category: string;
-        productionBatchId: string;
-      }> = [];
-
-      // Add feedstock allocation evidence
-      if (evidenceByAllocation && typeof evidenceByAllocation === 'object') {
-        for (const [, files] of Object.entries(evidenceByAllocation)) {
-          if (Array.isArray(files)) {
-            for (const file of files) {
-              const f = file as { fileName: string; fileSize: number; mimeType: string; category: string };
-              evidenceRecords.push({
-                fileName: f.fileName,
-                fileType: f.mimeType.includes('pdf') ? 'pdf' : f.mimeType.includes('image') ? 'image' : 'other',
-                fileSize: f.fileSize,
-                mimeType: f.mimeType,
-                storagePath: `/uploads/production/${batch.id}/feedstock/${f.fileName}`,
-                category: f.category,
-                productionBatchId: batch.id,
-              });
-            }
-          }
-        }
-      }
-
-      // Add output biochar evidence
-      if (outputEvidence && Array.isArray(outputEvidence)) {
-        for (const file of outputEvidence) {
-          const f = file as { fileName: string; fileSize: number; mimeType: string; category: string };
-          evidenceRecords.push({
-            fileName: f.fileName,
-            fileType: f.mimeType.includes('pdf') ? 'pdf' : f.mimeType.includes('image') ? 'image' : 'other',
-            fileSize: f.fileSize,
-            mimeType: f.mimeType,
-            storagePath: `/uploads/production/${batch.id}/output/${f.fileName}`,
-            category: f.category || 'biochar_out',
-            productionBatchId: batch.id,
-          });
-        }
-      }
-
-      // Add temperature evidence
-      if (temperatureEvidence && Array.isArray(temperatureEvidence)) {
-        for (const file of temperatureEvidence) {
-          const f = file as { fileName: string; fileSize: number; mimeType: string; category: string };
-          evidenceRecords.push({
-            fileName: f.fileName,
-            fileType: f.mimeType.includes('pdf') ? 'pdf' : f.mimeType.includes('image') ? 'image' : 'other',
-            fileSize: f.fileSize,
-            mimeType: f.mimeType,
-            storagePath: `/uploads/production/${batch.id}/temperature/${f.fileName}`,
-            category: f.category || 'temperature_log',
-            productionBatchId: batch.id,
-          });
-        }
-      }
-
-      // Create all evidence records
-      if (evidenceRecords.length > 0) {
-        await tx.evidenceFile.createMany({
-          data: evidenceRecords,
-        });
+      // Readings the reactor already logged in the window
+      if (batch.reactorId && batch.pyrolysisStartAt && batch.pyrolysisEndAt) {
+        await attachBatchTemperatureReadings(batch.id, tx);
       }
 
       // Return batch with allocations
-      return tx.productionBatch.findUnique({
+      const productionBatch = await tx.productionBatch.findUnique({
         where: { id: batch.id },
         include: {
           evidence: true,
@@ -191,10 +153,35 @@ export async function POST(request: NextRequest) {
           },
         },
       });
-    });
 
-    return NextResponse.json(productionBatch, { status: 201 });
+      await recordAudit(getAuditContext(request), {
+        entityType: 'production_batch',
+        entityId: batch.id,
+        action: 'create',
+        after: { ...batch, feedstockAllocations: auditFeedstockAllocations(feedstockAllocations) },
+      }, tx);
+
+      return { productionBatch };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (created.periodLock) {
+      return errorResponse(describePeriodLock(created.periodLock), 423, 'PERIOD_LOCKED', created.periodLock);
+    }
+
+    if ('allocationProblems' in created) {
+      return errorResponse(
+        'Feedstock allocation exceeds 100% of a delivery',
+        400,
+        'OVER_ALLOCATION',
+        created.allocationProblems
+      );
+    }
+
+    return NextResponse.json(created.productionBatch, { status: 201 });
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return errorResponse('Another batch drew on these deliveries at the same time; try again', 409, 'CONFLICT');
+    }
     console.error('Error creating production batch:', error);
     return serverErrorResponse('Failed to create production batch');
   }
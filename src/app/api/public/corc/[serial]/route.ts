@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, serverErrorResponse } from '@/lib/api-utils';
+import { getPublicCreditRecord } from '@/lib/services/public-verification';
+
+/**
+ * GET /api/public/corc/[serial]
+ * Public record of the issued CORC holding a serial (issuance or unit)
+ *
+ * Anonymous and rate-limited by the middleware. Returns status, vintage,
+ * facility, quantities, retirements and a summary of the calculation,
+ * without record IDs or supplier details.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ serial: string }> }
+) {
+  try {
+    const { serial } = await params;
+
+    const result = await getPublicCreditRecord(serial);
+
+    if (!result.ok) {
+      return errorResponse('No issued CORC matches this serial', 404, 'NOT_FOUND', { problems: result.problems });
+    }
+
+    return NextResponse.json(result.record, {
+      headers: { 'Cache-Control': 'public, max-age=60' },
+    });
+  } catch (error) {
+    console.error('Error verifying public CORC serial:', error);
+    return serverErrorResponse('Failed to verify serial');
+  }
+}
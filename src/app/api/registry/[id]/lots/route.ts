@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { getHoldingLots, summarizeLots, fallbackBalance } from '@/lib/services/credit-lots';
+
+/**
+ * GET /api/registry/[id]/lots
+ * Lots of a BCU with serial ranges, lineage and balance
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const bcu = await db.bCU.findUnique({
+      where: { id },
+      select: { id: true, registrySerialNumber: true, status: true, quantityTonnesCO2e: true },
+    });
+
+    if (!bcu) {
+      return NextResponse.json({ error: 'BCU not found' }, { status: 404 });
+    }
+
+    const lots = await getHoldingLots({ type: 'bcu', id });
+
+    return NextResponse.json({
+      serialNumber: bcu.registrySerialNumber,
+      balance: lots.length > 0 ? summarizeLots(lots) : fallbackBalance(bcu.status, bcu.quantityTonnesCO2e),
+      lots,
+    });
+  } catch (error) {
+    console.error('Error fetching BCU lots:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch BCU lots' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
+import { errorResponse } from '@/lib/api-utils';
 import { updateBCUSchema, transferBCUSchema, retireBCUSchema } from '@/lib/validations/bcu';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { getMigratedCORCId, migratedBCUProblem } from '@/lib/services/bcu-migration';
+import { hasLedgerTransactions, hasSplitLots, resetRootLot } from '@/lib/services/credit-lots';
+
+// Fields the BCU's lots are derived from
+const LOT_FIELDS = ['quantityTonnesCO2e', 'status', 'ownerName', 'accountId'] as const;
 
 export async function GET(
   request: NextRequest,
@@ -78,13 +85,63 @@ export async function PUT(
 
     const { id: _id, ...data } = result.data;
 
-    const bcu = await db.bCU.update({
-      where: { id },
-      data,
-      include: {
-        evidence: true,
-        sequestrationEvents: true,
-      },
+    const existing = await db.bCU.findUnique({ where: { id } });
+
+    if (!existing) {
+      return NextResponse.json({ error: 'BCU not found' }, { status: 404 });
+    }
+
+    const migratedTo = await getMigratedCORCId(id);
+    if (migratedTo) {
+      const problem = migratedBCUProblem(migratedTo);
+      return errorResponse(problem.message, 409, problem.code, problem);
+    }
+
+    const changesLots = LOT_FIELDS.some(
+      (field) => data[field] !== undefined && data[field] !== existing[field]
+    );
+
+    // Once units have moved through lots, quantity, status and owner only
+    // change by transfer or retirement
+    if (changesLots && (await hasSplitLots({ type: 'bcu', id }))) {
+      return errorResponse(
+        'This BCU has been split into lots; use transfer or retire to change ownership or status',
+        409,
+        'LOTS_SPLIT'
+      );
+    }
+
+    // Posted issuances stay in the ledger, so the units they issued cannot be
+    // re-stated by editing the BCU
+    if (changesLots && (await hasLedgerTransactions({ type: 'bcu', id }))) {
+      return errorResponse(
+        'This BCU has ledger transactions; use transfer or retire to change ownership or status',
+        409,
+        'LEDGER_POSTED'
+      );
+    }
+
+    const bcu = await db.$transaction(async (tx) => {
+      const updated = await tx.bCU.update({
+        where: { id },
+        data,
+        include: {
+          evidence: true,
+          sequestrationEvents: true,
+        },
+      });
+      if (changesLots) {
+        await resetRootLot({ type: 'bcu', id }, tx);
+      }
+      return updated;
+    });
+
+    await recordAudit(getAuditContext(request), {
+      entityType: 'bcu',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: bcu,
     });
 
     return NextResponse.json(bcu);
@@ -110,7 +167,13 @@ export async function DELETE(
       return NextResponse.json({ error: 'BCU not found' }, { status: 404 });
     }
 
-    if (bcu.status !== 'issued') {
+    const migratedTo = await getMigratedCORCId(id);
+    if (migratedTo) {
+      const problem = migratedBCUProblem(migratedTo);
+      return errorResponse(problem.message, 409, problem.code, problem);
+    }
+
+    if (bcu.status !== 'issued' || (await hasSplitLots({ type: 'bcu', id }))) {
       return NextResponse.json(
         { error: 'Cannot delete a BCU that has been transferred or retired' },
         { status: 400 }
@@ -119,6 +182,13 @@ export async function DELETE(
 
     await db.bCU.delete({ where: { id } });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'bcu',
+      entityId: id,
+      action: 'delete',
+      before: bcu,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting BCU:', error);
@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
+import { errorResponse } from '@/lib/api-utils';
 import { transferBCUSchema } from '@/lib/validations/bcu';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { getMigratedCORCId, migratedBCUProblem } from '@/lib/services/bcu-migration';
+import { formatLotSerialRange } from '@/lib/validations/credit-lot';
+import { applyLotOperation, LOT_PROBLEM_STATUS } from '@/lib/services/credit-lots';
 
+/**
+ * POST /api/registry/[id]/transfer
+ * Transfer units of a BCU lot to a new owner
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -26,6 +35,12 @@ export async function POST(
       return NextResponse.json({ error: 'BCU not found' }, { status: 404 });
     }
 
+    const migratedTo = await getMigratedCORCId(id);
+    if (migratedTo) {
+      const problem = migratedBCUProblem(migratedTo);
+      return errorResponse(problem.message, 409, problem.code, problem);
+    }
+
     if (currentBCU.status === 'retired') {
       return NextResponse.json(
         { error: 'Cannot transfer a retired BCU' },
@@ -33,23 +48,61 @@ export async function POST(
       );
     }
 
-    const bcu = await db.bCU.update({
+    const auditContext = getAuditContext(request);
+    const outcome = await db.$transaction(async (tx) => {
+      const applied = await applyLotOperation(
+        { type: 'bcu', id },
+        result.data,
+        {
+          operation: 'transfer',
+          toAccountId: result.data.toAccountId,
+          ownerName: result.data.newOwnerName,
+          ownerAccountId: result.data.newAccountId,
+          notes: result.data.notes,
+          createdBy: auditContext.actor,
+        },
+        tx
+      );
+
+      if (applied.ok && result.data.notes) {
+        await tx.bCU.update({
+          where: { id },
+          data: { notes: `${currentBCU.notes || ''}\n[Transfer] ${result.data.notes}` },
+        });
+      }
+
+      return applied;
+    });
+
+    if (!outcome.ok) {
+      return errorResponse(
+        outcome.problem.message,
+        LOT_PROBLEM_STATUS[outcome.problem.code],
+        outcome.problem.code,
+        outcome.problem
+      );
+    }
+
+    const bcu = await db.bCU.findUniqueOrThrow({
       where: { id },
-      data: {
-        status: 'transferred',
-        ownerName: result.data.newOwnerName,
-        accountId: result.data.newAccountId,
-        notes: result.data.notes
-          ? `${currentBCU.notes || ''}\n[Transfer] ${result.data.notes}`
-          : currentBCU.notes,
-      },
       include: {
         evidence: true,
         sequestrationEvents: true,
       },
     });
 
-    return NextResponse.json(bcu);
+    const { moved } = outcome.split;
+    const summary = `${moved.quantity} tCO2e (${formatLotSerialRange(bcu.registrySerialNumber, moved)}) to ${moved.ownerName}`;
+    await recordAudit(auditContext, {
+      entityType: 'bcu',
+      entityId: id,
+      action: 'update',
+      before: currentBCU,
+      after: bcu,
+      note: result.data.notes ? `Transferred ${summary}: ${result.data.notes}` : `Transferred ${summary}`,
+    });
+
+    return NextResponse.json({ ...bcu, lots: outcome.split });
   } catch (error) {
     console.error('Error transferring BCU:', error);
     return NextResponse.json(
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import {
+  isSystemAccountType,
+  updateRegistryAccountSchema,
+} from '@/lib/validations/registry-account';
+import { getAccountBalance, getAccountHoldings } from '@/lib/services/registry-ledger';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import {
+  errorResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api-utils';
+
+/**
+ * GET /api/registry/accounts/[id]
+ * Account details, ledger balance and the lots that make it up
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const account = await db.registryAccount.findUnique({ where: { id } });
+    if (!account) {
+      return notFoundResponse('Registry account');
+    }
+
+    const [balance, holdings] = await Promise.all([
+      getAccountBalance(id),
+      getAccountHoldings(id),
+    ]);
+
+    return NextResponse.json({ ...account, balance, holdings });
+  } catch (error) {
+    console.error('Error fetching registry account:', error);
+    return serverErrorResponse('Failed to fetch registry account');
+  }
+}
+
+/**
+ * PUT /api/registry/accounts/[id]
+ * Update a holder account. System accounts cannot be edited, and an
+ * account still holding credits cannot be deactivated.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const result = updateRegistryAccountSchema.safeParse({ ...body, id });
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    const existing = await db.registryAccount.findUnique({ where: { id } });
+    if (!existing) {
+      return notFoundResponse('Registry account');
+    }
+
+    if (isSystemAccountType(existing.accountType)) {
+      return errorResponse('System accounts cannot be edited', 400, 'SYSTEM_ACCOUNT');
+    }
+
+    const data: Partial<typeof result.data> = { ...result.data };
+    delete data.id;
+
+    if (data.isActive === false && existing.isActive) {
+      const { balance } = await getAccountBalance(id);
+      if (balance > 0) {
+        return errorResponse(
+          `${existing.name} still holds ${balance} tCO2e; transfer or retire them before deactivating`,
+          409,
+          'ACCOUNT_HAS_BALANCE',
+          { balance }
+        );
+      }
+    }
+
+    const account = await db.registryAccount.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(data.contactEmail !== undefined ? { contactEmail: data.contactEmail || null } : {}),
+      },
+    });
+
+    await recordAudit(getAuditContext(request), {
+      entityType: 'registry_account',
+      entityId: id,
+      action: 'update',
+      before: existing,
+      after: account,
+    });
+
+    return NextResponse.json(account);
+  } catch (error) {
+    console.error('Error updating registry account:', error);
+    return serverErrorResponse('Failed to update registry account');
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { accountStatementQuerySchema } from '@/lib/validations/registry-account';
+import { getAccountStatement } from '@/lib/services/registry-ledger';
+import {
+  notFoundResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api-utils';
+
+/**
+ * GET /api/registry/accounts/[id]/statement
+ * Account statement: opening balance, each debit and credit with a running
+ * balance, and the closing balance
+ *
+ * Query: from, to (dates; both optional)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+
+    const result = accountStatementQuerySchema.safeParse({
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+    });
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    const statement = await getAccountStatement(id, result.data);
+    if (!statement) {
+      return notFoundResponse('Registry account');
+    }
+
+    return NextResponse.json(statement);
+  } catch (error) {
+    console.error('Error building account statement:', error);
+    return serverErrorResponse('Failed to build account statement');
+  }
+}
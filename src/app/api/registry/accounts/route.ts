@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import {
+  createRegistryAccountSchema,
+  REGISTRY_ACCOUNT_TYPES,
+} from '@/lib/validations/registry-account';
+import { getAccountBalances } from '@/lib/services/registry-ledger';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import {
+  badRequestResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api-utils';
+
+/**
+ * GET /api/registry/accounts
+ * List registry accounts with their ledger balances
+ *
+ * Query: type (account type), includeInactive=true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get('type');
+    const includeInactive = searchParams.get('includeInactive') === 'true';
+
+    if (type && !REGISTRY_ACCOUNT_TYPES.some((t) => t.value === type)) {
+      return badRequestResponse(`Invalid account type: ${type}`);
+    }
+
+    const where: Prisma.RegistryAccountWhereInput = {};
+    if (type) where.accountType = type;
+    if (!includeInactive) where.isActive = true;
+
+    const accounts = await db.registryAccount.findMany({
+      where,
+      orderBy: [{ accountType: 'asc' }, { name: 'asc' }],
+    });
+
+    const balances = await getAccountBalances(accounts.map((a) => a.id));
+
+    return NextResponse.json(
+      accounts.map((account) => ({
+        ...account,
+        balance: balances.get(account.id) ?? { credited: 0, debited: 0, balance: 0 },
+      }))
+    );
+  } catch (error) {
+    console.error('Error fetching registry accounts:', error);
+    return serverErrorResponse('Failed to fetch registry accounts');
+  }
+}
+
+/**
+ * POST /api/registry/accounts
+ * Create a holder account (own, buyer or broker)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = createRegistryAccountSchema.safeParse(body);
+
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    const account = await db.registryAccount.create({
+      data: {
+        ...result.data,
+        contactEmail: result.data.contactEmail || null,
+      },
+    });
+
+    await recordAudit(getAuditContext(request), {
+      entityType: 'registry_account',
+      entityId: account.id,
+      action: 'create',
+      after: account,
+    });
+
+    return NextResponse.json(account, { status: 201 });
+  } catch (error) {
+    console.error('Error creating registry account:', error);
+    return serverErrorResponse('Failed to create registry account');
+  }
+}
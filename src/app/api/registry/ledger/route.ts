@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { ledgerQuerySchema } from '@/lib/validations/registry-account';
+import { getLedgerTransactions } from '@/lib/services/registry-ledger';
+import {
+  parsePaginationParams,
+  calculateSkip,
+  createPaginatedResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api-utils';
+
+/**
+ * GET /api/registry/ledger
+ * Query ledger transactions (oldest first) by account, holding, type and
+ * time range
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const pagination = parsePaginationParams(searchParams);
+
+    const result = ledgerQuerySchema.safeParse({
+      accountId: searchParams.get('accountId') ?? undefined,
+      corcIssuanceId: searchParams.get('corcIssuanceId') ?? undefined,
+      bcuId: searchParams.get('bcuId') ?? undefined,
+      transactionType: searchParams.get('transactionType') ?? undefined,
+      from: searchParams.get('from') ?? undefined,
+      to: searchParams.get('to') ?? undefined,
+    });
+
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    const { accountId, corcIssuanceId, bcuId, transactionType, from, to } = result.data;
+
+    const where: Prisma.LedgerTransactionWhereInput = {};
+    if (accountId) where.entries = { some: { accountId } };
+    if (corcIssuanceId) where.corcIssuanceId = corcIssuanceId;
+    if (bcuId) where.bcuId = bcuId;
+    if (transactionType) where.transactionType = transactionType;
+    if (from || to) {
+      where.createdAt = {
+        ...(from ? { gte: from } : {}),
+        ...(to ? { lte: to } : {}),
+      };
+    }
+
+    const { transactions, total } = await getLedgerTransactions(where, {
+      skip: calculateSkip(pagination.page, pagination.limit),
+      take: pagination.limit,
+    });
+
+    return NextResponse.json(createPaginatedResponse(transactions, total, pagination));
+  } catch (error) {
+    console.error('Error fetching ledger:', error);
+    return serverErrorResponse('Failed to fetch ledger');
+  }
+}
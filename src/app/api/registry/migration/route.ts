@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { planBCUMigration } from '@/lib/services/bcu-migration';
+import { serverErrorResponse } from '@/lib/api-utils';
+
+/**
+ * GET /api/registry/migration
+ * Dry-run report of the BCU -> CORC migration. Nothing is written; apply
+ * it with `npm run db:migrate-bcu -- --apply`.
+ *
+ * Query: createPeriods=true (plan legacy monitoring periods for BCUs no
+ * existing period covers)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const report = await planBCUMigration({
+      createPeriods: searchParams.get('createPeriods') === 'true',
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error planning BCU migration:', error);
+    return serverErrorResponse();
+  }
+}
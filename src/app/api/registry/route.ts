@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { createBCUSchema } from '@/lib/validations/bcu';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import { ensureRootLot } from '@/lib/services/credit-lots';
 
 export async function GET() {
   try {
@@ -62,29 +64,40 @@ export async function POST(request: NextRequest) {
       result.data.registrySerialNumber ||
       `BCU-${Date.now()}-${Math.random().toString(36).substr(2, 9).toUpperCase()}`;
 
-    const bcu = await db.bCU.create({
-      data: {
-        ...result.data,
-        registrySerialNumber: serialNumber,
-        sequestrationEvents: sequestrationEventId
-          ? {
-              create: { sequestrationId: sequestrationEventId },
-            }
-          : undefined,
-        productionBatches: productionBatchAllocations
-          ? {
-              create: productionBatchAllocations.map(
-                (alloc: { productionBatchId: string }) => ({
-                  productionBatchId: alloc.productionBatchId,
-                })
-              ),
-            }
-          : undefined,
-      },
-      include: {
-        evidence: true,
-        sequestrationEvents: true,
-      },
+    const bcu = await db.$transaction(async (tx) => {
+      const created = await tx.bCU.create({
+        data: {
+          ...result.data,
+          registrySerialNumber: serialNumber,
+          sequestrationEvents: sequestrationEventId
+            ? {
+                create: { sequestrationId: sequestrationEventId },
+              }
+            : undefined,
+          productionBatches: productionBatchAllocations
+            ? {
+                create: productionBatchAllocations.map(
+                  (alloc: { productionBatchId: string }) => ({
+                    productionBatchId: alloc.productionBatchId,
+                  })
+                ),
+              }
+            : undefined,
+        },
+        include: {
+          evidence: true,
+          sequestrationEvents: true,
+        },
+      });
+      await ensureRootLot({ type: 'bcu', id: created.id }, tx);
+      return created;
+    });
+
+    await recordAudit(getAuditContext(request), {
+      entityType: 'bcu',
+      entityId: bcu.id,
+      action: 'create',
+      after: bcu,
     });
 
     return NextResponse.json(bcu, { status: 201 });
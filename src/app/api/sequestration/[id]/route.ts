@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import db from '@/lib/db';
 import { updateSequestrationEventSchema } from '@/lib/validations/sequestration';
 import { calculateSequestrationRoute } from '@/lib/services/routing';
+import { checkSequestrationAllocations } from '@/lib/services/biochar-inventory';
+import { checkEndUseCompliance } from '@/lib/services/contaminant-compliance';
+import {
+  findRecordPeriodLock,
+  findUpdatePeriodLock,
+  describePeriodLock,
+} from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext, auditSequestrationBatches } from '@/lib/services/audit-log';
 
 export async function GET(
   request: NextRequest,
@@ -84,25 +94,66 @@ export async function PUT(
 
     const { id: _id, ...data } = result.data;
 
-    // Check if coordinates are changing
     const existing = await db.sequestrationEvent.findUnique({
       where: { id },
-      select: { destinationLat: true, destinationLng: true },
+      include: { batches: true },
     });
 
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Sequestration event not found' },
+        { status: 404 }
+      );
+    }
+
+    // Check if coordinates are changing
     const coordsChanged =
-      data.destinationLat !== existing?.destinationLat ||
-      data.destinationLng !== existing?.destinationLng;
+      data.destinationLat !== existing.destinationLat ||
+      data.destinationLng !== existing.destinationLng;
+
+    // Update event and batch links in a serializable transaction so
+    // concurrent events cannot both draw the same tonnes
+    const updated = await db.$transaction(async (tx) => {
+      const periodLock = await findUpdatePeriodLock(
+        'sequestration_event',
+        id,
+        data.finalDeliveryDate ? [{ dates: [data.finalDeliveryDate] }] : [],
+        tx
+      );
+      if (periodLock) {
+        return { periodLock };
+      }
+
+      // Check new allocations against the inventory ledger, ignoring this event's current links
+      if (productionBatches) {
+        const allocationProblems = await checkSequestrationAllocations(productionBatches, id, tx);
+        if (allocationProblems.length > 0) {
+          return { allocationProblems };
+        }
+      }
+
+      // Contaminants must be within the limits of the end-use
+      if (productionBatches || data.endUseCategory !== undefined) {
+        const batchIds: string[] = (productionBatches ?? existing.batches).map(
+          (b: { productionBatchId: string }) => b.productionBatchId
+        );
+        const endUseProblems = await checkEndUseCompliance(
+          batchIds,
+          data.endUseCategory !== undefined ? data.endUseCategory : existing.endUseCategory,
+          tx
+        );
+        if (endUseProblems.length > 0) {
+          return { endUseProblems };
+        }
+      }
 
-    // Update event and batch links in a transaction
-    const sequestrationEvent = await db.$transaction(async (tx) => {
       // Delete existing batch links
       await tx.sequestrationBatch.deleteMany({
         where: { sequestrationId: id },
       });
 
       // Update event and create new batch links
-      return tx.sequestrationEvent.update({
+      const event = await tx.sequestrationEvent.update({
         where: { id },
         data: {
           ...data,
@@ -130,7 +181,43 @@ export async function PUT(
           },
         },
       });
-    });
+
+      await recordAudit(getAuditContext(request), {
+        entityType: 'sequestration_event',
+        entityId: id,
+        action: 'update',
+        before: { ...existing, productionBatches: auditSequestrationBatches(existing.batches) },
+        after: { ...event, productionBatches: auditSequestrationBatches(event.batches) },
+      }, tx);
+
+      return { sequestrationEvent: event };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (updated.periodLock) {
+      return errorResponse(describePeriodLock(updated.periodLock), 423, 'PERIOD_LOCKED', updated.periodLock);
+    }
+
+    if ('allocationProblems' in updated) {
+      return NextResponse.json(
+        {
+          error: 'Biochar allocation exceeds production batch inventory',
+          code: 'OVER_ALLOCATION',
+          details: updated.allocationProblems,
+        },
+        { status: 400 }
+      );
+    }
+
+    if ('endUseProblems' in updated) {
+      return errorResponse(
+        'Biochar exceeds the contaminant limits of the end-use',
+        400,
+        'END_USE_NON_COMPLIANT',
+        updated.endUseProblems
+      );
+    }
+
+    const { sequestrationEvent } = updated;
 
     // Fire-and-forget: recalculate route if coordinates changed
     if (coordsChanged && sequestrationEvent.destinationLat && sequestrationEvent.destinationLng) {
@@ -141,6 +228,9 @@ export async function PUT(
 
     return NextResponse.json(sequestrationEvent);
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return errorResponse('Another event drew on these batches at the same time; try again', 409, 'CONFLICT');
+    }
     console.error('Error updating sequestration event:', error);
     return NextResponse.json(
       { error: 'Failed to update sequestration event' },
@@ -159,7 +249,7 @@ export async function DELETE(
     // Check if record exists before attempting delete
     const existing = await db.sequestrationEvent.findUnique({
       where: { id },
-      select: { id: true },
+      include: { batches: true },
     });
 
     if (!existing) {
@@ -169,10 +259,22 @@ export async function DELETE(
       );
     }
 
+    const periodLock = await findRecordPeriodLock('sequestration_event', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     await db.sequestrationEvent.delete({
       where: { id },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'sequestration_event',
+      entityId: id,
+      action: 'delete',
+      before: { ...existing, productionBatches: auditSequestrationBatches(existing.batches) },
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting sequestration event:', error);
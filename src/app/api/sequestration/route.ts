@@ -1,14 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import db from '@/lib/db';
 import { createSequestrationEventSchema } from '@/lib/validations/sequestration';
 import { calculateSequestrationRoute } from '@/lib/services/routing';
+import { checkSequestrationAllocations } from '@/lib/services/biochar-inventory';
+import { checkEndUseCompliance } from '@/lib/services/contaminant-compliance';
+import { findPeriodLock, describePeriodLock } from '@/lib/services/period-lock';
 import {
   parsePaginationParams,
   calculateSkip,
   createPaginatedResponse,
+  errorResponse,
   serverErrorResponse,
   validationErrorResponse,
 } from '@/lib/api-utils';
+import { recordAudit, getAuditContext, auditSequestrationBatches } from '@/lib/services/audit-log';
 
 export async function GET(request: NextRequest) {
   try {
@@ -72,30 +78,87 @@ export async function POST(request: NextRequest) {
       return validationErrorResponse(result.error.issues);
     }
 
-    const sequestrationEvent = await db.sequestrationEvent.create({
-      data: {
-        ...result.data,
-        routeStatus: result.data.destinationLat && result.data.destinationLng ? 'pending' : null,
-        batches: productionBatches
-          ? {
-              create: productionBatches.map(
-                (pb: { productionBatchId: string; quantityTonnes: number }) => ({
+    const allocations: { productionBatchId: string; quantityTonnes: number }[] = productionBatches ?? [];
+
+    // Check the inventory ledger and create in one serializable transaction
+    // so concurrent events cannot both draw the same tonnes
+    const created = await db.$transaction(async (tx) => {
+      const periodLock = await findPeriodLock({ dates: [result.data.finalDeliveryDate] }, tx);
+      if (periodLock) {
+        return { periodLock };
+      }
+
+      const allocationProblems = await checkSequestrationAllocations(allocations, undefined, tx);
+      if (allocationProblems.length > 0) {
+        return { allocationProblems };
+      }
+
+      // Contaminants must be within the limits of the end-use
+      const endUseProblems = await checkEndUseCompliance(
+        allocations.map((a) => a.productionBatchId),
+        result.data.endUseCategory ?? null,
+        tx
+      );
+      if (endUseProblems.length > 0) {
+        return { endUseProblems };
+      }
+
+      const event = await tx.sequestrationEvent.create({
+        data: {
+          ...result.data,
+          routeStatus: result.data.destinationLat && result.data.destinationLng ? 'pending' : null,
+          batches: productionBatches
+            ? {
+                create: allocations.map((pb) => ({
                   productionBatchId: pb.productionBatchId,
                   quantityTonnes: pb.quantityTonnes,
-                })
-              ),
-            }
-          : undefined,
-      },
-      include: {
-        evidence: true,
-        batches: {
-          include: {
-            productionBatch: true,
+                })),
+              }
+            : undefined,
+        },
+        include: {
+          evidence: true,
+          batches: {
+            include: {
+              productionBatch: true,
+            },
           },
         },
-      },
-    });
+      });
+
+      await recordAudit(getAuditContext(request), {
+        entityType: 'sequestration_event',
+        entityId: event.id,
+        action: 'create',
+        after: { ...event, productionBatches: auditSequestrationBatches(event.batches) },
+      }, tx);
+
+      return { sequestrationEvent: event };
+    }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+    if (created.periodLock) {
+      return errorResponse(describePeriodLock(created.periodLock), 423, 'PERIOD_LOCKED', created.periodLock);
+    }
+
+    if ('allocationProblems' in created) {
+      return errorResponse(
+        'Biochar allocation exceeds production batch inventory',
+        400,
+        'OVER_ALLOCATION',
+        created.allocationProblems
+      );
+    }
+
+    if ('endUseProblems' in created) {
+      return errorResponse(
+        'Biochar exceeds the contaminant limits of the end-use',
+        400,
+        'END_USE_NON_COMPLIANT',
+        created.endUseProblems
+      );
+    }
+
+    const { sequestrationEvent } = created;
 
     // Fire-and-forget: calculate route if coordinates exist
     if (sequestrationEvent.destinationLat && sequestrationEvent.destinationLng) {
@@ -106,6 +169,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(sequestrationEvent, { status: 201 });
   } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034') {
+      return errorResponse('Another event drew on these batches at the same time; try again', 409, 'CONFLICT');
+    }
     console.error('Error creating sequestration event:', error);
     return serverErrorResponse('Failed to create sequestration event');
   }
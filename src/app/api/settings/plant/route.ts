@@ -93,9 +93,13 @@ export async function PUT(request: NextRequest) {
 
     // Fire-and-forget: recalculate all routes if plant location changed
     if (coordsChanged && plant.lat && plant.lng) {
-      recalculateAllRoutes().catch((err) =>
-        console.error('Background route recalculation failed:', err)
-      );
+      recalculateAllRoutes()
+        .then((result) => {
+          if (result.skipped.length > 0) {
+            console.warn(`Route recalculation skipped ${result.skipped.length} record(s) in locked monitoring periods`);
+          }
+        })
+        .catch((err) => console.error('Background route recalculation failed:', err));
     }
 
     return NextResponse.json({
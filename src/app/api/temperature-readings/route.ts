@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { temperatureUploadSchema } from '@/lib/validations/temperature-reading';
+import { ingestTemperatureReadings, TEMPERATURE_READING_SELECT } from '@/lib/services/temperature-log';
+import { parseCSV } from '@/lib/utils/csv';
+import {
+  badRequestResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api-utils';
+
+// Readings returned by one GET; narrow the time range for more
+const MAX_READINGS_PER_QUERY = 10000;
+
+const CSV_COLUMNS = ['reactor_id', 'recorded_at', 'temperature_c'];
+
+/**
+ * GET /api/temperature-readings?reactorId=...&from=...&to=...
+ * Readings logged by a reactor, oldest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const reactorId = searchParams.get('reactorId');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!reactorId) {
+      return badRequestResponse('reactorId is required');
+    }
+    const fromDate = from ? new Date(from) : null;
+    const toDate = to ? new Date(to) : null;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return badRequestResponse('from and to must be ISO dates');
+    }
+
+    const readings = await db.temperatureReading.findMany({
+      where: {
+        reactorId,
+        ...((fromDate || toDate) && {
+          recordedAt: { ...(fromDate && { gte: fromDate }), ...(toDate && { lte: toDate }) },
+        }),
+      },
+      select: { ...TEMPERATURE_READING_SELECT, source: true, productionBatchId: true },
+      orderBy: { recordedAt: 'asc' },
+      take: MAX_READINGS_PER_QUERY,
+    });
+
+    return NextResponse.json({
+      reactorId,
+      readings,
+      truncated: readings.length === MAX_READINGS_PER_QUERY,
+    });
+  } catch (error) {
+    console.error('Error fetching temperature readings:', error);
+    return serverErrorResponse('Failed to fetch temperature readings');
+  }
+}
+
+/**
+ * POST /api/temperature-readings
+ * Ingest reactor temperature readings
+ *
+ * JSON: { source, readings: [{ reactorId, recordedAt, temperatureC }] }
+ * CSV (Content-Type: text/csv, ?source=csv|plc): reactor_id, recorded_at,
+ * temperature_c columns
+ *
+ * Readings already logged for a reactor at the same time are skipped, so
+ * an export can be re-sent. Each reading is attached to the batch of its
+ * reactor whose pyrolysis window contains it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    if (request.headers.get('content-type')?.includes('text/csv')) {
+      let rows: Record<string, string>[];
+      try {
+        rows = parseCSV(await request.text());
+      } catch (error) {
+        return badRequestResponse(error instanceof Error ? error.message : 'Invalid CSV');
+      }
+      const missing = rows.length > 0 ? CSV_COLUMNS.filter((c) => !(c in rows[0])) : [];
+      if (missing.length > 0) {
+        return badRequestResponse(`Missing required columns: ${missing.join(', ')}`);
+      }
+      body = {
+        source: new URL(request.url).searchParams.get('source') ?? 'csv',
+        readings: rows.map((row) => ({
+          reactorId: row.reactor_id,
+          recordedAt: row.recorded_at,
+          temperatureC: row.temperature_c,
+        })),
+      };
+    } else {
+      body = await request.json();
+    }
+
+    const result = temperatureUploadSchema.safeParse(body);
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    // Telemetry is not audited reading by reading; the batch summaries it
+    // changes are recomputed from the stored log
+    const ingested = await db.$transaction(
+      (tx) => ingestTemperatureReadings(result.data.readings, result.data.source, tx),
+      { timeout: 2 * 60 * 1000 }
+    );
+
+    return NextResponse.json(ingested, { status: 201 });
+  } catch (error) {
+    console.error('Error ingesting temperature readings:', error);
+    return serverErrorResponse('Failed to ingest temperature readings');
+  }
+}
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { updateTransportEventSchema } from '@/lib/validations/transport';
+import {
+  findRecordPeriodLock,
+  findUpdatePeriodLock,
+  describePeriodLock,
+} from '@/lib/services/period-lock';
+import { errorResponse } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 
 export async function GET(
   request: NextRequest,
@@ -58,6 +65,26 @@ export async function PUT(
 
     const { id: _id, ...data } = result.data;
 
+    const before = await db.transportEvent.findUnique({
+      where: { id },
+    });
+
+    if (!before) {
+      return NextResponse.json(
+        { error: 'Transport event not found' },
+        { status: 404 }
+      );
+    }
+
+    const periodLock =
+      (await findUpdatePeriodLock('transport_event', id, data.date ? [{ dates: [data.date] }] : [])) ??
+      (data.sequestrationEventId
+        ? await findRecordPeriodLock('sequestration_event', data.sequestrationEventId)
+        : null);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     const transportEvent = await db.transportEvent.update({
       where: { id },
       data,
@@ -66,6 +93,14 @@ export async function PUT(
       },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'transport_event',
+      entityId: id,
+      action: 'update',
+      before,
+      after: transportEvent,
+    });
+
     return NextResponse.json(transportEvent);
   } catch (error) {
     console.error('Error updating transport event:', error);
@@ -86,7 +121,6 @@ export async function DELETE(
     // Check if record exists before attempting delete
     const existing = await db.transportEvent.findUnique({
       where: { id },
-      select: { id: true },
     });
 
     if (!existing) {
@@ -96,10 +130,22 @@ export async function DELETE(
       );
     }
 
+    const periodLock = await findRecordPeriodLock('transport_event', id);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     await db.transportEvent.delete({
       where: { id },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'transport_event',
+      entityId: id,
+      action: 'delete',
+      before: existing,
+    });
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting transport event:', error);
@@ -1,13 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import db from '@/lib/db';
 import { createTransportEventSchema } from '@/lib/validations/transport';
+import {
+  findPeriodLock,
+  findRecordPeriodLock,
+  describePeriodLock,
+} from '@/lib/services/period-lock';
 import {
   parsePaginationParams,
   calculateSkip,
   createPaginatedResponse,
+  errorResponse,
   serverErrorResponse,
   validationErrorResponse,
 } from '@/lib/api-utils';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
 
 export async function GET(request: NextRequest) {
   try {
@@ -49,6 +56,15 @@ export async function POST(request: NextRequest) {
       return validationErrorResponse(result.error.issues);
     }
 
+    const periodLock =
+      (await findPeriodLock({ dates: [result.data.date] })) ??
+      (result.data.sequestrationEventId
+        ? await findRecordPeriodLock('sequestration_event', result.data.sequestrationEventId)
+        : null);
+    if (periodLock) {
+      return errorResponse(describePeriodLock(periodLock), 423, 'PERIOD_LOCKED', periodLock);
+    }
+
     const transportEvent = await db.transportEvent.create({
       data: result.data,
       include: {
@@ -56,6 +72,13 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    await recordAudit(getAuditContext(request), {
+      entityType: 'transport_event',
+      entityId: transportEvent.id,
+      action: 'create',
+      after: transportEvent,
+    });
+
     return NextResponse.json(transportEvent, { status: 201 });
   } catch (error) {
     console.error('Error creating transport event:', error);
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { updateUserSchema } from '@/lib/validations/user';
+import { hashPassword, deleteUserSessions, toPublicUser } from '@/lib/services/user-auth';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import {
+  badRequestResponse,
+  notFoundResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api-utils';
+
+/**
+ * GET /api/users/[id]
+ * Get a user account with its API tokens
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const user = await db.user.findUnique({
+      where: { id },
+      include: {
+        apiTokens: {
+          orderBy: { createdAt: 'desc' },
+          select: {
+            id: true,
+            name: true,
+            tokenPrefix: true,
+            expiresAt: true,
+            lastUsedAt: true,
+            revokedAt: true,
+            createdAt: true,
+          },
+        },
+      },
+    });
+
+    if (!user) {
+      return notFoundResponse('User');
+    }
+
+    return NextResponse.json({ ...toPublicUser(user), apiTokens: user.apiTokens });
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    return serverErrorResponse('Failed to fetch user');
+  }
+}
+
+/**
+ * PUT /api/users/[id]
+ * Update name, role, active flag or password
+ *
+ * Deactivating a user or changing their password or role ends their
+ * sessions. Admins cannot deactivate themselves or drop their own role,
+ * so the last admin cannot lock everyone out by accident.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const result = updateUserSchema.safeParse(body);
+
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    const existing = await db.user.findUnique({ where: { id } });
+
+    if (!existing) {
+      return notFoundResponse('User');
+    }
+
+    const { password, ...updateData } = result.data;
+
+    if (id === request.headers.get('X-User-ID')) {
+      if (updateData.isActive === false) {
+        return badRequestResponse('You cannot deactivate your own account');
+      }
+      if (updateData.role && updateData.role !== existing.role) {
+        return badRequestResponse('You cannot change your own role');
+      }
+    }
+
+    const user = await db.user.update({
+      where: { id },
+      data: {
+        ...updateData,
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      },
+    });
+
+    if (password || user.role !== existing.role || !user.isActive) {
+      await deleteUserSessions(id);
+    }
+
+    await recordAudit(getAuditContext(request), {
+      entityType: 'user',
+      entityId: id,
+      action: 'update',
+      before: toPublicUser(existing),
+      after: toPublicUser(user),
+      note: password ? 'Password changed' : null,
+    });
+
+    return NextResponse.json(toPublicUser(user));
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return serverErrorResponse('Failed to update user');
+  }
+}
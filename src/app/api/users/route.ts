@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import db from '@/lib/db';
+import { createUserSchema } from '@/lib/validations/user';
+import { hashPassword, toPublicUser } from '@/lib/services/user-auth';
+import { recordAudit, getAuditContext } from '@/lib/services/audit-log';
+import {
+  errorResponse,
+  serverErrorResponse,
+  validationErrorResponse,
+} from '@/lib/api-utils';
+
+/**
+ * GET /api/users
+ * List user accounts
+ */
+export async function GET() {
+  try {
+    const users = await db.user.findMany({
+      orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+    });
+
+    return NextResponse.json(users.map(toPublicUser));
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return serverErrorResponse('Failed to fetch users');
+  }
+}
+
+/**
+ * POST /api/users
+ * Create a user account
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const result = createUserSchema.safeParse(body);
+
+    if (!result.success) {
+      return validationErrorResponse(result.error.issues);
+    }
+
+    const { password, ...userData } = result.data;
+
+    const existing = await db.user.findUnique({ where: { email: userData.email } });
+    if (existing) {
+      return errorResponse('A user with this email already exists', 409, 'DUPLICATE_EMAIL');
+    }
+
+    const user = await db.user.create({
+      data: {
+        ...userData,
+        passwordHash: await hashPassword(password),
+      },
+    });
+
+    await recordAudit(getAuditContext(request), {
+      entityType: 'user',
+      entityId: user.id,
+      action: 'create',
+      after: toPublicUser(user),
+    });
+
+    return NextResponse.json(toPublicUser(user), { status: 201 });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return serverErrorResponse('Failed to create user');
+  }
+}
@@ -11,7 +11,6 @@ import {
   Factory,
   Leaf,
   ArrowDownToLine,
-  FileText,
   User,
   CheckCircle2,
   Circle,
@@ -20,13 +19,31 @@ import {
   TreeDeciduous,
 } from 'lucide-react';
 import db from '@/lib/db';
+import { getEntityHistory } from '@/lib/services/audit-log';
+import { getHoldingLots, summarizeLots, fallbackBalance } from '@/lib/services/credit-lots';
+import { getHoldingLedger, getHolderAccounts } from '@/lib/services/registry-ledger';
+import {
+  summarizeLabCampaigns,
+  currentLabCampaign,
+  LAB_TEST_CAMPAIGN_SELECT,
+  SAMPLING_CAMPAIGN_SELECT,
+} from '@/lib/services/lab-campaigns';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
+import { EvidencePanel } from '@/components/evidence';
+import { AuditHistoryPanel } from '@/components/audit';
+import { CreditLotsPanel, LedgerHistoryPanel } from '@/components/registry';
 import {
   Card,
   CardContent,
   CardHeader,
   CardTitle,
   Badge,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
 } from '@/components/ui';
 
 async function getCORC(id: string) {
@@ -38,15 +55,19 @@ async function getCORC(id: string) {
           facility: true,
         },
       },
+      legacyBcu: {
+        select: { id: true, registrySerialNumber: true },
+      },
       productionBatches: {
         include: {
           productionBatch: {
             include: {
-              labTests: {
+              labTests: { select: LAB_TEST_CAMPAIGN_SELECT },
+              samplingCampaigns: { select: SAMPLING_CAMPAIGN_SELECT },
+              sequestrationBatches: {
                 select: {
-                  id: true,
-                  labName: true,
-                  testDate: true,
+                  sequestrationId: true,
+                  quantityTonnes: true,
                 },
               },
               feedstockAllocations: {
@@ -72,6 +93,14 @@ async function getCORC(id: string) {
           sequestration: true,
         },
       },
+      calculationRun: {
+        select: {
+          id: true,
+          createdAt: true,
+          productionBatchIds: true,
+          sequestrationEventIds: true,
+        },
+      },
       evidence: true,
     },
   });
@@ -229,6 +258,123 @@ function CalculationWaterfall({
   );
 }
 
+type CORCWithSources = NonNullable<Awaited<ReturnType<typeof getCORC>>>;
+
+/**
+ * Every production batch behind the issuance with its lab result, feedstock
+ * and the tonnes it sent to this issuance's sequestration events
+ */
+function ContributingRecords({ corc }: { corc: CORCWithSources }) {
+  const events = new Map(corc.sequestrationEvents.map((se) => [se.sequestration.id, se.sequestration]));
+  const run = corc.calculationRun;
+  const unlinkedCount = run
+    ? run.productionBatchIds.filter((id) => !corc.productionBatches.some((pb) => pb.productionBatchId === id)).length +
+      run.sequestrationEventIds.filter((id) => !events.has(id)).length
+    : 0;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Factory className="h-5 w-5" />
+          Contributing Records
+        </CardTitle>
+        <p className="text-xs text-[var(--muted-foreground)]">
+          {run
+            ? `From the calculation run of ${format(run.createdAt, 'MMM d, yyyy HH:mm')}`
+            : 'Linked records (no calculation run)'}
+          {' · '}
+          {corc.productionBatches.length} batches · {corc.sequestrationEvents.length} events
+        </p>
+      </CardHeader>
+      <CardContent>
+        {unlinkedCount > 0 && (
+          <div className="mb-3 bg-amber-50 p-3 text-sm text-amber-700">
+            {unlinkedCount} record{unlinkedCount === 1 ? '' : 's'} included in the calculation run{' '}
+            {unlinkedCount === 1 ? 'is' : 'are'} not linked to this issuance.
+          </div>
+        )}
+        {corc.productionBatches.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Batch</TableHead>
+                <TableHead>Produced</TableHead>
+                <TableHead className="text-right">Dry mass</TableHead>
+                <TableHead>Lab test</TableHead>
+                <TableHead>Feedstock</TableHead>
+                <TableHead>Sequestered in</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {corc.productionBatches.map(({ productionBatch: batch }) => {
+                const campaign = currentLabCampaign(summarizeLabCampaigns(batch.samplingCampaigns, batch.labTests));
+                const deliveries = batch.sequestrationBatches.filter((sb) => events.has(sb.sequestrationId));
+
+                return (
+                  <TableRow key={batch.id}>
+                    <TableCell>
+                      <Link href={`/production/${batch.id}`} className="font-mono underline">
+                        #{batch.serialNumber}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{format(batch.productionDate, 'MMM d, yyyy')}</TableCell>
+                    <TableCell className="text-right">
+                      {(batch.dryMassTonnes ?? batch.outputBiocharWeightTonnes).toFixed(2)}t
+                    </TableCell>
+                    <TableCell>
+                      {campaign ? (
+                        <Link href={`/production/${batch.id}`} className="text-xs hover:underline">
+                          {campaign.name}, {format(campaign.samplingDate, 'MMM d, yyyy')} (n={campaign.includedCount})
+                          <span className="block text-[var(--muted-foreground)]">
+                            C_org LCB {campaign.conservativeOrganicCarbonPercent?.toFixed(1)}%
+                            {campaign.hCorgRatio !== null && ` · H/C ${campaign.hCorgRatio.toFixed(2)}`}
+                          </span>
+                        </Link>
+                      ) : (
+                        <span className="text-xs text-[var(--muted-foreground)]">None</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-0.5 text-xs">
+                        {batch.feedstockAllocations.map((fa) => (
+                          <Link key={fa.feedstockDelivery.id} href={`/feedstock/${fa.feedstockDelivery.id}`} className="hover:underline">
+                            {fa.feedstockDelivery.feedstockType.replace(/_/g, ' ')}, {format(fa.feedstockDelivery.date, 'MMM d')}
+                          </Link>
+                        ))}
+                        {batch.feedstockAllocations.length === 0 && (
+                          <span className="text-[var(--muted-foreground)]">-</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-col gap-0.5 text-xs">
+                        {deliveries.map((sb) => {
+                          const event = events.get(sb.sequestrationId)!;
+                          return (
+                            <Link key={sb.sequestrationId} href={`/sequestration/${event.id}`} className="hover:underline">
+                              {event.deliveryPostcode}, {format(event.finalDeliveryDate, 'MMM d, yyyy')} · {sb.quantityTonnes.toFixed(2)}t
+                            </Link>
+                          );
+                        })}
+                        {deliveries.length === 0 && (
+                          <span className="text-[var(--muted-foreground)]">Not in a linked event</span>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-[var(--muted-foreground)] text-center py-4">No linked production batches</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default async function CORCDetailPage({
   params,
 }: {
@@ -241,6 +387,16 @@ export default async function CORCDetailPage({
     notFound();
   }
 
+  const [history, lots, ledger, accounts] = await Promise.all([
+    getEntityHistory('corc_issuance', id),
+    getHoldingLots({ type: 'corc', id }),
+    getHoldingLedger({ type: 'corc', id }),
+    getHolderAccounts(),
+  ]);
+  const lotBalance = lots.length > 0
+    ? summarizeLots(lots)
+    : fallbackBalance(corc.status, corc.netCORCsTCO2e);
+
   // Extract unique feedstock sources from all production batches
   const feedstockSources = new Map<string, {
     id: string;
@@ -357,6 +513,14 @@ export default async function CORCDetailPage({
               <span className="text-[var(--muted-foreground)]">Permanence Type</span>
               <Badge variant="outline">{corc.permanenceType?.replace(/_/g, ' ') ?? 'N/A'}</Badge>
             </div>
+            {corc.legacyBcu && (
+              <div className="flex justify-between">
+                <span className="text-[var(--muted-foreground)]">Converted From</span>
+                <Link href={`/registry/${corc.legacyBcu.id}`} className="font-mono text-sm underline">
+                  BCU {corc.legacyBcu.registrySerialNumber}
+                </Link>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-[var(--muted-foreground)]">Issuance Date</span>
               <span className="font-medium">
@@ -588,6 +752,8 @@ export default async function CORCDetailPage({
         </Card>
       </div>
 
+      <ContributingRecords corc={corc} />
+
       {/* Ownership & Retirement */}
       {(corc.retirementBeneficiary || corc.status === 'retired') && (
         <Card className="mt-6">
@@ -614,36 +780,34 @@ export default async function CORCDetailPage({
         </Card>
       )}
 
-      {/* Evidence */}
-      {corc.evidence.length > 0 && (
-        <Card className="mt-6">
-          <CardHeader>
-            <CardTitle className="text-lg flex items-center gap-2">
-              <FileText className="h-5 w-5" />
-              Evidence & Documentation
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid gap-2">
-              {corc.evidence.map((file) => (
-                <div
-                  key={file.id}
-                  className="flex items-center justify-between p-3 border rounded"
-                >
-                  <div>
-                    <p className="font-medium text-sm">{file.fileName}</p>
-                    <p className="text-xs text-[var(--muted-foreground)]">
-                      {file.category} • {(file.fileSize / 1024).toFixed(1)} KB
-                    </p>
-                  </div>
-                  <Badge variant="outline">{file.fileType}</Badge>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+      {/* Lots and chain of custody */}
+      {corc.status !== 'draft' && (
+        <>
+          <CreditLotsPanel
+            className="mt-6"
+            apiBase={`/api/corc/${corc.id}`}
+            baseSerial={corc.serialNumber}
+            lots={lots}
+            balance={lotBalance}
+            canOperate={corc.status === 'issued'}
+            showRetirementPurpose
+            ownerName={corc.ownerName}
+            accounts={accounts}
+            serialBlock={corc}
+            showCertificates
+          />
+          <LedgerHistoryPanel className="mt-6" transactions={ledger} />
+        </>
       )}
 
+      {/* Evidence */}
+      <EvidencePanel
+        className="mt-6"
+        title="Evidence & Documentation"
+        files={corc.evidence}
+        links={{ corcId: corc.id }}
+      />
+
       {/* Notes */}
       {corc.notes && (
         <Card className="mt-6">
@@ -655,6 +819,8 @@ export default async function CORCDetailPage({
           </CardContent>
         </Card>
       )}
+
+      <AuditHistoryPanel className="mt-6" entries={history} />
     </PageContainer>
   );
 }
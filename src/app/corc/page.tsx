@@ -16,6 +16,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui';
 import db from '@/lib/db';
+import { getLotBalances } from '@/lib/services/credit-lots';
 
 async function getCORCData() {
   try {
@@ -41,19 +42,26 @@ async function getCORCData() {
       },
     });
 
-    // Calculate totals
+    const balances = await getLotBalances(
+      'corc',
+      corcs.map(c => ({ id: c.id, status: c.status, quantityTCO2e: c.netCORCsTCO2e }))
+    );
+
+    // Calculate totals; issued and retired count lot units, so partial
+    // retirements are split between them
     const totals = {
       draft: corcs.filter(c => c.status === 'draft').reduce((sum, c) => sum + c.netCORCsTCO2e, 0),
-      issued: corcs.filter(c => c.status === 'issued').reduce((sum, c) => sum + c.netCORCsTCO2e, 0),
-      retired: corcs.filter(c => c.status === 'retired').reduce((sum, c) => sum + c.netCORCsTCO2e, 0),
+      issued: corcs.reduce((sum, c) => sum + (balances.get(c.id)?.remaining ?? 0), 0),
+      retired: corcs.reduce((sum, c) => sum + (balances.get(c.id)?.retired ?? 0), 0),
       total: corcs.reduce((sum, c) => sum + c.netCORCsTCO2e, 0),
     };
 
-    return { corcs, totals, error: null };
+    return { corcs, balances, totals, error: null };
   } catch (error) {
     console.error('Error fetching CORC data:', error);
     return {
       corcs: [],
+      balances: new Map(),
       totals: { draft: 0, issued: 0, retired: 0, total: 0 },
       error: 'Failed to load CORC registry'
     };
@@ -61,7 +69,7 @@ async function getCORCData() {
 }
 
 export default async function CORCRegistryPage() {
-  const { corcs, totals, error } = await getCORCData();
+  const { corcs, balances, totals, error } = await getCORCData();
 
   if (error) {
     return (
@@ -147,7 +155,7 @@ export default async function CORCRegistryPage() {
               </div>
               <div>
                 <p className="text-2xl font-bold">{totals.issued.toFixed(1)}</p>
-                <p className="text-xs text-[var(--muted-foreground)]">Issued tCO₂e</p>
+                <p className="text-xs text-[var(--muted-foreground)]">Remaining tCO₂e</p>
               </div>
             </div>
           </CardContent>
@@ -173,6 +181,7 @@ export default async function CORCRegistryPage() {
           {corcs.map((corc) => {
             const config = statusConfig[corc.status as keyof typeof statusConfig] || statusConfig.draft;
             const StatusIcon = config.icon;
+            const balance = balances.get(corc.id);
 
             return (
               <Card key={corc.id} className="hover:border-[var(--foreground)]/20 transition-colors">
@@ -191,6 +200,11 @@ export default async function CORCRegistryPage() {
                           <Badge variant="outline" className="text-xs">
                             {corc.permanenceType}
                           </Badge>
+                          {corc.issuanceType === 'legacy_bcu' && (
+                            <Badge variant="info" className="text-xs">
+                              Legacy BCU
+                            </Badge>
+                          )}
                         </div>
                         <p className="text-sm text-[var(--muted-foreground)]">
                           {corc.monitoringPeriod.facility.name} · {format(corc.monitoringPeriod.periodStart, 'MMM yyyy')} - {format(corc.monitoringPeriod.periodEnd, 'MMM yyyy')}
@@ -203,6 +217,13 @@ export default async function CORCRegistryPage() {
                         <p className="text-lg font-semibold">
                           {corc.netCORCsTCO2e.toFixed(2)} <span className="text-sm font-normal text-[var(--muted-foreground)]">tCO₂e</span>
                         </p>
+                        {corc.status !== 'draft' && balance && (
+                          <p className="text-xs">
+                            <span className="text-emerald-600">{balance.remaining} remaining</span>
+                            {' · '}
+                            <span className="text-violet-600">{balance.retired} retired</span>
+                          </p>
+                        )}
                         <p className="text-xs text-[var(--muted-foreground)]">
                           {corc._count.productionBatches} batches · {corc._count.sequestrationEvents} events
                         </p>
@@ -3,6 +3,7 @@ export const dynamic = 'force-dynamic';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import db from '@/lib/db';
+import { getEntityHistory } from '@/lib/services/audit-log';
 import { formatDateTime } from '@/lib/utils';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
 import {
@@ -14,6 +15,8 @@ import {
   Badge,
 } from '@/components/ui';
 import { QRDisplay } from '@/components/qr';
+import { EvidencePanel } from '@/components/evidence';
+import { AuditHistoryPanel } from '@/components/audit';
 import { ENERGY_SCOPES, ENERGY_TYPES, ENERGY_UNITS } from '@/lib/validations/energy';
 
 async function getEnergyUsage(id: string) {
@@ -44,6 +47,8 @@ export default async function EnergyDetailPage({
     notFound();
   }
 
+  const history = await getEntityHistory('energy_usage', id);
+
   const scopeLabel =
     ENERGY_SCOPES.find((s) => s.value === energyUsage.scope)?.label ||
     energyUsage.scope;
@@ -142,35 +147,11 @@ export default async function EnergyDetailPage({
           </CardContent>
         </Card>
 
-        <Card className="md:col-span-2">
-          <CardHeader>
-            <CardTitle className="text-lg">Evidence Files</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {energyUsage.evidence.length > 0 ? (
-              <div className="grid gap-2">
-                {energyUsage.evidence.map((file) => (
-                  <div
-                    key={file.id}
-                    className="flex items-center justify-between border p-3"
-                  >
-                    <div>
-                      <p className="font-medium">{file.fileName}</p>
-                      <p className="text-sm text-[var(--muted-foreground)]">
-                        {file.category} • {(file.fileSize / 1024).toFixed(1)} KB
-                      </p>
-                    </div>
-                    <Badge variant="outline">{file.fileType}</Badge>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <p className="text-[var(--muted-foreground)]">
-                No evidence files uploaded yet.
-              </p>
-            )}
-          </CardContent>
-        </Card>
+        <EvidencePanel
+          className="md:col-span-2"
+          files={energyUsage.evidence}
+          links={{ energyUsageId: energyUsage.id }}
+        />
 
         {energyUsage.notes && (
           <Card className="md:col-span-2">
@@ -206,6 +187,8 @@ export default async function EnergyDetailPage({
             </CardContent>
           </Card>
         )}
+
+        <AuditHistoryPanel className="md:col-span-2" entries={history} />
       </div>
     </PageContainer>
   );
@@ -15,6 +15,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui';
 import db from '@/lib/db';
+import { getEntityHistory } from '@/lib/services/audit-log';
+import { DEFAULT_GWP_SET, GWP_SETS } from '@/lib/corc';
+import type { GwpSetId } from '@/lib/corc';
+import { AuditHistoryPanel } from '@/components/audit';
 
 async function getFacilityData() {
   try {
@@ -110,6 +114,8 @@ export default async function FacilityPage() {
     );
   }
 
+  const history = await getEntityHistory('facility', facility.id);
+
   const baselineTypeLabels: Record<string, string> = {
     NEW_BUILT: 'New Built',
     RETROFIT_FACILITY: 'Retrofit Facility',
@@ -161,6 +167,12 @@ export default async function FacilityPage() {
                 Country: {facility.country}
               </div>
             )}
+            <div className="text-sm text-[var(--muted-foreground)]">
+              Pyrolysis threshold: {facility.pyrolysisMinTemperatureC}°C, max log gap {facility.temperatureMaxGapSeconds}s
+            </div>
+            <div className="text-sm text-[var(--muted-foreground)]">
+              GWP basis: {facility.gwpSet ? GWP_SETS[facility.gwpSet as GwpSetId].name : `${GWP_SETS[DEFAULT_GWP_SET].name} (methodology default)`}
+            </div>
           </CardContent>
         </Card>
 
@@ -319,6 +331,8 @@ export default async function FacilityPage() {
           )}
         </CardContent>
       </Card>
+
+      <AuditHistoryPanel entries={history} />
     </div>
   );
 }
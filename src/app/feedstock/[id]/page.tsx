@@ -3,6 +3,7 @@ export const dynamic = 'force-dynamic';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import db from '@/lib/db';
+import { getEntityHistory } from '@/lib/services/audit-log';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
 import { formatDateTime } from '@/lib/utils';
 import {
@@ -14,6 +15,8 @@ import {
   Badge,
 } from '@/components/ui';
 import { QRDisplay } from '@/components/qr';
+import { EvidencePanel } from '@/components/evidence';
+import { AuditHistoryPanel } from '@/components/audit';
 import { FEEDSTOCK_TYPES, FUEL_TYPES } from '@/lib/validations/feedstock';
 import {
   Leaf,
@@ -85,6 +88,8 @@ export default async function FeedstockDetailPage({
     notFound();
   }
 
+  const history = await getEntityHistory('feedstock_delivery', id);
+
   const feedstockTypeLabel =
     FEEDSTOCK_TYPES.find((t) => t.value === feedstock.feedstockType)?.label ||
     feedstock.feedstockType;
@@ -345,35 +350,11 @@ export default async function FeedstockDetailPage({
           </Card>
         )}
 
-        <Card className="md:col-span-2">
-          <CardHeader>
-            <CardTitle className="text-lg">Evidence Files</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {feedstock.evidence.length > 0 ? (
-              <div className="grid gap-2">
-                {feedstock.evidence.map((file) => (
-                  <div
-                    key={file.id}
-                    className="flex items-center justify-between border p-3"
-                  >
-                    <div>
-                      <p className="font-medium">{file.fileName}</p>
-                      <p className="text-sm text-[var(--muted-foreground)]">
-                        {file.category} • {(file.fileSize / 1024).toFixed(1)} KB
-                      </p>
-                    </div>
-                    <Badge variant="outline">{file.fileType}</Badge>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <p className="text-[var(--muted-foreground)]">
-                No evidence files uploaded yet.
-              </p>
-            )}
-          </CardContent>
-        </Card>
+        <EvidencePanel
+          className="md:col-span-2"
+          files={feedstock.evidence}
+          links={{ feedstockDeliveryId: feedstock.id }}
+        />
 
         {feedstock.notes && (
           <Card className="md:col-span-2">
@@ -436,6 +417,8 @@ export default async function FeedstockDetailPage({
             </CardContent>
           </Card>
         )}
+
+        <AuditHistoryPanel className="md:col-span-2" entries={history} />
       </div>
     </PageContainer>
   );
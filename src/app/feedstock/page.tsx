@@ -3,13 +3,18 @@ export const dynamic = 'force-dynamic';
 import Link from 'next/link';
 import db from '@/lib/db';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
-import { Button, Card, CardContent } from '@/components/ui';
+import { Badge, Button, Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
 import { FeedstockTable } from '@/components/feedstock';
 import { WorkflowNav } from '@/components/workflow-nav';
-import { Leaf, Scale, Truck, Plus } from 'lucide-react';
+import { Leaf, Scale, Truck, Plus, AlertTriangle } from 'lucide-react';
+import {
+  getFeedstockDeliveryBalances,
+  getFeedstockAllocationReport,
+} from '@/lib/services/feedstock-allocation';
+import { formatDate } from '@/lib/utils';
 
 async function getFeedstocks() {
-  return db.feedstockDelivery.findMany({
+  const deliveries = await db.feedstockDelivery.findMany({
     orderBy: { date: 'desc' },
     select: {
       id: true,
@@ -31,6 +36,14 @@ async function getFeedstocks() {
       },
     },
   });
+
+  const balances = await getFeedstockDeliveryBalances();
+
+  return deliveries.map((delivery) => ({
+    ...delivery,
+    remainingPercent: balances.get(delivery.id)?.remainingPercent,
+    remainingTonnes: balances.get(delivery.id)?.remainingTonnes,
+  }));
 }
 
 async function getStats() {
@@ -52,7 +65,11 @@ async function getStats() {
 }
 
 export default async function FeedstockPage() {
-  const [feedstocks, stats] = await Promise.all([getFeedstocks(), getStats()]);
+  const [feedstocks, stats, allocationReport] = await Promise.all([
+    getFeedstocks(),
+    getStats(),
+    getFeedstockAllocationReport(),
+  ]);
 
   return (
     <PageContainer>
@@ -129,6 +146,51 @@ export default async function FeedstockPage() {
         </Card>
       </div>
 
+      {(allocationReport.overAllocated.length > 0 || allocationReport.unconsumed.length > 0) && (
+        <Card className="border-[var(--border)]">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-amber-500" />
+              Allocation Report
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            {allocationReport.overAllocated.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-medium text-red-600">
+                  Over-allocated ({allocationReport.overAllocated.length}) – double-counted in E_biomass
+                </p>
+                {allocationReport.overAllocated.map((entry) => (
+                  <div key={entry.feedstockDeliveryId} className="flex items-center justify-between">
+                    <Link href={`/feedstock/${entry.feedstockDeliveryId}`} className="hover:underline">
+                      #{entry.serialNumber} · {formatDate(entry.date)}
+                    </Link>
+                    <span className="text-[var(--muted-foreground)]">
+                      {entry.batches.map((b) => `#${b.serialNumber} ${b.percentageUsed}%`).join(', ')}{' '}
+                      <Badge variant="destructive">{entry.allocatedPercent.toFixed(1)}%</Badge>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {allocationReport.unconsumed.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-medium">
+                  Never consumed ({allocationReport.unconsumed.length})
+                </p>
+                <p className="text-[var(--muted-foreground)]">
+                  {allocationReport.unconsumed
+                    .map((entry) =>
+                      `#${entry.serialNumber}${entry.weightTonnes ? ` (${entry.weightTonnes.toFixed(2)} t)` : ''}`
+                    )
+                    .join(', ')}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       <FeedstockTable feedstocks={feedstocks} />
     </PageContainer>
   );
@@ -0,0 +1,183 @@
+export const dynamic = 'force-dynamic';
+
+import Link from 'next/link';
+import { PageContainer, PageHeader } from '@/components/layout/page-container';
+import {
+  Badge,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell,
+} from '@/components/ui';
+import {
+  getBiocharInventory,
+  summarizeStockByLocation,
+  type InventoryLocationStatus,
+} from '@/lib/services/biochar-inventory';
+import { formatDate } from '@/lib/utils';
+import { Boxes, Factory, Warehouse, ArrowDownToLine, AlertTriangle } from 'lucide-react';
+
+const STATUS_LABELS: Record<InventoryLocationStatus, { label: string; variant: 'success' | 'info' | 'pending' | 'secondary' }> = {
+  on_hand: { label: 'On hand', variant: 'success' },
+  in_storage: { label: 'In storage', variant: 'info' },
+  awaiting_delivery: { label: 'Awaiting delivery', variant: 'pending' },
+  delivered: { label: 'Delivered', variant: 'secondary' },
+};
+
+export default async function InventoryPage() {
+  const inventory = await getBiocharInventory();
+  const byLocation = summarizeStockByLocation(inventory);
+
+  const totals = inventory.reduce(
+    (acc, b) => ({
+      produced: acc.produced + b.producedTonnes,
+      stored: acc.stored + b.storedTonnes,
+      delivered: acc.delivered + b.deliveredTonnes,
+      remaining: acc.remaining + b.remainingTonnes,
+    }),
+    { produced: 0, stored: 0, delivered: 0, remaining: 0 }
+  );
+  const overAllocated = inventory.filter((b) => b.overAllocatedTonnes > 0);
+
+  const stats = [
+    { label: 'tonnes produced', value: totals.produced, icon: Factory, color: 'text-blue-500', bg: 'bg-blue-500/10' },
+    { label: 'tonnes on hand', value: totals.remaining, icon: Boxes, color: 'text-green-500', bg: 'bg-green-500/10' },
+    { label: 'tonnes stored / awaiting delivery', value: totals.stored, icon: Warehouse, color: 'text-amber-500', bg: 'bg-amber-500/10' },
+    { label: 'tonnes delivered', value: totals.delivered, icon: ArrowDownToLine, color: 'text-slate-500', bg: 'bg-slate-500/10' },
+  ];
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Biochar Inventory"
+        description="Mass balance of biochar from production to sequestration"
+        icon={Boxes}
+        iconColor="text-green-500"
+      />
+
+      {/* Stats */}
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
+        {stats.map((stat) => (
+          <Card key={stat.label} className="border-[var(--border)]">
+            <CardContent className="p-3">
+              <div className="flex items-center gap-2.5">
+                <div className={`h-8 w-8 rounded-md ${stat.bg} flex items-center justify-center`}>
+                  <stat.icon className={`h-4 w-4 ${stat.color}`} />
+                </div>
+                <div>
+                  <p className="text-xl font-semibold leading-none">{stat.value.toFixed(2)}</p>
+                  <p className="text-[10px] text-[var(--muted-foreground)] mt-0.5">{stat.label}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {overAllocated.length > 0 && (
+        <div className="flex items-start gap-3 p-4 rounded-lg bg-red-50 border border-red-200 text-red-800">
+          <AlertTriangle className="h-5 w-5 mt-0.5 shrink-0" />
+          <p className="text-sm">
+            {overAllocated.length} production batch{overAllocated.length === 1 ? ' is' : 'es are'} allocated
+            to sequestration events beyond their produced quantity:{' '}
+            {overAllocated
+              .map((b) => `#${b.serialNumber} (+${b.overAllocatedTonnes.toFixed(2)} t)`)
+              .join(', ')}
+            . Correct the sequestration events before calculating CORCs.
+          </p>
+        </div>
+      )}
+
+      {/* Stock by location */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Stock by Location</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {byLocation.length === 0 ? (
+            <p className="text-sm text-[var(--muted-foreground)]">No biochar on hand.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Batches</TableHead>
+                  <TableHead className="text-right">Quantity (t)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {byLocation.map((entry) => (
+                  <TableRow key={`${entry.status}:${entry.location}`}>
+                    <TableCell className="font-medium">{entry.location}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_LABELS[entry.status].variant}>
+                        {STATUS_LABELS[entry.status].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{entry.batchCount}</TableCell>
+                    <TableCell className="text-right font-mono">{entry.quantityTonnes.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Ledger by batch */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Ledger by Production Batch</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {inventory.length === 0 ? (
+            <p className="text-sm text-[var(--muted-foreground)]">No production batches yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Batch</TableHead>
+                  <TableHead>Produced On</TableHead>
+                  <TableHead className="text-right">Produced (t)</TableHead>
+                  <TableHead className="text-right">Dry Mass (t)</TableHead>
+                  <TableHead className="text-right">Stored (t)</TableHead>
+                  <TableHead className="text-right">Delivered (t)</TableHead>
+                  <TableHead className="text-right">Remaining (t)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {inventory.map((batch) => (
+                  <TableRow key={batch.productionBatchId}>
+                    <TableCell className="font-medium">
+                      <Link href={`/production/${batch.productionBatchId}`} className="hover:underline">
+                        #{batch.serialNumber}
+                      </Link>
+                      {batch.overAllocatedTonnes > 0 && (
+                        <Badge variant="destructive" className="ml-2">Over-allocated</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDate(batch.productionDate)}</TableCell>
+                    <TableCell className="text-right font-mono">{batch.producedTonnes.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono text-[var(--muted-foreground)]">
+                      {batch.dryMassTonnes?.toFixed(2) ?? '-'}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{batch.storedTonnes.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono">{batch.deliveredTonnes.toFixed(2)}</TableCell>
+                    <TableCell className="text-right font-mono font-medium">{batch.remainingTonnes.toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </PageContainer>
+  );
+}
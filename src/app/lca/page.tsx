@@ -33,18 +33,29 @@ import {
   estimateCORCs,
   createDefaultEProjectInput,
   createDefaultLeakageInput,
+  ESTIMATE_ORGANIC_CARBON_PERCENT,
+  ESTIMATE_HYDROGEN_PERCENT,
+  DEFAULT_GWP_SET,
 } from '@/lib/corc';
-import type { CORCCalculationInput } from '@/lib/corc';
+import type { CORCCalculationInput, GwpSetId } from '@/lib/corc';
+import {
+  summarizeLabCampaigns,
+  currentLabCampaign,
+  LAB_TEST_CAMPAIGN_SELECT,
+  SAMPLING_CAMPAIGN_SELECT,
+} from '@/lib/services/lab-campaigns';
+import { resolveBatchCalculationData, summarizeDataGaps, DATA_GAP_FIELDS } from '@/lib/services/data-completeness';
+import type { BatchDataGap } from '@/lib/services/data-completeness';
+import { estimateBatchStackEmissions, STACK_EMISSION_SAMPLE_SELECT } from '@/lib/services/stack-emissions';
 
 async function getCORCData() {
   // Get completed production batches with lab tests
   const productionBatches = await db.productionBatch.findMany({
     where: { status: 'complete' },
     include: {
-      labTests: {
-        orderBy: { testDate: 'desc' },
-        take: 1,
-      },
+      labTests: { select: LAB_TEST_CAMPAIGN_SELECT },
+      samplingCampaigns: { select: SAMPLING_CAMPAIGN_SELECT },
+      stackEmissionSamples: { select: STACK_EMISSION_SAMPLE_SELECT },
       feedstockAllocations: {
         include: {
           feedstockDelivery: true,
@@ -78,24 +89,30 @@ async function getCORCData() {
   let totalStackCH4Kg = 0;
   let totalStackN2OKg = 0;
   let batchesWithLabTests = 0;
+  const dataGaps: BatchDataGap[] = [];
 
   for (const batch of productionBatches) {
-    const dryMass = batch.dryMassTonnes ?? batch.outputBiocharWeightTonnes;
+    // Quality parameters from the current sampling campaign (C_org lower
+    // confidence bound, mean H); placeholders fill any gaps
+    const campaign = currentLabCampaign(summarizeLabCampaigns(batch.samplingCampaigns, batch.labTests));
+    const {
+      dryMassTonnes: dryMass,
+      organicCarbonPercent: organicCarbon,
+      hydrogenPercent: hydrogen,
+      gaps,
+    } = resolveBatchCalculationData({ ...batch, labTestCount: batch.labTests.length, labCampaign: campaign });
+    dataGaps.push(...gaps);
     totalBiocharDryMassTonnes += dryMass;
 
-    // Get quality parameters from lab test or batch
-    const labTest = batch.labTests[0];
-    const organicCarbon = labTest?.organicCarbonPercent ?? batch.organicCarbonPercent ?? 80;
-    const hydrogen = labTest?.hydrogenPercent ?? batch.hydrogenPercent ?? 2;
-
-    if (labTest) batchesWithLabTests++;
+    if (campaign) batchesWithLabTests++;
 
     weightedOrganicCarbonPercent += organicCarbon * dryMass;
     weightedHydrogenPercent += hydrogen * dryMass;
 
-    // Sum stack emissions
-    totalStackCH4Kg += batch.ch4EmissionsKg ?? 0;
-    totalStackN2OKg += batch.n2oEmissionsKg ?? 0;
+    // Stack emissions: measured, entered, or the default factor
+    const stack = estimateBatchStackEmissions(batch, dryMass);
+    totalStackCH4Kg += stack.CH4.kg;
+    totalStackN2OKg += stack.N2O.kg;
 
     // Sum feedstock transport emissions
     for (const allocation of batch.feedstockAllocations) {
@@ -117,10 +134,10 @@ async function getCORCData() {
   // Calculate weighted averages
   const avgOrganicCarbonPercent = totalBiocharDryMassTonnes > 0
     ? weightedOrganicCarbonPercent / totalBiocharDryMassTonnes
-    : 80;
+    : ESTIMATE_ORGANIC_CARBON_PERCENT;
   const avgHydrogenPercent = totalBiocharDryMassTonnes > 0
     ? weightedHydrogenPercent / totalBiocharDryMassTonnes
-    : 2;
+    : ESTIMATE_HYDROGEN_PERCENT;
 
   // Get mean soil temperature from sequestration events
   let meanSoilTempC = 15; // Default
@@ -209,6 +226,7 @@ async function getCORCData() {
       baselineCarbonStorageTCO2e: 0,
       projectEmissions,
       leakageEmissions: leakageInput,
+      gwpSet: (facility?.gwpSet as GwpSetId | null) ?? DEFAULT_GWP_SET,
     };
 
     try {
@@ -227,6 +245,7 @@ async function getCORCData() {
   return {
     productionBatchCount: productionBatches.length,
     batchesWithLabTests,
+    dataCompleteness: summarizeDataGaps(productionBatches.length, dataGaps),
     sequestrationEventCount: sequestrationEvents.length,
     totalBiocharDryMassTonnes,
     totalSequesteredTonnes,
@@ -328,6 +347,38 @@ export default async function LCAPage() {
             </Card>
           )}
 
+          {!data.dataCompleteness.complete && (
+            <Card className="border-amber-500/30 bg-amber-500/5">
+              <CardContent className="p-4 flex items-start gap-3">
+                <AlertCircle className="h-5 w-5 text-amber-500 flex-shrink-0" />
+                <div className="flex-1">
+                  <p className="text-sm font-medium">Estimate Only - Not Issuable</p>
+                  <p className="text-xs text-[var(--muted-foreground)]">
+                    {data.dataCompleteness.incompleteBatchCount} of {data.dataCompleteness.batchCount} batch(es) lack
+                    measured data, so placeholder values stand in below. A monitoring period calculation refuses to
+                    run until these are complete.
+                  </p>
+                  <ul className="mt-2 space-y-0.5 text-xs">
+                    {data.dataCompleteness.gaps.slice(0, 10).map((gap) => (
+                      <li key={`${gap.productionBatchId}-${gap.field}`}>
+                        <Link href={`/production/${gap.productionBatchId}`} className="hover:underline">
+                          Batch #{gap.batchSerialNumber}
+                        </Link>
+                        {' - '}
+                        {DATA_GAP_FIELDS.find((f) => f.value === gap.field)?.label}: {gap.message}
+                      </li>
+                    ))}
+                  </ul>
+                  {data.dataCompleteness.gaps.length > 10 && (
+                    <p className="text-xs text-[var(--muted-foreground)] mt-1">
+                      and {data.dataCompleteness.gaps.length - 10} more
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {hCorgRatio > 0.7 && (
             <Card className="border-red-500/30 bg-red-500/5">
               <CardContent className="p-4 flex items-center gap-3">
@@ -373,9 +424,11 @@ export default async function LCAPage() {
                     </div>
                   </div>
                 )}
-                {data.estimate && (
+                {(data.estimate || !data.dataCompleteness.complete) && (
                   <div className="mt-3 pt-3 border-t border-emerald-500/20">
-                    <p className="text-[10px] text-amber-600">Estimate only - full LCA data required</p>
+                    <p className="text-[10px] text-amber-600">
+                      {data.estimate ? 'Estimate only - full LCA data required' : 'Estimate only - batch data incomplete'}
+                    </p>
                   </div>
                 )}
               </CardContent>
@@ -0,0 +1,19 @@
+import { LoginForm } from '@/components/users';
+
+export default async function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string }>;
+}) {
+  const { next } = await searchParams;
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-6 p-4 bg-[var(--background)]">
+      <div className="text-center">
+        <span className="font-logo text-2xl">ECM</span>
+        <span className="text-xs font-medium tracking-widest text-[var(--muted-foreground)] uppercase ml-1">MRV</span>
+      </div>
+      <LoginForm next={next} />
+    </div>
+  );
+}
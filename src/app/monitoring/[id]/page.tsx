@@ -16,9 +16,17 @@ import {
   AlertCircle,
   FileText,
   Beaker,
+  History,
+  Download,
+  Lock,
+  LockOpen,
 } from 'lucide-react';
 import db from '@/lib/db';
+import { getMethodology } from '@/lib/corc';
+import type { MethodologyComparisonEntry } from '@/lib/corc';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
+import { StorageLinesBreakdown, type StorageLineSummary } from '@/components/corc';
+import { PeriodLifecycleActions } from '@/components/monitoring';
 import {
   Card,
   CardContent,
@@ -33,7 +41,11 @@ interface MonitoringPeriodData {
   periodStart: Date;
   periodEnd: Date;
   status: string;
+  methodologyVersion: string;
+  additionalMethodologyVersions: string[];
   calculatedAt: Date | null;
+  closedAt: Date | null;
+  verifiedAt: Date | null;
   // CORC calculation fields
   cStoredTCO2e: number | null;
   cBaselineTCO2e: number | null;
@@ -55,6 +67,30 @@ interface MonitoringPeriodData {
     permanenceType: string | null;
     issuanceDate: Date | null;
   }>;
+  calculationRuns: Array<{
+    id: string;
+    calculationVersion: string;
+    netCORCsTCO2e: number;
+    sourceHash: string;
+    result: unknown;
+    breakdown: unknown;
+    createdAt: Date;
+    _count: { corcIssuances: number };
+  }>;
+  statusChanges: Array<{
+    id: string;
+    fromStatus: string;
+    toStatus: string;
+    reason: string | null;
+    changedBy: string | null;
+    createdAt: Date;
+  }>;
+  unlocks: Array<{
+    id: string;
+    reason: string;
+    unlockedBy: string | null;
+    expiresAt: Date;
+  }>;
 }
 
 interface ProductionBatchData {
@@ -107,6 +143,29 @@ async function getMonitoringPeriod(id: string): Promise<{
         },
         orderBy: { createdAt: 'desc' },
       },
+      calculationRuns: {
+        select: {
+          id: true,
+          calculationVersion: true,
+          netCORCsTCO2e: true,
+          sourceHash: true,
+          result: true,
+          breakdown: true,
+          createdAt: true,
+          _count: { select: { corcIssuances: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      },
+      statusChanges: {
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      },
+      // Unlocks currently lifting the write-lock
+      unlocks: {
+        where: { revokedAt: null, expiresAt: { gt: new Date() } },
+        orderBy: { expiresAt: 'desc' },
+      },
     },
   });
 
@@ -225,6 +284,11 @@ function CalculationBreakdownCard({ period }: { period: MonitoringPeriodData })
   ];
 
   const maxValue = Math.max(period.cStoredTCO2e ?? 0, 1);
+  const latestResult = period.calculationRuns[0]?.result as { storageLines?: StorageLineSummary[] } | undefined;
+  const storageLines = latestResult?.storageLines;
+  const latestBreakdown = period.calculationRuns[0]?.breakdown as
+    { methodologyResults?: MethodologyComparisonEntry[] } | undefined;
+  const methodologyResults = latestBreakdown?.methodologyResults ?? [];
 
   return (
     <Card>
@@ -263,6 +327,11 @@ function CalculationBreakdownCard({ period }: { period: MonitoringPeriodData })
           ))}
         </div>
 
+        {/* Disaggregated lines from the latest run */}
+        {storageLines && storageLines.length > 0 && (
+          <StorageLinesBreakdown lines={storageLines} className="pt-2 border-t border-[var(--border)]" />
+        )}
+
         {/* Persistence fraction */}
         {period.persistenceFractionPercent !== null && (
           <div className="flex items-center justify-between pt-2 border-t border-[var(--border)]">
@@ -279,6 +348,30 @@ function CalculationBreakdownCard({ period }: { period: MonitoringPeriodData })
           </span>
         </div>
 
+        {/* Same run under the other methodologies the period is registered with */}
+        {methodologyResults.length > 1 && (
+          <div className="pt-2 border-t border-[var(--border)] space-y-2">
+            <p className="text-sm font-medium">Results by Methodology</p>
+            {methodologyResults.map((entry) => (
+              <div key={entry.version} className="flex items-start justify-between gap-4 text-sm">
+                <div>
+                  <p>{entry.name}</p>
+                  {entry.result ? (
+                    <p className="text-xs text-[var(--muted-foreground)]">
+                      Persistence {entry.result.persistenceFractionPercent.toFixed(1)}% ({entry.result.permanenceType})
+                    </p>
+                  ) : (
+                    <p className="text-xs text-red-600 dark:text-red-400">{entry.validation.errors.join('; ')}</p>
+                  )}
+                </div>
+                <span className="font-medium whitespace-nowrap">
+                  {entry.result ? `${entry.result.netCORCsTCO2e.toFixed(2)} ${entry.creditUnit}s` : '—'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {period.calculatedAt && (
           <p className="text-xs text-[var(--muted-foreground)] text-center">
             Last calculated: {format(period.calculatedAt, 'MMM d, yyyy HH:mm')}
@@ -317,17 +410,53 @@ export default async function MonitoringPeriodDetailPage({
           { label: 'Period Details' },
         ]}
         action={
-          period.status === 'active' ? (
-            <Link href={`/lca?periodId=${period.id}`}>
-              <Button>
-                <Calculator className="h-4 w-4 mr-2" />
-                Calculate CORCs
+          <div className="flex gap-2">
+            <PeriodLifecycleActions
+              periodId={period.id}
+              status={period.status}
+              hasCalculation={period.netCORCsTCO2e !== null}
+              isUnlocked={period.unlocks.length > 0}
+            />
+            {/* Plain anchor: the export is a file download, not a page */}
+            <a href={`/api/monitoring-period/${period.id}/export`}>
+              <Button variant={period.status === 'active' ? 'outline' : 'default'}>
+                <Download className="h-4 w-4 mr-2" />
+                Export Data Room
               </Button>
-            </Link>
-          ) : undefined
+            </a>
+            {period.status === 'active' && (
+              <Link href={`/lca?periodId=${period.id}`}>
+                <Button>
+                  <Calculator className="h-4 w-4 mr-2" />
+                  Calculate CORCs
+                </Button>
+              </Link>
+            )}
+          </div>
         }
       />
 
+      {/* Write-lock */}
+      {period.status !== 'active' && (
+        period.unlocks.length > 0 ? (
+          <div className="flex items-start gap-3 p-4 mb-6 rounded-lg bg-amber-50 border border-amber-200 text-amber-800">
+            <LockOpen className="h-5 w-5 mt-0.5 shrink-0" />
+            <p className="text-sm">
+              Unlocked for corrections until {format(period.unlocks[0].expiresAt, 'MMM d, yyyy HH:mm')}
+              {period.unlocks[0].unlockedBy && <> by {period.unlocks[0].unlockedBy}</>}: {period.unlocks[0].reason}
+            </p>
+          </div>
+        ) : (
+          <div className="flex items-start gap-3 p-4 mb-6 rounded-lg bg-[var(--muted)]/50 border border-[var(--border)]">
+            <Lock className="h-5 w-5 mt-0.5 shrink-0 text-[var(--muted-foreground)]" />
+            <p className="text-sm text-[var(--muted-foreground)]">
+              This period is {period.status}. Records dated inside it are read-only until the period is
+              reopened or unlocked with a reason.
+            </p>
+          </div>
+        )
+      )}
+
       {/* Status & Facility Header */}
       <div className="grid gap-6 md:grid-cols-2 mb-6">
         <Card>
@@ -350,6 +479,34 @@ export default async function MonitoringPeriodDetailPage({
               <span className="text-[var(--muted-foreground)]">End Date</span>
               <span className="font-medium">{format(period.periodEnd, 'MMM d, yyyy')}</span>
             </div>
+            {period.closedAt && (
+              <div className="flex justify-between">
+                <span className="text-[var(--muted-foreground)]">Closed</span>
+                <span className="font-medium">{format(period.closedAt, 'MMM d, yyyy')}</span>
+              </div>
+            )}
+            {period.verifiedAt && (
+              <div className="flex justify-between">
+                <span className="text-[var(--muted-foreground)]">Verified</span>
+                <span className="font-medium">{format(period.verifiedAt, 'MMM d, yyyy')}</span>
+              </div>
+            )}
+            <div className="flex justify-between gap-4">
+              <span className="text-[var(--muted-foreground)]">Methodology</span>
+              <span className="font-medium text-right">
+                {getMethodology(period.methodologyVersion)?.rules.name ?? period.methodologyVersion}
+              </span>
+            </div>
+            {period.additionalMethodologyVersions.length > 0 && (
+              <div className="flex justify-between gap-4">
+                <span className="text-[var(--muted-foreground)]">Also reported under</span>
+                <span className="font-medium text-right">
+                  {period.additionalMethodologyVersions
+                    .map((version) => getMethodology(version)?.rules.name ?? version)
+                    .join(', ')}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between">
               <span className="text-[var(--muted-foreground)]">Duration</span>
               <span className="font-medium">
@@ -502,6 +659,80 @@ export default async function MonitoringPeriodDetailPage({
         </Card>
       </div>
 
+      {/* Status History */}
+      {period.statusChanges.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Status History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {period.statusChanges.map((change) => (
+                <div key={change.id} className="flex items-start justify-between p-3 border rounded">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <StatusBadge status={change.fromStatus} />
+                      <ChevronRight className="h-3 w-3 text-[var(--muted-foreground)]" />
+                      <StatusBadge status={change.toStatus} />
+                    </div>
+                    {change.reason && (
+                      <p className="text-xs text-[var(--muted-foreground)] mt-1">{change.reason}</p>
+                    )}
+                  </div>
+                  <div className="text-right text-xs text-[var(--muted-foreground)]">
+                    <p>{format(change.createdAt, 'MMM d, yyyy HH:mm')}</p>
+                    {change.changedBy && <p>{change.changedBy}</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Calculation History */}
+      {period.calculationRuns.length > 0 && (
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Calculation History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {period.calculationRuns.map((run) => (
+                <div
+                  key={run.id}
+                  className="flex items-center justify-between p-3 border rounded"
+                >
+                  <div>
+                    <p className="font-medium text-sm">{format(run.createdAt, 'MMM d, yyyy HH:mm')}</p>
+                    <p className="text-xs text-[var(--muted-foreground)] font-mono">
+                      {run.calculationVersion} • source {run.sourceHash.slice(0, 12)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {run._count.corcIssuances > 0 && (
+                      <Badge variant="outline" className="text-xs">
+                        {run._count.corcIssuances} CORC{run._count.corcIssuances > 1 ? 's' : ''}
+                      </Badge>
+                    )}
+                    <div className="text-right">
+                      <p className="font-semibold">{run.netCORCsTCO2e.toFixed(2)}</p>
+                      <p className="text-xs text-[var(--muted-foreground)]">tCO2e</p>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Production Batches */}
       <Card className="mt-6">
         <CardHeader>
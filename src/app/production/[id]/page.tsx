@@ -3,7 +3,23 @@ export const dynamic = 'force-dynamic';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import db from '@/lib/db';
-import { formatDateTime } from '@/lib/utils';
+import { getEntityHistory, getLinkedEntityHistory } from '@/lib/services/audit-log';
+import {
+  summarizeLabCampaigns,
+  currentLabCampaign,
+  LAB_TEST_CAMPAIGN_SELECT,
+  SAMPLING_CAMPAIGN_SELECT,
+} from '@/lib/services/lab-campaigns';
+import {
+  buildContaminantPanel,
+  checkPanelForEndUses,
+  CONTAMINANT_PANEL_SELECT,
+} from '@/lib/services/contaminant-compliance';
+import { getBatchTemperatureLog, downsampleTemperatureReadings } from '@/lib/services/temperature-log';
+import { estimateBatchStackEmissions, STACK_EMISSION_SAMPLE_SELECT } from '@/lib/services/stack-emissions';
+import { CONTAMINANT_PARAMETERS, WBC_CONTAMINANT_LIMITS, WBC_QUALITY_CLASS_LABELS } from '@/lib/corc';
+import type { StackEmissionSource } from '@/lib/corc';
+import { formatDate, formatDateTime } from '@/lib/utils';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
 import {
   Button,
@@ -12,10 +28,20 @@ import {
   CardHeader,
   CardTitle,
   Badge,
+  Table,
+  TableHeader,
+  TableBody,
+  TableHead,
+  TableRow,
+  TableCell,
 } from '@/components/ui';
 import { QRDisplay } from '@/components/qr';
+import { TemperatureCurve } from '@/components/production';
+import { EvidencePanel } from '@/components/evidence';
+import { AuditHistoryPanel } from '@/components/audit';
 import {
   Beaker,
+  FlaskConical,
   CheckCircle2,
   Circle,
   XCircle,
@@ -24,8 +50,16 @@ import {
   Factory,
   ArrowDownToLine,
   ChevronRight,
+  Thermometer,
 } from 'lucide-react';
 
+const STACK_EMISSION_SOURCE_LABELS: Record<StackEmissionSource, string> = {
+  cems: 'CEMS',
+  spot: 'Spot',
+  manual: 'Entered',
+  default: 'Default factor',
+};
+
 async function getProductionBatch(id: string) {
   return db.productionBatch.findUnique({
     where: { id },
@@ -33,15 +67,15 @@ async function getProductionBatch(id: string) {
       evidence: true,
       labTests: {
         select: {
-          id: true,
-          labName: true,
-          testDate: true,
-          organicCarbonPercent: true,
-          hydrogenPercent: true,
+          ...LAB_TEST_CAMPAIGN_SELECT,
+          ...CONTAMINANT_PANEL_SELECT,
           hCorgRatio: true,
+          exclusionReason: true,
         },
         orderBy: { testDate: 'desc' },
       },
+      samplingCampaigns: { select: SAMPLING_CAMPAIGN_SELECT },
+      stackEmissionSamples: { select: STACK_EMISSION_SAMPLE_SELECT },
       feedstockDelivery: {
         select: {
           id: true,
@@ -72,7 +106,7 @@ async function getProductionBatch(id: string) {
       sequestrationBatches: {
         include: {
           sequestration: {
-            select: { id: true, finalDeliveryDate: true, sequestrationType: true },
+            select: { id: true, finalDeliveryDate: true, sequestrationType: true, endUseCategory: true },
           },
         },
       },
@@ -106,6 +140,19 @@ export default async function ProductionDetailPage({
     notFound();
   }
 
+  const [history, labTestHistory, temperatureLog] = await Promise.all([
+    getEntityHistory('production_batch', id),
+    getLinkedEntityHistory('lab_test', 'productionBatchId', id),
+    getBatchTemperatureLog(id),
+  ]);
+
+  const campaigns = summarizeLabCampaigns(batch.samplingCampaigns, batch.labTests);
+  const currentCampaign = currentLabCampaign(campaigns);
+  const contaminantPanel = buildContaminantPanel(batch.labTests);
+  const endUseCompliance = checkPanelForEndUses(contaminantPanel);
+  const stackEmissions = estimateBatchStackEmissions(batch);
+  const sequesteredEndUses = new Set(batch.sequestrationBatches.map((sb) => sb.sequestration.endUseCategory));
+
   const conversionRate =
     batch.inputFeedstockWeightTonnes > 0
       ? (batch.outputBiocharWeightTonnes / batch.inputFeedstockWeightTonnes) *
@@ -201,7 +248,7 @@ export default async function ProductionDetailPage({
                 Min Temperature
               </span>
               <span className="font-medium">
-                {batch.temperatureMin ? `${batch.temperatureMin}°C` : '-'}
+                {batch.temperatureMin ? `${batch.temperatureMin.toFixed(0)}°C` : '-'}
               </span>
             </div>
             <div className="flex justify-between">
@@ -209,7 +256,7 @@ export default async function ProductionDetailPage({
                 Avg Temperature
               </span>
               <span className="font-medium">
-                {batch.temperatureAvg ? `${batch.temperatureAvg}°C` : '-'}
+                {batch.temperatureAvg ? `${batch.temperatureAvg.toFixed(0)}°C` : '-'}
               </span>
             </div>
             <div className="flex justify-between">
@@ -217,9 +264,129 @@ export default async function ProductionDetailPage({
                 Max Temperature
               </span>
               <span className="font-medium">
-                {batch.temperatureMax ? `${batch.temperatureMax}°C` : '-'}
+                {batch.temperatureMax ? `${batch.temperatureMax.toFixed(0)}°C` : '-'}
               </span>
             </div>
+            {temperatureLog && (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-[var(--muted-foreground)]">
+                    Residence ≥ {temperatureLog.rules.minTemperatureC}°C
+                  </span>
+                  <span className="font-medium">
+                    {temperatureLog.profile.residenceMinutes.toFixed(0)} min
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-[var(--muted-foreground)]">
+                    Log Check
+                  </span>
+                  <Badge variant={temperatureLog.profile.status === 'passed' ? 'default' : 'destructive'}>
+                    {temperatureLog.profile.status === 'passed' ? 'PASSED' : 'FLAGGED'}
+                  </Badge>
+                </div>
+              </>
+            )}
+            <p className="text-xs text-[var(--muted-foreground)]">
+              {temperatureLog && temperatureLog.profile.readingCount > 0
+                ? `From ${temperatureLog.profile.readingCount} logged readings`
+                : 'Entered manually'}
+            </p>
+          </CardContent>
+        </Card>
+
+        {/* Pyrolysis Temperature Log */}
+        {temperatureLog && (
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-lg flex items-center gap-2">
+                <Thermometer className="h-5 w-5" />
+                Temperature Log
+              </CardTitle>
+              <p className="text-sm text-[var(--muted-foreground)]">
+                Reactor {batch.reactorId ?? '—'}
+                {temperatureLog.window &&
+                  ` • ${formatDateTime(temperatureLog.window.start)} to ${formatDateTime(temperatureLog.window.end)}`}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {temperatureLog.profile.readingCount > 0 ? (
+                <TemperatureCurve
+                  points={downsampleTemperatureReadings(temperatureLog.readings).map((r) => ({
+                    time: r.recordedAt.getTime(),
+                    temperatureC: r.temperatureC,
+                  }))}
+                  thresholdC={temperatureLog.rules.minTemperatureC}
+                  window={temperatureLog.window && {
+                    start: temperatureLog.window.start.getTime(),
+                    end: temperatureLog.window.end.getTime(),
+                  }}
+                  gaps={temperatureLog.profile.gaps.map((g) => ({ from: g.from.getTime(), to: g.to.getTime() }))}
+                  excursions={temperatureLog.profile.excursions.map((e) => ({
+                    from: e.from.getTime(),
+                    to: e.to.getTime(),
+                  }))}
+                />
+              ) : (
+                <p className="text-sm text-[var(--muted-foreground)]">
+                  No readings logged for this reactor in the pyrolysis window.
+                </p>
+              )}
+              {temperatureLog.profile.gaps.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-amber-600 dark:text-amber-400">
+                    {temperatureLog.profile.gaps.length} gap(s) longer than {temperatureLog.rules.maxGapSeconds}s
+                  </p>
+                  {temperatureLog.profile.gaps.slice(0, 10).map((gap) => (
+                    <p key={gap.from.toISOString()} className="text-xs text-[var(--muted-foreground)]">
+                      {formatDateTime(gap.from)} to {formatDateTime(gap.to)} ({Math.round(gap.seconds / 60)} min)
+                    </p>
+                  ))}
+                </div>
+              )}
+              {temperatureLog.profile.excursions.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-sm font-medium text-red-600 dark:text-red-400">
+                    {temperatureLog.profile.excursions.length} excursion(s) below {temperatureLog.rules.minTemperatureC}°C
+                  </p>
+                  {temperatureLog.profile.excursions.slice(0, 10).map((excursion) => (
+                    <p key={excursion.from.toISOString()} className="text-xs text-[var(--muted-foreground)]">
+                      {formatDateTime(excursion.from)} to {formatDateTime(excursion.to)}, down to{' '}
+                      {excursion.minTemperatureC.toFixed(0)}°C ({excursion.readingCount} reading(s))
+                    </p>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Stack Emissions */}
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Factory className="h-5 w-5" />
+              Stack Emissions
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {[stackEmissions.CH4, stackEmissions.N2O].map((estimate) => (
+              <div key={estimate.gas} className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium">{estimate.gas}</p>
+                  <p className="text-xs text-[var(--muted-foreground)]">{estimate.basis}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-mono">{estimate.kg.toFixed(2)} kg</span>
+                  <Badge
+                    variant={estimate.source === 'default' ? 'destructive' : estimate.source === 'manual' ? 'outline' : 'default'}
+                    className="text-xs"
+                  >
+                    {STACK_EMISSION_SOURCE_LABELS[estimate.source]}
+                  </Badge>
+                </div>
+              </div>
+            ))}
           </CardContent>
         </Card>
 
@@ -256,13 +423,13 @@ export default async function ProductionDetailPage({
               {/* Carbon & Hydrogen Content */}
               <div className="p-4 border rounded-lg space-y-3">
                 <div className="flex justify-between">
-                  <span className="text-sm text-[var(--muted-foreground)]">Organic Carbon</span>
+                  <span className="text-sm text-[var(--muted-foreground)]">Organic Carbon (95% lower bound)</span>
                   <span className="font-medium">
                     {batch.organicCarbonPercent?.toFixed(1) ?? '—'}%
                   </span>
                 </div>
                 <div className="flex justify-between">
-                  <span className="text-sm text-[var(--muted-foreground)]">Hydrogen</span>
+                  <span className="text-sm text-[var(--muted-foreground)]">Hydrogen (mean)</span>
                   <span className="font-medium">
                     {batch.hydrogenPercent?.toFixed(2) ?? '—'}%
                   </span>
@@ -277,35 +444,102 @@ export default async function ProductionDetailPage({
 
               {/* Lab Tests */}
               <div className="md:col-span-2">
-                <p className="text-sm font-medium mb-2">Lab Tests</p>
+                <p className="text-sm font-medium mb-2">Lab Tests by Sampling Campaign</p>
                 {batch.labTests.length > 0 ? (
-                  <div className="space-y-2">
-                    {batch.labTests.map((test) => (
-                      <div
-                        key={test.id}
-                        className="flex items-center justify-between p-3 border rounded hover:bg-[var(--muted)] transition-colors"
-                      >
-                        <div className="flex items-center gap-2">
-                          <Beaker className="h-4 w-4 text-[var(--muted-foreground)]" />
-                          <div>
-                            <p className="font-medium text-sm">{test.labName || 'Lab Test'}</p>
-                            <p className="text-xs text-[var(--muted-foreground)]">
-                              {test.testDate ? formatDateTime(test.testDate) : 'Date unknown'}
-                            </p>
+                  <div className="space-y-4">
+                    {campaigns.map((campaign) => {
+                      const tests = batch.labTests.filter((test) =>
+                        campaign.campaignId === null
+                          ? !batch.samplingCampaigns.some((c) => c.id === test.campaignId)
+                          : test.campaignId === campaign.campaignId
+                      );
+                      const outlierIds = new Set(campaign.outliers.map((o) => o.labTestId));
+                      return (
+                        <div key={campaign.campaignId ?? 'ungrouped'} className="border rounded-lg">
+                          <div className="flex items-start justify-between gap-4 p-3 border-b bg-[var(--muted)]">
+                            <div>
+                              <p className="font-medium text-sm flex items-center gap-2">
+                                {campaign.name}
+                                {campaign === currentCampaign && (
+                                  <Badge variant="default" className="text-xs">Used in calculation</Badge>
+                                )}
+                              </p>
+                              <p className="text-xs text-[var(--muted-foreground)]">
+                                {formatDate(campaign.samplingDate)}
+                                {campaign.sampleType && ` • ${campaign.sampleType}`}
+                                {` • ${campaign.includedCount} of ${campaign.testCount} test(s) in statistics`}
+                              </p>
+                            </div>
+                            <div className="text-right text-xs space-y-1">
+                              {campaign.organicCarbon && (
+                                <p>
+                                  C_org {campaign.organicCarbon.mean.toFixed(1)}%
+                                  {campaign.organicCarbon.standardDeviation !== null &&
+                                    ` ± ${campaign.organicCarbon.standardDeviation.toFixed(2)}`}
+                                  {' • '}
+                                  <span className="font-medium">LCB {campaign.organicCarbon.lowerConfidenceBound.toFixed(1)}%</span>
+                                  {campaign.spreadAssumed && ' (assumed spread)'}
+                                </p>
+                              )}
+                              {campaign.hydrogen && (
+                                <p>
+                                  H {campaign.hydrogen.mean.toFixed(2)}%
+                                  {campaign.hydrogen.standardDeviation !== null &&
+                                    ` ± ${campaign.hydrogen.standardDeviation.toFixed(2)}`}
+                                  {campaign.hCorgRatio !== null && ` • H/C_org ${campaign.hCorgRatio.toFixed(3)}`}
+                                </p>
+                              )}
+                            </div>
+                          </div>
+                          <div className="p-3 space-y-2">
+                            {tests.map((test) => (
+                              <div
+                                key={test.id}
+                                className="flex items-center justify-between p-3 border rounded hover:bg-[var(--muted)] transition-colors"
+                              >
+                                <div className="flex items-center gap-2">
+                                  <Beaker className="h-4 w-4 text-[var(--muted-foreground)]" />
+                                  <div>
+                                    <p className="font-medium text-sm">{test.labName || 'Lab Test'}</p>
+                                    <p className="text-xs text-[var(--muted-foreground)]">
+                                      {test.testDate ? formatDateTime(test.testDate) : 'Date unknown'}
+                                      {` • C_org ${test.organicCarbonPercent.toFixed(1)}% • H ${test.hydrogenPercent.toFixed(2)}%`}
+                                    </p>
+                                    {test.excludedFromStatistics && test.exclusionReason && (
+                                      <p className="text-xs text-[var(--muted-foreground)]">
+                                        Excluded: {test.exclusionReason}
+                                      </p>
+                                    )}
+                                  </div>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  {test.excludedFromStatistics && (
+                                    <Badge variant="outline" className="text-xs">Excluded</Badge>
+                                  )}
+                                  {outlierIds.has(test.id) && (
+                                    <Badge variant="destructive" className="text-xs">Outlier</Badge>
+                                  )}
+                                  {test.hCorgRatio !== null && (
+                                    <Badge
+                                      variant={test.hCorgRatio <= 0.7 ? 'default' : 'destructive'}
+                                      className="text-xs"
+                                    >
+                                      H/C: {test.hCorgRatio.toFixed(3)}
+                                    </Badge>
+                                  )}
+                                </div>
+                              </div>
+                            ))}
+                            {tests.length === 0 && (
+                              <p className="text-xs text-[var(--muted-foreground)]">No lab tests in this campaign yet.</p>
+                            )}
+                            {campaign.warnings.map((warning) => (
+                              <p key={warning} className="text-xs text-amber-600 dark:text-amber-400">{warning}</p>
+                            ))}
                           </div>
                         </div>
-                        <div className="text-right">
-                          {test.hCorgRatio !== null && (
-                            <Badge
-                              variant={test.hCorgRatio <= 0.7 ? 'default' : 'destructive'}
-                              className="text-xs"
-                            >
-                              H/C: {test.hCorgRatio.toFixed(3)}
-                            </Badge>
-                          )}
-                        </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 ) : (
                   <p className="text-sm text-[var(--muted-foreground)] p-3 border rounded border-dashed text-center">
@@ -317,6 +551,77 @@ export default async function ProductionDetailPage({
           </CardContent>
         </Card>
 
+        {/* WBC Contaminant Panel */}
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              Contaminant Panel
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-4">
+              {endUseCompliance.map(({ endUseCategory, name, check }) => (
+                <div key={endUseCategory} className="flex items-center justify-between gap-2 p-2 border rounded">
+                  <div>
+                    <p className="text-sm">{name}</p>
+                    <p className="text-xs text-[var(--muted-foreground)]">
+                      {WBC_QUALITY_CLASS_LABELS[check.qualityClass]}
+                      {sequesteredEndUses.has(endUseCategory) && ' • sequestered here'}
+                    </p>
+                  </div>
+                  <Badge
+                    variant={check.status === 'pass' ? 'default' : check.status === 'fail' ? 'destructive' : 'outline'}
+                    className="text-xs"
+                  >
+                    {check.status === 'pass' ? 'PASS' : check.status === 'fail' ? 'FAIL' : 'INCOMPLETE'}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Parameter</TableHead>
+                  <TableHead className="text-right">Measured</TableHead>
+                  <TableHead className="text-right">{WBC_QUALITY_CLASS_LABELS.agro} limit</TableHead>
+                  <TableHead className="text-right">{WBC_QUALITY_CLASS_LABELS.material} limit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {CONTAMINANT_PARAMETERS.map(({ parameter, label, unit }) => {
+                  const value = contaminantPanel[parameter];
+                  return (
+                    <TableRow key={parameter}>
+                      <TableCell>
+                        {label}
+                        {unit && <span className="text-xs text-[var(--muted-foreground)]"> ({unit})</span>}
+                      </TableCell>
+                      <TableCell className="text-right font-mono">{value ?? '—'}</TableCell>
+                      {(['agro', 'material'] as const).map((qualityClass) => {
+                        const limit = WBC_CONTAMINANT_LIMITS[qualityClass][parameter];
+                        const exceeded = limit !== null && value !== null && value > limit;
+                        return (
+                          <TableCell
+                            key={qualityClass}
+                            className={`text-right font-mono ${exceeded ? 'text-red-600 dark:text-red-400' : ''}`}
+                          >
+                            {limit !== null ? `≤ ${limit}` : 'declare'}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-[var(--muted-foreground)]">
+              Highest result across the lab tests of this batch (latest for declared-only values). Sequestration to an
+              end-use whose limits are exceeded is refused.
+            </p>
+          </CardContent>
+        </Card>
+
         {/* CORC Eligibility Checklist */}
         <Card className="md:col-span-2">
           <CardHeader>
@@ -553,35 +858,11 @@ export default async function ProductionDetailPage({
           </Card>
         )}
 
-        <Card className="md:col-span-2">
-          <CardHeader>
-            <CardTitle className="text-lg">Evidence Files</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {batch.evidence.length > 0 ? (
-              <div className="grid gap-2">
-                {batch.evidence.map((file) => (
-                  <div
-                    key={file.id}
-                    className="flex items-center justify-between border p-3"
-                  >
-                    <div>
-                      <p className="font-medium">{file.fileName}</p>
-                      <p className="text-sm text-[var(--muted-foreground)]">
-                        {file.category} • {(file.fileSize / 1024).toFixed(1)} KB
-                      </p>
-                    </div>
-                    <Badge variant="outline">{file.fileType}</Badge>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <p className="text-[var(--muted-foreground)]">
-                No evidence files uploaded yet.
-              </p>
-            )}
-          </CardContent>
-        </Card>
+        <EvidencePanel
+          className="md:col-span-2"
+          files={batch.evidence}
+          links={{ productionBatchId: batch.id }}
+        />
 
         {batch.notes && (
           <Card className="md:col-span-2">
@@ -620,6 +901,14 @@ export default async function ProductionDetailPage({
             </CardContent>
           </Card>
         )}
+
+        <AuditHistoryPanel className="md:col-span-2" entries={history} />
+
+        <AuditHistoryPanel
+          className="md:col-span-2"
+          title="Lab Test History"
+          entries={labTestHistory}
+        />
       </div>
     </PageContainer>
   );
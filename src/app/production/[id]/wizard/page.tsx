@@ -4,23 +4,38 @@ import { notFound } from 'next/navigation';
 import db from '@/lib/db';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
 import { ProductionWizard } from '@/components/production';
+import { getFeedstockDeliveryBalances } from '@/lib/services/feedstock-allocation';
 
 async function getProductionBatch(id: string) {
   return db.productionBatch.findUnique({
     where: { id },
+    include: {
+      feedstockAllocations: {
+        select: { feedstockDeliveryId: true, percentageUsed: true },
+      },
+    },
   });
 }
 
-async function getFeedstockOptions() {
-  return db.feedstockDelivery.findMany({
-    orderBy: { date: 'desc' },
-    select: {
-      id: true,
-      date: true,
-      feedstockType: true,
-      weightTonnes: true,
-    },
-  });
+async function getFeedstockOptions(excludeProductionBatchId?: string) {
+  const [deliveries, balances] = await Promise.all([
+    db.feedstockDelivery.findMany({
+      orderBy: { date: 'desc' },
+      select: {
+        id: true,
+        date: true,
+        feedstockType: true,
+        weightTonnes: true,
+      },
+    }),
+    getFeedstockDeliveryBalances(undefined, excludeProductionBatchId),
+  ]);
+
+  return deliveries.map((delivery) => ({
+    ...delivery,
+    remainingPercent: balances.get(delivery.id)?.remainingPercent ?? 100,
+    remainingTonnes: balances.get(delivery.id)?.remainingTonnes ?? delivery.weightTonnes,
+  }));
 }
 
 export default async function ProductionWizardPage({
@@ -31,7 +46,7 @@ export default async function ProductionWizardPage({
   const { id } = await params;
   const [batch, feedstockOptions] = await Promise.all([
     getProductionBatch(id),
-    getFeedstockOptions(),
+    getFeedstockOptions(id),
   ]);
 
   if (!batch) {
@@ -50,11 +65,15 @@ export default async function ProductionWizardPage({
         initialData={{
           productionDate: batch.productionDate,
           feedstockDeliveryId: batch.feedstockDeliveryId,
+          feedstockAllocations: batch.feedstockAllocations,
           inputFeedstockWeightTonnes: batch.inputFeedstockWeightTonnes,
           outputBiocharWeightTonnes: batch.outputBiocharWeightTonnes,
           temperatureMin: batch.temperatureMin,
           temperatureMax: batch.temperatureMax,
           temperatureAvg: batch.temperatureAvg,
+          reactorId: batch.reactorId,
+          pyrolysisStartAt: batch.pyrolysisStartAt,
+          pyrolysisEndAt: batch.pyrolysisEndAt,
           notes: batch.notes,
         }}
       />
@@ -3,17 +3,27 @@ export const dynamic = 'force-dynamic';
 import db from '@/lib/db';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
 import { ProductionWizard } from '@/components/production';
+import { getFeedstockDeliveryBalances } from '@/lib/services/feedstock-allocation';
 
 async function getFeedstockOptions() {
-  return db.feedstockDelivery.findMany({
-    orderBy: { date: 'desc' },
-    select: {
-      id: true,
-      date: true,
-      feedstockType: true,
-      weightTonnes: true,
-    },
-  });
+  const [deliveries, balances] = await Promise.all([
+    db.feedstockDelivery.findMany({
+      orderBy: { date: 'desc' },
+      select: {
+        id: true,
+        date: true,
+        feedstockType: true,
+        weightTonnes: true,
+      },
+    }),
+    getFeedstockDeliveryBalances(),
+  ]);
+
+  return deliveries.map((delivery) => ({
+    ...delivery,
+    remainingPercent: balances.get(delivery.id)?.remainingPercent ?? 100,
+    remainingTonnes: balances.get(delivery.id)?.remainingTonnes ?? delivery.weightTonnes,
+  }));
 }
 
 export default async function NewProductionPage() {
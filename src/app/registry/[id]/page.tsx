@@ -3,6 +3,9 @@ export const dynamic = 'force-dynamic';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import db from '@/lib/db';
+import { getEntityHistory } from '@/lib/services/audit-log';
+import { getHoldingLots, summarizeLots, fallbackBalance } from '@/lib/services/credit-lots';
+import { getHoldingLedger, getHolderAccounts } from '@/lib/services/registry-ledger';
 import { formatDateTime } from '@/lib/utils';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
 import {
@@ -15,13 +18,16 @@ import {
 } from '@/components/ui';
 import { QRDisplay } from '@/components/qr';
 import { BCU_STATUSES } from '@/lib/validations/bcu';
-import { BCUActions } from '@/components/registry';
+import { CreditLotsPanel, LedgerHistoryPanel } from '@/components/registry';
+import { EvidencePanel } from '@/components/evidence';
+import { AuditHistoryPanel } from '@/components/audit';
 
 async function getBCU(id: string) {
   return db.bCU.findUnique({
     where: { id },
     include: {
       evidence: true,
+      migratedCorc: { select: { id: true, serialNumber: true } },
       sequestrationEvents: {
         include: {
           sequestration: {
@@ -57,6 +63,16 @@ export default async function BCUDetailPage({
     notFound();
   }
 
+  const [history, lots, ledger, accounts] = await Promise.all([
+    getEntityHistory('bcu', id),
+    getHoldingLots({ type: 'bcu', id }),
+    getHoldingLedger({ type: 'bcu', id }),
+    getHolderAccounts(),
+  ]);
+  const balance = lots.length > 0
+    ? summarizeLots(lots)
+    : fallbackBalance(bcu.status, bcu.quantityTonnesCO2e);
+
   const statusInfo = BCU_STATUSES.find((s) => s.value === bcu.status);
 
   const getStatusBadgeVariant = (status: string) => {
@@ -82,9 +98,18 @@ export default async function BCUDetailPage({
           { label: 'Registry', href: '/registry' },
           { label: 'Details' },
         ]}
-        action={<BCUActions bcuId={bcu.id} status={bcu.status} />}
       />
 
+      {bcu.migratedCorc && (
+        <div className="border border-blue-500/30 bg-blue-500/5 p-3 text-sm">
+          This BCU was converted to CORC{' '}
+          <Link href={`/corc/${bcu.migratedCorc.id}`} className="font-mono underline">
+            {bcu.migratedCorc.serialNumber}
+          </Link>
+          . Its lots, ledger and evidence now live on the CORC; this record is a read-only archive.
+        </div>
+      )}
+
       <div className="grid gap-6 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -118,6 +143,12 @@ export default async function BCUDetailPage({
                 {bcu.quantityTonnesCO2e.toFixed(2)} tCO2e
               </span>
             </div>
+            <div className="flex justify-between">
+              <span className="text-[var(--muted-foreground)]">Remaining / Retired</span>
+              <span className="font-medium">
+                {balance.remaining} / {balance.retired} tCO2e
+              </span>
+            </div>
             <div className="flex justify-between">
               <span className="text-[var(--muted-foreground)]">Issuance Date</span>
               <span className="font-medium">
@@ -171,6 +202,23 @@ export default async function BCUDetailPage({
           </CardContent>
         </Card>
 
+        {!bcu.migratedCorc && (
+          <>
+            <CreditLotsPanel
+              className="md:col-span-2"
+              apiBase={`/api/registry/${bcu.id}`}
+              baseSerial={bcu.registrySerialNumber}
+              lots={lots}
+              balance={balance}
+              canOperate={bcu.status !== 'retired'}
+              ownerName={bcu.ownerName}
+              accounts={accounts}
+            />
+
+            <LedgerHistoryPanel className="md:col-span-2" transactions={ledger} />
+          </>
+        )}
+
         {bcu.sequestrationEvents && bcu.sequestrationEvents.length > 0 && (
           <Card className="md:col-span-2">
             <CardHeader>
@@ -228,35 +276,11 @@ export default async function BCUDetailPage({
           </Card>
         )}
 
-        <Card className="md:col-span-2">
-          <CardHeader>
-            <CardTitle className="text-lg">Evidence Files</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {bcu.evidence.length > 0 ? (
-              <div className="grid gap-2">
-                {bcu.evidence.map((file) => (
-                  <div
-                    key={file.id}
-                    className="flex items-center justify-between border p-3"
-                  >
-                    <div>
-                      <p className="font-medium">{file.fileName}</p>
-                      <p className="text-sm text-[var(--muted-foreground)]">
-                        {file.category} • {(file.fileSize / 1024).toFixed(1)} KB
-                      </p>
-                    </div>
-                    <Badge variant="outline">{file.fileType}</Badge>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <p className="text-[var(--muted-foreground)]">
-                No evidence files attached.
-              </p>
-            )}
-          </CardContent>
-        </Card>
+        <EvidencePanel
+          className="md:col-span-2"
+          files={bcu.evidence}
+          links={{ bcuId: bcu.id }}
+        />
 
         {bcu.notes && (
           <Card className="md:col-span-2">
@@ -268,6 +292,8 @@ export default async function BCUDetailPage({
             </CardContent>
           </Card>
         )}
+
+        <AuditHistoryPanel className="md:col-span-2" entries={history} />
       </div>
     </PageContainer>
   );
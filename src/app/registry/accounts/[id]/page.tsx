@@ -0,0 +1,238 @@
+export const dynamic = 'force-dynamic';
+
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getEntityHistory } from '@/lib/services/audit-log';
+import { getAccountHoldings, getAccountStatement } from '@/lib/services/registry-ledger';
+import { isSystemAccountType, REGISTRY_ACCOUNT_TYPES } from '@/lib/validations/registry-account';
+import { formatDateTime } from '@/lib/utils';
+import { PageContainer, PageHeader } from '@/components/layout/page-container';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Input,
+  Label,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui';
+import { RegistryAccountDialog } from '@/components/registry';
+import { AuditHistoryPanel } from '@/components/audit';
+import { Wallet } from 'lucide-react';
+
+// yyyy-mm-dd, or undefined for a missing or invalid date
+function parseDateParam(value: string | undefined, endOfDay = false): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+export default async function RegistryAccountPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const { id } = await params;
+  const { from, to } = await searchParams;
+
+  const statement = await getAccountStatement(id, {
+    from: parseDateParam(from),
+    to: parseDateParam(to, true),
+  });
+
+  if (!statement) {
+    notFound();
+  }
+
+  const { account } = statement;
+  const [holdings, history] = await Promise.all([
+    getAccountHoldings(id),
+    getEntityHistory('registry_account', id),
+  ]);
+  const isSystem = isSystemAccountType(account.accountType);
+  const held = holdings.reduce((sum, h) => sum + h.quantity, 0);
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title={account.name}
+        description={REGISTRY_ACCOUNT_TYPES.find((t) => t.value === account.accountType)?.label ?? account.accountType}
+        icon={Wallet}
+        iconColor="text-amber-500"
+        breadcrumbs={[
+          { label: 'Dashboard', href: '/' },
+          { label: 'Registry', href: '/registry' },
+          { label: 'Accounts', href: '/registry/accounts' },
+          { label: account.name },
+        ]}
+        action={isSystem ? undefined : <RegistryAccountDialog account={account} />}
+      />
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Account</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex justify-between">
+              <span className="text-[var(--muted-foreground)]">External Account ID</span>
+              <span className="font-mono text-sm">{account.externalAccountId || '-'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-[var(--muted-foreground)]">Contact</span>
+              <span className="font-medium">{account.contactEmail || '-'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-[var(--muted-foreground)]">Status</span>
+              <Badge variant={account.isActive ? 'success' : 'secondary'}>
+                {account.isActive ? 'active' : 'inactive'}
+              </Badge>
+            </div>
+            {account.notes && <p className="text-sm whitespace-pre-wrap">{account.notes}</p>}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Holdings</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {isSystem ? (
+              <p className="text-sm text-[var(--muted-foreground)]">
+                System account: its balance is the total {account.accountType === 'issuance' ? 'issued (negative)' : 'retired'}.
+              </p>
+            ) : holdings.length > 0 ? (
+              <>
+                {holdings.map((h) => (
+                  <div key={h.lotId} className="flex items-center justify-between border p-2 text-sm">
+                    {h.holding ? (
+                      <Link
+                        href={h.holding.type === 'corc' ? `/corc/${h.holding.id}` : `/registry/${h.holding.id}`}
+                        className="font-mono text-xs hover:underline"
+                      >
+                        {h.serialRange}
+                      </Link>
+                    ) : (
+                      <span className="font-mono text-xs">{h.serialRange}</span>
+                    )}
+                    <span className="font-medium">{h.quantity} t</span>
+                  </div>
+                ))}
+                <p className="text-right text-sm font-semibold">{held} tCO₂e held</p>
+              </>
+            ) : (
+              <p className="text-sm text-[var(--muted-foreground)]">This account holds no credits.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-lg">Statement</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form method="get" className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="statementFrom">From</Label>
+                <Input id="statementFrom" name="from" type="date" defaultValue={from} className="h-8" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="statementTo">To</Label>
+                <Input id="statementTo" name="to" type="date" defaultValue={to} className="h-8" />
+              </div>
+              <Button type="submit" size="sm" variant="outline" className="h-8">
+                Apply
+              </Button>
+            </form>
+
+            <div className="grid grid-cols-2 gap-4 text-sm md:grid-cols-4">
+              <div>
+                <p className="text-[var(--muted-foreground)]">Opening Balance</p>
+                <p className="text-lg font-semibold">{statement.openingBalance} t</p>
+              </div>
+              <div>
+                <p className="text-[var(--muted-foreground)]">Credits</p>
+                <p className="text-lg font-semibold text-emerald-600">+{statement.totalCredited} t</p>
+              </div>
+              <div>
+                <p className="text-[var(--muted-foreground)]">Debits</p>
+                <p className="text-lg font-semibold text-red-600">-{statement.totalDebited} t</p>
+              </div>
+              <div>
+                <p className="text-[var(--muted-foreground)]">Closing Balance</p>
+                <p className="text-lg font-semibold">{statement.closingBalance} t</p>
+              </div>
+            </div>
+
+            <div className="border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Counterparty</TableHead>
+                    <TableHead>Serials</TableHead>
+                    <TableHead className="text-right">Change</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {statement.lines.length > 0 ? (
+                    statement.lines.map((line) => (
+                      <TableRow key={`${line.id}-${line.direction}`}>
+                        <TableCell className="text-xs whitespace-nowrap">{formatDateTime(line.createdAt)}</TableCell>
+                        <TableCell className="capitalize">{line.transactionType}</TableCell>
+                        <TableCell>
+                          {line.counterparty ? (
+                            <Link href={`/registry/accounts/${line.counterparty.id}`} className="hover:underline">
+                              {line.counterparty.name}
+                            </Link>
+                          ) : (
+                            '-'
+                          )}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">
+                          {line.holding ? (
+                            <Link
+                              href={line.holding.type === 'corc' ? `/corc/${line.holding.id}` : `/registry/${line.holding.id}`}
+                              className="hover:underline"
+                            >
+                              {line.serialRange}
+                            </Link>
+                          ) : (
+                            line.serialRange
+                          )}
+                        </TableCell>
+                        <TableCell className={`text-right ${line.change >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                          {line.change >= 0 ? `+${line.change}` : line.change} t
+                        </TableCell>
+                        <TableCell className="text-right font-medium">{line.balance} t</TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-[var(--muted-foreground)]">
+                        No ledger entries in this period.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <AuditHistoryPanel className="md:col-span-2" entries={history} />
+      </div>
+    </PageContainer>
+  );
+}
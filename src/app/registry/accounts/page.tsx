@@ -0,0 +1,119 @@
+export const dynamic = 'force-dynamic';
+
+import Link from 'next/link';
+import db from '@/lib/db';
+import { getAccountBalances } from '@/lib/services/registry-ledger';
+import { isSystemAccountType, REGISTRY_ACCOUNT_TYPES } from '@/lib/validations/registry-account';
+import { PageContainer, PageHeader } from '@/components/layout/page-container';
+import {
+  Badge,
+  Card,
+  CardContent,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui';
+import { RegistryAccountDialog } from '@/components/registry';
+import { Wallet } from 'lucide-react';
+
+function accountTypeLabel(type: string): string {
+  return REGISTRY_ACCOUNT_TYPES.find((t) => t.value === type)?.label ?? type;
+}
+
+async function getAccounts() {
+  const accounts = await db.registryAccount.findMany({
+    orderBy: [{ isActive: 'desc' }, { accountType: 'asc' }, { name: 'asc' }],
+  });
+  const balances = await getAccountBalances(accounts.map((a) => a.id));
+
+  return accounts.map((account) => ({
+    ...account,
+    balance: balances.get(account.id) ?? { credited: 0, debited: 0, balance: 0 },
+  }));
+}
+
+type AccountRow = Awaited<ReturnType<typeof getAccounts>>[number];
+
+function AccountsTable({ title, accounts }: { title: string; accounts: AccountRow[] }) {
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-0">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{title}</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>External ID</TableHead>
+              <TableHead className="text-right">Credited</TableHead>
+              <TableHead className="text-right">Debited</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {accounts.length > 0 ? (
+              accounts.map((account) => (
+                <TableRow key={account.id}>
+                  <TableCell className="font-medium">
+                    <Link href={`/registry/accounts/${account.id}`} className="hover:underline">
+                      {account.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{accountTypeLabel(account.accountType)}</Badge>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{account.externalAccountId || '-'}</TableCell>
+                  <TableCell className="text-right">{account.balance.credited} t</TableCell>
+                  <TableCell className="text-right">{account.balance.debited} t</TableCell>
+                  <TableCell className="text-right font-semibold">{account.balance.balance} t</TableCell>
+                  <TableCell>
+                    <Badge variant={account.isActive ? 'success' : 'secondary'}>
+                      {account.isActive ? 'active' : 'inactive'}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-[var(--muted-foreground)]">
+                  No accounts yet. Accounts are also created when credits are issued or transferred to a new owner.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default async function RegistryAccountsPage() {
+  const accounts = await getAccounts();
+
+  const holders = accounts.filter((a) => !isSystemAccountType(a.accountType));
+  const system = accounts.filter((a) => isSystemAccountType(a.accountType));
+  const inCirculation = holders.reduce((sum, a) => sum + a.balance.balance, 0);
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Registry Accounts"
+        description={`Holders of CORCs and BCUs · ${inCirculation} tCO₂e in circulation`}
+        icon={Wallet}
+        iconColor="text-amber-500"
+        breadcrumbs={[
+          { label: 'Dashboard', href: '/' },
+          { label: 'Registry', href: '/registry' },
+          { label: 'Accounts' },
+        ]}
+        action={<RegistryAccountDialog />}
+      />
+
+      <AccountsTable title="Holder Accounts" accounts={holders} />
+      {system.length > 0 && <AccountsTable title="System Accounts" accounts={system} />}
+    </PageContainer>
+  );
+}
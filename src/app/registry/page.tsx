@@ -2,77 +2,123 @@ export const dynamic = 'force-dynamic';
 
 import Link from 'next/link';
 import db from '@/lib/db';
+import { getLotBalances } from '@/lib/services/credit-lots';
+import { CORC_ISSUANCE_TYPES } from '@/lib/validations/corc';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
-import { Button, Card, CardContent, Badge } from '@/components/ui';
-import { BCUTable } from '@/components/registry';
+import { Button, Card, CardContent } from '@/components/ui';
+import { RegistryTable, type RegistryEntry } from '@/components/registry';
 import { WorkflowNav } from '@/components/workflow-nav';
-import { Award, TreePine, ArrowRightLeft, CheckCircle, Plus } from 'lucide-react';
+import { Award, TreePine, ArrowRightLeft, CheckCircle, Wallet, AlertTriangle } from 'lucide-react';
 
-async function getBCUs() {
-  return db.bCU.findMany({
-    orderBy: { issuanceDate: 'desc' },
-    include: {
-      sequestrationEvents: {
-        include: {
-          sequestration: {
-            select: {
-              id: true,
-              finalDeliveryDate: true,
-              sequestrationType: true,
-            },
-          },
+/**
+ * Issued CORCs (calculated and converted from BCUs) together with any BCU
+ * the migration has not picked up yet, as one list of registry entries
+ */
+async function getRegistryEntries(): Promise<RegistryEntry[]> {
+  const [corcs, bcus] = await Promise.all([
+    db.cORCIssuance.findMany({
+      where: { status: { not: 'draft' } },
+      orderBy: { issuanceDate: 'desc' },
+      include: {
+        monitoringPeriod: {
+          select: { facility: { select: { name: true } } },
         },
       },
-    },
-  });
-}
+    }),
+    db.bCU.findMany({
+      where: { migratedCorc: null },
+      orderBy: { issuanceDate: 'desc' },
+    }),
+  ]);
 
-async function getStats() {
-  const [total, issued, transferred, retired, totalQuantity, retiredQuantity] =
-    await Promise.all([
-      db.bCU.count(),
-      db.bCU.count({ where: { status: 'issued' } }),
-      db.bCU.count({ where: { status: 'transferred' } }),
-      db.bCU.count({ where: { status: 'retired' } }),
-      db.bCU.aggregate({ _sum: { quantityTonnesCO2e: true } }),
-      db.bCU.aggregate({
-        where: { status: 'retired' },
-        _sum: { quantityTonnesCO2e: true },
-      }),
-    ]);
+  const [corcBalances, bcuBalances] = await Promise.all([
+    getLotBalances(
+      'corc',
+      corcs.map((c) => ({ id: c.id, status: c.status, quantityTCO2e: c.netCORCsTCO2e }))
+    ),
+    getLotBalances(
+      'bcu',
+      bcus.map((b) => ({ id: b.id, status: b.status, quantityTCO2e: b.quantityTonnesCO2e }))
+    ),
+  ]);
 
-  return {
-    total,
-    issued,
-    transferred,
-    retired,
-    totalQuantity: totalQuantity._sum.quantityTonnesCO2e || 0,
-    retiredQuantity: retiredQuantity._sum.quantityTonnesCO2e || 0,
-  };
+  return [
+    ...corcs.map((corc) => ({
+      id: corc.id,
+      kind: 'corc' as const,
+      typeLabel: CORC_ISSUANCE_TYPES.find((t) => t.value === corc.issuanceType)?.label ?? corc.issuanceType,
+      serialNumber: corc.serialNumber,
+      quantityTCO2e: corc.netCORCsTCO2e,
+      remainingTCO2e: corcBalances.get(corc.id)?.remaining ?? 0,
+      retiredTCO2e: corcBalances.get(corc.id)?.retired ?? 0,
+      issuanceDate: corc.issuanceDate,
+      status: corc.status,
+      ownerName: corc.ownerName,
+      facilityName: corc.monitoringPeriod.facility.name,
+      href: `/corc/${corc.id}`,
+    })),
+    ...bcus.map((bcu) => ({
+      id: bcu.id,
+      kind: 'bcu' as const,
+      typeLabel: 'BCU',
+      serialNumber: bcu.registrySerialNumber,
+      quantityTCO2e: bcu.quantityTonnesCO2e,
+      remainingTCO2e: bcuBalances.get(bcu.id)?.remaining ?? 0,
+      retiredTCO2e: bcuBalances.get(bcu.id)?.retired ?? 0,
+      issuanceDate: bcu.issuanceDate,
+      status: bcu.status,
+      ownerName: bcu.ownerName,
+      facilityName: null,
+      href: `/registry/${bcu.id}`,
+    })),
+  ];
 }
 
 export default async function RegistryPage() {
-  const [bcus, stats] = await Promise.all([getBCUs(), getStats()]);
+  const entries = await getRegistryEntries();
+
+  // Lot units, so partial retirements count towards retired and the
+  // remainder towards active
+  const stats = {
+    total: entries.length,
+    active: entries.filter((e) => e.remainingTCO2e > 0).length,
+    transferred: entries.filter((e) => e.status === 'transferred').length,
+    retiredQuantity: entries.reduce((sum, e) => sum + e.retiredTCO2e, 0),
+  };
+  const unmigratedCount = entries.filter((e) => e.kind === 'bcu').length;
 
   return (
     <PageContainer>
       <WorkflowNav currentPage="registry" />
 
       <PageHeader
-        title="BCU Registry"
-        description="Manage Biochar Carbon Unit issuance, transfers, and retirements"
+        title="Registry"
+        description="Issued CORCs, including those converted from BCUs, with their transfers and retirements"
         icon={Award}
         iconColor="text-amber-500"
         action={
-          <Link href="/registry/issue">
-            <Button size="sm" className="h-8">
-              <Plus className="h-3.5 w-3.5 mr-1.5" />
-              Issue BCU
-            </Button>
-          </Link>
+          <div className="flex gap-2">
+            <Link href="/registry/accounts">
+              <Button size="sm" variant="outline" className="h-8">
+                <Wallet className="h-3.5 w-3.5 mr-1.5" />
+                Accounts
+              </Button>
+            </Link>
+          </div>
         }
       />
 
+      {unmigratedCount > 0 && (
+        <div className="flex items-start gap-2 border border-amber-500/30 bg-amber-500/5 p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 text-amber-500 mt-0.5 shrink-0" />
+          <p>
+            {unmigratedCount} BCU{unmigratedCount === 1 ? ' has' : 's have'} not been converted to CORCs yet.
+            Run <code className="font-mono text-xs">npm run db:migrate-bcu</code> for a dry-run report, then
+            apply it with <code className="font-mono text-xs">--apply</code>.
+          </p>
+        </div>
+      )}
+
       {/* Stats */}
       <div className="grid gap-3 grid-cols-2 md:grid-cols-4">
         <Card className="border-[var(--border)]">
@@ -83,7 +129,7 @@ export default async function RegistryPage() {
               </div>
               <div>
                 <p className="text-xl font-semibold leading-none">{stats.total}</p>
-                <p className="text-[10px] text-[var(--muted-foreground)] mt-0.5">Total BCUs</p>
+                <p className="text-[10px] text-[var(--muted-foreground)] mt-0.5">Total issuances</p>
               </div>
             </div>
           </CardContent>
@@ -95,7 +141,7 @@ export default async function RegistryPage() {
                 <CheckCircle className="h-4 w-4 text-emerald-500" />
               </div>
               <div>
-                <p className="text-xl font-semibold leading-none">{stats.issued}</p>
+                <p className="text-xl font-semibold leading-none">{stats.active}</p>
                 <p className="text-[10px] text-[var(--muted-foreground)] mt-0.5">Active</p>
               </div>
             </div>
@@ -129,7 +175,7 @@ export default async function RegistryPage() {
         </Card>
       </div>
 
-      <BCUTable bcus={bcus} />
+      <RegistryTable entries={entries} />
     </PageContainer>
   );
 }
@@ -3,6 +3,7 @@ export const dynamic = 'force-dynamic';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import db from '@/lib/db';
+import { getEntityHistory } from '@/lib/services/audit-log';
 import { formatDateTime } from '@/lib/utils';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
 import {
@@ -14,6 +15,8 @@ import {
   Badge,
 } from '@/components/ui';
 import { QRDisplay } from '@/components/qr';
+import { EvidencePanel } from '@/components/evidence';
+import { AuditHistoryPanel } from '@/components/audit';
 import { SEQUESTRATION_TYPES, STORAGE_CONDITIONS } from '@/lib/validations/sequestration';
 import {
   TreeDeciduous,
@@ -100,6 +103,8 @@ export default async function SequestrationDetailPage({
     notFound();
   }
 
+  const history = await getEntityHistory('sequestration_event', id);
+
   const totalQuantity = event.batches.reduce(
     (sum, pb) => sum + pb.quantityTonnes,
     0
@@ -488,35 +493,11 @@ export default async function SequestrationDetailPage({
           </CardContent>
         </Card>
 
-        <Card className="md:col-span-2">
-          <CardHeader>
-            <CardTitle className="text-lg">Evidence Files</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {event.evidence.length > 0 ? (
-              <div className="grid gap-2">
-                {event.evidence.map((file) => (
-                  <div
-                    key={file.id}
-                    className="flex items-center justify-between border p-3"
-                  >
-                    <div>
-                      <p className="font-medium">{file.fileName}</p>
-                      <p className="text-sm text-[var(--muted-foreground)]">
-                        {file.category} • {(file.fileSize / 1024).toFixed(1)} KB
-                      </p>
-                    </div>
-                    <Badge variant="outline">{file.fileType}</Badge>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <p className="text-[var(--muted-foreground)]">
-                No evidence files uploaded yet.
-              </p>
-            )}
-          </CardContent>
-        </Card>
+        <EvidencePanel
+          className="md:col-span-2"
+          files={event.evidence}
+          links={{ sequestrationEventId: event.id }}
+        />
 
         {event.notes && (
           <Card className="md:col-span-2">
@@ -567,6 +548,8 @@ export default async function SequestrationDetailPage({
             </CardContent>
           </Card>
         )}
+
+        <AuditHistoryPanel className="md:col-span-2" entries={history} />
       </div>
     </PageContainer>
   );
@@ -4,6 +4,7 @@ import { notFound } from 'next/navigation';
 import db from '@/lib/db';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
 import { SequestrationWizard } from '@/components/sequestration';
+import { getAvailableBiocharTonnes } from '@/lib/services/biochar-inventory';
 
 async function getSequestrationEvent(id: string) {
   return db.sequestrationEvent.findUnique({
@@ -14,8 +15,8 @@ async function getSequestrationEvent(id: string) {
   });
 }
 
-async function getProductionBatchOptions() {
-  return db.productionBatch.findMany({
+async function getProductionBatchOptions(excludeSequestrationId?: string) {
+  const batches = await db.productionBatch.findMany({
     where: { status: 'complete' },
     orderBy: { productionDate: 'desc' },
     select: {
@@ -24,6 +25,16 @@ async function getProductionBatchOptions() {
       outputBiocharWeightTonnes: true,
     },
   });
+
+  const available = await getAvailableBiocharTonnes(
+    batches.map((b) => b.id),
+    excludeSequestrationId
+  );
+
+  return batches.map((batch) => ({
+    ...batch,
+    availableTonnes: available.get(batch.id)?.availableTonnes ?? 0,
+  }));
 }
 
 export default async function SequestrationWizardPage({
@@ -34,7 +45,7 @@ export default async function SequestrationWizardPage({
   const { id } = await params;
   const [event, productionBatchOptions] = await Promise.all([
     getSequestrationEvent(id),
-    getProductionBatchOptions(),
+    getProductionBatchOptions(id),
   ]);
 
   if (!event) {
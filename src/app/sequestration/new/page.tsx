@@ -3,9 +3,10 @@ export const dynamic = 'force-dynamic';
 import db from '@/lib/db';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
 import { SequestrationWizard } from '@/components/sequestration';
+import { getAvailableBiocharTonnes } from '@/lib/services/biochar-inventory';
 
 async function getProductionBatchOptions() {
-  return db.productionBatch.findMany({
+  const batches = await db.productionBatch.findMany({
     where: { status: 'complete' },
     orderBy: { productionDate: 'desc' },
     select: {
@@ -14,6 +15,13 @@ async function getProductionBatchOptions() {
       outputBiocharWeightTonnes: true,
     },
   });
+
+  const available = await getAvailableBiocharTonnes(batches.map((b) => b.id));
+
+  return batches.map((batch) => ({
+    ...batch,
+    availableTonnes: available.get(batch.id)?.availableTonnes ?? 0,
+  }));
 }
 
 export default async function NewSequestrationPage() {
@@ -3,6 +3,7 @@ export const dynamic = 'force-dynamic';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import db from '@/lib/db';
+import { getEntityHistory } from '@/lib/services/audit-log';
 import { formatDateTime } from '@/lib/utils';
 import { PageContainer, PageHeader } from '@/components/layout/page-container';
 import {
@@ -11,9 +12,10 @@ import {
   CardContent,
   CardHeader,
   CardTitle,
-  Badge,
 } from '@/components/ui';
 import { QRDisplay } from '@/components/qr';
+import { EvidencePanel } from '@/components/evidence';
+import { AuditHistoryPanel } from '@/components/audit';
 import { TRANSPORT_FUEL_TYPES } from '@/lib/validations/transport';
 
 async function getTransportEvent(id: string) {
@@ -43,6 +45,8 @@ export default async function TransportDetailPage({
     notFound();
   }
 
+  const history = await getEntityHistory('transport_event', id);
+
   const fuelTypeLabel = transportEvent.fuelType
     ? TRANSPORT_FUEL_TYPES.find((t) => t.value === transportEvent.fuelType)
         ?.label || transportEvent.fuelType
@@ -141,35 +145,11 @@ export default async function TransportDetailPage({
           </CardContent>
         </Card>
 
-        <Card className="md:col-span-2">
-          <CardHeader>
-            <CardTitle className="text-lg">Evidence Files</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {transportEvent.evidence.length > 0 ? (
-              <div className="grid gap-2">
-                {transportEvent.evidence.map((file) => (
-                  <div
-                    key={file.id}
-                    className="flex items-center justify-between border p-3"
-                  >
-                    <div>
-                      <p className="font-medium">{file.fileName}</p>
-                      <p className="text-sm text-[var(--muted-foreground)]">
-                        {file.category} • {(file.fileSize / 1024).toFixed(1)} KB
-                      </p>
-                    </div>
-                    <Badge variant="outline">{file.fileType}</Badge>
-                  </div>
-                ))}
-              </div>
-            ) : (
-              <p className="text-[var(--muted-foreground)]">
-                No evidence files uploaded yet.
-              </p>
-            )}
-          </CardContent>
-        </Card>
+        <EvidencePanel
+          className="md:col-span-2"
+          files={transportEvent.evidence}
+          links={{ transportEventId: transportEvent.id }}
+        />
 
         {transportEvent.notes && (
           <Card className="md:col-span-2">
@@ -214,6 +194,8 @@ export default async function TransportDetailPage({
             </CardContent>
           </Card>
         )}
+
+        <AuditHistoryPanel className="md:col-span-2" entries={history} />
       </div>
     </PageContainer>
   );
@@ -0,0 +1,44 @@
+export const dynamic = 'force-dynamic';
+
+import { headers } from 'next/headers';
+import { Users } from 'lucide-react';
+import db from '@/lib/db';
+import { PageContainer, PageHeader } from '@/components/layout/page-container';
+import { UserManagement } from '@/components/users';
+
+async function getUsers() {
+  return db.user.findMany({
+    orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      role: true,
+      isActive: true,
+      lastLoginAt: true,
+      createdAt: true,
+    },
+  });
+}
+
+export default async function UsersPage() {
+  const [users, requestHeaders] = await Promise.all([getUsers(), headers()]);
+
+  return (
+    <PageContainer>
+      <PageHeader
+        title="Users"
+        description="Accounts and roles for everyone who records, manages or verifies data"
+        icon={Users}
+      />
+      <UserManagement
+        currentUserId={requestHeaders.get('X-User-ID')}
+        users={users.map((user) => ({
+          ...user,
+          lastLoginAt: user.lastLoginAt?.toISOString() ?? null,
+          createdAt: user.createdAt.toISOString(),
+        }))}
+      />
+    </PageContainer>
+  );
+}
@@ -0,0 +1,161 @@
+import Link from 'next/link';
+import { CheckCircle2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { Badge, Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { formatDate } from '@/lib/utils';
+import { getPublicCreditRecord, type PublicCreditRecord } from '@/lib/services/public-verification';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public record of a CORC serial. Shows only what the public API returns.
+ */
+export default async function VerifySerialPage({
+  params,
+}: {
+  params: Promise<{ serial: string }>;
+}) {
+  const { serial } = await params;
+  const result = await getPublicCreditRecord(serial);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center gap-6 p-4 py-12 bg-[var(--background)]">
+      <Link href="/verify" className="text-center">
+        <span className="font-logo text-2xl">ECM</span>
+        <span className="text-xs font-medium tracking-widest text-[var(--muted-foreground)] uppercase ml-1">MRV</span>
+      </Link>
+
+      {!result.ok ? (
+        <Card className="w-full max-w-2xl">
+          <CardContent className="flex items-start gap-3 pt-6">
+            <ShieldAlert className="h-6 w-6 shrink-0 text-red-600" />
+            <div>
+              <p className="font-semibold">No issued CORC matches this serial</p>
+              <ul className="mt-1 list-disc pl-4 text-sm text-[var(--muted-foreground)]">
+                {result.problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+              <Link href="/verify" className="mt-3 inline-block text-sm text-emerald-600 dark:text-emerald-400 hover:underline">
+                Try another serial
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <VerifiedCredit record={result.record} />
+      )}
+    </div>
+  );
+}
+
+function VerifiedCredit({ record }: { record: PublicCreditRecord }) {
+  const retired = record.unitStatus === 'retired' || (record.unitStatus === null && record.status === 'retired');
+
+  return (
+    <Card className="w-full max-w-2xl">
+      <CardHeader>
+        <div className="flex items-start gap-3 border border-emerald-200 bg-emerald-50 p-4 text-emerald-800">
+          <ShieldCheck className="h-6 w-6 shrink-0" />
+          <div className="min-w-0">
+            <CardTitle className="text-lg">
+              {retired ? 'Issued and retired' : 'Issued and active'}
+            </CardTitle>
+            <p className="font-mono text-sm break-all">{record.serial}</p>
+            {record.unit !== null && record.serial !== record.issuanceSerialNumber && (
+              <p className="text-xs">
+                Unit {record.unit} of issuance <span className="font-mono">{record.issuanceSerialNumber}</span>
+              </p>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+          <dt className="text-[var(--muted-foreground)]">Status</dt>
+          <dd>
+            <Badge variant={record.status === 'retired' ? 'retired' : 'success'}>
+              {record.status === 'retired' ? 'Retired' : 'Issued'}
+            </Badge>
+          </dd>
+          <dt className="text-[var(--muted-foreground)]">Type</dt>
+          <dd>{record.issuanceType}</dd>
+          <dt className="text-[var(--muted-foreground)]">Vintage</dt>
+          <dd>{record.vintage}</dd>
+          <dt className="text-[var(--muted-foreground)]">Facility</dt>
+          <dd>
+            {record.facility.name}
+            {record.facility.country && `, ${record.facility.country}`}
+          </dd>
+          <dt className="text-[var(--muted-foreground)]">Issued</dt>
+          <dd>{record.issuanceDate ? formatDate(record.issuanceDate) : '-'}</dd>
+          <dt className="text-[var(--muted-foreground)]">Quantity</dt>
+          <dd>
+            {record.quantityTCO2e.toFixed(2)} tCO₂e
+            <span className="text-[var(--muted-foreground)]">
+              {' '}· {record.remainingTCO2e} t active · {record.retiredTCO2e} t retired
+            </span>
+          </dd>
+          <dt className="text-[var(--muted-foreground)]">Persistence Type</dt>
+          <dd>{record.persistenceType}</dd>
+        </dl>
+
+        <div className="space-y-2 border-t pt-4">
+          <p className="text-sm font-semibold">Retirements</p>
+          {record.retirements.length === 0 ? (
+            <p className="text-sm text-[var(--muted-foreground)]">
+              {record.unit !== null ? 'This unit has not been retired.' : 'No units have been retired.'}
+            </p>
+          ) : (
+            record.retirements.map((retirement) => (
+              <div key={retirement.serialRange} className="flex items-start gap-2 text-sm">
+                <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-violet-600" />
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {retirement.quantityTCO2e} tCO₂e for {retirement.beneficiary}
+                  </p>
+                  <p className="text-xs text-[var(--muted-foreground)]">
+                    {retirement.retirementDate ? formatDate(retirement.retirementDate) : 'Date not recorded'}
+                    {retirement.purpose && ` · ${retirement.purpose}`}
+                  </p>
+                  <p className="font-mono text-[10px] text-[var(--muted-foreground)] break-all">
+                    {retirement.serialRange}
+                  </p>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {record.calculation && (
+          <div className="space-y-2 border-t pt-4">
+            <p className="text-sm font-semibold">Calculation Summary</p>
+            <p className="text-xs text-[var(--muted-foreground)]">
+              Monitoring period {formatDate(record.calculation.monitoringPeriodStart)} –{' '}
+              {formatDate(record.calculation.monitoringPeriodEnd)} · {record.calculation.productionBatchCount} production
+              batch(es)
+              {record.calculation.methodologyVersion && (
+                <> · <span className="font-mono">{record.calculation.methodologyVersion}</span></>
+              )}
+            </p>
+            <dl className="grid grid-cols-[1fr_auto] gap-x-6 gap-y-1 text-sm">
+              <dt className="text-[var(--muted-foreground)]">Carbon stored</dt>
+              <dd className="text-right">{record.calculation.grossStoredTCO2e.toFixed(2)} t</dd>
+              <dt className="text-[var(--muted-foreground)]">Baseline</dt>
+              <dd className="text-right">−{record.calculation.baselineTCO2e.toFixed(2)} t</dd>
+              <dt className="text-[var(--muted-foreground)]">
+                Persistence loss ({record.calculation.persistenceFractionPercent.toFixed(1)}% retained)
+              </dt>
+              <dd className="text-right">−{record.calculation.persistenceLossTCO2e.toFixed(2)} t</dd>
+              <dt className="text-[var(--muted-foreground)]">Project emissions</dt>
+              <dd className="text-right">−{record.calculation.projectEmissionsTCO2e.toFixed(2)} t</dd>
+              <dt className="text-[var(--muted-foreground)]">Leakage</dt>
+              <dd className="text-right">−{record.calculation.leakageTCO2e.toFixed(2)} t</dd>
+              <dt className="font-medium">Net CORCs</dt>
+              <dd className="text-right font-medium">{record.calculation.netTCO2e.toFixed(2)} tCO₂e</dd>
+            </dl>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+import { CheckCircle2, XCircle, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { formatDate } from '@/lib/utils';
+import { verifyRetirementCertificate } from '@/lib/services/retirement-certificates';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public verification page a retirement certificate's QR code links to.
+ * Checks the registry on every visit and shows only what the certificate
+ * itself states.
+ */
+export default async function VerifyCertificatePage({
+  params,
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const { code } = await params;
+  const verification = await verifyRetirementCertificate(code);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center gap-6 p-4 py-12 bg-[var(--background)]">
+      <div className="text-center">
+        <span className="font-logo text-2xl">ECM</span>
+        <span className="text-xs font-medium tracking-widest text-[var(--muted-foreground)] uppercase ml-1">MRV</span>
+      </div>
+
+      {!verification ? (
+        <Card className="w-full max-w-xl">
+          <CardContent className="flex items-start gap-3 pt-6">
+            <ShieldAlert className="h-6 w-6 shrink-0 text-red-600" />
+            <div>
+              <p className="font-semibold">Certificate not found</p>
+              <p className="text-sm text-[var(--muted-foreground)]">
+                No retirement certificate matches this verification link. Check that the
+                address was copied in full.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card className="w-full max-w-xl">
+          <CardHeader>
+            <div
+              className={
+                verification.genuine
+                  ? 'flex items-start gap-3 border border-emerald-200 bg-emerald-50 p-4 text-emerald-800'
+                  : 'flex items-start gap-3 border border-red-200 bg-red-50 p-4 text-red-800'
+              }
+            >
+              {verification.genuine ? (
+                <ShieldCheck className="h-6 w-6 shrink-0" />
+              ) : (
+                <ShieldAlert className="h-6 w-6 shrink-0" />
+              )}
+              <div>
+                <CardTitle className="text-lg">
+                  {verification.genuine ? 'Genuine retirement' : 'Retirement could not be confirmed'}
+                </CardTitle>
+                <p className="text-sm">
+                  Certificate {verification.certificate.certificateNumber}
+                </p>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+              <dt className="text-[var(--muted-foreground)]">Beneficiary</dt>
+              <dd className="font-medium">{verification.certificate.beneficiary}</dd>
+              <dt className="text-[var(--muted-foreground)]">Purpose</dt>
+              <dd>{verification.certificate.purpose || '-'}</dd>
+              <dt className="text-[var(--muted-foreground)]">Quantity</dt>
+              <dd>{verification.certificate.quantityTCO2e} tCO₂e</dd>
+              <dt className="text-[var(--muted-foreground)]">Serial Range</dt>
+              <dd className="font-mono text-xs break-all">{verification.certificate.serialRange}</dd>
+              <dt className="text-[var(--muted-foreground)]">Facility</dt>
+              <dd>
+                {verification.certificate.facilityName}
+                {verification.certificate.facilityCountry && `, ${verification.certificate.facilityCountry}`}
+              </dd>
+              <dt className="text-[var(--muted-foreground)]">Vintage</dt>
+              <dd>{verification.certificate.vintage}</dd>
+              <dt className="text-[var(--muted-foreground)]">Methodology Version</dt>
+              <dd className="font-mono text-xs">{verification.certificate.methodologyVersion}</dd>
+              <dt className="text-[var(--muted-foreground)]">Persistence Type</dt>
+              <dd>{verification.certificate.persistenceType}</dd>
+              <dt className="text-[var(--muted-foreground)]">Retired</dt>
+              <dd>
+                {verification.certificate.retirementDate
+                  ? formatDate(verification.certificate.retirementDate)
+                  : '-'}
+              </dd>
+            </dl>
+
+            <div className="space-y-2 border-t pt-4">
+              <p className="text-sm font-semibold">Registry checks</p>
+              {verification.checks.map((check) => (
+                <div key={check.label} className="flex items-start gap-2 text-sm">
+                  {check.passed ? (
+                    <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-emerald-600" />
+                  ) : (
+                    <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-600" />
+                  )}
+                  <div>
+                    <p className="font-medium">{check.label}</p>
+                    <p className="text-xs text-[var(--muted-foreground)]">{check.detail}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-[var(--muted-foreground)]">
+              Checked against the registry on {formatDate(new Date())}.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
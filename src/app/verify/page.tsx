@@ -0,0 +1,51 @@
+import { redirect } from 'next/navigation';
+import { Search } from 'lucide-react';
+import { Button, Card, CardContent, CardHeader, CardTitle, Input } from '@/components/ui';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Public serial lookup for buyers without an account
+ */
+export default async function VerifyPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ serial?: string }>;
+}) {
+  const { serial } = await searchParams;
+  if (serial?.trim()) {
+    redirect(`/verify/${encodeURIComponent(serial.trim())}`);
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center gap-6 p-4 bg-[var(--background)]">
+      <div className="text-center">
+        <span className="font-logo text-2xl">ECM</span>
+        <span className="text-xs font-medium tracking-widest text-[var(--muted-foreground)] uppercase ml-1">MRV</span>
+      </div>
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-lg">Verify a CORC</CardTitle>
+          <p className="text-sm text-[var(--muted-foreground)]">
+            Enter an issuance or unit serial to see its status, origin and retirements.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form action="/verify" method="get" className="flex gap-2">
+            <Input
+              name="serial"
+              placeholder="CORC-SBF-2025-000123-7"
+              className="font-mono"
+              required
+              autoFocus
+            />
+            <Button type="submit">
+              <Search className="mr-2 h-4 w-4" />
+              Verify
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { History } from 'lucide-react';
+import type { AuditLog } from '@prisma/client';
+import { Badge, Card, CardContent, CardHeader, CardTitle } from '@/components/ui';
+import { formatDateTime } from '@/lib/utils';
+import type { AuditFieldChange } from '@/lib/services/audit-log';
+
+interface AuditHistoryPanelProps {
+  entries: AuditLog[];
+  title?: string;
+  className?: string;
+}
+
+const ACTION_VARIANTS = {
+  create: 'success',
+  update: 'info',
+  delete: 'destructive',
+} as const;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  return String(value);
+}
+
+export function AuditHistoryPanel({
+  entries,
+  title = 'History',
+  className,
+}: AuditHistoryPanelProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <History className="h-4 w-4" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length > 0 ? (
+          <div className="space-y-2">
+            {entries.map((entry) => {
+              const changes = (entry.changes as AuditFieldChange[] | null) ?? [];
+              return (
+                <details key={entry.id} className="border p-3">
+                  <summary className="flex cursor-pointer flex-wrap items-center gap-2 text-sm">
+                    <Badge variant={ACTION_VARIANTS[entry.action as keyof typeof ACTION_VARIANTS] ?? 'outline'}>
+                      {entry.action}
+                    </Badge>
+                    <span className="font-medium">{entry.actor ?? 'unknown'}</span>
+                    <span className="text-[var(--muted-foreground)]">
+                      {formatDateTime(entry.createdAt)}
+                    </span>
+                    {entry.action === 'update' && (
+                      <span className="text-[var(--muted-foreground)]">
+                        {changes.length} field{changes.length === 1 ? '' : 's'}
+                      </span>
+                    )}
+                  </summary>
+                  <div className="mt-3 space-y-2 text-sm">
+                    {entry.note && <p>{entry.note}</p>}
+                    {changes.length > 0 && (
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-[var(--muted-foreground)]">
+                            <th className="py-1 pr-2 font-medium">Field</th>
+                            <th className="py-1 pr-2 font-medium">Before</th>
+                            <th className="py-1 font-medium">After</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {changes.map((change) => (
+                            <tr key={change.field} className="border-t align-top">
+                              <td className="py-1 pr-2 font-mono">{change.field}</td>
+                              <td className="py-1 pr-2 break-all text-[var(--muted-foreground)]">
+                                {formatValue(change.from)}
+                              </td>
+                              <td className="py-1 break-all">{formatValue(change.to)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {entry.route && (
+                      <p className="font-mono text-xs text-[var(--muted-foreground)]">{entry.route}</p>
+                    )}
+                  </div>
+                </details>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-[var(--muted-foreground)]">
+            No recorded changes yet.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { AuditHistoryPanel } from './audit-history-panel';
@@ -3,6 +3,7 @@
 import * as React from 'react';
 import { cn } from '@/lib/utils';
 import { Info } from 'lucide-react';
+import { StorageLinesBreakdown, type StorageLineSummary } from './storage-lines-breakdown';
 
 interface CalculationItem {
   label: string;
@@ -20,6 +21,7 @@ interface CalculationWaterfallProps {
   eLeakage: number | null;
   netCORCs: number | null;
   persistenceFraction?: number | null;
+  storageLines?: StorageLineSummary[];
   showFormula?: boolean;
   showDescriptions?: boolean;
   className?: string;
@@ -33,6 +35,7 @@ export function CalculationWaterfall({
   eLeakage,
   netCORCs,
   persistenceFraction,
+  storageLines,
   showFormula = true,
   showDescriptions = true,
   className,
@@ -143,6 +146,11 @@ export function CalculationWaterfall({
         ))}
       </div>
 
+      {/* Disaggregated C_stored / C_loss */}
+      {storageLines && storageLines.length > 0 && (
+        <StorageLinesBreakdown lines={storageLines} />
+      )}
+
       {/* Persistence info */}
       {persistenceFraction !== null && persistenceFraction !== undefined && (
         <div className="flex items-center justify-between py-2 px-3 bg-amber-500/5 border border-amber-500/20 rounded">
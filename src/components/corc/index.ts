@@ -8,3 +8,8 @@ export {
   CalculationWaterfall,
   CompactCalculationSummary,
 } from './calculation-waterfall';
+
+export {
+  StorageLinesBreakdown,
+  type StorageLineSummary,
+} from './storage-lines-breakdown';
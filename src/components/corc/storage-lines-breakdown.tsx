@@ -0,0 +1,66 @@
+'use client';
+
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+
+export interface StorageLineSummary {
+  productionBatchId: string;
+  sequestrationEventId: string;
+  label?: string;
+  biocharDryMassTonnes: number;
+  hCorgRatio: number;
+  meanSoilTempC: number;
+  persistenceFractionPercent: number;
+  cStoredTCO2e: number;
+  cLossTCO2e: number;
+}
+
+interface StorageLinesBreakdownProps {
+  lines: StorageLineSummary[];
+  className?: string;
+}
+
+/**
+ * Per production batch × sequestration event C_stored and C_loss
+ * from a disaggregated CORC calculation
+ */
+export function StorageLinesBreakdown({ lines, className }: StorageLinesBreakdownProps) {
+  const maxValue = Math.max(...lines.map((l) => l.cStoredTCO2e), 1);
+
+  return (
+    <div className={cn('space-y-1.5', className)}>
+      <p className="text-xs font-medium text-[var(--muted-foreground)]">
+        Disaggregated by batch × sequestration event
+      </p>
+      {lines.map((line) => (
+        <div
+          key={`${line.productionBatchId}-${line.sequestrationEventId}`}
+          className="flex items-center gap-3"
+        >
+          <span className="w-32 text-[10px] text-[var(--muted-foreground)] text-right truncate" title={line.label}>
+            {line.label ?? line.productionBatchId.slice(0, 8)}
+          </span>
+          <div className="flex-1 h-4 bg-[var(--muted)]/30 rounded relative overflow-hidden">
+            <div
+              className="absolute top-0 left-0 h-full bg-emerald-500/70 rounded"
+              style={{ width: `${(line.cStoredTCO2e / maxValue) * 100}%` }}
+            />
+            <div
+              className="absolute top-0 h-full bg-red-400/70"
+              style={{
+                left: `${((line.cStoredTCO2e - line.cLossTCO2e) / maxValue) * 100}%`,
+                width: `${(line.cLossTCO2e / maxValue) * 100}%`,
+              }}
+            />
+          </div>
+          <span className="w-40 text-[10px] font-mono text-right">
+            {line.cStoredTCO2e.toFixed(2)} − {line.cLossTCO2e.toFixed(2)} t
+            <span className="text-[var(--muted-foreground)]">
+              {' '}• {line.meanSoilTempC.toFixed(0)}°C • PF {line.persistenceFractionPercent.toFixed(1)}%
+            </span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -70,6 +70,7 @@ export function CSVImport({ onSuccess }: CSVImportProps) {
     const headers = [
       'name',
       'category',
+      'activity_type',
       'unit',
       'year',
       'source',
@@ -86,6 +87,7 @@ export function CSVImport({ onSuccess }: CSVImportProps) {
     const exampleRow = [
       'Grid Electricity UK',
       'electricity',
+      'electricity',
       'kgCO2e/kWh',
       '2024',
       'DEFRA',
@@ -178,8 +180,9 @@ export function CSVImport({ onSuccess }: CSVImportProps) {
         <div>
           <p className="font-medium">CSV Format:</p>
           <p>Required columns: name, category, unit, year, source, total_co2e</p>
-          <p>Optional columns: region, co2_factor, ch4_factor, n2o_factor, gwp_ch4, gwp_n2o, notes</p>
+          <p>Optional columns: activity_type, region, co2_factor, ch4_factor, n2o_factor, gwp_ch4, gwp_n2o, notes</p>
           <p className="mt-1">Categories: electricity, fuel, transport, feedstock, other</p>
+          <p>Activity types: electricity, diesel, petrol, gas, propane, biomass, road_freight</p>
           <p>Sources: IPCC, DEFRA, EPA, BEIS, GHG_Protocol, Custom</p>
         </div>
       </div>
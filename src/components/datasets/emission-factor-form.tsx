@@ -11,10 +11,15 @@ import {
   emissionFactorSchema,
   type EmissionFactorInput,
   CATEGORIES,
+  ACTIVITY_TYPES,
   SOURCES,
   REGIONS,
 } from '@/lib/validations/emission-factor';
 
+// Optional breakdown inputs left blank are sent as null, not 0
+const blankToNull = (value: string | number | null) =>
+  value === '' || value === null ? null : Number(value);
+
 interface EmissionFactor extends EmissionFactorInput {
   id: string;
 }
@@ -115,6 +120,23 @@ export function EmissionFactorForm({ factor, onSuccess, onCancel }: EmissionFact
           </div>
         )}
 
+        <div>
+          <Label htmlFor="activityType">Applies To</Label>
+          <select
+            id="activityType"
+            value={watch('activityType') || ''}
+            onChange={(e) => setValue('activityType', e.target.value || null)}
+            className="w-full h-10 rounded-md border border-[var(--border)] bg-[var(--background)] px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-[var(--ring)]"
+          >
+            <option value="">Not used in calculations</option>
+            {ACTIVITY_TYPES.filter((a) => a.category === category).map((activity) => (
+              <option key={activity.value} value={activity.value}>
+                {activity.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div>
           <Label htmlFor="unit">Unit *</Label>
           <Input
@@ -189,7 +211,7 @@ export function EmissionFactorForm({ factor, onSuccess, onCancel }: EmissionFact
               id="co2Factor"
               type="number"
               step="any"
-              {...register('co2Factor')}
+              {...register('co2Factor', { setValueAs: blankToNull })}
               placeholder="kg CO2/unit"
             />
           </div>
@@ -199,7 +221,7 @@ export function EmissionFactorForm({ factor, onSuccess, onCancel }: EmissionFact
               id="ch4Factor"
               type="number"
               step="any"
-              {...register('ch4Factor')}
+              {...register('ch4Factor', { setValueAs: blankToNull })}
               placeholder="kg CH4/unit"
             />
           </div>
@@ -209,7 +231,7 @@ export function EmissionFactorForm({ factor, onSuccess, onCancel }: EmissionFact
               id="n2oFactor"
               type="number"
               step="any"
-              {...register('n2oFactor')}
+              {...register('n2oFactor', { setValueAs: blankToNull })}
               placeholder="kg N2O/unit"
             />
           </div>
@@ -236,7 +258,7 @@ export function EmissionFactorForm({ factor, onSuccess, onCancel }: EmissionFact
               id="gwpCh4"
               type="number"
               step="any"
-              {...register('gwpCh4')}
+              {...register('gwpCh4', { setValueAs: blankToNull })}
               placeholder="e.g., 28"
             />
           </div>
@@ -246,7 +268,7 @@ export function EmissionFactorForm({ factor, onSuccess, onCancel }: EmissionFact
               id="gwpN2o"
               type="number"
               step="any"
-              {...register('gwpN2o')}
+              {...register('gwpN2o', { setValueAs: blankToNull })}
               placeholder="e.g., 265"
             />
           </div>
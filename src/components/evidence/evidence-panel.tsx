@@ -0,0 +1,160 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  FileUpload,
+  UploadedFile,
+  uploadEvidenceFiles,
+} from '@/components/ui';
+import { EVIDENCE_CATEGORIES, type EvidenceLinks } from '@/lib/validations/evidence';
+import { Download, Trash2, Upload } from 'lucide-react';
+
+export interface EvidencePanelFile {
+  id: string;
+  fileName: string;
+  fileType: string;
+  fileSize: number;
+  category: string;
+  storageBackend?: string | null;
+  sha256?: string | null;
+}
+
+interface EvidencePanelProps {
+  files: EvidencePanelFile[];
+  /** Record(s) new uploads are attached to */
+  links: EvidenceLinks;
+  title?: string;
+  className?: string;
+  readOnly?: boolean;
+}
+
+const getCategoryLabel = (value: string) =>
+  EVIDENCE_CATEGORIES.find((c) => c.value === value)?.label ?? value;
+
+export function EvidencePanel({
+  files,
+  links,
+  title = 'Evidence Files',
+  className,
+  readOnly = false,
+}: EvidencePanelProps) {
+  const router = useRouter();
+  const [pendingFiles, setPendingFiles] = useState<UploadedFile[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUpload = async () => {
+    setIsUploading(true);
+    setError(null);
+    try {
+      await uploadEvidenceFiles(pendingFiles, links);
+      setPendingFiles([]);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Upload failed');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this evidence file?')) return;
+    setDeletingId(id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/evidence/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json();
+        throw new Error(result.error || 'Failed to delete evidence file');
+      }
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {files.length > 0 ? (
+          <div className="grid gap-2">
+            {files.map((file) => (
+              <div
+                key={file.id}
+                className="flex items-center justify-between gap-3 border p-3"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{file.fileName}</p>
+                  <p className="text-sm text-[var(--muted-foreground)]">
+                    {getCategoryLabel(file.category)} • {(file.fileSize / 1024).toFixed(1)} KB
+                    {file.sha256 && (
+                      <span className="ml-2 font-mono text-xs" title={`SHA-256 ${file.sha256}`}>
+                        sha256:{file.sha256.slice(0, 12)}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Badge variant="outline">{file.fileType}</Badge>
+                  {file.storageBackend ? (
+                    <a href={`/api/evidence/${file.id}/download`} title="Download">
+                      <Button type="button" variant="ghost" size="icon">
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </a>
+                  ) : (
+                    <span className="text-xs text-[var(--muted-foreground)] px-2" title="Recorded before file storage was available">
+                      metadata only
+                    </span>
+                  )}
+                  {!readOnly && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(file.id)}
+                      disabled={deletingId === file.id}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-[var(--muted-foreground)]">
+            No evidence files uploaded yet.
+          </p>
+        )}
+
+        {!readOnly && (
+          <div className="space-y-2">
+            <FileUpload files={pendingFiles} onChange={setPendingFiles} disabled={isUploading} />
+            {pendingFiles.length > 0 && (
+              <Button type="button" size="sm" onClick={handleUpload} disabled={isUploading}>
+                <Upload className="h-3.5 w-3.5 mr-1.5" />
+                {isUploading ? 'Uploading...' : `Upload ${pendingFiles.length} file${pendingFiles.length > 1 ? 's' : ''}`}
+              </Button>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1 @@
+export { EvidencePanel, type EvidencePanelFile } from './evidence-panel';
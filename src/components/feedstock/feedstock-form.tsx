@@ -25,6 +25,7 @@ import {
   HelpTooltip,
   FileUpload,
   UploadedFile,
+  uploadEvidenceFiles,
   Alert,
 } from '@/components/ui';
 import { Leaf, MapPin, Truck, FileText, StickyNote } from 'lucide-react';
@@ -110,21 +111,10 @@ export function FeedstockForm({ initialData, mode }: FeedstockFormProps) {
           : `/api/feedstock/${initialData?.id}`;
       const method = mode === 'create' ? 'POST' : 'PUT';
 
-      // Include evidence file metadata in the request
-      const evidenceMetadata = evidenceFiles.map((f) => ({
-        fileName: f.fileName,
-        fileSize: f.fileSize,
-        mimeType: f.mimeType,
-        category: f.category,
-      }));
-
       const response = await fetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...data,
-          evidenceFiles: evidenceMetadata,
-        }),
+        body: JSON.stringify(data),
       });
 
       if (!response.ok) {
@@ -132,6 +122,10 @@ export function FeedstockForm({ initialData, mode }: FeedstockFormProps) {
         throw new Error(result.error || 'Failed to save feedstock delivery');
       }
 
+      // Upload evidence now that the delivery has an id
+      const savedDelivery = await response.json();
+      await uploadEvidenceFiles(evidenceFiles, { feedstockDeliveryId: savedDelivery.id });
+
       router.push('/feedstock');
       router.refresh();
     } catch (err) {
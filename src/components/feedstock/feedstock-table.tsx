@@ -40,6 +40,9 @@ interface FeedstockDelivery {
   vehicleId: string | null;
   sourceAddress: string | null;
   updatedAt: string | Date;
+  /** Share not yet allocated to production batches */
+  remainingPercent?: number;
+  remainingTonnes?: number | null;
   _count?: {
     productionBatches: number;
     transportEvents: number;
@@ -205,6 +208,14 @@ export function FeedstockTable({ feedstocks }: FeedstockTableProps) {
               >
                 Weight
               </SortableTableHead>
+              <SortableTableHead
+                sortKey="remainingTonnes"
+                currentSortKey={sortConfig?.key as string}
+                sortDirection={sortConfig?.direction ?? null}
+                onSort={handleSort}
+              >
+                Unallocated
+              </SortableTableHead>
               <SortableTableHead
                 sortKey="volumeM3"
                 currentSortKey={sortConfig?.key as string}
@@ -244,7 +255,7 @@ export function FeedstockTable({ feedstocks }: FeedstockTableProps) {
           <TableBody>
             {paginatedData.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={11} className="text-center py-8 text-[var(--muted-foreground)]">
+                <TableCell colSpan={12} className="text-center py-8 text-[var(--muted-foreground)]">
                   No deliveries match your search criteria
                 </TableCell>
               </TableRow>
@@ -273,6 +284,13 @@ export function FeedstockTable({ feedstocks }: FeedstockTableProps) {
                     ? `${feedstock.weightTonnes.toFixed(2)} t`
                     : '-'}
                 </TableCell>
+                <TableCell className={feedstock.remainingPercent === 0 ? 'text-[var(--muted-foreground)]' : undefined}>
+                  {feedstock.remainingTonnes !== undefined && feedstock.remainingTonnes !== null
+                    ? `${feedstock.remainingTonnes.toFixed(2)} t`
+                    : feedstock.remainingPercent !== undefined
+                      ? `${feedstock.remainingPercent.toFixed(0)}%`
+                      : '-'}
+                </TableCell>
                 <TableCell>
                   {feedstock.volumeM3
                     ? `${feedstock.volumeM3.toFixed(2)} m³`
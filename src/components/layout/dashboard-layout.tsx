@@ -1,6 +1,7 @@
 'use client';
 
 import * as React from 'react';
+import { usePathname } from 'next/navigation';
 import { Menu } from 'lucide-react';
 import { Sidebar } from './sidebar';
 import { Button } from '@/components/ui/button';
@@ -14,6 +15,12 @@ interface DashboardLayoutProps {
 export function DashboardLayout({ children }: DashboardLayoutProps) {
   const [collapsed, setCollapsed] = React.useState(false);
   const [mobileOpen, setMobileOpen] = React.useState(false);
+  const pathname = usePathname();
+
+  // The login and public verification pages render without navigation
+  if (pathname === '/login' || pathname === '/verify' || pathname.startsWith('/verify/')) {
+    return <>{children}</>;
+  }
 
   return (
     <div className="min-h-screen bg-[var(--background)]">
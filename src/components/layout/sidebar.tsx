@@ -11,10 +11,13 @@ import {
   Truck,
   ArrowDownToLine,
   Network,
+  Boxes,
   Calculator,
   Award,
   Calendar,
   Building2,
+  UserCircle,
+  Users,
   ChevronLeft,
   ChevronRight,
   X,
@@ -36,6 +39,7 @@ const navItems: NavItem[] = [
   { id: 'feedstock', label: 'Feedstock', icon: Leaf, path: '/feedstock', section: 'BIOCHAR LIFECYCLE' },
   { id: 'production', label: 'Production', icon: Factory, path: '/production', section: 'BIOCHAR LIFECYCLE' },
   { id: 'sequestration', label: 'Sequestration', icon: ArrowDownToLine, path: '/sequestration', section: 'BIOCHAR LIFECYCLE' },
+  { id: 'inventory', label: 'Inventory', icon: Boxes, path: '/inventory', section: 'BIOCHAR LIFECYCLE' },
   { id: 'network', label: 'Network', icon: Network, path: '/network', section: 'BIOCHAR LIFECYCLE' },
   // INTERNAL OPERATIONS
   { id: 'transport', label: 'Logistics', icon: Truck, path: '/transport', section: 'OPERATIONS' },
@@ -45,6 +49,9 @@ const navItems: NavItem[] = [
   { id: 'monitoring', label: 'Monitoring', icon: Calendar, path: '/monitoring', section: 'CORC' },
   { id: 'corc', label: 'CORC Registry', icon: Award, path: '/corc', section: 'CORC' },
   { id: 'lca', label: 'Calculator', icon: Calculator, path: '/lca', section: 'CORC' },
+  // SETTINGS
+  { id: 'account', label: 'Account', icon: UserCircle, path: '/account', section: 'SETTINGS' },
+  { id: 'users', label: 'Users', icon: Users, path: '/users', section: 'SETTINGS' },
 ];
 
 interface SidebarProps {
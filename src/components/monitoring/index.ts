@@ -0,0 +1 @@
+export { PeriodLifecycleActions } from './period-lifecycle-actions';
@@ -0,0 +1,247 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Lock, LockOpen, CheckCircle, Award, RotateCcw } from 'lucide-react';
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Input,
+  Label,
+  Textarea,
+  Spinner,
+} from '@/components/ui';
+
+type LifecycleAction = 'close' | 'verify' | 'reopen' | 'unlock';
+
+interface PeriodLifecycleActionsProps {
+  periodId: string;
+  status: string;
+  hasCalculation: boolean;
+  /** An unexpired unlock is currently lifting the write-lock */
+  isUnlocked: boolean;
+}
+
+const ACTION_COPY: Record<LifecycleAction, { title: string; description: string; submit: string; reasonRequired: boolean }> = {
+  close: {
+    title: 'Close Monitoring Period',
+    description: 'Closing locks every production, lab-test, feedstock, energy, transport and sequestration record dated in this period. Changes will need a recorded unlock.',
+    submit: 'Close Period',
+    reasonRequired: false,
+  },
+  verify: {
+    title: 'Mark Period Verified',
+    description: 'Record that a third-party verifier has accepted this period. A verified period cannot be reopened.',
+    submit: 'Mark Verified',
+    reasonRequired: false,
+  },
+  reopen: {
+    title: 'Reopen Monitoring Period',
+    description: 'Return the period to active so its data and calculation can change. Only possible before CORCs are issued.',
+    submit: 'Reopen Period',
+    reasonRequired: true,
+  },
+  unlock: {
+    title: 'Unlock for Corrections',
+    description: 'Temporarily allow changes to records in this period without reopening it. The reason is kept with the period.',
+    submit: 'Unlock',
+    reasonRequired: true,
+  },
+};
+
+export function PeriodLifecycleActions({
+  periodId,
+  status,
+  hasCalculation,
+  isUnlocked,
+}: PeriodLifecycleActionsProps) {
+  const router = useRouter();
+  const [action, setAction] = useState<LifecycleAction | null>(null);
+  const [reason, setReason] = useState('');
+  const [durationHours, setDurationHours] = useState('24');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = (next: LifecycleAction) => {
+    setAction(next);
+    setReason('');
+    setDurationHours('24');
+    setError(null);
+  };
+
+  const request = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.issues?.[0]?.message || data.error || 'Request failed');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!action) return;
+
+    if (ACTION_COPY[action].reasonRequired && !reason.trim()) {
+      setError('A reason is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      if (action === 'unlock') {
+        await request(`/api/monitoring-period/${periodId}/unlock`, 'POST', {
+          reason,
+          durationHours: Number(durationHours),
+        });
+      } else {
+        const toStatus = action === 'close' ? 'closed' : action === 'verify' ? 'verified' : 'active';
+        await request(`/api/monitoring-period/${periodId}`, 'PUT', {
+          status: toStatus,
+          reason: reason.trim() || undefined,
+        });
+      }
+
+      setAction(null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRelock = async () => {
+    setIsSubmitting(true);
+    try {
+      await request(`/api/monitoring-period/${periodId}/unlock`, 'DELETE');
+      router.refresh();
+    } catch (err) {
+      console.error('Failed to relock monitoring period:', err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const copy = action ? ACTION_COPY[action] : null;
+
+  return (
+    <>
+      {status === 'active' && (
+        <Button
+          variant="outline"
+          onClick={() => openDialog('close')}
+          disabled={!hasCalculation}
+          title={hasCalculation ? undefined : 'Calculate CORCs before closing the period'}
+        >
+          <Lock className="h-4 w-4 mr-2" />
+          Close Period
+        </Button>
+      )}
+
+      {status === 'closed' && (
+        <>
+          <Button variant="outline" onClick={() => openDialog('reopen')}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Reopen
+          </Button>
+          <Button variant="outline" onClick={() => openDialog('verify')}>
+            <Award className="h-4 w-4 mr-2" />
+            Mark Verified
+          </Button>
+        </>
+      )}
+
+      {status !== 'active' && (
+        isUnlocked ? (
+          <Button variant="outline" onClick={handleRelock} disabled={isSubmitting}>
+            <Lock className="h-4 w-4 mr-2" />
+            Relock
+          </Button>
+        ) : (
+          <Button variant="outline" onClick={() => openDialog('unlock')}>
+            <LockOpen className="h-4 w-4 mr-2" />
+            Unlock
+          </Button>
+        )
+      )}
+
+      <Dialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <DialogContent>
+          {copy && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{copy.title}</DialogTitle>
+                <DialogDescription>{copy.description}</DialogDescription>
+              </DialogHeader>
+
+              {error && (
+                <div className="bg-red-50 p-3 text-sm text-red-700">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="lifecycleReason">
+                    {copy.reasonRequired ? 'Reason *' : 'Note'}
+                  </Label>
+                  <Textarea
+                    id="lifecycleReason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder={copy.reasonRequired ? 'Why is this change needed?' : 'Optional note'}
+                    rows={3}
+                  />
+                </div>
+
+                {action === 'unlock' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="unlockDuration">Unlock for (hours)</Label>
+                    <Input
+                      id="unlockDuration"
+                      type="number"
+                      min={1}
+                      max={168}
+                      value={durationHours}
+                      onChange={(e) => setDurationHours(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setAction(null)} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSubmit} disabled={isSubmitting}>
+                  {isSubmitting ? (
+                    <>
+                      <Spinner className="mr-2 h-4 w-4" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      {action === 'verify' ? <Award className="h-4 w-4 mr-2" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                      {copy.submit}
+                    </>
+                  )}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
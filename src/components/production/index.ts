@@ -1,2 +1,3 @@
 export { ProductionWizard, type ProductionWizardData } from './production-wizard';
 export { ProductionTable } from './production-table';
+export { TemperatureCurve, type TemperatureCurvePoint } from './temperature-curve';
@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState, useRef, useCallback } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -24,6 +24,7 @@ import {
   Button,
   FileUpload,
   UploadedFile,
+  uploadEvidenceFiles,
 } from '@/components/ui';
 import {
   productionStep1Schema,
@@ -68,6 +69,9 @@ interface FeedstockOption {
   date: string | Date;
   feedstockType: string;
   weightTonnes: number | null;
+  /** Share of the delivery not yet allocated to other batches */
+  remainingPercent: number;
+  remainingTonnes: number | null;
 }
 
 interface ProductionWizardProps {
@@ -86,6 +90,9 @@ export interface ProductionWizardData {
   temperatureMin?: number | null;
   temperatureMax?: number | null;
   temperatureAvg?: number | null;
+  reactorId?: string | null;
+  pyrolysisStartAt?: Date | string | null;
+  pyrolysisEndAt?: Date | string | null;
   notes?: string | null;
 }
 
@@ -149,6 +156,9 @@ export function ProductionWizard({
     return now.toISOString().slice(0, 16);
   };
 
+  const toDateTimeInput = (value: Date | string | null | undefined) =>
+    value ? new Date(value).toISOString().slice(0, 16) : '';
+
   const step1Form = useForm({
     resolver: zodResolver(productionStep1Schema),
     defaultValues: {
@@ -161,12 +171,15 @@ export function ProductionWizard({
   // Feedstock allocation handlers
   const addAllocation = useCallback(() => {
     const availableOptions = feedstockOptions.filter(
-      (opt) => !allocations.some((a) => a.feedstockDeliveryId === opt.id)
+      (opt) => opt.remainingPercent > 0 && !allocations.some((a) => a.feedstockDeliveryId === opt.id)
     );
     if (availableOptions.length > 0) {
       setAllocations((prev) => [
         ...prev,
-        { feedstockDeliveryId: availableOptions[0].id, percentageUsed: 100 },
+        {
+          feedstockDeliveryId: availableOptions[0].id,
+          percentageUsed: Math.floor(availableOptions[0].remainingPercent * 100) / 100,
+        },
       ]);
     }
   }, [feedstockOptions, allocations]);
@@ -204,6 +217,18 @@ export function ProductionWizard({
     }, 0);
   }, [allocations, feedstockOptions]);
 
+  // Allocations that take more of a delivery than other batches have left
+  const overAllocatedDeliveryIds = useMemo(() => {
+    return new Set(
+      allocations
+        .filter((allocation) => {
+          const feedstock = feedstockOptions.find((f) => f.id === allocation.feedstockDeliveryId);
+          return feedstock !== undefined && allocation.percentageUsed > feedstock.remainingPercent;
+        })
+        .map((allocation) => allocation.feedstockDeliveryId)
+    );
+  }, [allocations, feedstockOptions]);
+
   // Step 2 form (Output Biochar - was step 3)
   const step2Form = useForm({
     resolver: zodResolver(productionStep3Schema),
@@ -219,6 +244,9 @@ export function ProductionWizard({
       temperatureMin: data.temperatureMin || '',
       temperatureMax: data.temperatureMax || '',
       temperatureAvg: data.temperatureAvg || '',
+      reactorId: data.reactorId || '',
+      pyrolysisStartAt: toDateTimeInput(data.pyrolysisStartAt),
+      pyrolysisEndAt: toDateTimeInput(data.pyrolysisEndAt),
     },
   });
 
@@ -253,8 +281,8 @@ export function ProductionWizard({
   useEffect(() => {
     if (!isInitialized) return;
 
-    // Step 1 is valid if date is set and at least one feedstock is allocated
-    const step1Valid = !!productionDateValue && allocations.length > 0;
+    // Step 1 is valid if date is set and at least one feedstock is allocated within its remaining share
+    const step1Valid = !!productionDateValue && allocations.length > 0 && overAllocatedDeliveryIds.size === 0;
 
     // Step 2 is valid if output weight is positive (warning shown if exceeds input, but allowed)
     const outputWeight = Number(outputBiocharValue) || 0;
@@ -279,7 +307,7 @@ export function ProductionWizard({
       });
       updateSteps(newSteps);
     }
-  }, [productionDateValue, allocations.length, outputBiocharValue, currentInputWeight, isInitialized, steps, updateSteps]);
+  }, [productionDateValue, allocations.length, overAllocatedDeliveryIds, outputBiocharValue, currentInputWeight, isInitialized, steps, updateSteps]);
 
   const handleStepChange = (newIndex: number) => {
     // Calculate input weight from allocations
@@ -305,6 +333,9 @@ export function ProductionWizard({
         temperatureMin: formData.temperatureMin ? Number(formData.temperatureMin) : null,
         temperatureMax: formData.temperatureMax ? Number(formData.temperatureMax) : null,
         temperatureAvg: formData.temperatureAvg ? Number(formData.temperatureAvg) : null,
+        reactorId: formData.reactorId || null,
+        pyrolysisStartAt: formData.pyrolysisStartAt || null,
+        pyrolysisEndAt: formData.pyrolysisEndAt || null,
       });
     } else if (currentStepIndex === 3) {
       const formData = step4Form.getValues();
@@ -318,45 +349,6 @@ export function ProductionWizard({
     // Calculate input weight from allocations
     const inputWeight = calculateTotalAllocatedWeight();
 
-    // Prepare evidence files metadata per allocation
-    const evidenceByAllocation: Record<string, Array<{
-      fileName: string;
-      fileSize: number;
-      mimeType: string;
-      category: string;
-    }>> = {};
-
-    for (const [feedstockId, files] of Object.entries(allocationEvidence)) {
-      if (files.length > 0) {
-        evidenceByAllocation[feedstockId] = files.map(f => ({
-          fileName: f.fileName,
-          fileSize: f.fileSize,
-          mimeType: f.mimeType,
-          category: f.category,
-        }));
-      }
-    }
-
-    // Prepare output evidence files
-    const outputEvidenceMetadata = outputEvidence.length > 0
-      ? outputEvidence.map(f => ({
-          fileName: f.fileName,
-          fileSize: f.fileSize,
-          mimeType: f.mimeType,
-          category: f.category,
-        }))
-      : undefined;
-
-    // Prepare temperature evidence files
-    const temperatureEvidenceMetadata = temperatureEvidence.length > 0
-      ? temperatureEvidence.map(f => ({
-          fileName: f.fileName,
-          fileSize: f.fileSize,
-          mimeType: f.mimeType,
-          category: f.category,
-        }))
-      : undefined;
-
     // Collect all data
     const step4Data = step4Form.getValues();
     const finalData = {
@@ -366,9 +358,6 @@ export function ProductionWizard({
       notes: step4Data.notes || null,
       status: 'complete',
       wizardStep: 4,
-      evidenceByAllocation: Object.keys(evidenceByAllocation).length > 0 ? evidenceByAllocation : undefined,
-      outputEvidence: outputEvidenceMetadata,
-      temperatureEvidence: temperatureEvidenceMetadata,
     };
 
     setIsSubmitting(true);
@@ -386,9 +375,22 @@ export function ProductionWizard({
 
       if (!response.ok) {
         const result = await response.json();
+        if (result.code === 'OVER_ALLOCATION' && Array.isArray(result.details)) {
+          throw new Error(
+            `${result.error}: ${result.details.map((d: { message: string }) => d.message).join('; ')}`
+          );
+        }
         throw new Error(result.error || 'Failed to save production batch');
       }
 
+      // Upload evidence now that the batch has an id
+      const savedBatch = await response.json();
+      for (const [feedstockDeliveryId, files] of Object.entries(allocationEvidence)) {
+        await uploadEvidenceFiles(files, { productionBatchId: savedBatch.id, feedstockDeliveryId });
+      }
+      await uploadEvidenceFiles(outputEvidence, { productionBatchId: savedBatch.id });
+      await uploadEvidenceFiles(temperatureEvidence, { productionBatchId: savedBatch.id });
+
       resetWizard();
       router.push('/production');
       router.refresh();
@@ -453,6 +455,7 @@ export function ProductionWizard({
                     const allocatedWeight = selectedFeedstock?.weightTonnes
                       ? (selectedFeedstock.weightTonnes * allocation.percentageUsed) / 100
                       : 0;
+                    const isOverAllocated = overAllocatedDeliveryIds.has(allocation.feedstockDeliveryId);
                     const isEvidenceExpanded = expandedEvidence === allocation.feedstockDeliveryId;
                     const evidenceFiles = allocationEvidence[allocation.feedstockDeliveryId] || [];
 
@@ -473,10 +476,14 @@ export function ProductionWizard({
                                     const isUsed = allocations.some(
                                       (a, i) => i !== index && a.feedstockDeliveryId === fs.id
                                     );
+                                    const isExhausted = fs.remainingPercent <= 0 && fs.id !== allocation.feedstockDeliveryId;
                                     return (
-                                      <option key={fs.id} value={fs.id} disabled={isUsed}>
+                                      <option key={fs.id} value={fs.id} disabled={isUsed || isExhausted}>
                                         {formatDateTime(fs.date)} – {getFeedstockTypeLabel(fs.feedstockType)}
                                         {fs.weightTonnes ? ` (${fs.weightTonnes}t)` : ''}
+                                        {fs.remainingTonnes !== null
+                                          ? ` – ${fs.remainingTonnes.toFixed(2)}t unallocated`
+                                          : ` – ${fs.remainingPercent.toFixed(1)}% unallocated`}
                                         {isUsed ? ' (already selected)' : ''}
                                       </option>
                                     );
@@ -490,16 +497,26 @@ export function ProductionWizard({
                                     <Input
                                       type="number"
                                       min="0.01"
-                                      max="100"
+                                      max={selectedFeedstock?.remainingPercent ?? 100}
                                       step="0.1"
                                       value={allocation.percentageUsed}
                                       onChange={(e) =>
                                         updateAllocation(index, 'percentageUsed', e.target.value)
                                       }
-                                      className="w-24"
+                                      className={`w-24 ${isOverAllocated ? 'border-red-500' : ''}`}
                                     />
                                     <span className="text-sm text-[var(--muted-foreground)]">%</span>
                                   </div>
+                                  {selectedFeedstock && (
+                                    <p className={`text-xs ${isOverAllocated ? 'text-red-500' : 'text-[var(--muted-foreground)]'}`}>
+                                      {isOverAllocated ? 'Exceeds remaining: ' : 'Remaining: '}
+                                      {selectedFeedstock.remainingPercent.toFixed(1)}%
+                                      {selectedFeedstock.remainingTonnes !== null
+                                        ? ` (${selectedFeedstock.remainingTonnes.toFixed(2)}t)`
+                                        : ''}{' '}
+                                      of this delivery is not allocated to other batches
+                                    </p>
+                                  )}
                                 </div>
                                 {allocatedWeight > 0 && (
                                   <div className="text-right">
@@ -669,6 +686,42 @@ export function ProductionWizard({
               </div>
             </div>
 
+            <p className="text-sm text-[var(--muted-foreground)]">
+              With a reactor and pyrolysis window, readings the reactor logs in the window are attached
+              to this batch and replace the values above.
+            </p>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="reactorId">Reactor ID</Label>
+                <Input
+                  id="reactorId"
+                  placeholder="e.g., KILN-01"
+                  {...step3Form.register('reactorId')}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pyrolysisStartAt">Pyrolysis Start</Label>
+                <Input
+                  id="pyrolysisStartAt"
+                  type="datetime-local"
+                  {...step3Form.register('pyrolysisStartAt')}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pyrolysisEndAt">Pyrolysis End</Label>
+                <Input
+                  id="pyrolysisEndAt"
+                  type="datetime-local"
+                  {...step3Form.register('pyrolysisEndAt')}
+                />
+                {step3Form.formState.errors.pyrolysisEndAt && (
+                  <p className="text-sm text-red-500">
+                    {step3Form.formState.errors.pyrolysisEndAt.message}
+                  </p>
+                )}
+              </div>
+            </div>
+
             {/* Evidence upload toggle */}
             <div className="pt-2 border-t border-[var(--border)]">
               <button
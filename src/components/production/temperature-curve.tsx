@@ -0,0 +1,105 @@
+'use client';
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+} from 'recharts';
+import { formatDateTimeShort } from '@/lib/utils';
+
+export interface TemperatureCurvePoint {
+  /** Epoch milliseconds */
+  time: number;
+  temperatureC: number;
+}
+
+interface TemperatureCurveProps {
+  points: TemperatureCurvePoint[];
+  thresholdC: number;
+  /** Pyrolysis window, epoch milliseconds */
+  window: { start: number; end: number } | null;
+  /** Gaps and excursions to shade, epoch milliseconds */
+  gaps: Array<{ from: number; to: number }>;
+  excursions: Array<{ from: number; to: number }>;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+export function TemperatureCurve({ points, thresholdC, window, gaps, excursions }: TemperatureCurveProps) {
+  // Points are in time order; the axis spans the window and every reading
+  const domain: [number, number] = [
+    Math.min(window?.start ?? Infinity, points[0]?.time ?? Infinity),
+    Math.max(window?.end ?? -Infinity, points[points.length - 1]?.time ?? -Infinity),
+  ];
+
+  return (
+    <div className="h-[300px] w-full min-w-0">
+      <ResponsiveContainer width="100%" height="100%" minWidth={0} minHeight={0}>
+        <LineChart data={points} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="var(--border)" />
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={domain}
+            tickFormatter={formatTime}
+            tick={{ fontSize: 12, fill: 'var(--muted-foreground)' }}
+            tickLine={{ stroke: 'var(--border)' }}
+            axisLine={{ stroke: 'var(--border)' }}
+          />
+          <YAxis
+            tick={{ fontSize: 12, fill: 'var(--muted-foreground)' }}
+            tickLine={{ stroke: 'var(--border)' }}
+            axisLine={{ stroke: 'var(--border)' }}
+            tickFormatter={(value) => `${value}°C`}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'var(--background)',
+              border: '1px solid var(--border)',
+              borderRadius: '0',
+              fontSize: '12px',
+            }}
+            labelStyle={{ fontWeight: 500, marginBottom: '4px' }}
+            labelFormatter={(label) => formatDateTimeShort(new Date(Number(label)))}
+            formatter={(value) => [`${Number(value).toFixed(1)}°C`, 'Temperature']}
+          />
+          {gaps.map((gap) => (
+            <ReferenceArea key={`gap-${gap.from}`} x1={gap.from} x2={gap.to} fill="#f59e0b" fillOpacity={0.15} />
+          ))}
+          {excursions.map((excursion) => (
+            <ReferenceArea
+              key={`excursion-${excursion.from}`}
+              x1={excursion.from}
+              x2={excursion.to}
+              fill="#dc2626"
+              fillOpacity={0.15}
+            />
+          ))}
+          <ReferenceLine
+            y={thresholdC}
+            stroke="#dc2626"
+            strokeDasharray="4 4"
+            label={{ value: `${thresholdC}°C`, position: 'insideTopRight', fontSize: 11, fill: '#dc2626' }}
+          />
+          <Line
+            type="linear"
+            dataKey="temperatureC"
+            stroke="#ea580c"
+            strokeWidth={2}
+            dot={false}
+            activeDot={{ r: 4, strokeWidth: 0 }}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
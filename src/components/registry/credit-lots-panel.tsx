@@ -0,0 +1,486 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Download, Layers } from 'lucide-react';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Input,
+  Label,
+  Select,
+  Textarea,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui';
+import { cn, formatDateTime } from '@/lib/utils';
+import {
+  CREDIT_LOT_OPERATIONS,
+  CREDIT_LOT_STATUSES,
+  formatLotSerialRange,
+} from '@/lib/validations/credit-lot';
+import { REGISTRY_ACCOUNT_TYPES } from '@/lib/validations/registry-account';
+import { formatUnitSerialRange, type SerialBlockFields } from '@/lib/validations/serial-number';
+import type { LotBalance } from '@/lib/services/credit-lots';
+
+export interface CreditLotRow {
+  /** null for the implied root lot of a holding issued before lots existed */
+  id: string | null;
+  parentLotId: string | null;
+  operation: string;
+  serialStart: number;
+  serialEnd: number;
+  quantity: number;
+  status: string;
+  ownerName: string | null;
+  ownerAccountId: string | null;
+  retirementDate: string | Date | null;
+  retirementBeneficiary: string | null;
+  createdAt: string | Date | null;
+}
+
+export interface TransferAccountOption {
+  id: string;
+  name: string;
+  accountType: string;
+}
+
+interface CreditLotsPanelProps {
+  /** Holding API path, e.g. /api/corc/<id> or /api/registry/<id> */
+  apiBase: string;
+  baseSerial: string;
+  lots: CreditLotRow[];
+  balance: LotBalance;
+  /** Whether the holding is issued and units can move */
+  canOperate: boolean;
+  /** Ask for a retirement purpose (CORCs) */
+  showRetirementPurpose?: boolean;
+  /** Holding owner, shown for a holding that has no lots yet */
+  ownerName?: string | null;
+  /** Registry accounts units can be transferred to */
+  accounts?: TransferAccountOption[];
+  /** Reserved serial block, to show each lot's unit serials */
+  serialBlock?: SerialBlockFields | null;
+  /** Link retired lots to their retirement certificate PDF (CORCs) */
+  showCertificates?: boolean;
+  className?: string;
+}
+
+type Mode = 'transfer' | 'retire';
+
+// Registry serials of a lot's first and last unit
+function UnitSerials({ block, lot, indent }: { block: SerialBlockFields; lot: CreditLotRow; indent: number }) {
+  const units = formatUnitSerialRange(block, lot);
+  if (!units) return null;
+
+  return (
+    <span className="block text-[10px] text-[var(--muted-foreground)]" style={{ paddingLeft: `${indent}px` }}>
+      {units.first === units.last ? units.first : `${units.first} – ${units.last}`}
+    </span>
+  );
+}
+
+const STATUS_VARIANTS: Record<string, 'success' | 'retired' | 'secondary'> = {
+  active: 'success',
+  retired: 'retired',
+  split: 'secondary',
+};
+
+// Lots in lineage order: each lot followed by its children
+function toTree(lots: CreditLotRow[]): Array<{ lot: CreditLotRow; depth: number }> {
+  const children = new Map<string | null, CreditLotRow[]>();
+  const ids = new Set(lots.map((l) => l.id));
+  for (const lot of lots) {
+    const parent = lot.parentLotId && ids.has(lot.parentLotId) ? lot.parentLotId : null;
+    children.set(parent, [...(children.get(parent) ?? []), lot]);
+  }
+
+  const rows: Array<{ lot: CreditLotRow; depth: number }> = [];
+  const visit = (parent: string | null, depth: number) => {
+    const level = [...(children.get(parent) ?? [])].sort((a, b) => a.serialStart - b.serialStart);
+    for (const lot of level) {
+      rows.push({ lot, depth });
+      if (lot.id) visit(lot.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return rows;
+}
+
+export function CreditLotsPanel({
+  apiBase,
+  baseSerial,
+  lots,
+  balance,
+  canOperate,
+  showRetirementPurpose = false,
+  ownerName = null,
+  accounts = [],
+  serialBlock = null,
+  showCertificates = false,
+  className,
+}: CreditLotsPanelProps) {
+  const router = useRouter();
+  const [mode, setMode] = useState<Mode | null>(null);
+  const [selected, setSelected] = useState<CreditLotRow | null>(null);
+  const [quantity, setQuantity] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [newOwnerName, setNewOwnerName] = useState('');
+  const [newAccountId, setNewAccountId] = useState('');
+  const [beneficiary, setBeneficiary] = useState('');
+  const [purpose, setPurpose] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A holding issued before lots existed acts as one root lot until its
+  // first transfer or retirement creates it
+  const rows = useMemo(() => {
+    if (lots.length === 0 && balance.remaining > 0) {
+      return toTree([{
+        id: null,
+        parentLotId: null,
+        operation: 'issuance',
+        serialStart: 1,
+        serialEnd: balance.remaining,
+        quantity: balance.remaining,
+        status: 'active',
+        ownerName,
+        ownerAccountId: null,
+        retirementDate: null,
+        retirementBeneficiary: null,
+        createdAt: null,
+      }]);
+    }
+    return toTree(lots);
+  }, [lots, balance.remaining, ownerName]);
+
+  const openDialog = (nextMode: Mode, lot: CreditLotRow) => {
+    setMode(nextMode);
+    setSelected(lot);
+    setQuantity(String(lot.quantity));
+    setToAccountId('');
+    setNewOwnerName('');
+    setNewAccountId('');
+    setBeneficiary('');
+    setPurpose('');
+    setNotes('');
+    setError(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!mode || !selected) return;
+
+    const units = Number(quantity);
+    if (!Number.isInteger(units) || units < 1 || units > selected.quantity) {
+      setError(`Quantity must be a whole number from 1 to ${selected.quantity}`);
+      return;
+    }
+    if (mode === 'transfer' && !toAccountId && !newOwnerName.trim()) {
+      setError('Choose an account or enter the new owner name');
+      return;
+    }
+    if (mode === 'retire' && !beneficiary.trim()) {
+      setError('Retirement beneficiary is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`${apiBase}/${mode}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lotId: selected.id,
+          quantity: units,
+          notes: notes || null,
+          ...(mode === 'transfer'
+            ? toAccountId
+              ? { toAccountId }
+              : { newOwnerName, newAccountId: newAccountId || null }
+            : {
+                retirementBeneficiary: beneficiary,
+                ...(showRetirementPurpose ? { retirementPurpose: purpose || null } : {}),
+              }),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `Failed to ${mode}`);
+      }
+
+      setMode(null);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          Lots
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-[var(--muted-foreground)]">Issued</p>
+            <p className="text-lg font-semibold">{balance.issued} tCO₂e</p>
+          </div>
+          <div>
+            <p className="text-[var(--muted-foreground)]">Remaining</p>
+            <p className="text-lg font-semibold text-emerald-600">{balance.remaining} tCO₂e</p>
+          </div>
+          <div>
+            <p className="text-[var(--muted-foreground)]">Retired</p>
+            <p className="text-lg font-semibold text-violet-600">{balance.retired} tCO₂e</p>
+          </div>
+        </div>
+
+        {rows.length > 0 ? (
+          <div className="border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Serial Range</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Owner / Beneficiary</TableHead>
+                  <TableHead>Created</TableHead>
+                  {canOperate && <TableHead className="w-[140px]" />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ lot, depth }) => (
+                  <TableRow
+                    key={lot.id ?? 'root'}
+                    className={cn(lot.status === 'split' && 'text-[var(--muted-foreground)]')}
+                  >
+                    <TableCell className="font-mono text-xs">
+                      <span style={{ paddingLeft: `${depth * 16}px` }}>
+                        {depth > 0 && '└ '}
+                        {formatLotSerialRange(baseSerial, lot)}
+                      </span>
+                      <span className="ml-2 font-sans text-[10px] text-[var(--muted-foreground)]">
+                        {CREDIT_LOT_OPERATIONS.find((o) => o.value === lot.operation)?.label ?? lot.operation}
+                      </span>
+                      {serialBlock && <UnitSerials block={serialBlock} lot={lot} indent={depth * 16} />}
+                    </TableCell>
+                    <TableCell className="text-right">{lot.quantity} t</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[lot.status] ?? 'secondary'}>
+                        {CREDIT_LOT_STATUSES.find((s) => s.value === lot.status)?.label ?? lot.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {lot.status === 'retired'
+                        ? `${lot.retirementBeneficiary ?? '-'}${lot.retirementDate ? ` · ${formatDateTime(lot.retirementDate)}` : ''}`
+                        : lot.ownerName || '-'}
+                      {showCertificates && lot.status === 'retired' && lot.id && (
+                        <a
+                          href={`${apiBase}/lots/${lot.id}/certificate`}
+                          className="mt-1 flex items-center gap-1 text-[10px] text-emerald-600 dark:text-emerald-400 hover:underline"
+                        >
+                          <Download className="h-3 w-3" />
+                          Retirement certificate (PDF)
+                        </a>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {lot.createdAt ? formatDateTime(lot.createdAt) : '-'}
+                    </TableCell>
+                    {canOperate && (
+                      <TableCell>
+                        {lot.status === 'active' && (
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-6 px-2 text-[10px]"
+                              onClick={() => openDialog('transfer', lot)}
+                            >
+                              Transfer
+                            </Button>
+                            <Button
+                              size="sm"
+                              className="h-6 px-2 text-[10px]"
+                              onClick={() => openDialog('retire', lot)}
+                            >
+                              Retire
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-[var(--muted-foreground)]">
+            No lots yet. Lots are created when the credits are issued.
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && setMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{mode === 'transfer' ? 'Transfer Units' : 'Retire Units'}</DialogTitle>
+            <DialogDescription>
+              {selected && (
+                <>
+                  From lot <span className="font-mono">{formatLotSerialRange(baseSerial, selected)}</span> ({selected.quantity} tCO₂e).
+                  {mode === 'retire' && ' Retirement is permanent and cannot be undone.'}
+                </>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="lotQuantity">Quantity (tCO₂e) *</Label>
+              <Input
+                id="lotQuantity"
+                type="number"
+                min={1}
+                max={selected?.quantity}
+                step={1}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+
+            {mode === 'transfer' ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="lotToAccount">Recipient Account *</Label>
+                  <Select
+                    id="lotToAccount"
+                    value={toAccountId}
+                    onChange={(e) => setToAccountId(e.target.value)}
+                  >
+                    <option value="">New holder…</option>
+                    {accounts.map((account) => (
+                      <option key={account.id} value={account.id}>
+                        {account.name} ({REGISTRY_ACCOUNT_TYPES.find((t) => t.value === account.accountType)?.label ?? account.accountType})
+                      </option>
+                    ))}
+                  </Select>
+                </div>
+                {!toAccountId && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="lotNewOwnerName">New Owner Name *</Label>
+                      <Input
+                        id="lotNewOwnerName"
+                        value={newOwnerName}
+                        onChange={(e) => setNewOwnerName(e.target.value)}
+                        placeholder="Matched to an existing account, or added as a buyer"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="lotNewAccountId">External Account ID</Label>
+                      <Input
+                        id="lotNewAccountId"
+                        value={newAccountId}
+                        onChange={(e) => setNewAccountId(e.target.value)}
+                        placeholder="Optional registry account ID"
+                      />
+                    </div>
+                  </>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="lotBeneficiary">Retirement Beneficiary *</Label>
+                  <Input
+                    id="lotBeneficiary"
+                    value={beneficiary}
+                    onChange={(e) => setBeneficiary(e.target.value)}
+                    placeholder="Enter beneficiary name or organization"
+                  />
+                </div>
+                {showRetirementPurpose && (
+                  <div className="space-y-2">
+                    <Label htmlFor="lotPurpose">Purpose</Label>
+                    <Input
+                      id="lotPurpose"
+                      value={purpose}
+                      onChange={(e) => setPurpose(e.target.value)}
+                      placeholder="e.g. 2025 operational emissions"
+                    />
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="lotNotes">Notes</Label>
+              <Textarea
+                id="lotNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Optional notes"
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMode(null)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className={mode === 'retire' ? 'bg-amber-600 hover:bg-amber-700' : undefined}
+            >
+              {isSubmitting ? (
+                <>
+                  <Spinner className="mr-2 h-4 w-4" />
+                  {mode === 'transfer' ? 'Transferring...' : 'Retiring...'}
+                </>
+              ) : mode === 'transfer' ? (
+                'Transfer'
+              ) : (
+                'Retire'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
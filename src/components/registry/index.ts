@@ -1,3 +1,7 @@
-export { BCUTable } from './bcu-table';
-export { BCUActions } from './bcu-actions';
-export { IssueBCUForm } from './issue-bcu-form';
+export { CreditLotsPanel } from './credit-lots-panel';
+export type { CreditLotRow, TransferAccountOption } from './credit-lots-panel';
+export { LedgerHistoryPanel } from './ledger-history-panel';
+export { RegistryTable } from './registry-table';
+export type { RegistryEntry } from './registry-table';
+export { RegistryAccountDialog } from './registry-account-dialog';
+export type { RegistryAccountSummary } from './registry-account-dialog';
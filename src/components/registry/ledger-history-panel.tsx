@@ -0,0 +1,121 @@
+import Link from 'next/link';
+import { ArrowRight, BookOpen } from 'lucide-react';
+import {
+  Badge,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui';
+import { formatDateTime } from '@/lib/utils';
+import { LEDGER_TRANSACTION_TYPES } from '@/lib/validations/registry-account';
+import type { LedgerTransactionView } from '@/lib/services/registry-ledger';
+
+interface LedgerHistoryPanelProps {
+  transactions: LedgerTransactionView[];
+  title?: string;
+  /** Show which holding each transaction belongs to (e.g. across holdings) */
+  showHolding?: boolean;
+  className?: string;
+}
+
+const TYPE_VARIANTS = {
+  issuance: 'success',
+  transfer: 'info',
+  retirement: 'retired',
+} as const;
+
+function AccountLink({ account }: { account: LedgerTransactionView['from'] }) {
+  if (!account) return <span>-</span>;
+  return (
+    <Link href={`/registry/accounts/${account.id}`} className="hover:underline">
+      {account.name}
+    </Link>
+  );
+}
+
+/**
+ * Chain of custody: every issuance, transfer and retirement as a debit on
+ * one registry account and a credit on another
+ */
+export function LedgerHistoryPanel({
+  transactions,
+  title = 'Chain of Custody',
+  showHolding = false,
+  className,
+}: LedgerHistoryPanelProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BookOpen className="h-4 w-4" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {transactions.length > 0 ? (
+          <div className="border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>From (debit)</TableHead>
+                  <TableHead />
+                  <TableHead>To (credit)</TableHead>
+                  <TableHead className="text-right">Quantity</TableHead>
+                  <TableHead>Serials</TableHead>
+                  <TableHead>Memo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transactions.map((tx) => (
+                  <TableRow key={tx.id}>
+                    <TableCell className="text-xs whitespace-nowrap">{formatDateTime(tx.createdAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant={TYPE_VARIANTS[tx.transactionType as keyof typeof TYPE_VARIANTS] ?? 'outline'}>
+                        {LEDGER_TRANSACTION_TYPES.find((t) => t.value === tx.transactionType)?.label ?? tx.transactionType}
+                      </Badge>
+                    </TableCell>
+                    <TableCell><AccountLink account={tx.from} /></TableCell>
+                    <TableCell className="px-0">
+                      <ArrowRight className="h-3.5 w-3.5 text-[var(--muted-foreground)]" />
+                    </TableCell>
+                    <TableCell><AccountLink account={tx.to} /></TableCell>
+                    <TableCell className="text-right">{tx.quantity} t</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {showHolding && tx.holding ? (
+                        <Link
+                          href={tx.holding.type === 'corc' ? `/corc/${tx.holding.id}` : `/registry/${tx.holding.id}`}
+                          className="hover:underline"
+                        >
+                          {tx.serialRange}
+                        </Link>
+                      ) : (
+                        tx.serialRange
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs text-[var(--muted-foreground)]">
+                      {tx.memo || '-'}
+                      {tx.createdBy && <span className="block">by {tx.createdBy}</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-[var(--muted-foreground)]">
+            No ledger transactions yet. They are recorded when the credits are issued.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
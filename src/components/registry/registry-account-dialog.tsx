@@ -0,0 +1,224 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Pencil, Plus } from 'lucide-react';
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Input,
+  Label,
+  Select,
+  Spinner,
+  Textarea,
+} from '@/components/ui';
+import {
+  REGISTRY_ACCOUNT_TYPES,
+  type HolderAccountType,
+} from '@/lib/validations/registry-account';
+
+export interface RegistryAccountSummary {
+  id: string;
+  name: string;
+  accountType: string;
+  externalAccountId: string | null;
+  contactEmail: string | null;
+  notes: string | null;
+  isActive: boolean;
+}
+
+interface RegistryAccountDialogProps {
+  /** Account to edit; omit to create one */
+  account?: RegistryAccountSummary;
+}
+
+interface AccountFormState {
+  name: string;
+  accountType: HolderAccountType;
+  externalAccountId: string;
+  contactEmail: string;
+  notes: string;
+  isActive: boolean;
+}
+
+const HOLDER_TYPES = REGISTRY_ACCOUNT_TYPES.filter((t) => !t.system);
+
+function toForm(account?: RegistryAccountSummary): AccountFormState {
+  return {
+    name: account?.name ?? '',
+    accountType: (account?.accountType as HolderAccountType | undefined) ?? 'buyer',
+    externalAccountId: account?.externalAccountId ?? '',
+    contactEmail: account?.contactEmail ?? '',
+    notes: account?.notes ?? '',
+    isActive: account?.isActive ?? true,
+  };
+}
+
+export function RegistryAccountDialog({ account }: RegistryAccountDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<AccountFormState>(toForm(account));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = () => {
+    setForm(toForm(account));
+    setError(null);
+    setOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const body = {
+        name: form.name,
+        accountType: form.accountType,
+        externalAccountId: form.externalAccountId || null,
+        contactEmail: form.contactEmail || null,
+        notes: form.notes || null,
+        ...(account ? { isActive: form.isActive } : {}),
+      };
+      const response = await fetch(account ? `/api/registry/accounts/${account.id}` : '/api/registry/accounts', {
+        method: account ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save account');
+      }
+      setOpen(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save account');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      {account ? (
+        <Button size="sm" variant="outline" className="h-8" onClick={openDialog}>
+          <Pencil className="h-3.5 w-3.5 mr-1.5" />
+          Edit
+        </Button>
+      ) : (
+        <Button size="sm" className="h-8" onClick={openDialog}>
+          <Plus className="h-3.5 w-3.5 mr-1.5" />
+          New Account
+        </Button>
+      )}
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{account ? 'Edit Account' : 'New Registry Account'}</DialogTitle>
+            <DialogDescription>
+              Accounts hold CORC and BCU units. Every transfer debits one account and credits another.
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="accountName">Name *</Label>
+              <Input
+                id="accountName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Company or person holding the credits"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accountType">Type *</Label>
+              <Select
+                id="accountType"
+                value={form.accountType}
+                onChange={(e) => setForm({ ...form, accountType: e.target.value as HolderAccountType })}
+              >
+                {HOLDER_TYPES.map((type) => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accountExternalId">External Account ID</Label>
+              <Input
+                id="accountExternalId"
+                value={form.externalAccountId}
+                onChange={(e) => setForm({ ...form, externalAccountId: e.target.value })}
+                placeholder="Account number at Puro.earth or another registry"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accountEmail">Contact Email</Label>
+              <Input
+                id="accountEmail"
+                type="email"
+                value={form.contactEmail}
+                onChange={(e) => setForm({ ...form, contactEmail: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accountNotes">Notes</Label>
+              <Textarea
+                id="accountNotes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+            {account && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="accountActive"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                />
+                <Label htmlFor="accountActive">Active</Label>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Spinner className="mr-2 h-4 w-4" />
+                  Saving...
+                </>
+              ) : account ? (
+                'Save Changes'
+              ) : (
+                'Create Account'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,300 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { useState, useMemo } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  Badge,
+  Button,
+  EmptyState,
+  SortableTableHead,
+  TableToolbar,
+  Pagination,
+  usePagination,
+} from '@/components/ui';
+import { Award } from 'lucide-react';
+import { useTableSort } from '@/hooks/use-table-sort';
+import { formatDateTime } from '@/lib/utils';
+
+/**
+ * One credit holding in the unified registry: a CORC issuance (calculated
+ * or converted from a BCU) or a BCU that has not been migrated yet
+ */
+export interface RegistryEntry {
+  id: string;
+  kind: 'corc' | 'bcu';
+  /** Display label for the issuance type, e.g. "Puro", "Legacy BCU", "BCU" */
+  typeLabel: string;
+  serialNumber: string;
+  quantityTCO2e: number;
+  /** Whole tCO2e still held in active lots */
+  remainingTCO2e: number;
+  /** Whole tCO2e retired through lots */
+  retiredTCO2e: number;
+  issuanceDate: string | Date | null;
+  status: string;
+  ownerName: string | null;
+  facilityName: string | null;
+  href: string;
+}
+
+const REGISTRY_STATUSES = [
+  { value: 'issued', label: 'Issued' },
+  { value: 'transferred', label: 'Transferred' },
+  { value: 'retired', label: 'Retired' },
+] as const;
+
+const KIND_FILTERS = [
+  { value: 'puro', label: 'Puro CORCs' },
+  { value: 'legacy', label: 'Legacy BCU CORCs' },
+  { value: 'bcu', label: 'Unmigrated BCUs' },
+] as const;
+
+function matchesKind(entry: RegistryEntry, kind: string) {
+  switch (kind) {
+    case 'bcu':
+      return entry.kind === 'bcu';
+    case 'legacy':
+      return entry.kind === 'corc' && entry.typeLabel === 'Legacy BCU';
+    case 'puro':
+      return entry.kind === 'corc' && entry.typeLabel !== 'Legacy BCU';
+    default:
+      return true;
+  }
+}
+
+interface RegistryTableProps {
+  entries: RegistryEntry[];
+}
+
+export function RegistryTable({ entries }: RegistryTableProps) {
+  const router = useRouter();
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [kindFilter, setKindFilter] = useState('');
+
+  const getStatusBadgeVariant = (status: string) => {
+    switch (status) {
+      case 'issued':
+        return 'default';
+      case 'transferred':
+        return 'outline';
+      default:
+        return 'secondary';
+    }
+  };
+
+  const filteredData = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return entries.filter((entry) => {
+      const matchesSearch = query === '' ||
+        entry.serialNumber.toLowerCase().includes(query) ||
+        entry.ownerName?.toLowerCase().includes(query) ||
+        entry.facilityName?.toLowerCase().includes(query);
+
+      const matchesStatus = statusFilter === '' || entry.status === statusFilter;
+
+      return matchesSearch && matchesStatus && matchesKind(entry, kindFilter);
+    });
+  }, [entries, searchQuery, statusFilter, kindFilter]);
+
+  const { sortedData, sortConfig, handleSort } = useTableSort(filteredData, {
+    key: 'issuanceDate',
+    direction: 'desc',
+  });
+
+  const {
+    currentPage,
+    pageSize,
+    totalPages,
+    startIndex,
+    endIndex,
+    onPageChange,
+    onPageSizeChange,
+  } = usePagination(sortedData.length, 10);
+
+  const paginatedData = useMemo(() => {
+    return sortedData.slice(startIndex, endIndex);
+  }, [sortedData, startIndex, endIndex]);
+
+  if (entries.length === 0) {
+    return (
+      <EmptyState
+        icon={Award}
+        title="No credits issued yet"
+        description="CORCs are issued from monitoring period calculations and appear here once issued."
+        action={{ label: 'Go to CORCs', href: '/corc' }}
+      />
+    );
+  }
+
+  return (
+    <>
+      <TableToolbar
+        searchPlaceholder="Search serials, owners, facilities..."
+        searchValue={searchQuery}
+        onSearchChange={setSearchQuery}
+        filters={[
+          {
+            id: 'kind',
+            label: 'All Types',
+            options: KIND_FILTERS.map((k) => ({ value: k.value, label: k.label })),
+            value: kindFilter,
+            onChange: setKindFilter,
+          },
+          {
+            id: 'status',
+            label: 'All Statuses',
+            options: REGISTRY_STATUSES.map((s) => ({ value: s.value, label: s.label })),
+            value: statusFilter,
+            onChange: setStatusFilter,
+          },
+        ]}
+      />
+      <div className="border bg-[var(--card)]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <SortableTableHead
+                sortKey="serialNumber"
+                currentSortKey={sortConfig?.key as string}
+                sortDirection={sortConfig?.direction ?? null}
+                onSort={handleSort}
+              >
+                Serial Number
+              </SortableTableHead>
+              <SortableTableHead
+                sortKey="typeLabel"
+                currentSortKey={sortConfig?.key as string}
+                sortDirection={sortConfig?.direction ?? null}
+                onSort={handleSort}
+              >
+                Type
+              </SortableTableHead>
+              <SortableTableHead
+                sortKey="quantityTCO2e"
+                currentSortKey={sortConfig?.key as string}
+                sortDirection={sortConfig?.direction ?? null}
+                onSort={handleSort}
+              >
+                Quantity
+              </SortableTableHead>
+              <SortableTableHead
+                sortKey="remainingTCO2e"
+                currentSortKey={sortConfig?.key as string}
+                sortDirection={sortConfig?.direction ?? null}
+                onSort={handleSort}
+              >
+                Remaining
+              </SortableTableHead>
+              <SortableTableHead
+                sortKey="retiredTCO2e"
+                currentSortKey={sortConfig?.key as string}
+                sortDirection={sortConfig?.direction ?? null}
+                onSort={handleSort}
+              >
+                Retired
+              </SortableTableHead>
+              <SortableTableHead
+                sortKey="issuanceDate"
+                currentSortKey={sortConfig?.key as string}
+                sortDirection={sortConfig?.direction ?? null}
+                onSort={handleSort}
+              >
+                Issued
+              </SortableTableHead>
+              <SortableTableHead
+                sortKey="status"
+                currentSortKey={sortConfig?.key as string}
+                sortDirection={sortConfig?.direction ?? null}
+                onSort={handleSort}
+              >
+                Status
+              </SortableTableHead>
+              <SortableTableHead
+                sortKey="ownerName"
+                currentSortKey={sortConfig?.key as string}
+                sortDirection={sortConfig?.direction ?? null}
+                onSort={handleSort}
+              >
+                Owner
+              </SortableTableHead>
+              <TableHead className="w-[80px]">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {paginatedData.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={9} className="text-center py-8 text-[var(--muted-foreground)]">
+                  No credits match your search criteria
+                </TableCell>
+              </TableRow>
+            ) : paginatedData.map((entry) => (
+              <TableRow
+                key={`${entry.kind}-${entry.id}`}
+                className="cursor-pointer hover:bg-[var(--muted)]"
+                onClick={() => router.push(entry.href)}
+              >
+                <TableCell className="font-mono text-[var(--muted-foreground)]">
+                  {entry.serialNumber}
+                  {entry.facilityName && (
+                    <p className="font-sans text-[10px]">{entry.facilityName}</p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge
+                    variant={entry.kind === 'bcu' ? 'outline' : entry.typeLabel === 'Legacy BCU' ? 'info' : 'success'}
+                    className="whitespace-nowrap"
+                  >
+                    {entry.typeLabel}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  {entry.quantityTCO2e.toFixed(2)} tCO2e
+                </TableCell>
+                <TableCell>{entry.remainingTCO2e} tCO2e</TableCell>
+                <TableCell>{entry.retiredTCO2e} tCO2e</TableCell>
+                <TableCell>
+                  {entry.issuanceDate ? formatDateTime(entry.issuanceDate) : '-'}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={getStatusBadgeVariant(entry.status)} className="whitespace-nowrap">
+                    {REGISTRY_STATUSES.find((s) => s.value === entry.status)?.label ||
+                      entry.status}
+                  </Badge>
+                </TableCell>
+                <TableCell>{entry.ownerName || '-'}</TableCell>
+                <TableCell>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2 text-[10px]"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      router.push(entry.href);
+                    }}
+                  >
+                    View
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <Pagination
+        currentPage={currentPage}
+        totalPages={totalPages}
+        totalItems={sortedData.length}
+        pageSize={pageSize}
+        onPageChange={onPageChange}
+        onPageSizeChange={onPageSizeChange}
+      />
+    </>
+  );
+}
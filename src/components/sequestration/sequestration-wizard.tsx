@@ -38,6 +38,8 @@ interface ProductionBatchOption {
   id: string;
   productionDate: string | Date;
   outputBiocharWeightTonnes: number;
+  /** Tonnes not yet allocated to other sequestration events */
+  availableTonnes: number;
 }
 
 interface BatchLink {
@@ -284,7 +286,7 @@ export function SequestrationWizard({
   const handleBatchScanned = (batchId: string) => {
     const batch = productionBatchOptions.find((b) => b.id === batchId);
     if (batch) {
-      handleBatchToggle(batchId, batch.outputBiocharWeightTonnes);
+      handleBatchToggle(batchId, batch.availableTonnes);
     }
   };
 
@@ -344,6 +346,11 @@ export function SequestrationWizard({
 
       if (!response.ok) {
         const result = await response.json();
+        if (result.code === 'OVER_ALLOCATION' && Array.isArray(result.details)) {
+          throw new Error(
+            `${result.error}: ${result.details.map((d: { message: string }) => d.message).join('; ')}`
+          );
+        }
         throw new Error(result.error || 'Failed to save sequestration event');
       }
 
@@ -504,10 +511,11 @@ export function SequestrationWizard({
                         <Checkbox
                           id={`batch-${batch.id}`}
                           checked={isSelected}
+                          disabled={!isSelected && batch.availableTonnes <= 0}
                           onCheckedChange={() =>
                             handleBatchToggle(
                               batch.id,
-                              batch.outputBiocharWeightTonnes
+                              batch.availableTonnes
                             )
                           }
                         />
@@ -516,7 +524,8 @@ export function SequestrationWizard({
                             {formatDateTime(batch.productionDate)}
                           </span>
                           <span className="ml-2 text-[var(--muted-foreground)]">
-                            ({batch.outputBiocharWeightTonnes.toFixed(2)} tonnes
+                            ({batch.availableTonnes.toFixed(2)} of{' '}
+                            {batch.outputBiocharWeightTonnes.toFixed(2)} tonnes
                             available)
                           </span>
                         </Label>
@@ -532,7 +541,7 @@ export function SequestrationWizard({
                             type="number"
                             step="0.01"
                             min="0.01"
-                            max={batch.outputBiocharWeightTonnes}
+                            max={batch.availableTonnes}
                             value={selectedBatch?.quantityTonnes || ''}
                             onChange={(e) =>
                               handleQuantityChange(
@@ -2,7 +2,12 @@
 
 import { useRef, useState, useCallback } from 'react';
 import { Button } from './button';
-import { EVIDENCE_CATEGORIES, MAX_FILE_SIZE } from '@/lib/validations/evidence';
+import {
+  ACCEPTED_EVIDENCE_MIME_TYPES,
+  EVIDENCE_CATEGORIES,
+  MAX_FILE_SIZE,
+  type EvidenceLinks,
+} from '@/lib/validations/evidence';
 
 export interface UploadedFile {
   id: string;
@@ -20,17 +25,35 @@ export interface FileUploadProps {
   disabled?: boolean;
 }
 
-const ACCEPTED_TYPES = [
-  'application/pdf',
-  'image/jpeg',
-  'image/png',
-  'image/gif',
-  'image/webp',
-  'text/csv',
-  'application/csv',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-];
+const ACCEPTED_TYPES = ACCEPTED_EVIDENCE_MIME_TYPES;
+
+/**
+ * Upload selected files to evidence storage and attach them to a record
+ *
+ * Call after the parent record has been saved and has an id.
+ *
+ * @returns Number of files uploaded
+ */
+export async function uploadEvidenceFiles(
+  files: UploadedFile[],
+  links: EvidenceLinks
+): Promise<number> {
+  for (const file of files) {
+    const formData = new FormData();
+    formData.append('file', file.file, file.fileName);
+    formData.append('category', file.category);
+    for (const [field, id] of Object.entries(links)) {
+      if (id) formData.append(field, id);
+    }
+
+    const response = await fetch('/api/evidence', { method: 'POST', body: formData });
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || `Failed to upload ${file.fileName}`);
+    }
+  }
+  return files.length;
+}
 
 export function FileUpload({
   files,
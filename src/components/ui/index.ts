@@ -25,7 +25,7 @@ export { SearchInput } from './search-input';
 export type { SearchInputProps } from './search-input';
 export { TableToolbar } from './table-toolbar';
 export type { TableToolbarProps, TableFilter, FilterOption } from './table-toolbar';
-export { FileUpload } from './file-upload';
+export { FileUpload, uploadEvidenceFiles } from './file-upload';
 export type { FileUploadProps, UploadedFile } from './file-upload';
 export { StatusBadge } from './status-badge';
 export { SectionCard } from './section-card';
@@ -0,0 +1,233 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { KeyRound, Plus, Trash2 } from 'lucide-react';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Input,
+  Label,
+  Spinner,
+} from '@/components/ui';
+import { formatDateTime } from '@/lib/utils';
+
+export interface ApiTokenSummary {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+interface ApiTokenManagerProps {
+  tokens: ApiTokenSummary[];
+  className?: string;
+}
+
+function tokenStatus(token: ApiTokenSummary): { label: string; variant: 'success' | 'destructive' | 'secondary' } {
+  if (token.revokedAt) return { label: 'revoked', variant: 'destructive' };
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return { label: 'expired', variant: 'secondary' };
+  return { label: 'active', variant: 'success' };
+}
+
+export function ApiTokenManager({ tokens, className }: ApiTokenManagerProps) {
+  const router = useRouter();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState('90');
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = () => {
+    setName('');
+    setExpiresInDays('90');
+    setCreatedToken(null);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const handleCreate = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          expiresInDays: expiresInDays ? Number(expiresInDays) : undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to create token');
+      }
+      setCreatedToken(data.token);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm('Revoke this token? Anything using it will stop working.')) return;
+    setRevokingId(id);
+    try {
+      const response = await fetch(`/api/auth/tokens/${id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to revoke token');
+      }
+      router.refresh();
+    } catch (err) {
+      console.error('Failed to revoke API token:', err);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <KeyRound className="h-4 w-4" />
+          API Tokens
+        </CardTitle>
+        <Button size="sm" variant="outline" onClick={openDialog}>
+          <Plus className="h-3.5 w-3.5 mr-1.5" />
+          New Token
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-[var(--muted-foreground)] mb-4">
+          Send a token as <span className="font-mono">Authorization: Bearer &lt;token&gt;</span> from
+          scripts or the mobile app. It acts with your role.
+        </p>
+        {tokens.length > 0 ? (
+          <div className="grid gap-2">
+            {tokens.map((token) => {
+              const status = tokenStatus(token);
+              return (
+                <div key={token.id} className="flex items-center justify-between gap-3 border p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{token.name}</p>
+                    <p className="text-xs text-[var(--muted-foreground)]">
+                      <span className="font-mono">{token.tokenPrefix}…</span>
+                      {' · '}created {formatDateTime(token.createdAt)}
+                      {' · '}
+                      {token.lastUsedAt ? `last used ${formatDateTime(token.lastUsedAt)}` : 'never used'}
+                      {token.expiresAt && ` · expires ${formatDateTime(token.expiresAt)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Badge variant={status.variant}>{status.label}</Badge>
+                    {status.label === 'active' && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRevoke(token.id)}
+                        disabled={revokingId === token.id}
+                        title="Revoke"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-[var(--muted-foreground)]">No API tokens yet.</p>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{createdToken ? 'Token Created' : 'New API Token'}</DialogTitle>
+            <DialogDescription>
+              {createdToken
+                ? 'Copy the token now. It is not stored and will not be shown again.'
+                : 'Name the token after where it will be used.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {createdToken ? (
+            <Input readOnly value={createdToken} className="font-mono" onFocus={(e) => e.target.select()} />
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="tokenName">Name *</Label>
+                <Input
+                  id="tokenName"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Weighbridge tablet"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tokenExpiry">Expires after (days)</Label>
+                <Input
+                  id="tokenExpiry"
+                  type="number"
+                  min={1}
+                  max={730}
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                  placeholder="Leave empty for no expiry"
+                />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            {createdToken ? (
+              <Button onClick={() => setDialogOpen(false)}>Done</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={isSubmitting}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={isSubmitting || !name.trim()}>
+                  {isSubmitting ? (
+                    <>
+                      <Spinner className="mr-2 h-4 w-4" />
+                      Creating...
+                    </>
+                  ) : (
+                    'Create Token'
+                  )}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
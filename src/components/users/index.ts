@@ -0,0 +1,6 @@
+export { LoginForm } from './login-form';
+export { SignOutButton } from './sign-out-button';
+export { ApiTokenManager } from './api-token-manager';
+export type { ApiTokenSummary } from './api-token-manager';
+export { UserManagement } from './user-management';
+export type { UserSummary } from './user-management';
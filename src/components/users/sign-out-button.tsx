@@ -0,0 +1,30 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { LogOut } from 'lucide-react';
+import { Button } from '@/components/ui';
+
+export function SignOutButton() {
+  const router = useRouter();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSignOut = async () => {
+    setIsSubmitting(true);
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+      router.push('/login');
+      router.refresh();
+    } catch (err) {
+      console.error('Failed to sign out:', err);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={handleSignOut} disabled={isSubmitting}>
+      <LogOut className="h-4 w-4 mr-2" />
+      Sign out
+    </Button>
+  );
+}
@@ -0,0 +1,292 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Pencil, UserPlus } from 'lucide-react';
+import {
+  Badge,
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  Input,
+  Label,
+  Select,
+  Spinner,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui';
+import { formatDateTime } from '@/lib/utils';
+import { USER_ROLES, PASSWORD_MIN_LENGTH, type UserRole } from '@/lib/validations/user';
+
+export interface UserSummary {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  isActive: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+interface UserManagementProps {
+  users: UserSummary[];
+  /** The signed-in user, who cannot deactivate or demote themselves */
+  currentUserId?: string | null;
+}
+
+interface UserFormState {
+  email: string;
+  name: string;
+  role: UserRole;
+  isActive: boolean;
+  password: string;
+}
+
+const EMPTY_FORM: UserFormState = {
+  email: '',
+  name: '',
+  role: 'operator',
+  isActive: true,
+  password: '',
+};
+
+function roleLabel(role: string): string {
+  return USER_ROLES.find((r) => r.value === role)?.label ?? role;
+}
+
+export function UserManagement({ users, currentUserId }: UserManagementProps) {
+  const router = useRouter();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<UserSummary | null>(null);
+  const [form, setForm] = useState<UserFormState>(EMPTY_FORM);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSelf = editing !== null && editing.id === currentUserId;
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (user: UserSummary) => {
+    setEditing(user);
+    setForm({
+      email: user.email,
+      name: user.name,
+      role: user.role as UserRole,
+      isActive: user.isActive,
+      password: '',
+    });
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const body = editing
+        ? {
+            name: form.name,
+            role: form.role,
+            isActive: form.isActive,
+            password: form.password || undefined,
+          }
+        : form;
+      const response = await fetch(editing ? `/api/users/${editing.id}` : '/api/users', {
+        method: editing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save user');
+      }
+      setDialogOpen(false);
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save user');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const selectedRole = USER_ROLES.find((r) => r.value === form.role);
+
+  return (
+    <>
+      <div className="flex justify-end mb-4">
+        <Button onClick={openCreate}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Add User
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.length > 0 ? (
+                users.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell className="font-medium">
+                      {user.name}
+                      {user.id === currentUserId && (
+                        <span className="ml-2 text-xs text-[var(--muted-foreground)]">(you)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{user.email}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{roleLabel(user.role)}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={user.isActive ? 'success' : 'secondary'}>
+                        {user.isActive ? 'active' : 'inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-[var(--muted-foreground)]">
+                      {user.lastLoginAt ? formatDateTime(user.lastLoginAt) : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="icon" onClick={() => openEdit(user)} title="Edit">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-[var(--muted-foreground)]">
+                    No users yet.
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit User' : 'Add User'}</DialogTitle>
+            <DialogDescription>
+              {editing
+                ? 'Changing the role or password signs the user out everywhere.'
+                : 'The user signs in with this email and password.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {error && (
+            <div className="bg-red-50 p-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="userEmail">Email *</Label>
+              <Input
+                id="userEmail"
+                type="email"
+                value={form.email}
+                onChange={(e) => setForm({ ...form, email: e.target.value })}
+                disabled={editing !== null}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="userName">Name *</Label>
+              <Input
+                id="userName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="userRole">Role *</Label>
+              <Select
+                id="userRole"
+                value={form.role}
+                onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+                disabled={isSelf}
+              >
+                {USER_ROLES.map((role) => (
+                  <option key={role.value} value={role.value}>
+                    {role.label}
+                  </option>
+                ))}
+              </Select>
+              {selectedRole && (
+                <p className="text-xs text-[var(--muted-foreground)]">{selectedRole.description}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="userPassword">{editing ? 'New Password' : 'Password *'}</Label>
+              <Input
+                id="userPassword"
+                type="password"
+                autoComplete="new-password"
+                value={form.password}
+                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                placeholder={editing ? 'Leave empty to keep the current password' : `At least ${PASSWORD_MIN_LENGTH} characters`}
+              />
+            </div>
+            {editing && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="userActive"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+                  disabled={isSelf}
+                />
+                <Label htmlFor="userActive">Active</Label>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <Spinner className="mr-2 h-4 w-4" />
+                  Saving...
+                </>
+              ) : editing ? (
+                'Save Changes'
+              ) : (
+                'Create User'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -8,14 +8,15 @@ interface WorkflowNavProps {
 }
 
 async function getWorkflowStats() {
-  const [feedstockCount, productionCount, productionCompleteCount, sequestrationCount, sequestrationCompleteCount, bcuCount] =
+  const [feedstockCount, productionCount, productionCompleteCount, sequestrationCount, sequestrationCompleteCount, corcCount, unmigratedBcuCount] =
     await Promise.all([
       db.feedstockDelivery.count(),
       db.productionBatch.count(),
       db.productionBatch.count({ where: { status: 'complete' } }),
       db.sequestrationEvent.count(),
       db.sequestrationEvent.count({ where: { status: 'complete' } }),
-      db.bCU.count(),
+      db.cORCIssuance.count({ where: { status: { not: 'draft' } } }),
+      db.bCU.count({ where: { migratedCorc: null } }),
     ]);
 
   return {
@@ -24,7 +25,7 @@ async function getWorkflowStats() {
     productionCompleteCount,
     sequestrationCount,
     sequestrationCompleteCount,
-    bcuCount,
+    registryCount: corcCount + unmigratedBcuCount,
   };
 }
 
@@ -57,8 +58,8 @@ export async function WorkflowNav({ currentPage }: WorkflowNavProps) {
       id: 'registry',
       label: 'Registry',
       href: '/registry',
-      status: stats.bcuCount > 0 ? 'complete' : stats.sequestrationCompleteCount > 0 ? 'available' : 'pending',
-      count: stats.bcuCount,
+      status: stats.registryCount > 0 ? 'complete' : stats.sequestrationCompleteCount > 0 ? 'available' : 'pending',
+      count: stats.registryCount,
     },
   ];
 
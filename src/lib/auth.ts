@@ -1,53 +1,71 @@
 import { NextRequest } from 'next/server';
+import {
+  authenticateApiToken,
+  authenticateSession,
+  type AuthenticatedUser,
+} from '@/lib/services/user-auth';
 
 /**
  * Authentication configuration
- * In production, API_KEY should be set as an environment variable
+ *
+ * Requests are authenticated as a user, either by the session cookie set at
+ * login or by a personal API token. Set AUTH_ENABLED=false to disable
+ * authentication in development; every request then runs as an admin.
  */
-const API_KEY = process.env.API_KEY;
 const AUTH_ENABLED = process.env.AUTH_ENABLED !== 'false'; // Enabled by default
 
+export const SESSION_COOKIE = 'ecm_session';
+
+const DEV_USER: AuthenticatedUser = {
+  id: 'dev-user',
+  email: 'dev@localhost',
+  name: 'Development User',
+  role: 'admin',
+};
+
 export interface AuthResult {
   authenticated: boolean;
   error?: string;
-  userId?: string;
+  user?: AuthenticatedUser;
+}
+
+function getBearerToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get('Authorization');
+  if (authHeader) {
+    const [scheme, token] = authHeader.split(' ');
+    if (scheme === 'Bearer' && token) {
+      return token;
+    }
+  }
+  // X-API-Key header (alternative format)
+  return request.headers.get('X-API-Key');
 }
 
 /**
  * Validates the request authentication
- * Checks for API key in Authorization header or X-API-Key header
+ * Checks for an API token (Authorization: Bearer or X-API-Key), then the session cookie
  */
-export function validateAuth(request: NextRequest): AuthResult {
+export async function validateAuth(request: NextRequest): Promise<AuthResult> {
   // If auth is disabled (e.g., in development), allow all requests
   if (!AUTH_ENABLED) {
-    return { authenticated: true, userId: 'dev-user' };
+    return { authenticated: true, user: DEV_USER };
   }
 
-  // If no API key is configured, log warning and deny access
-  if (!API_KEY) {
-    console.warn(
-      'AUTH WARNING: No API_KEY environment variable set. All API requests will be denied. ' +
-      'Set AUTH_ENABLED=false to disable authentication in development.'
-    );
-    return {
-      authenticated: false,
-      error: 'Server authentication not configured',
-    };
+  const token = getBearerToken(request);
+  if (token) {
+    const user = await authenticateApiToken(token);
+    return user
+      ? { authenticated: true, user }
+      : { authenticated: false, error: 'Invalid, expired or revoked API token' };
   }
 
-  // Check Authorization header (Bearer token format)
-  const authHeader = request.headers.get('Authorization');
-  if (authHeader) {
-    const [scheme, token] = authHeader.split(' ');
-    if (scheme === 'Bearer' && token === API_KEY) {
-      return { authenticated: true, userId: 'api-key-user' };
+  const sessionToken = request.cookies.get(SESSION_COOKIE)?.value;
+  if (sessionToken) {
+    const user = await authenticateSession(sessionToken);
+    if (user) {
+      return { authenticated: true, user };
     }
-  }
-
-  // Check X-API-Key header (alternative format)
-  const apiKeyHeader = request.headers.get('X-API-Key');
-  if (apiKeyHeader === API_KEY) {
-    return { authenticated: true, userId: 'api-key-user' };
+    return { authenticated: false, error: 'Session expired' };
   }
 
   return {
@@ -56,6 +74,16 @@ export function validateAuth(request: NextRequest): AuthResult {
   };
 }
 
+/**
+ * Identify the caller of a public path without requiring credentials
+ *
+ * @returns The user, or null for anonymous requests
+ */
+export async function identifyRequest(request: NextRequest): Promise<AuthenticatedUser | null> {
+  const result = await validateAuth(request);
+  return result.authenticated ? result.user ?? null : null;
+}
+
 /**
  * Helper to create an unauthorized response
  */
@@ -67,41 +95,47 @@ export function unauthorizedResponse(message = 'Unauthorized') {
 }
 
 /**
- * List of public paths that don't require authentication
- * These are internal API routes used by the web app's frontend
+ * Helper to create a forbidden response (authenticated, but the role lacks the permission)
+ */
+export function forbiddenResponse(message = 'Forbidden', required: readonly string[] = []) {
+  return new Response(JSON.stringify({ error: message, code: 'FORBIDDEN', required }), {
+    status: 403,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Paths that don't require authentication
  */
 export const PUBLIC_PATHS = [
   '/api/health',
   '/api/status',
-  // Dashboard
-  '/api/dashboard',
-  // Data modules
-  '/api/feedstock',
-  '/api/production',
-  '/api/sequestration',
-  '/api/transport',
-  '/api/energy',
-  // Network/Supply chain
-  '/api/network',
-  '/api/supply-network',
-  // Settings & utilities
-  '/api/plant-settings',
-  '/api/geocode',
-  '/api/qr-scan',
-  '/api/map',
-  // CORC/Registry
-  '/api/facility',
-  '/api/monitoring',
-  '/api/corc',
-  '/api/registry',
-  '/api/calculator',
-  // Datasets
-  '/api/emission-factors',
+  '/api/auth/login',
+  '/login',
 ];
 
 /**
  * Check if a path is public (doesn't require authentication)
  */
 export function isPublicPath(pathname: string): boolean {
-  return PUBLIC_PATHS.some(path => pathname.startsWith(path));
+  return PUBLIC_PATHS.some(
+    path => pathname === path || pathname.startsWith(`${path}/`)
+  );
+}
+
+/**
+ * Public verification pages and API, for buyers checking credits without
+ * an account. A boundary of their own, separate from the private API: open
+ * to anyone, read-only, rate-limited per client, and never given the
+ * caller's identity even when credentials are sent.
+ */
+export const PUBLIC_VERIFICATION_PATHS = [
+  '/verify',
+  '/api/public',
+];
+
+export function isPublicVerificationPath(pathname: string): boolean {
+  return PUBLIC_VERIFICATION_PATHS.some(
+    path => pathname === path || pathname.startsWith(`${path}/`)
+  );
 }
@@ -3,8 +3,17 @@
  * Puro.earth Biochar Methodology - Section 6.2, Equations 6.3 & 6.4
  */
 
-import { PERSISTENCE_PARAMS, H_C_ORG_THRESHOLD } from './constants';
-import type { PersistenceInput } from './types';
+import { PURO_BIOCHAR_2025_V1 } from './constants';
+import type { PersistenceInput, PuroBiocharRules } from './types';
+
+/**
+ * Round a soil temperature to the whole °C row of the persistence table,
+ * clamped to the range the edition's model covers
+ */
+function clampSoilTemp(meanSoilTempC: number, rules: PuroBiocharRules): number {
+  const { min, max } = rules.soilTempRangeC;
+  return Math.max(min, Math.min(max, Math.round(meanSoilTempC)));
+}
 
 /**
  * Calculate persistence fraction (PF) using BC+200 model
@@ -21,15 +30,19 @@ import type { PersistenceInput } from './types';
  * - H/C_org: Molar ratio of hydrogen to organic carbon
  *
  * @param input - H/C_org ratio and mean soil temperature
+ * @param rules - Methodology edition (default 2025 V1)
  * @returns Persistence fraction (%)
  */
-export function calculatePersistenceFraction(input: PersistenceInput): number {
+export function calculatePersistenceFraction(
+  input: PersistenceInput,
+  rules: PuroBiocharRules = PURO_BIOCHAR_2025_V1
+): number {
   const { hCorgRatio, meanSoilTempC } = input;
 
   // Validate H/C_org ratio
-  if (hCorgRatio > H_C_ORG_THRESHOLD) {
+  if (hCorgRatio > rules.hCorgThreshold) {
     throw new Error(
-      `H/C_org ratio (${hCorgRatio.toFixed(3)}) exceeds threshold of ${H_C_ORG_THRESHOLD}. Biochar is not eligible.`
+      `H/C_org ratio (${hCorgRatio.toFixed(3)}) exceeds threshold of ${rules.hCorgThreshold}. Biochar is not eligible.`
     );
   }
 
@@ -37,11 +50,11 @@ export function calculatePersistenceFraction(input: PersistenceInput): number {
     throw new Error('H/C_org ratio cannot be negative');
   }
 
-  // Clamp temperature to valid range (7-40°C)
-  const clampedTemp = Math.max(7, Math.min(40, Math.round(meanSoilTempC)));
+  // Clamp temperature to valid range (7-40°C in 2025 V1)
+  const clampedTemp = clampSoilTemp(meanSoilTempC, rules);
 
   // Get persistence parameters for this temperature
-  const params = PERSISTENCE_PARAMS[clampedTemp];
+  const params = rules.persistenceParams[clampedTemp];
   if (!params) {
     throw new Error(`No persistence parameters for temperature ${clampedTemp}°C`);
   }
@@ -102,11 +115,15 @@ export function calculatePermanentCarbon(
  * Get persistence parameters for a given temperature
  *
  * @param meanSoilTempC - Mean annual soil temperature (°C)
+ * @param rules - Methodology edition (default 2025 V1)
  * @returns Persistence parameters { M, a }
  */
-export function getPersistenceParams(meanSoilTempC: number): { M: number; a: number; tempUsed: number } {
-  const clampedTemp = Math.max(7, Math.min(40, Math.round(meanSoilTempC)));
-  const params = PERSISTENCE_PARAMS[clampedTemp];
+export function getPersistenceParams(
+  meanSoilTempC: number,
+  rules: PuroBiocharRules = PURO_BIOCHAR_2025_V1
+): { M: number; a: number; tempUsed: number } {
+  const clampedTemp = clampSoilTemp(meanSoilTempC, rules);
+  const params = rules.persistenceParams[clampedTemp];
 
   return {
     ...params,
@@ -119,11 +136,13 @@ export function getPersistenceParams(meanSoilTempC: number): { M: number; a: num
  *
  * @param input - H/C_org ratio and mean soil temperature
  * @param cStoredTCO2e - Gross carbon stored (tCO2e)
+ * @param rules - Methodology edition (default 2025 V1)
  * @returns Detailed breakdown
  */
 export function getPersistenceBreakdown(
   input: PersistenceInput,
-  cStoredTCO2e: number
+  cStoredTCO2e: number,
+  rules: PuroBiocharRules = PURO_BIOCHAR_2025_V1
 ): {
   hCorgRatio: number;
   meanSoilTempC: number;
@@ -137,8 +156,8 @@ export function getPersistenceBreakdown(
   permanentCarbonTCO2e: number;
 } {
   const { hCorgRatio, meanSoilTempC } = input;
-  const { M, a, tempUsed } = getPersistenceParams(meanSoilTempC);
-  const persistenceFractionPercent = calculatePersistenceFraction(input);
+  const { M, a, tempUsed } = getPersistenceParams(meanSoilTempC, rules);
+  const persistenceFractionPercent = calculatePersistenceFraction(input, rules);
   const lossPercent = 100 - persistenceFractionPercent;
   const cLossTCO2e = calculateCLoss(cStoredTCO2e, persistenceFractionPercent);
   const permanentCarbonTCO2e = calculatePermanentCarbon(cStoredTCO2e, persistenceFractionPercent);
@@ -163,17 +182,19 @@ export function getPersistenceBreakdown(
  *
  * @param meanSoilTempC - Mean annual soil temperature (°C)
  * @param hCorgValues - Array of H/C_org ratios to evaluate
+ * @param rules - Methodology edition (default 2025 V1)
  * @returns Array of { hCorgRatio, persistenceFraction } objects
  */
 export function estimatePersistenceRange(
   meanSoilTempC: number,
-  hCorgValues: number[] = [0.3, 0.4, 0.5, 0.6, 0.7]
+  hCorgValues: number[] = [0.3, 0.4, 0.5, 0.6, 0.7],
+  rules: PuroBiocharRules = PURO_BIOCHAR_2025_V1
 ): Array<{ hCorgRatio: number; persistenceFractionPercent: number }> {
   return hCorgValues.map((hCorgRatio) => ({
     hCorgRatio,
     persistenceFractionPercent: calculatePersistenceFraction({
       hCorgRatio,
       meanSoilTempC,
-    }),
+    }, rules),
   }));
 }
@@ -6,13 +6,14 @@
  * CORCs = C_stored − C_baseline − C_loss − E_project − E_leakage
  */
 
-import { CALCULATION_VERSION } from './constants';
-import type { CORCCalculationInput, CORCCalculationResult } from './types';
+import { GWP_SETS, PURO_BIOCHAR_2025_V1 } from './constants';
+import type { CORCCalculationInput, CORCCalculationResult, PuroBiocharRules } from './types';
 import { calculateHCorgRatio, validateBiocharQuality } from './quality';
 import { calculateCStored, getCStoredBreakdown } from './c-stored';
 import { calculatePersistenceFraction, calculateCLoss, getPersistenceBreakdown } from './c-loss';
 import { calculateEProject, getEProjectBreakdown } from './e-project';
 import { calculateELeakage, getELeakageBreakdown } from './e-leakage';
+import { calculateStorageLines } from './storage-lines';
 
 /**
  * Calculate net CORCs (CO2 Removal Certificates)
@@ -26,10 +27,17 @@ import { calculateELeakage, getELeakageBreakdown } from './e-leakage';
  * - E_project: Project lifecycle emissions (Equation 7.1)
  * - E_leakage: Leakage emissions (Equation 8.1)
  *
+ * When `storageLines` are provided (disaggregated mode), C_stored and C_loss
+ * are the sums of the per batch × event values.
+ *
  * @param input - Full CORC calculation input
+ * @param rules - Methodology edition the result is calculated under (default 2025 V1)
  * @returns CORC calculation result with detailed breakdown
  */
-export function calculateCORCs(input: CORCCalculationInput): CORCCalculationResult {
+export function calculateCORCs(
+  input: CORCCalculationInput,
+  rules: PuroBiocharRules = PURO_BIOCHAR_2025_V1
+): CORCCalculationResult {
   const {
     biocharDryMassTonnes,
     organicCarbonPercent,
@@ -39,7 +47,14 @@ export function calculateCORCs(input: CORCCalculationInput): CORCCalculationResu
     baselineCarbonStorageTCO2e = 0,
     projectEmissions,
     leakageEmissions,
+    storageLines,
+    gwpSet = rules.defaultGwpSet,
   } = input;
+  const gwp = GWP_SETS[gwpSet];
+
+  const storage = storageLines && storageLines.length > 0
+    ? calculateStorageLines(storageLines, rules)
+    : null;
 
   // Step 1: Calculate H/C_org ratio and validate quality
   const hCorgRatio = calculateHCorgRatio({
@@ -47,13 +62,17 @@ export function calculateCORCs(input: CORCCalculationInput): CORCCalculationResu
     organicCarbonPercent,
   });
 
-  const qualityValid = validateBiocharQuality(hCorgRatio);
+  const qualityValid = storage
+    ? storage.lines.every((line) => line.qualityValid)
+    : validateBiocharQuality(hCorgRatio, rules);
 
   // Step 2: Calculate C_stored (Equation 6.1)
-  const cStoredTCO2e = calculateCStored({
-    biocharDryMassTonnes,
-    organicCarbonPercent,
-  });
+  const cStoredTCO2e = storage
+    ? storage.cStoredTCO2e
+    : calculateCStored({
+        biocharDryMassTonnes,
+        organicCarbonPercent,
+      });
 
   // Step 3: Determine baseline carbon storage
   let cBaselineTCO2e = 0;
@@ -80,15 +99,19 @@ export function calculateCORCs(input: CORCCalculationInput): CORCCalculationResu
   }
 
   // Step 4: Calculate persistence fraction and C_loss (Equations 6.3, 6.4)
-  const persistenceFractionPercent = calculatePersistenceFraction({
-    hCorgRatio,
-    meanSoilTempC,
-  });
+  const persistenceFractionPercent = storage
+    ? storage.persistenceFractionPercent
+    : calculatePersistenceFraction({
+        hCorgRatio,
+        meanSoilTempC,
+      }, rules);
 
-  const cLossTCO2e = calculateCLoss(cStoredTCO2e, persistenceFractionPercent);
+  const cLossTCO2e = storage
+    ? storage.cLossTCO2e
+    : calculateCLoss(cStoredTCO2e, persistenceFractionPercent);
 
   // Step 5: Calculate E_project (Equation 7.1)
-  const eProjectTCO2e = calculateEProject(projectEmissions);
+  const eProjectTCO2e = calculateEProject(projectEmissions, gwp);
 
   // Step 6: Calculate E_leakage (Equation 8.1)
   const eLeakageTCO2e = calculateELeakage(leakageEmissions);
@@ -99,7 +122,7 @@ export function calculateCORCs(input: CORCCalculationInput): CORCCalculationResu
     cStoredTCO2e - cBaselineTCO2e - cLossTCO2e - eProjectTCO2e - eLeakageTCO2e;
 
   // Get detailed breakdowns for reporting
-  const projectBreakdown = getEProjectBreakdown(projectEmissions);
+  const projectBreakdown = getEProjectBreakdown(projectEmissions, gwp);
   const leakageBreakdown = getELeakageBreakdown(leakageEmissions);
 
   return {
@@ -119,8 +142,11 @@ export function calculateCORCs(input: CORCCalculationInput): CORCCalculationResu
     netCORCsTCO2e: Math.max(0, netCORCsTCO2e), // CORCs cannot be negative
 
     // Metadata
-    permanenceType: 'BC200+',
-    calculationVersion: CALCULATION_VERSION,
+    permanenceType: rules.permanenceType,
+    calculationVersion: rules.version,
+    calculationMode: storage ? 'disaggregated' : 'aggregated',
+    gwpSet,
+    ...(storage && { storageLines: storage.lines }),
 
     // Detailed breakdown
     breakdown: {
@@ -138,9 +164,13 @@ export function calculateCORCs(input: CORCCalculationInput): CORCCalculationResu
  * Full CORC calculation with detailed breakdown
  *
  * @param input - Full CORC calculation input
+ * @param rules - Methodology edition (default 2025 V1)
  * @returns Extended result with all intermediate calculations
  */
-export function getCORCCalculationBreakdown(input: CORCCalculationInput): {
+export function getCORCCalculationBreakdown(
+  input: CORCCalculationInput,
+  rules: PuroBiocharRules = PURO_BIOCHAR_2025_V1
+): {
   result: CORCCalculationResult;
   cStoredBreakdown: ReturnType<typeof getCStoredBreakdown>;
   persistenceBreakdown: ReturnType<typeof getPersistenceBreakdown>;
@@ -153,19 +183,32 @@ export function getCORCCalculationBreakdown(input: CORCCalculationInput): {
     unit: string;
   }[];
 } {
-  const result = calculateCORCs(input);
+  const result = calculateCORCs(input, rules);
+  const isDisaggregated = result.calculationMode === 'disaggregated';
 
   const cStoredBreakdown = getCStoredBreakdown({
     biocharDryMassTonnes: input.biocharDryMassTonnes,
     organicCarbonPercent: input.organicCarbonPercent,
   });
 
-  const persistenceBreakdown = getPersistenceBreakdown(
+  // In disaggregated mode M, a and tempUsed describe the mass-weighted mean
+  // soil temperature only; the per-line values are in result.storageLines
+  const aggregatePersistence = getPersistenceBreakdown(
     { hCorgRatio: result.hCorgRatio, meanSoilTempC: input.meanSoilTempC },
-    result.cStoredTCO2e
+    result.cStoredTCO2e,
+    rules
   );
-
-  const projectEmissionsBreakdown = getEProjectBreakdown(input.projectEmissions);
+  const persistenceBreakdown = isDisaggregated
+    ? {
+        ...aggregatePersistence,
+        persistenceFractionPercent: result.persistenceFractionPercent,
+        lossPercent: 100 - result.persistenceFractionPercent,
+        cLossTCO2e: result.cLossTCO2e,
+        permanentCarbonTCO2e: result.cStoredTCO2e - result.cLossTCO2e,
+      }
+    : aggregatePersistence;
+
+  const projectEmissionsBreakdown = getEProjectBreakdown(input.projectEmissions, GWP_SETS[result.gwpSet]);
   const leakageBreakdown = getELeakageBreakdown(input.leakageEmissions);
 
   // Generate step-by-step formula breakdown
@@ -178,7 +221,9 @@ export function getCORCCalculationBreakdown(input: CORCCalculationInput): {
     },
     {
       step: '2. Calculate C_stored',
-      formula: 'C_stored = Q_biochar × C_org × (44/12)',
+      formula: isDisaggregated
+        ? 'C_stored = Σ_i Q_biochar,i × C_org,i × (44/12)'
+        : 'C_stored = Q_biochar × C_org × (44/12)',
       value: result.cStoredTCO2e,
       unit: 'tCO2e',
     },
@@ -190,19 +235,23 @@ export function getCORCCalculationBreakdown(input: CORCCalculationInput): {
     },
     {
       step: '4. Calculate Persistence Fraction',
-      formula: 'PF = M - a × H/C_org',
+      formula: isDisaggregated
+        ? 'PF_i = M(T_i) - a(T_i) × H/C_org,i; PF_eff = 1 - ΣC_loss,i / ΣC_stored,i'
+        : 'PF = M - a × H/C_org',
       value: result.persistenceFractionPercent,
       unit: '%',
     },
     {
       step: '5. Calculate C_loss',
-      formula: 'C_loss = C_stored × (100 - PF) / 100',
+      formula: isDisaggregated
+        ? 'C_loss = Σ_i C_stored,i × (100 - PF_i) / 100'
+        : 'C_loss = C_stored × (100 - PF) / 100',
       value: result.cLossTCO2e,
       unit: 'tCO2e',
     },
     {
       step: '6. Calculate E_project',
-      formula: 'E_project = E_biomass + E_production + E_use + E_emb',
+      formula: `E_project = E_biomass + E_production + E_use + E_emb (GWP ${result.gwpSet})`,
       value: result.eProjectTCO2e,
       unit: 'tCO2e',
     },
@@ -299,9 +348,13 @@ export function estimateCORCs(
  * Validate CORC calculation input
  *
  * @param input - CORC calculation input
+ * @param rules - Methodology edition (default 2025 V1)
  * @returns Validation result with any errors
  */
-export function validateCORCInput(input: CORCCalculationInput): {
+export function validateCORCInput(
+  input: CORCCalculationInput,
+  rules: PuroBiocharRules = PURO_BIOCHAR_2025_V1
+): {
   isValid: boolean;
   errors: string[];
   warnings: string[];
@@ -331,13 +384,13 @@ export function validateCORCInput(input: CORCCalculationInput): {
       organicCarbonPercent: input.organicCarbonPercent,
     });
 
-    if (hCorgRatio > 0.7) {
+    if (hCorgRatio > rules.hCorgThreshold) {
       errors.push(
-        `H/C_org ratio (${hCorgRatio.toFixed(3)}) exceeds 0.7 threshold. Biochar is not eligible for CORCs.`
+        `H/C_org ratio (${hCorgRatio.toFixed(3)}) exceeds ${rules.hCorgThreshold} threshold. Biochar is not eligible for CORCs.`
       );
-    } else if (hCorgRatio > 0.6) {
+    } else if (hCorgRatio > rules.hCorgWarningThreshold) {
       warnings.push(
-        `H/C_org ratio (${hCorgRatio.toFixed(3)}) is close to 0.7 threshold. Consider optimizing pyrolysis conditions.`
+        `H/C_org ratio (${hCorgRatio.toFixed(3)}) is close to ${rules.hCorgThreshold} threshold. Consider optimizing pyrolysis conditions.`
       );
     }
   } catch {
@@ -345,16 +398,53 @@ export function validateCORCInput(input: CORCCalculationInput): {
   }
 
   // Validate soil temperature
-  if (input.meanSoilTempC < 7) {
+  const { min: minTempC, max: maxTempC } = rules.soilTempRangeC;
+  const modelRange = `${minTempC}-${maxTempC}°C`;
+  if (input.meanSoilTempC < minTempC) {
     warnings.push(
-      `Soil temperature (${input.meanSoilTempC}°C) is below model range (7-40°C). Using 7°C for calculation.`
+      `Soil temperature (${input.meanSoilTempC}°C) is below model range (${modelRange}). Using ${minTempC}°C for calculation.`
     );
-  } else if (input.meanSoilTempC > 40) {
+  } else if (input.meanSoilTempC > maxTempC) {
     warnings.push(
-      `Soil temperature (${input.meanSoilTempC}°C) is above model range (7-40°C). Using 40°C for calculation.`
+      `Soil temperature (${input.meanSoilTempC}°C) is above model range (${modelRange}). Using ${maxTempC}°C for calculation.`
     );
   }
 
+  // Validate disaggregated storage lines
+  for (const line of input.storageLines ?? []) {
+    const label = line.label ?? `${line.productionBatchId} → ${line.sequestrationEventId}`;
+
+    if (line.biocharDryMassTonnes <= 0) {
+      errors.push(`Storage line ${label}: biochar dry mass must be greater than 0`);
+    }
+
+    if (line.organicCarbonPercent <= 0 || line.organicCarbonPercent > 100) {
+      errors.push(`Storage line ${label}: organic carbon percent must be between 0 and 100`);
+      continue;
+    }
+
+    if (line.hydrogenPercent < 0 || line.hydrogenPercent > 100) {
+      errors.push(`Storage line ${label}: hydrogen percent must be between 0 and 100`);
+      continue;
+    }
+
+    const lineHCorgRatio = calculateHCorgRatio({
+      hydrogenPercent: line.hydrogenPercent,
+      organicCarbonPercent: line.organicCarbonPercent,
+    });
+    if (lineHCorgRatio > rules.hCorgThreshold) {
+      errors.push(
+        `Storage line ${label}: H/C_org ratio (${lineHCorgRatio.toFixed(3)}) exceeds ${rules.hCorgThreshold} threshold.`
+      );
+    }
+
+    if (line.meanSoilTempC < minTempC || line.meanSoilTempC > maxTempC) {
+      warnings.push(
+        `Storage line ${label}: soil temperature (${line.meanSoilTempC}°C) is outside model range (${modelRange}) and will be clamped.`
+      );
+    }
+  }
+
   // Validate baseline type
   const validBaselineTypes = ['NEW_BUILT', 'RETROFIT_FACILITY', 'CHARCOAL_REPURPOSE'];
   if (!validBaselineTypes.includes(input.baselineType)) {
@@ -5,6 +5,17 @@
  * Contains persistence parameters (Table 6.1), GWP values, and iLUC factors
  */
 
+import type {
+  CalculationMode,
+  ContaminantParameter,
+  GwpSet,
+  GwpSetId,
+  PuroBiocharRules,
+  StackGas,
+  Vm0044Rules,
+  WbcQualityClass,
+} from './types';
+
 /**
  * BC+200 Persistence Parameters (Table 6.1)
  *
@@ -56,13 +67,35 @@ export const PERSISTENCE_PARAMS: Record<number, { M: number; a: number }> = {
 };
 
 /**
- * Global Warming Potential (GWP) values
+ * Global Warming Potential (GWP) sets, 100-year time horizon
+ * AR4 WG1 Table 2.14, AR5 WG1 Table 8.7 (without climate-carbon
+ * feedbacks), AR6 WG1 Table 7.15
+ */
+export const GWP_SETS: Record<GwpSetId, GwpSet> = {
+  AR4: { id: 'AR4', name: 'IPCC AR4', co2: 1, ch4Fossil: 25, ch4NonFossil: 25, n2o: 298 },
+  AR5: { id: 'AR5', name: 'IPCC AR5', co2: 1, ch4Fossil: 28, ch4NonFossil: 28, n2o: 265 },
+  AR6: { id: 'AR6', name: 'IPCC AR6', co2: 1, ch4Fossil: 29.8, ch4NonFossil: 27.0, n2o: 273 },
+};
+
+/**
+ * GWP basis of the methodology edition, used unless a facility or a
+ * calculation chooses another
+ */
+export const DEFAULT_GWP_SET: GwpSetId = 'AR5';
+
+/**
+ * Calculation modes: one storage line for the period, or one per batch
+ */
+export const CALCULATION_MODES: readonly CalculationMode[] = ['aggregated', 'disaggregated'];
+
+/**
+ * Global Warming Potential (GWP) values of the default basis
  * Based on IPCC AR5 (100-year time horizon)
  */
 export const GWP_VALUES = {
-  CO2: 1,
-  CH4: 28, // Methane
-  N2O: 265, // Nitrous oxide
+  CO2: GWP_SETS[DEFAULT_GWP_SET].co2,
+  CH4: GWP_SETS[DEFAULT_GWP_SET].ch4Fossil, // Methane
+  N2O: GWP_SETS[DEFAULT_GWP_SET].n2o, // Nitrous oxide
 } as const;
 
 /**
@@ -77,6 +110,103 @@ export const CO2_TO_C_RATIO = 44 / 12; // 3.6667
  */
 export const H_C_ORG_THRESHOLD = 0.7;
 
+/**
+ * Lab replicate statistics
+ * C_org enters the calculation as the one-sided 95% lower confidence bound
+ * of its replicate mean. Replicates with a modified z-score above the
+ * threshold (Iglewicz & Hoaglin) are flagged as outliers for review.
+ */
+export const LAB_CONFIDENCE_LEVEL = 0.95;
+export const LAB_OUTLIER_Z_THRESHOLD = 3.5;
+
+/**
+ * Relative standard deviation assumed for a single replicate
+ * One result has no spread to estimate, so its confidence bound is taken
+ * with this spread rather than at the value itself.
+ */
+export const LAB_SINGLE_REPLICATE_RELATIVE_SD = 0.05;
+
+/**
+ * Default pyrolysis temperature monitoring rules
+ * Facilities override both. Residence time is counted at or above the
+ * minimum temperature; a log silent for longer than the max gap has a gap.
+ */
+export const PYROLYSIS_MIN_TEMPERATURE_C = 350;
+export const TEMPERATURE_MAX_GAP_SECONDS = 300;
+
+/**
+ * WBC contaminant limits by quality class (Table 3.3)
+ *
+ * mg/kg dry matter, PCDD/F in ng I-TEQ/kg. Agro limits Table 3.3 does not
+ * list follow the EBC-Agro guidelines. null means the value must be
+ * declared but has no limit.
+ */
+export const WBC_CONTAMINANT_LIMITS: Record<WbcQualityClass, Record<ContaminantParameter, number | null>> = {
+  material: {
+    pah16MgKg: null,
+    pah8MgKg: 4,
+    leadMgKg: 300,
+    cadmiumMgKg: 5,
+    copperMgKg: 200,
+    nickelMgKg: null,
+    mercuryMgKg: null,
+    zincMgKg: null,
+    chromiumMgKg: null,
+    arsenicMgKg: null,
+    pcbMgKg: null,
+    pcddfNgTeqKg: null,
+    ashPercent: null,
+    ph: null,
+    specificSurfaceAreaM2G: null,
+  },
+  agro: {
+    pah16MgKg: null,
+    pah8MgKg: 1,
+    leadMgKg: 120,
+    cadmiumMgKg: 1.5,
+    copperMgKg: 140,
+    nickelMgKg: 50,
+    mercuryMgKg: 1,
+    zincMgKg: 400,
+    chromiumMgKg: 90,
+    arsenicMgKg: 13,
+    pcbMgKg: 0.2,
+    pcddfNgTeqKg: 20,
+    ashPercent: null,
+    ph: null,
+    specificSurfaceAreaM2G: null,
+  },
+};
+
+/**
+ * Stack emission conversion
+ * ppm (by volume) converts to mg/Nm³ with the gas molar mass (g/mol) over
+ * the molar volume at normal conditions (0°C, 101.325 kPa, L/mol).
+ */
+export const NORMAL_MOLAR_VOLUME_L = 22.414;
+export const STACK_GAS_MOLAR_MASS: Record<StackGas, number> = {
+  CH4: 16.04,
+  N2O: 44.013,
+};
+
+/**
+ * Default stack emission factors (kg gas per dry tonne of biochar)
+ * Conservative values for a pyrolysis unit with afterburner, used only
+ * when a batch has neither measurements nor an entered emission.
+ */
+export const DEFAULT_STACK_EMISSION_FACTORS: Record<StackGas, number> = {
+  CH4: 0.5,
+  N2O: 0.05,
+};
+
+/**
+ * Placeholder biochar quality for estimates only
+ * Used when a batch has no lab results; a calculation that needs them is
+ * not issuable.
+ */
+export const ESTIMATE_ORGANIC_CARBON_PERCENT = 80;
+export const ESTIMATE_HYDROGEN_PERCENT = 2;
+
 /**
  * iLUC factors (Table 8.3)
  * Indirect Land Use Change factors for high-risk feedstocks
@@ -194,6 +324,9 @@ export const PURO_BIOMASS_CATEGORIES = {
 
 /**
  * End-use categories per Puro methodology (Section 3.6)
+ *
+ * wbcClass is the WBC quality class whose contaminant limits the biochar
+ * must meet for the end-use; an undeclared end-use is held to Agro.
  */
 export const END_USE_CATEGORIES = {
   SOIL_AGRICULTURE: {
@@ -201,42 +334,49 @@ export const END_USE_CATEGORIES = {
     name: 'Soil - Agriculture',
     description: 'Application to agricultural soils',
     requiresSoilTemp: true,
+    wbcClass: 'agro',
   },
   SOIL_FORESTRY: {
     code: 'SOIL_FORESTRY',
     name: 'Soil - Forestry',
     description: 'Application to forest soils',
     requiresSoilTemp: true,
+    wbcClass: 'agro',
   },
   SOIL_URBAN: {
     code: 'SOIL_URBAN',
     name: 'Soil - Urban/Landscaping',
     description: 'Application to urban soils and landscaping',
     requiresSoilTemp: true,
+    wbcClass: 'agro',
   },
   CONSTRUCTION_CONCRETE: {
     code: 'CONSTRUCTION_CONCRETE',
     name: 'Construction - Concrete',
     description: 'Embedded in concrete products',
     requiresSoilTemp: false,
+    wbcClass: 'material',
   },
   CONSTRUCTION_ASPHALT: {
     code: 'CONSTRUCTION_ASPHALT',
     name: 'Construction - Asphalt',
     description: 'Mixed into asphalt',
     requiresSoilTemp: false,
+    wbcClass: 'material',
   },
   CONSTRUCTION_BRICKS: {
     code: 'CONSTRUCTION_BRICKS',
     name: 'Construction - Bricks/Blocks',
     description: 'Embedded in bricks or blocks',
     requiresSoilTemp: false,
+    wbcClass: 'material',
   },
   OTHER: {
     code: 'OTHER',
     name: 'Other',
     description: 'Other eligible end-use',
     requiresSoilTemp: false,
+    wbcClass: 'agro',
   },
 } as const;
 
@@ -295,3 +435,46 @@ export const PERMANENCE_TYPES = {
  * Used for audit trail and result reproducibility
  */
 export const CALCULATION_VERSION = 'puro-biochar-2025-v1.0.0';
+
+/**
+ * Puro.earth Biochar Methodology Edition 2025 V1
+ * The constants above, bundled for the methodology registry
+ */
+export const PURO_BIOCHAR_2025_V1: PuroBiocharRules = {
+  version: CALCULATION_VERSION,
+  standard: 'puro',
+  name: 'Puro.earth Biochar Methodology Edition 2025 V1',
+  creditUnit: 'CORC',
+  effectiveFrom: '2025-01-01',
+  persistenceParams: PERSISTENCE_PARAMS,
+  soilTempRangeC: { min: 7, max: 40 },
+  hCorgThreshold: H_C_ORG_THRESHOLD,
+  hCorgWarningThreshold: 0.6,
+  defaultGwpSet: DEFAULT_GWP_SET,
+  permanenceType: PERMANENCE_TYPES.BC200,
+};
+
+/**
+ * Verra VM0044 v1.0, Methodology for Biochar Utilization in Soil and
+ * Non-Soil Applications
+ *
+ * Permanence factors are the IPCC 2019 Refinement (Vol. 4, Ch. 2, Annex
+ * 2A.2) 100-year F_perm values, assigned by H/C_org class: high-temperature
+ * biochar (H/C_org <= 0.4) 0.89, medium-temperature biochar (H/C_org <= 0.7)
+ * 0.80. Biochar above 0.7 is not eligible.
+ */
+export const VERRA_VM0044_V1: Vm0044Rules = {
+  version: 'verra-vm0044-v1.0.0',
+  standard: 'verra',
+  name: 'Verra VM0044 v1.0 Biochar Utilization in Soil and Non-Soil Applications',
+  creditUnit: 'VCU',
+  effectiveFrom: '2023-06-01',
+  hCorgThreshold: 0.7,
+  hCorgWarningThreshold: 0.6,
+  defaultGwpSet: 'AR5',
+  permanenceType: PERMANENCE_TYPES.BC100,
+  permanenceFactors: [
+    { maxHCorgRatio: 0.4, factor: 0.89, label: 'High-temperature biochar (H/C_org <= 0.4)' },
+    { maxHCorgRatio: 0.7, factor: 0.8, label: 'Medium-temperature biochar (H/C_org <= 0.7)' },
+  ],
+};
@@ -0,0 +1,85 @@
+/**
+ * Biochar Contaminant Checks
+ * Puro.earth Biochar Methodology - Section 3.6 & WBC Table 3.3
+ *
+ * The end-use a biochar is sequestered in sets the WBC quality class it
+ * must meet: soil applications need Agro quality, building materials
+ * Material quality. Each limited value of the contaminant panel must be
+ * measured and within the class limit.
+ */
+
+import { END_USE_CATEGORIES, WBC_CONTAMINANT_LIMITS } from './constants';
+import type {
+  ContaminantCheck,
+  ContaminantPanel,
+  ContaminantParameter,
+  ContaminantResult,
+  WbcQualityClass,
+} from './types';
+
+/**
+ * Panel values in display order, with their units
+ */
+export const CONTAMINANT_PARAMETERS: Array<{ parameter: ContaminantParameter; label: string; unit: string }> = [
+  { parameter: 'pah16MgKg', label: 'PAH (16 EPA)', unit: 'mg/kg' },
+  { parameter: 'pah8MgKg', label: 'PAH (8 EFSA)', unit: 'mg/kg' },
+  { parameter: 'leadMgKg', label: 'Lead (Pb)', unit: 'mg/kg' },
+  { parameter: 'cadmiumMgKg', label: 'Cadmium (Cd)', unit: 'mg/kg' },
+  { parameter: 'copperMgKg', label: 'Copper (Cu)', unit: 'mg/kg' },
+  { parameter: 'nickelMgKg', label: 'Nickel (Ni)', unit: 'mg/kg' },
+  { parameter: 'mercuryMgKg', label: 'Mercury (Hg)', unit: 'mg/kg' },
+  { parameter: 'zincMgKg', label: 'Zinc (Zn)', unit: 'mg/kg' },
+  { parameter: 'chromiumMgKg', label: 'Chromium (Cr)', unit: 'mg/kg' },
+  { parameter: 'arsenicMgKg', label: 'Arsenic (As)', unit: 'mg/kg' },
+  { parameter: 'pcbMgKg', label: 'PCB', unit: 'mg/kg' },
+  { parameter: 'pcddfNgTeqKg', label: 'PCDD/F', unit: 'ng I-TEQ/kg' },
+  { parameter: 'ashPercent', label: 'Ash', unit: '%' },
+  { parameter: 'ph', label: 'pH', unit: '' },
+  { parameter: 'specificSurfaceAreaM2G', label: 'Specific surface area', unit: 'm²/g' },
+];
+
+export const WBC_QUALITY_CLASS_LABELS: Record<WbcQualityClass, string> = {
+  agro: 'WBC Agro',
+  material: 'WBC Material',
+};
+
+/**
+ * Quality class an end-use requires; undeclared or unknown end-uses are
+ * held to the stricter Agro class
+ *
+ * @param endUseCategory - END_USE_CATEGORIES code
+ */
+export function wbcClassForEndUse(endUseCategory: string | null): WbcQualityClass {
+  const category = endUseCategory
+    ? END_USE_CATEGORIES[endUseCategory as keyof typeof END_USE_CATEGORIES]
+    : undefined;
+  return category?.wbcClass ?? 'agro';
+}
+
+/**
+ * Check a contaminant panel against the limits of a quality class
+ *
+ * @param panel - Measured values (null when not measured)
+ * @param qualityClass - Class the end-use requires
+ */
+export function checkContaminantPanel(panel: ContaminantPanel, qualityClass: WbcQualityClass): ContaminantCheck {
+  const limits = WBC_CONTAMINANT_LIMITS[qualityClass];
+
+  const results: ContaminantResult[] = CONTAMINANT_PARAMETERS.map(({ parameter }) => {
+    const value = panel[parameter];
+    const limit = limits[parameter];
+    const status: ContaminantResult['status'] = value === null
+      ? 'missing'
+      : limit === null
+        ? 'declared'
+        : value <= limit ? 'pass' : 'fail';
+    return { parameter, value, limit, status };
+  });
+
+  const failures = results.filter((r) => r.status === 'fail');
+  const status: ContaminantCheck['status'] = failures.length > 0
+    ? 'fail'
+    : results.some((r) => r.status === 'missing') ? 'incomplete' : 'pass';
+
+  return { qualityClass, status, results, failures };
+}
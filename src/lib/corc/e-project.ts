@@ -3,8 +3,9 @@
  * Puro.earth Biochar Methodology - Section 7, Equations 7.1 & 7.2
  */
 
-import { GWP_VALUES } from './constants';
+import { DEFAULT_GWP_SET, GWP_SETS } from './constants';
 import type {
+  GwpSet,
   EProjectInput,
   BiomassEmissions,
   ProductionEmissions,
@@ -30,12 +31,17 @@ export function calculateBiomassEmissions(emissions: BiomassEmissions): number {
  * Calculate total production emissions (E_production)
  *
  * Includes energy, materials, waste, direct stack emissions, and maintenance.
- * Stack emissions (CH4, N2O) are converted to CO2e using GWP values.
+ * Stack emissions (CH4, N2O) are converted to CO2e using GWP values; stack
+ * methane is biogenic, so it takes the non-fossil CH4 value.
  *
  * @param emissions - Production emissions breakdown
+ * @param gwp - GWP basis (default AR5)
  * @returns Total production emissions in kg CO2e
  */
-export function calculateProductionEmissions(emissions: ProductionEmissions): number {
+export function calculateProductionEmissions(
+  emissions: ProductionEmissions,
+  gwp: GwpSet = GWP_SETS[DEFAULT_GWP_SET]
+): number {
   const {
     energy,
     materials,
@@ -47,8 +53,8 @@ export function calculateProductionEmissions(emissions: ProductionEmissions): nu
   } = emissions;
 
   // Convert stack emissions to CO2e using GWP values
-  const stackCH4CO2e = stackCH4Kg * GWP_VALUES.CH4;
-  const stackN2OCO2e = stackN2OKg * GWP_VALUES.N2O;
+  const stackCH4CO2e = stackCH4Kg * gwp.ch4NonFossil;
+  const stackN2OCO2e = stackN2OKg * gwp.n2o;
 
   return (
     energy +
@@ -100,9 +106,13 @@ export function calculateEndUseEmissions(emissions: EndUseEmissions): number {
  * If co-product allocation is applicable, it's applied to production emissions.
  *
  * @param input - Full project emissions input
+ * @param gwp - GWP basis for stack gases (default AR5)
  * @returns Total project emissions in tonnes CO2e
  */
-export function calculateEProject(input: EProjectInput): number {
+export function calculateEProject(
+  input: EProjectInput,
+  gwp: GwpSet = GWP_SETS[DEFAULT_GWP_SET]
+): number {
   const {
     biomassEmissions,
     productionEmissions,
@@ -113,7 +123,7 @@ export function calculateEProject(input: EProjectInput): number {
 
   // Calculate individual components (all in kg CO2e)
   const biomassTotal = calculateBiomassEmissions(biomassEmissions);
-  let productionTotal = calculateProductionEmissions(productionEmissions);
+  let productionTotal = calculateProductionEmissions(productionEmissions, gwp);
   const embodiedTotal = calculateEmbodiedEmissions(embodiedEmissions);
   const endUseTotal = calculateEndUseEmissions(endUseEmissions);
 
@@ -138,9 +148,13 @@ export function calculateEProject(input: EProjectInput): number {
  * Detailed project emissions breakdown
  *
  * @param input - Full project emissions input
+ * @param gwp - GWP basis for stack gases (default AR5)
  * @returns Detailed breakdown with all components
  */
-export function getEProjectBreakdown(input: EProjectInput): {
+export function getEProjectBreakdown(
+  input: EProjectInput,
+  gwp: GwpSet = GWP_SETS[DEFAULT_GWP_SET]
+): {
   biomassEmissionsKgCO2e: number;
   productionEmissionsKgCO2e: number;
   productionEmissionsAllocatedKgCO2e: number;
@@ -166,7 +180,7 @@ export function getEProjectBreakdown(input: EProjectInput): {
   } = input;
 
   const biomassEmissionsKgCO2e = calculateBiomassEmissions(biomassEmissions);
-  const productionEmissionsKgCO2e = calculateProductionEmissions(productionEmissions);
+  const productionEmissionsKgCO2e = calculateProductionEmissions(productionEmissions, gwp);
   const productionEmissionsAllocatedKgCO2e = productionEmissionsKgCO2e * coProductAllocationFactor;
   const embodiedEmissionsKgCO2e = calculateEmbodiedEmissions(embodiedEmissions);
   const endUseEmissionsKgCO2e = calculateEndUseEmissions(endUseEmissions);
@@ -193,8 +207,8 @@ export function getEProjectBreakdown(input: EProjectInput): {
       biomass: biomassEmissions,
       production: {
         ...productionEmissions,
-        stackCH4CO2e: productionEmissions.stackCH4Kg * GWP_VALUES.CH4,
-        stackN2OCO2e: productionEmissions.stackN2OKg * GWP_VALUES.N2O,
+        stackCH4CO2e: productionEmissions.stackCH4Kg * gwp.ch4NonFossil,
+        stackN2OCO2e: productionEmissions.stackN2OKg * gwp.n2o,
       },
       embodied: embodiedEmissions,
       endUse: endUseEmissions,
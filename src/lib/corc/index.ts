@@ -6,7 +6,9 @@
  * CORCs = C_stored − C_baseline − C_loss − E_project − E_leakage
  *
  * This module provides all calculations required for CORC issuance
- * according to the Puro Standard for biochar carbon removal.
+ * according to the Puro Standard for biochar carbon removal. Verra VM0044
+ * is supported alongside it through the methodology registry, so a period
+ * can be reported under each standard it is registered with.
  */
 
 // Main calculator
@@ -18,6 +20,31 @@ export {
   calculateEfficiencyMetrics,
 } from './calculator';
 
+// Methodology editions by version
+export {
+  METHODOLOGY_VERSIONS,
+  CURRENT_METHODOLOGY_VERSION,
+  createPuroBiocharRuleset,
+  createVm0044Ruleset,
+  getMethodology,
+  listMethodologies,
+  compareMethodologies,
+} from './methodology';
+export type {
+  MethodologyRuleset,
+  MethodologyCalculation,
+  MethodologyValidation,
+  MethodologyComparisonEntry,
+} from './methodology';
+
+// Verra VM0044 calculator (100-year permanence)
+export {
+  calculateVm0044,
+  getVm0044CalculationBreakdown,
+  validateVm0044Input,
+  getPermanenceFactor,
+} from './vm0044';
+
 // Carbon stored calculation (Equation 6.1)
 export {
   calculateCStored,
@@ -36,6 +63,13 @@ export {
   estimatePersistenceRange,
 } from './c-loss';
 
+// Disaggregated carbon storage (per batch × sequestration event)
+export {
+  calculateStorageLine,
+  calculateStorageLines,
+  aggregateStorageLines,
+} from './storage-lines';
+
 // Biochar quality (Equation 6.5)
 export {
   calculateHCorgRatio,
@@ -45,6 +79,34 @@ export {
   getQualityClassification,
 } from './quality';
 
+// Lab replicate statistics (Section 3.5)
+export {
+  summarizeReplicates,
+  modifiedZScores,
+  findOutliers,
+  tCritical95,
+} from './lab-statistics';
+
+// Contaminant limits by end-use (WBC Table 3.3)
+export {
+  CONTAMINANT_PARAMETERS,
+  WBC_QUALITY_CLASS_LABELS,
+  wbcClassForEndUse,
+  checkContaminantPanel,
+} from './contaminants';
+
+// Pyrolysis temperature log
+export { analyzeTemperatureLog } from './temperature';
+
+// Stack emissions (Section 3.5)
+export {
+  concentrationToMgPerNm3,
+  stackMassFlowKgPerHour,
+  integrateContinuousSamples,
+  scaleSpotSamples,
+  estimateStackEmission,
+} from './stack-emissions';
+
 // Project emissions (Equations 7.1, 7.2)
 export {
   calculateBiomassEmissions,
@@ -73,10 +135,30 @@ export {
 export {
   // Persistence model parameters (Table 6.1)
   PERSISTENCE_PARAMS,
-  // Global Warming Potentials (AR5)
+  // Global Warming Potentials (AR4/AR5/AR6; GWP_VALUES is the default basis)
+  GWP_SETS,
+  DEFAULT_GWP_SET,
   GWP_VALUES,
+  // Calculation modes
+  CALCULATION_MODES,
   // Quality threshold
   H_C_ORG_THRESHOLD,
+  // Lab replicate statistics
+  LAB_CONFIDENCE_LEVEL,
+  LAB_OUTLIER_Z_THRESHOLD,
+  LAB_SINGLE_REPLICATE_RELATIVE_SD,
+  // Pyrolysis temperature monitoring
+  PYROLYSIS_MIN_TEMPERATURE_C,
+  TEMPERATURE_MAX_GAP_SECONDS,
+  // Contaminant limits (Table 3.3)
+  WBC_CONTAMINANT_LIMITS,
+  // Stack emission conversion and defaults
+  NORMAL_MOLAR_VOLUME_L,
+  STACK_GAS_MOLAR_MASS,
+  DEFAULT_STACK_EMISSION_FACTORS,
+  // Estimate placeholders
+  ESTIMATE_ORGANIC_CARBON_PERCENT,
+  ESTIMATE_HYDROGEN_PERCENT,
   // Conversion factor
   CO2_TO_C_RATIO,
   // iLUC emission factors
@@ -89,6 +171,9 @@ export {
   BASELINE_TYPES,
   // Calculation version
   CALCULATION_VERSION,
+  // Methodology editions
+  PURO_BIOCHAR_2025_V1,
+  VERRA_VM0044_V1,
 } from './constants';
 
 // Types
@@ -96,6 +181,26 @@ export type {
   // Quality inputs
   HCorgInput,
   QualityValidationResult,
+  ReplicateStatistics,
+  // Contaminant panel
+  WbcQualityClass,
+  ContaminantParameter,
+  ContaminantPanel,
+  ContaminantResult,
+  ContaminantCheck,
+  // Temperature log
+  TemperatureSample,
+  TemperatureMonitoringRules,
+  TemperatureGap,
+  TemperatureExcursion,
+  TemperatureProfile,
+  // Stack emissions
+  StackGas,
+  StackConcentrationUnit,
+  StackGasSample,
+  StackEmissionSource,
+  StackEmissionInput,
+  StackEmissionEstimate,
   // Carbon stored input
   CStoredInput,
   // Persistence input
@@ -111,7 +216,21 @@ export type {
   MarketActivityLeakage,
   LeakageInput,
   ILUCInput,
+  // Disaggregated storage lines
+  CarbonStorageLineInput,
+  CarbonStorageLineResult,
+  // GWP basis
+  GwpSetId,
+  GwpSet,
+  // Methodology editions
+  PersistenceParams,
+  MethodologyStandard,
+  MethodologyRules,
+  PuroBiocharRules,
+  PermanenceFactorClass,
+  Vm0044Rules,
   // Main calculation types
+  CalculationMode,
   BaselineType,
   PermanenceType,
   CORCCalculationInput,
@@ -0,0 +1,139 @@
+/**
+ * Lab Replicate Statistics
+ * Puro.earth Biochar Methodology - Section 3.5 (sampling and analysis)
+ *
+ * Replicate or composite samples of a production batch are summarised by
+ * their mean and sample standard deviation. The calculation takes the
+ * lower confidence bound of the C_org mean rather than any single result,
+ * so more replicates with less spread earn a value closer to the mean.
+ */
+
+import { LAB_OUTLIER_Z_THRESHOLD, LAB_SINGLE_REPLICATE_RELATIVE_SD } from './constants';
+import type { ReplicateStatistics } from './types';
+
+// One-sided Student t critical values at 95% confidence by degrees of
+// freedom; between tabulated values the next lower df is used, which
+// gives a slightly wider (more conservative) bound
+const T_CRITICAL_95: Array<[number, number]> = [
+  [1, 6.314], [2, 2.92], [3, 2.353], [4, 2.132], [5, 2.015],
+  [6, 1.943], [7, 1.895], [8, 1.86], [9, 1.833], [10, 1.812],
+  [11, 1.796], [12, 1.782], [13, 1.771], [14, 1.761], [15, 1.753],
+  [16, 1.746], [17, 1.74], [18, 1.734], [19, 1.729], [20, 1.725],
+  [21, 1.721], [22, 1.717], [23, 1.714], [24, 1.711], [25, 1.708],
+  [26, 1.706], [27, 1.703], [28, 1.701], [29, 1.699], [30, 1.697],
+  [40, 1.684], [60, 1.671], [120, 1.658],
+];
+
+// One-sided 95% normal quantile, for a spread that is assumed rather than
+// estimated from the sample
+const Z_95 = 1.645;
+
+/**
+ * One-sided 95% Student t critical value
+ *
+ * @param degreesOfFreedom - n − 1 for a sample of n replicates (≥ 1)
+ */
+export function tCritical95(degreesOfFreedom: number): number {
+  if (degreesOfFreedom < 1) {
+    throw new Error('Degrees of freedom must be at least 1');
+  }
+  let value = T_CRITICAL_95[0][1];
+  for (const [df, t] of T_CRITICAL_95) {
+    if (df > degreesOfFreedom) break;
+    value = t;
+  }
+  return value;
+}
+
+function median(sorted: number[]): number {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Modified z-score of each value (Iglewicz & Hoaglin)
+ *
+ * M_i = 0.6745 × (x_i − median) / MAD
+ *
+ * When more than half the values are identical the MAD is zero and the
+ * mean absolute deviation is used instead (M_i = (x_i − median) / (1.2533 × MeanAD)).
+ * Fewer than three values have no meaningful spread and score zero.
+ *
+ * @param values - Replicate results
+ * @returns Modified z-score per value, in input order
+ */
+export function modifiedZScores(values: number[]): number[] {
+  if (values.length < 3) return values.map(() => 0);
+
+  const med = median([...values].sort((a, b) => a - b));
+  const deviations = values.map((v) => Math.abs(v - med));
+  const mad = median([...deviations].sort((a, b) => a - b));
+
+  if (mad > 0) {
+    return values.map((v) => (0.6745 * (v - med)) / mad);
+  }
+  const meanAD = deviations.reduce((a, b) => a + b, 0) / values.length;
+  return meanAD > 0
+    ? values.map((v) => (v - med) / (1.253314 * meanAD))
+    : values.map(() => 0);
+}
+
+/**
+ * Indices of replicates whose modified z-score exceeds the outlier threshold
+ */
+export function findOutliers(values: number[], threshold = LAB_OUTLIER_Z_THRESHOLD): number[] {
+  return modifiedZScores(values)
+    .map((z, i) => (Math.abs(z) > threshold ? i : -1))
+    .filter((i) => i >= 0);
+}
+
+/**
+ * Mean, sample standard deviation and one-sided 95% confidence bounds of
+ * a set of replicates
+ *
+ * With a single replicate there is no spread to estimate: standardDeviation
+ * is null and the bounds assume LAB_SINGLE_REPLICATE_RELATIVE_SD, so one
+ * result never counts at its full value.
+ *
+ * @param values - Replicate results (at least one)
+ */
+export function summarizeReplicates(values: number[]): ReplicateStatistics {
+  if (values.length === 0) {
+    throw new Error('At least one replicate is required');
+  }
+
+  const n = values.length;
+  const mean = values.reduce((a, b) => a + b, 0) / n;
+
+  if (n === 1) {
+    const margin = Z_95 * Math.abs(mean) * LAB_SINGLE_REPLICATE_RELATIVE_SD;
+    return {
+      n,
+      mean,
+      standardDeviation: null,
+      standardError: null,
+      lowerConfidenceBound: mean - margin,
+      upperConfidenceBound: mean + margin,
+      min: mean,
+      max: mean,
+      spreadAssumed: true,
+    };
+  }
+
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1);
+  const standardDeviation = Math.sqrt(variance);
+  const standardError = standardDeviation / Math.sqrt(n);
+  const margin = tCritical95(n - 1) * standardError;
+
+  return {
+    n,
+    mean,
+    standardDeviation,
+    standardError,
+    lowerConfidenceBound: mean - margin,
+    upperConfidenceBound: mean + margin,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    spreadAssumed: false,
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Methodology Registry
+ *
+ * Each edition of each supported standard is registered under its version
+ * with the constants, equations and input validation it was published
+ * with. A monitoring period pins the version it is calculated and issued
+ * under, and may list further versions to be calculated alongside it, so
+ * verified periods stay reproducible after a new edition is added.
+ *
+ * All methodologies take the same calculation input and return a result
+ * in the same shape; they differ in how persistence is modelled. An
+ * edition that changes only constants reuses its standard's factory; one
+ * that changes the equations brings its own implementation.
+ */
+
+import { CALCULATION_VERSION, PURO_BIOCHAR_2025_V1, VERRA_VM0044_V1 } from './constants';
+import type {
+  CORCCalculationInput,
+  CORCCalculationResult,
+  MethodologyRules,
+  MethodologyStandard,
+  PuroBiocharRules,
+  Vm0044Rules,
+} from './types';
+import { calculateCORCs, getCORCCalculationBreakdown, validateCORCInput } from './calculator';
+import { calculateVm0044, getVm0044CalculationBreakdown, validateVm0044Input } from './vm0044';
+import type { getCStoredBreakdown } from './c-stored';
+import type { getEProjectBreakdown } from './e-project';
+import type { getELeakageBreakdown } from './e-leakage';
+
+/**
+ * A calculation with its intermediate values
+ */
+export interface MethodologyCalculation {
+  result: CORCCalculationResult;
+  cStoredBreakdown: ReturnType<typeof getCStoredBreakdown>;
+  /** Values of the methodology's persistence model */
+  persistenceBreakdown: Record<string, number>;
+  projectEmissionsBreakdown: ReturnType<typeof getEProjectBreakdown>;
+  leakageBreakdown: ReturnType<typeof getELeakageBreakdown>;
+  formulaSteps: Array<{ step: string; formula: string; value: number; unit: string }>;
+}
+
+export interface MethodologyValidation {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface MethodologyRuleset {
+  rules: MethodologyRules;
+  calculate(input: CORCCalculationInput): CORCCalculationResult;
+  calculateWithBreakdown(input: CORCCalculationInput): MethodologyCalculation;
+  validate(input: CORCCalculationInput): MethodologyValidation;
+}
+
+/**
+ * Puro.earth Biochar: the Equation 5.1 calculator with an edition's constants
+ */
+export function createPuroBiocharRuleset(rules: PuroBiocharRules): MethodologyRuleset {
+  return {
+    rules,
+    calculate: (input) => calculateCORCs(input, rules),
+    calculateWithBreakdown: (input) => getCORCCalculationBreakdown(input, rules),
+    validate: (input) => validateCORCInput(input, rules),
+  };
+}
+
+/**
+ * Verra VM0044: 100-year permanence factors with an edition's constants
+ */
+export function createVm0044Ruleset(rules: Vm0044Rules): MethodologyRuleset {
+  return {
+    rules,
+    calculate: (input) => calculateVm0044(input, rules),
+    calculateWithBreakdown: (input) => getVm0044CalculationBreakdown(input, rules),
+    validate: (input) => validateVm0044Input(input, rules),
+  };
+}
+
+/**
+ * Registered editions by version; entries are never changed or removed
+ * once a period has been calculated under them
+ */
+export const METHODOLOGY_VERSIONS: Record<string, MethodologyRuleset> = {
+  [PURO_BIOCHAR_2025_V1.version]: createPuroBiocharRuleset(PURO_BIOCHAR_2025_V1),
+  [VERRA_VM0044_V1.version]: createVm0044Ruleset(VERRA_VM0044_V1),
+};
+
+/**
+ * Version new monitoring periods are created under unless they choose
+ * another
+ */
+export const CURRENT_METHODOLOGY_VERSION = CALCULATION_VERSION;
+
+/**
+ * @returns The registered edition, or null for an unknown version
+ */
+export function getMethodology(version: string): MethodologyRuleset | null {
+  return METHODOLOGY_VERSIONS[version] ?? null;
+}
+
+/**
+ * Registered editions, newest effective date first
+ */
+export function listMethodologies(): MethodologyRules[] {
+  return Object.values(METHODOLOGY_VERSIONS)
+    .map((m) => m.rules)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom));
+}
+
+/**
+ * One methodology's result in a side-by-side comparison
+ */
+export interface MethodologyComparisonEntry {
+  version: string;
+  /** null when the version is not registered */
+  standard: MethodologyStandard | null;
+  name: string;
+  creditUnit: string | null;
+  validation: MethodologyValidation;
+  /** null when the input fails the methodology's validation */
+  result: CORCCalculationResult | null;
+}
+
+/**
+ * Calculate the same input under several methodology versions
+ *
+ * A version that is not registered or whose validation fails is listed
+ * with its errors instead of a result, so the others are still reported.
+ *
+ * @param input - Calculation input shared by all versions
+ * @param versions - Versions in display order; duplicates are dropped
+ */
+export function compareMethodologies(
+  input: CORCCalculationInput,
+  versions: string[]
+): MethodologyComparisonEntry[] {
+  return [...new Set(versions)].map((version) => {
+    const methodology = getMethodology(version);
+    if (!methodology) {
+      return {
+        version,
+        standard: null,
+        name: version,
+        creditUnit: null,
+        validation: { isValid: false, errors: [`Methodology version ${version} is not registered`], warnings: [] },
+        result: null,
+      };
+    }
+
+    const { rules } = methodology;
+    const entry = { version, standard: rules.standard, name: rules.name, creditUnit: rules.creditUnit };
+    const validation = methodology.validate(input);
+    if (!validation.isValid) {
+      return { ...entry, validation, result: null };
+    }
+    try {
+      return { ...entry, validation, result: methodology.calculate(input) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ...entry, validation: { ...validation, isValid: false, errors: [message] }, result: null };
+    }
+  });
+}
@@ -3,8 +3,8 @@
  * Puro.earth Biochar Methodology - Section 3.5 & Equation 6.5
  */
 
-import { H_C_ORG_THRESHOLD } from './constants';
-import type { HCorgInput, QualityValidationResult } from './types';
+import { PURO_BIOCHAR_2025_V1 } from './constants';
+import type { HCorgInput, MethodologyRules, QualityValidationResult } from './types';
 
 /**
  * Calculate H/C_org molar ratio (Equation 6.5)
@@ -50,29 +50,38 @@ export function calculateHCorgRatio(input: HCorgInput): number {
  * and long-term stability.
  *
  * @param hCorgRatio - Calculated H/C_org molar ratio
+ * @param rules - Methodology edition (default 2025 V1)
  * @returns true if biochar passes quality threshold
  */
-export function validateBiocharQuality(hCorgRatio: number): boolean {
-  return hCorgRatio <= H_C_ORG_THRESHOLD;
+export function validateBiocharQuality(
+  hCorgRatio: number,
+  rules: MethodologyRules = PURO_BIOCHAR_2025_V1
+): boolean {
+  return hCorgRatio <= rules.hCorgThreshold;
 }
 
 /**
  * Full quality validation with detailed result
  *
  * @param input - Hydrogen and organic carbon percentages
+ * @param rules - Methodology edition (default 2025 V1)
  * @returns Detailed validation result
  */
-export function validateQuality(input: HCorgInput): QualityValidationResult {
+export function validateQuality(
+  input: HCorgInput,
+  rules: MethodologyRules = PURO_BIOCHAR_2025_V1
+): QualityValidationResult {
   const hCorgRatio = calculateHCorgRatio(input);
-  const isValid = validateBiocharQuality(hCorgRatio);
+  const isValid = validateBiocharQuality(hCorgRatio, rules);
+  const threshold = rules.hCorgThreshold;
 
   return {
     hCorgRatio,
     isValid,
-    threshold: H_C_ORG_THRESHOLD,
+    threshold,
     message: isValid
-      ? `Biochar passes quality threshold (H/C_org = ${hCorgRatio.toFixed(3)} <= ${H_C_ORG_THRESHOLD})`
-      : `Biochar fails quality threshold (H/C_org = ${hCorgRatio.toFixed(3)} > ${H_C_ORG_THRESHOLD}). Biochar must have H/C_org <= 0.7 for CORC eligibility.`,
+      ? `Biochar passes quality threshold (H/C_org = ${hCorgRatio.toFixed(3)} <= ${threshold})`
+      : `Biochar fails quality threshold (H/C_org = ${hCorgRatio.toFixed(3)} > ${threshold}). Biochar must have H/C_org <= ${threshold} for CORC eligibility.`,
   };
 }
 
@@ -0,0 +1,142 @@
+/**
+ * Stack Emissions
+ * Puro.earth Biochar Methodology - Section 3.5 (direct emissions at stack)
+ *
+ * CH4 and N2O leave the stack at a measured concentration in a measured
+ * flue-gas flow. Continuous (CEMS) samples are integrated over the
+ * pyrolysis window; spot samples are averaged and scaled to it. A batch
+ * without usable measurements falls back to the emission entered on it,
+ * then to the default factor per tonne of biochar.
+ */
+
+import {
+  DEFAULT_STACK_EMISSION_FACTORS,
+  NORMAL_MOLAR_VOLUME_L,
+  STACK_GAS_MOLAR_MASS,
+} from './constants';
+import type {
+  StackConcentrationUnit,
+  StackEmissionEstimate,
+  StackEmissionInput,
+  StackGas,
+  StackGasSample,
+} from './types';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Convert a stack concentration to mg/Nm³
+ */
+export function concentrationToMgPerNm3(
+  concentration: number,
+  unit: StackConcentrationUnit,
+  gas: StackGas
+): number {
+  return unit === 'ppm'
+    ? (concentration * STACK_GAS_MOLAR_MASS[gas]) / NORMAL_MOLAR_VOLUME_L
+    : concentration;
+}
+
+/**
+ * Mass flow of the gas at the time of a sample (kg/h)
+ */
+export function stackMassFlowKgPerHour(sample: StackGasSample, gas: StackGas): number {
+  const mgPerNm3 = concentrationToMgPerNm3(sample.concentration, sample.concentrationUnit, gas);
+  return (mgPerNm3 * sample.flueGasFlowNm3PerHour) / 1e6;
+}
+
+/**
+ * Integrate continuous samples over time (kg)
+ *
+ * Between samples the mass flow is interpolated linearly. With a window,
+ * samples outside it are ignored and the first and last values are held
+ * to its edges; without one the samples' own span is covered.
+ *
+ * @returns null when the samples cover no time
+ */
+export function integrateContinuousSamples(
+  samples: StackGasSample[],
+  gas: StackGas,
+  window?: { start: Date; end: Date } | null
+): number | null {
+  const points = samples
+    .filter((s) => !window || (s.sampledAt >= window.start && s.sampledAt <= window.end))
+    .map((s) => ({ time: s.sampledAt.getTime(), kgPerHour: stackMassFlowKgPerHour(s, gas) }))
+    .sort((a, b) => a.time - b.time);
+  if (points.length === 0) return null;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const start = window ? window.start.getTime() : first.time;
+  const end = window ? window.end.getTime() : last.time;
+  if (end <= start) return null;
+
+  let kg = first.kgPerHour * (first.time - start) / MS_PER_HOUR;
+  for (let i = 1; i < points.length; i++) {
+    const hours = (points[i].time - points[i - 1].time) / MS_PER_HOUR;
+    kg += ((points[i - 1].kgPerHour + points[i].kgPerHour) / 2) * hours;
+  }
+  kg += last.kgPerHour * (end - last.time) / MS_PER_HOUR;
+  return kg;
+}
+
+/**
+ * Scale spot samples to the pyrolysis window (kg): mean mass flow × hours
+ *
+ * @returns null without samples or a window
+ */
+export function scaleSpotSamples(
+  samples: StackGasSample[],
+  gas: StackGas,
+  window: { start: Date; end: Date } | null
+): number | null {
+  if (samples.length === 0 || !window) return null;
+  const hours = (window.end.getTime() - window.start.getTime()) / MS_PER_HOUR;
+  if (hours <= 0) return null;
+
+  const meanKgPerHour = samples.reduce((sum, s) => sum + stackMassFlowKgPerHour(s, gas), 0) / samples.length;
+  return meanKgPerHour * hours;
+}
+
+/**
+ * A batch's stack emission of one gas, from the best data available:
+ * CEMS, then spot samples, then the entered value, then the default factor
+ */
+export function estimateStackEmission(input: StackEmissionInput): StackEmissionEstimate {
+  const { gas, cemsSamples, spotSamples, window, manualKg, dryMassTonnes } = input;
+
+  const cemsKg = integrateContinuousSamples(cemsSamples, gas, window);
+  if (cemsKg !== null) {
+    return {
+      gas,
+      kg: cemsKg,
+      source: 'cems',
+      sampleCount: cemsSamples.length,
+      basis: `${cemsSamples.length} CEMS sample(s) integrated over ${window ? 'the pyrolysis window' : 'the sampled period'}`,
+    };
+  }
+
+  const spotKg = scaleSpotSamples(spotSamples, gas, window);
+  if (spotKg !== null) {
+    return {
+      gas,
+      kg: spotKg,
+      source: 'spot',
+      sampleCount: spotSamples.length,
+      basis: `Mean of ${spotSamples.length} spot sample(s) scaled to the pyrolysis window`,
+    };
+  }
+
+  if (manualKg !== null) {
+    return { gas, kg: manualKg, source: 'manual', sampleCount: 0, basis: 'Entered on the batch' };
+  }
+
+  const factor = DEFAULT_STACK_EMISSION_FACTORS[gas];
+  return {
+    gas,
+    kg: factor * dryMassTonnes,
+    source: 'default',
+    sampleCount: 0,
+    basis: `Default ${factor} kg ${gas} per dry tonne × ${dryMassTonnes.toFixed(3)} t`,
+  };
+}
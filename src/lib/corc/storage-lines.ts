@@ -0,0 +1,120 @@
+/**
+ * Disaggregated Carbon Storage
+ * Puro.earth Biochar Methodology - Section 6, Equations 6.1, 6.3 & 6.4
+ *
+ * The persistence fraction is nonlinear in soil temperature and depends on
+ * each batch's H/C_org, so averaging both across a period misstates C_loss.
+ * In disaggregated mode C_stored and C_loss are computed for every
+ * production batch × sequestration event and then summed.
+ */
+
+import { PURO_BIOCHAR_2025_V1 } from './constants';
+import type { CarbonStorageLineInput, CarbonStorageLineResult, PuroBiocharRules } from './types';
+import { calculateHCorgRatio, validateBiocharQuality } from './quality';
+import { calculateCStored } from './c-stored';
+import { calculatePersistenceFraction, calculateCLoss } from './c-loss';
+
+/**
+ * Calculate C_stored, PF and C_loss for a single storage line
+ *
+ * @param line - Biochar quantity, quality and soil temperature of one batch × event
+ * @param rules - Methodology edition (default 2025 V1)
+ * @returns Line with calculated H/C_org, C_stored, PF and C_loss
+ */
+export function calculateStorageLine(
+  line: CarbonStorageLineInput,
+  rules: PuroBiocharRules = PURO_BIOCHAR_2025_V1
+): CarbonStorageLineResult {
+  const hCorgRatio = calculateHCorgRatio({
+    hydrogenPercent: line.hydrogenPercent,
+    organicCarbonPercent: line.organicCarbonPercent,
+  });
+
+  const cStoredTCO2e = calculateCStored({
+    biocharDryMassTonnes: line.biocharDryMassTonnes,
+    organicCarbonPercent: line.organicCarbonPercent,
+  });
+
+  const persistenceFractionPercent = calculatePersistenceFraction({
+    hCorgRatio,
+    meanSoilTempC: line.meanSoilTempC,
+  }, rules);
+
+  const cLossTCO2e = calculateCLoss(cStoredTCO2e, persistenceFractionPercent);
+
+  return {
+    ...line,
+    hCorgRatio,
+    qualityValid: validateBiocharQuality(hCorgRatio, rules),
+    cStoredTCO2e,
+    persistenceFractionPercent,
+    cLossTCO2e,
+  };
+}
+
+/**
+ * Calculate and sum all storage lines
+ *
+ * The effective persistence fraction is the C_stored-weighted PF,
+ * i.e. PF_eff = 100 × (1 - ΣC_loss / ΣC_stored).
+ *
+ * @param lines - Storage lines (production batch × sequestration event)
+ * @param rules - Methodology edition (default 2025 V1)
+ * @returns Per-line results and period totals
+ */
+export function calculateStorageLines(
+  lines: CarbonStorageLineInput[],
+  rules: PuroBiocharRules = PURO_BIOCHAR_2025_V1
+): {
+  lines: CarbonStorageLineResult[];
+  cStoredTCO2e: number;
+  cLossTCO2e: number;
+  persistenceFractionPercent: number;
+} {
+  const results = lines.map((line) => calculateStorageLine(line, rules));
+
+  const cStoredTCO2e = results.reduce((sum, l) => sum + l.cStoredTCO2e, 0);
+  const cLossTCO2e = results.reduce((sum, l) => sum + l.cLossTCO2e, 0);
+  const persistenceFractionPercent = cStoredTCO2e > 0
+    ? (1 - cLossTCO2e / cStoredTCO2e) * 100
+    : 0;
+
+  return {
+    lines: results,
+    cStoredTCO2e,
+    cLossTCO2e,
+    persistenceFractionPercent,
+  };
+}
+
+/**
+ * Mass-weighted aggregate of storage lines
+ *
+ * Used to fill the period-level inputs so that aggregate C_stored
+ * equals the sum of the line values.
+ *
+ * @param lines - Storage lines
+ * @returns Total dry mass and mass-weighted C_org, H and soil temperature
+ */
+export function aggregateStorageLines(lines: CarbonStorageLineInput[]): {
+  biocharDryMassTonnes: number;
+  organicCarbonPercent: number;
+  hydrogenPercent: number;
+  meanSoilTempC: number;
+} {
+  const biocharDryMassTonnes = lines.reduce((sum, l) => sum + l.biocharDryMassTonnes, 0);
+
+  if (biocharDryMassTonnes <= 0) {
+    return { biocharDryMassTonnes: 0, organicCarbonPercent: 0, hydrogenPercent: 0, meanSoilTempC: 0 };
+  }
+
+  const weighted = (pick: (l: CarbonStorageLineInput) => number) =>
+    lines.reduce((sum, l) => sum + pick(l) * l.biocharDryMassTonnes, 0) / biocharDryMassTonnes;
+
+  return {
+    biocharDryMassTonnes,
+    organicCarbonPercent: weighted((l) => l.organicCarbonPercent),
+    hydrogenPercent: weighted((l) => l.hydrogenPercent),
+    meanSoilTempC: weighted((l) => l.meanSoilTempC),
+  };
+}
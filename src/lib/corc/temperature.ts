@@ -0,0 +1,109 @@
+/**
+ * Pyrolysis Temperature Log
+ * Puro.earth Biochar Methodology - Section 3.4 (production monitoring)
+ *
+ * The reactor temperature is logged continuously through each batch. The
+ * log is summarised as min/max/avg and the residence time at or above the
+ * facility's minimum pyrolysis temperature. A log with silences longer
+ * than the allowed gap, or that drops below the threshold once pyrolysis
+ * has reached it, is flagged for review.
+ */
+
+import type {
+  TemperatureExcursion,
+  TemperatureGap,
+  TemperatureMonitoringRules,
+  TemperatureProfile,
+  TemperatureSample,
+} from './types';
+
+/**
+ * Analyse the temperature log of one batch
+ *
+ * @param samples - Readings in any order
+ * @param rules - Threshold and maximum gap
+ * @param window - Pyrolysis start and end; silences at either end of the
+ *   window count as gaps, and a window without readings is one gap
+ */
+export function analyzeTemperatureLog(
+  samples: TemperatureSample[],
+  rules: TemperatureMonitoringRules,
+  window?: { start: Date; end: Date } | null
+): TemperatureProfile {
+  const readings = [...samples].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  const maxGapMs = rules.maxGapSeconds * 1000;
+  const above = (s: TemperatureSample) => s.temperatureC >= rules.minTemperatureC;
+
+  // Silences, including the stretches before the first and after the last reading
+  const gaps: TemperatureGap[] = [];
+  const checkGap = (from: Date, to: Date) => {
+    const ms = to.getTime() - from.getTime();
+    if (ms > maxGapMs) gaps.push({ from, to, seconds: ms / 1000 });
+  };
+  const times = readings.map((r) => r.recordedAt);
+  if (window) {
+    if (times.length === 0) {
+      checkGap(window.start, window.end);
+    } else {
+      checkGap(window.start, times[0]);
+    }
+  }
+  for (let i = 1; i < times.length; i++) {
+    checkGap(times[i - 1], times[i]);
+  }
+  if (window && times.length > 0) {
+    checkGap(times[times.length - 1], window.end);
+  }
+
+  // Residence time: an interval counts in full when both ends are at or
+  // above the threshold and half when one is; intervals that are gaps
+  // count nothing
+  let residenceMs = 0;
+  for (let i = 1; i < readings.length; i++) {
+    const ms = readings[i].recordedAt.getTime() - readings[i - 1].recordedAt.getTime();
+    if (ms > maxGapMs) continue;
+    const ends = Number(above(readings[i - 1])) + Number(above(readings[i]));
+    residenceMs += (ms * ends) / 2;
+  }
+
+  // Excursions: readings below the threshold between the first and last
+  // reading at or above it; heat-up and cool-down are not excursions
+  const excursions: TemperatureExcursion[] = [];
+  const first = readings.findIndex(above);
+  const last = readings.findLastIndex(above);
+  let run: TemperatureExcursion | null = null;
+  for (let i = first + 1; first >= 0 && i < last; i++) {
+    const reading = readings[i];
+    if (above(reading)) {
+      run = null;
+      continue;
+    }
+    if (run) {
+      run.to = reading.recordedAt;
+      run.minTemperatureC = Math.min(run.minTemperatureC, reading.temperatureC);
+      run.readingCount++;
+    } else {
+      run = {
+        from: reading.recordedAt,
+        to: reading.recordedAt,
+        minTemperatureC: reading.temperatureC,
+        readingCount: 1,
+      };
+      excursions.push(run);
+    }
+  }
+
+  // Logs run to tens of thousands of readings, too many to spread into Math.min
+  const values = readings.map((r) => r.temperatureC);
+  const hasValues = values.length > 0;
+  return {
+    readingCount: readings.length,
+    minC: hasValues ? values.reduce((min, v) => Math.min(min, v)) : null,
+    maxC: hasValues ? values.reduce((max, v) => Math.max(max, v)) : null,
+    avgC: hasValues ? values.reduce((sum, v) => sum + v, 0) / values.length : null,
+    residenceMinutes: residenceMs / 60000,
+    gaps,
+    excursions,
+    status: gaps.length > 0 || excursions.length > 0 ? 'flagged' : 'passed',
+  };
+}
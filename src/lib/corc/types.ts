@@ -13,6 +13,193 @@ export interface HCorgInput {
   organicCarbonPercent: number;
 }
 
+/**
+ * Summary of lab replicate results for one parameter
+ */
+export interface ReplicateStatistics {
+  /** Number of replicates */
+  n: number;
+  mean: number;
+  /** Sample standard deviation (n − 1); null for a single replicate */
+  standardDeviation: number | null;
+  standardError: number | null;
+  /** One-sided 95% lower confidence bound of the mean */
+  lowerConfidenceBound: number;
+  /** One-sided 95% upper confidence bound of the mean */
+  upperConfidenceBound: number;
+  min: number;
+  max: number;
+  /** Bounds use the default relative SD because there is a single replicate */
+  spreadAssumed: boolean;
+}
+
+/**
+ * WBC quality classes an end-use requires (Table 3.3)
+ */
+export type WbcQualityClass = 'agro' | 'material';
+
+/**
+ * Contaminant panel values recorded on a lab test
+ */
+export type ContaminantParameter =
+  | 'pah16MgKg'
+  | 'pah8MgKg'
+  | 'leadMgKg'
+  | 'cadmiumMgKg'
+  | 'copperMgKg'
+  | 'nickelMgKg'
+  | 'mercuryMgKg'
+  | 'zincMgKg'
+  | 'chromiumMgKg'
+  | 'arsenicMgKg'
+  | 'pcbMgKg'
+  | 'pcddfNgTeqKg'
+  | 'ashPercent'
+  | 'ph'
+  | 'specificSurfaceAreaM2G';
+
+export type ContaminantPanel = Record<ContaminantParameter, number | null>;
+
+export interface ContaminantResult {
+  parameter: ContaminantParameter;
+  value: number | null;
+  /** null for values that are only declared */
+  limit: number | null;
+  /** missing: not measured; declared: measured, no limit applies */
+  status: 'pass' | 'fail' | 'missing' | 'declared';
+}
+
+/**
+ * Contaminant panel checked against one quality class
+ */
+export interface ContaminantCheck {
+  qualityClass: WbcQualityClass;
+  /** incomplete when nothing fails but some values are not measured */
+  status: 'pass' | 'fail' | 'incomplete';
+  results: ContaminantResult[];
+  failures: ContaminantResult[];
+}
+
+/**
+ * One reactor temperature reading
+ */
+export interface TemperatureSample {
+  recordedAt: Date;
+  temperatureC: number;
+}
+
+/**
+ * Monitoring rules for a pyrolysis temperature log
+ */
+export interface TemperatureMonitoringRules {
+  /** Residence time is counted at or above this temperature */
+  minTemperatureC: number;
+  /** Longest interval between readings before the log has a gap */
+  maxGapSeconds: number;
+}
+
+/**
+ * Interval of the pyrolysis window without readings
+ */
+export interface TemperatureGap {
+  from: Date;
+  to: Date;
+  seconds: number;
+}
+
+/**
+ * Run of readings below the threshold once pyrolysis has reached it
+ */
+export interface TemperatureExcursion {
+  from: Date;
+  to: Date;
+  minTemperatureC: number;
+  readingCount: number;
+}
+
+/**
+ * Pyrolysis temperature log of one batch, checked against the rules
+ */
+export interface TemperatureProfile {
+  readingCount: number;
+  /** null without readings */
+  minC: number | null;
+  maxC: number | null;
+  avgC: number | null;
+  /** Minutes at or above the threshold, over intervals shorter than the max gap */
+  residenceMinutes: number;
+  gaps: TemperatureGap[];
+  excursions: TemperatureExcursion[];
+  /** passed when the log has neither gaps nor excursions */
+  status: 'passed' | 'flagged';
+}
+
+/**
+ * IPCC assessment report a set of 100-year GWP values comes from
+ */
+export type GwpSetId = 'AR4' | 'AR5' | 'AR6';
+
+/**
+ * 100-year Global Warming Potentials of one assessment report
+ *
+ * AR6 distinguishes fossil methane (fuels, grid electricity) from
+ * non-fossil methane (biogenic, e.g. pyrolysis stack gas); earlier
+ * reports use one value for both.
+ */
+export interface GwpSet {
+  id: GwpSetId;
+  name: string;
+  co2: number;
+  ch4Fossil: number;
+  ch4NonFossil: number;
+  n2o: number;
+}
+
+/**
+ * Greenhouse gases measured at the stack (Section 3.5)
+ */
+export type StackGas = 'CH4' | 'N2O';
+
+export type StackConcentrationUnit = 'ppm' | 'mg_nm3';
+
+/**
+ * Stack gas concentration with the flue-gas flow at the time of sampling
+ */
+export interface StackGasSample {
+  sampledAt: Date;
+  concentration: number;
+  concentrationUnit: StackConcentrationUnit;
+  /** Dry flue-gas flow at normal conditions (Nm³/h) */
+  flueGasFlowNm3PerHour: number;
+}
+
+/**
+ * How a batch's stack emission was obtained, in order of preference
+ */
+export type StackEmissionSource = 'cems' | 'spot' | 'manual' | 'default';
+
+export interface StackEmissionInput {
+  gas: StackGas;
+  cemsSamples: StackGasSample[];
+  spotSamples: StackGasSample[];
+  /** Pyrolysis window the samples are scaled to */
+  window: { start: Date; end: Date } | null;
+  /** Emission entered on the batch (kg) */
+  manualKg: number | null;
+  /** Dry biochar mass the default factor applies to (tonnes) */
+  dryMassTonnes: number;
+}
+
+export interface StackEmissionEstimate {
+  gas: StackGas;
+  kg: number;
+  source: StackEmissionSource;
+  /** Samples behind a cems or spot estimate */
+  sampleCount: number;
+  /** How the value was derived, for the calculation record */
+  basis: string;
+}
+
 /**
  * Input for C_stored calculation (Equation 6.1)
  */
@@ -33,6 +220,42 @@ export interface PersistenceInput {
   meanSoilTempC: number;
 }
 
+/**
+ * Disaggregated carbon storage line (one production batch × sequestration event)
+ */
+export interface CarbonStorageLineInput {
+  /** Production batch the biochar came from */
+  productionBatchId: string;
+  /** Sequestration event the biochar was applied in */
+  sequestrationEventId: string;
+  /** Display label for reports */
+  label?: string;
+  /** Dry mass of biochar sequestered (tonnes) */
+  biocharDryMassTonnes: number;
+  /** Organic carbon content of the batch (%) */
+  organicCarbonPercent: number;
+  /** Hydrogen content of the batch (%) */
+  hydrogenPercent: number;
+  /** Mean annual soil temperature at the event's site (°C) */
+  meanSoilTempC: number;
+}
+
+/**
+ * Calculated carbon storage line
+ */
+export interface CarbonStorageLineResult extends CarbonStorageLineInput {
+  /** H/C_org molar ratio of the batch */
+  hCorgRatio: number;
+  /** Whether the batch passes the quality threshold */
+  qualityValid: boolean;
+  /** Carbon stored (tCO2e) - Equation 6.1 */
+  cStoredTCO2e: number;
+  /** Persistence fraction (%) - Equation 6.4 */
+  persistenceFractionPercent: number;
+  /** Carbon loss (tCO2e) - Equation 6.3 */
+  cLossTCO2e: number;
+}
+
 /**
  * Biomass sourcing emissions (E_biomass)
  */
@@ -147,6 +370,81 @@ export type BaselineType = 'NEW_BUILT' | 'RETROFIT_FACILITY' | 'CHARCOAL_REPURPO
  */
 export type PermanenceType = 'BC100+' | 'BC200+';
 
+/**
+ * Calculation mode
+ */
+export type CalculationMode = 'aggregated' | 'disaggregated';
+
+/**
+ * BC+200 regression coefficients for one soil temperature (Table 6.1)
+ */
+export interface PersistenceParams {
+  M: number;
+  a: number;
+}
+
+/**
+ * Carbon removal standard a methodology edition belongs to
+ */
+export type MethodologyStandard = 'puro' | 'verra';
+
+/**
+ * Constants every methodology edition declares
+ *
+ * A monitoring period pins the version it is calculated under, so a new
+ * edition gets a new rules object rather than changes to an existing one.
+ */
+export interface MethodologyRules {
+  /** Version identifier stored with every result, e.g. puro-biochar-2025-v1.0.0 */
+  version: string;
+  standard: MethodologyStandard;
+  /** Edition as published */
+  name: string;
+  /** Certificate the standard issues for one tCO2e removed (CORC, VCU) */
+  creditUnit: string;
+  /** Date from which new monitoring periods use the edition */
+  effectiveFrom: string;
+  /** Highest eligible H/C_org ratio */
+  hCorgThreshold: number;
+  /** H/C_org ratio above which a result carries a warning */
+  hCorgWarningThreshold: number;
+  /** GWP basis unless a facility or calculation chooses another */
+  defaultGwpSet: GwpSetId;
+  permanenceType: PermanenceType;
+}
+
+/**
+ * Puro.earth Biochar: persistence from the BC+200 model (Table 6.1)
+ */
+export interface PuroBiocharRules extends MethodologyRules {
+  standard: 'puro';
+  /** Persistence model coefficients keyed by whole °C */
+  persistenceParams: Record<number, PersistenceParams>;
+  /** Soil temperatures outside this range are clamped to it (°C) */
+  soilTempRangeC: { min: number; max: number };
+}
+
+/**
+ * 100-year permanence factor of biochar up to an H/C_org ratio
+ */
+export interface PermanenceFactorClass {
+  /** Highest H/C_org ratio of the class (inclusive) */
+  maxHCorgRatio: number;
+  /** Fraction of C_org remaining after 100 years (0-1) */
+  factor: number;
+  label: string;
+}
+
+/**
+ * Verra VM0044: persistence from a 100-year permanence factor by H/C_org
+ * class, independent of soil temperature
+ */
+export interface Vm0044Rules extends MethodologyRules {
+  standard: 'verra';
+  /** Classes in ascending maxHCorgRatio order */
+  permanenceFactors: PermanenceFactorClass[];
+}
+
 /**
  * Full CORC calculation input
  */
@@ -174,6 +472,16 @@ export interface CORCCalculationInput {
   projectEmissions: EProjectInput;
   /** Leakage emissions input */
   leakageEmissions: LeakageInput;
+
+  // Disaggregated mode
+  /**
+   * Per batch × event storage lines. When present, C_stored and C_loss are
+   * summed over the lines instead of computed from the aggregate values above.
+   */
+  storageLines?: CarbonStorageLineInput[];
+
+  /** GWP basis for gases converted to CO2e in the calculation (default AR5) */
+  gwpSet?: GwpSetId;
 }
 
 /**
@@ -209,6 +517,13 @@ export interface CORCCalculationResult {
   permanenceType: PermanenceType;
   /** Calculation version identifier */
   calculationVersion: string;
+  /** Whether C_stored and C_loss were computed from the aggregate or per storage line */
+  calculationMode: CalculationMode;
+  /** GWP basis the stack gases were converted with */
+  gwpSet: GwpSetId;
+
+  /** Per-line results (disaggregated mode only) */
+  storageLines?: CarbonStorageLineResult[];
 
   // Detailed breakdown
   breakdown: {
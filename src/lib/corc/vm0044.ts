@@ -0,0 +1,338 @@
+/**
+ * Verra VM0044 Biochar Calculator
+ * VM0044 v1.0 - Section 8 (quantification of removals)
+ *
+ * Net removals = C_stored − C_baseline − C_loss − E_project − E_leakage
+ *
+ * The terms are those of the Puro calculator except persistence: VM0044
+ * credits the carbon remaining after 100 years, taken from a permanence
+ * factor by H/C_org class rather than the temperature-dependent BC+200
+ * model. Project and leakage emissions use the same equations and inputs.
+ */
+
+import { GWP_SETS, VERRA_VM0044_V1 } from './constants';
+import type {
+  CarbonStorageLineInput,
+  CarbonStorageLineResult,
+  CORCCalculationInput,
+  CORCCalculationResult,
+  PermanenceFactorClass,
+  Vm0044Rules,
+} from './types';
+import { calculateHCorgRatio, validateBiocharQuality } from './quality';
+import { calculateCStored, getCStoredBreakdown } from './c-stored';
+import { calculateCLoss } from './c-loss';
+import { calculateEProject, getEProjectBreakdown } from './e-project';
+import { calculateELeakage, getELeakageBreakdown } from './e-leakage';
+
+/**
+ * Permanence factor class of a biochar
+ *
+ * @param hCorgRatio - H/C_org molar ratio
+ * @param rules - VM0044 edition (default v1.0)
+ * @returns The class, or null when the biochar is above every class
+ */
+export function getPermanenceFactor(
+  hCorgRatio: number,
+  rules: Vm0044Rules = VERRA_VM0044_V1
+): PermanenceFactorClass | null {
+  return rules.permanenceFactors.find((c) => hCorgRatio <= c.maxHCorgRatio) ?? null;
+}
+
+/**
+ * 100-year persistence fraction (%)
+ *
+ * @throws When the biochar is not eligible
+ */
+function permanencePercent(hCorgRatio: number, rules: Vm0044Rules): number {
+  const permanence = getPermanenceFactor(hCorgRatio, rules);
+  if (!permanence || hCorgRatio > rules.hCorgThreshold) {
+    throw new Error(
+      `H/C_org ratio (${hCorgRatio.toFixed(3)}) exceeds threshold of ${rules.hCorgThreshold}. Biochar is not eligible.`
+    );
+  }
+  return permanence.factor * 100;
+}
+
+function calculateVm0044StorageLine(line: CarbonStorageLineInput, rules: Vm0044Rules): CarbonStorageLineResult {
+  const hCorgRatio = calculateHCorgRatio({
+    hydrogenPercent: line.hydrogenPercent,
+    organicCarbonPercent: line.organicCarbonPercent,
+  });
+  const cStoredTCO2e = calculateCStored({
+    biocharDryMassTonnes: line.biocharDryMassTonnes,
+    organicCarbonPercent: line.organicCarbonPercent,
+  });
+  const persistenceFractionPercent = permanencePercent(hCorgRatio, rules);
+
+  return {
+    ...line,
+    hCorgRatio,
+    qualityValid: validateBiocharQuality(hCorgRatio, rules),
+    cStoredTCO2e,
+    persistenceFractionPercent,
+    cLossTCO2e: calculateCLoss(cStoredTCO2e, persistenceFractionPercent),
+  };
+}
+
+/**
+ * Calculate net removals under VM0044
+ *
+ * Soil temperature is not used; in disaggregated mode each storage line
+ * takes the permanence factor of its own H/C_org.
+ *
+ * @param input - Full calculation input (as for the Puro calculator)
+ * @param rules - VM0044 edition (default v1.0)
+ * @returns Result in the shape of a CORC result, in the edition's credit unit
+ */
+export function calculateVm0044(
+  input: CORCCalculationInput,
+  rules: Vm0044Rules = VERRA_VM0044_V1
+): CORCCalculationResult {
+  const {
+    biocharDryMassTonnes,
+    organicCarbonPercent,
+    hydrogenPercent,
+    baselineType,
+    baselineCarbonStorageTCO2e = 0,
+    projectEmissions,
+    leakageEmissions,
+    storageLines,
+    gwpSet = rules.defaultGwpSet,
+  } = input;
+  const gwp = GWP_SETS[gwpSet];
+
+  const lines = storageLines && storageLines.length > 0
+    ? storageLines.map((line) => calculateVm0044StorageLine(line, rules))
+    : null;
+
+  const hCorgRatio = calculateHCorgRatio({ hydrogenPercent, organicCarbonPercent });
+  const qualityValid = lines
+    ? lines.every((line) => line.qualityValid)
+    : validateBiocharQuality(hCorgRatio, rules);
+
+  const cStoredTCO2e = lines
+    ? lines.reduce((sum, l) => sum + l.cStoredTCO2e, 0)
+    : calculateCStored({ biocharDryMassTonnes, organicCarbonPercent });
+
+  // Carbon the repurposed charcoal would have stored anyway; other
+  // baselines store none
+  const cBaselineTCO2e = baselineType === 'CHARCOAL_REPURPOSE' ? baselineCarbonStorageTCO2e : 0;
+
+  const cLossTCO2e = lines
+    ? lines.reduce((sum, l) => sum + l.cLossTCO2e, 0)
+    : calculateCLoss(cStoredTCO2e, permanencePercent(hCorgRatio, rules));
+  const persistenceFractionPercent = cStoredTCO2e > 0
+    ? (1 - cLossTCO2e / cStoredTCO2e) * 100
+    : 0;
+
+  const eProjectTCO2e = calculateEProject(projectEmissions, gwp);
+  const eLeakageTCO2e = calculateELeakage(leakageEmissions);
+
+  const netTCO2e = cStoredTCO2e - cBaselineTCO2e - cLossTCO2e - eProjectTCO2e - eLeakageTCO2e;
+
+  const projectBreakdown = getEProjectBreakdown(projectEmissions, gwp);
+  const leakageBreakdown = getELeakageBreakdown(leakageEmissions);
+
+  return {
+    hCorgRatio,
+    qualityValid,
+    cStoredTCO2e,
+    cBaselineTCO2e,
+    cLossTCO2e,
+    persistenceFractionPercent,
+    eProjectTCO2e,
+    eLeakageTCO2e,
+    netCORCsTCO2e: Math.max(0, netTCO2e),
+    permanenceType: rules.permanenceType,
+    calculationVersion: rules.version,
+    calculationMode: lines ? 'disaggregated' : 'aggregated',
+    gwpSet,
+    ...(lines && { storageLines: lines }),
+    breakdown: {
+      biomassEmissionsTCO2e: projectBreakdown.biomassEmissionsKgCO2e / 1000,
+      productionEmissionsTCO2e: projectBreakdown.productionEmissionsAllocatedKgCO2e / 1000,
+      embodiedEmissionsTCO2e: projectBreakdown.embodiedEmissionsKgCO2e / 1000,
+      endUseEmissionsTCO2e: projectBreakdown.endUseEmissionsKgCO2e / 1000,
+      ecologicalLeakageTCO2e: leakageBreakdown.ecologicalLeakageKgCO2e / 1000,
+      marketLeakageTCO2e: leakageBreakdown.marketActivityLeakageKgCO2e / 1000,
+    },
+  };
+}
+
+/**
+ * VM0044 calculation with intermediate values and formula steps
+ *
+ * @param input - Full calculation input
+ * @param rules - VM0044 edition (default v1.0)
+ */
+export function getVm0044CalculationBreakdown(
+  input: CORCCalculationInput,
+  rules: Vm0044Rules = VERRA_VM0044_V1
+): {
+  result: CORCCalculationResult;
+  cStoredBreakdown: ReturnType<typeof getCStoredBreakdown>;
+  persistenceBreakdown: {
+    hCorgRatio: number;
+    permanenceFactor: number;
+    persistenceFractionPercent: number;
+    lossPercent: number;
+    cStoredTCO2e: number;
+    cLossTCO2e: number;
+    permanentCarbonTCO2e: number;
+  };
+  projectEmissionsBreakdown: ReturnType<typeof getEProjectBreakdown>;
+  leakageBreakdown: ReturnType<typeof getELeakageBreakdown>;
+  formulaSteps: {
+    step: string;
+    formula: string;
+    value: number;
+    unit: string;
+  }[];
+} {
+  const result = calculateVm0044(input, rules);
+  const isDisaggregated = result.calculationMode === 'disaggregated';
+  const gwp = GWP_SETS[result.gwpSet];
+
+  const persistenceBreakdown = {
+    hCorgRatio: result.hCorgRatio,
+    permanenceFactor: result.persistenceFractionPercent / 100,
+    persistenceFractionPercent: result.persistenceFractionPercent,
+    lossPercent: 100 - result.persistenceFractionPercent,
+    cStoredTCO2e: result.cStoredTCO2e,
+    cLossTCO2e: result.cLossTCO2e,
+    permanentCarbonTCO2e: result.cStoredTCO2e - result.cLossTCO2e,
+  };
+
+  const formulaSteps = [
+    {
+      step: '1. Calculate H/C_org ratio',
+      formula: 'H/C_org = (m_H / m_C_org) × 12.0',
+      value: result.hCorgRatio,
+      unit: 'molar ratio',
+    },
+    {
+      step: '2. Calculate C_stored',
+      formula: isDisaggregated
+        ? 'C_stored = Σ_i Q_biochar,i × C_org,i × (44/12)'
+        : 'C_stored = Q_biochar × C_org × (44/12)',
+      value: result.cStoredTCO2e,
+      unit: 'tCO2e',
+    },
+    {
+      step: '3. Determine C_baseline',
+      formula: `Baseline type: ${input.baselineType}`,
+      value: result.cBaselineTCO2e,
+      unit: 'tCO2e',
+    },
+    {
+      step: '4. Determine 100-year permanence factor',
+      formula: isDisaggregated
+        ? 'PF_i = F_perm(H/C_org,i); PF_eff = 1 - ΣC_loss,i / ΣC_stored,i'
+        : 'PF = F_perm(H/C_org)',
+      value: result.persistenceFractionPercent,
+      unit: '%',
+    },
+    {
+      step: '5. Calculate C_loss',
+      formula: isDisaggregated
+        ? 'C_loss = Σ_i C_stored,i × (1 - PF_i)'
+        : 'C_loss = C_stored × (1 - PF)',
+      value: result.cLossTCO2e,
+      unit: 'tCO2e',
+    },
+    {
+      step: '6. Calculate E_project',
+      formula: `E_project = E_biomass + E_production + E_use + E_emb (GWP ${result.gwpSet})`,
+      value: result.eProjectTCO2e,
+      unit: 'tCO2e',
+    },
+    {
+      step: '7. Calculate E_leakage',
+      formula: 'E_leakage = L_ECO + L_MA',
+      value: result.eLeakageTCO2e,
+      unit: 'tCO2e',
+    },
+    {
+      step: '8. Calculate net removals',
+      formula: `${rules.creditUnit}s = C_stored - C_baseline - C_loss - E_project - E_leakage`,
+      value: result.netCORCsTCO2e,
+      unit: 'tCO2e',
+    },
+  ];
+
+  return {
+    result,
+    cStoredBreakdown: getCStoredBreakdown({
+      biocharDryMassTonnes: input.biocharDryMassTonnes,
+      organicCarbonPercent: input.organicCarbonPercent,
+    }),
+    persistenceBreakdown,
+    projectEmissionsBreakdown: getEProjectBreakdown(input.projectEmissions, gwp),
+    leakageBreakdown: getELeakageBreakdown(input.leakageEmissions),
+    formulaSteps,
+  };
+}
+
+/**
+ * Validate input for a VM0044 calculation
+ *
+ * @param input - Full calculation input
+ * @param rules - VM0044 edition (default v1.0)
+ */
+export function validateVm0044Input(
+  input: CORCCalculationInput,
+  rules: Vm0044Rules = VERRA_VM0044_V1
+): {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+} {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (input.biocharDryMassTonnes <= 0) {
+    errors.push('Biochar dry mass must be greater than 0');
+  }
+  if (input.organicCarbonPercent <= 0 || input.organicCarbonPercent > 100) {
+    errors.push('Organic carbon percent must be between 0 and 100');
+  }
+  if (input.hydrogenPercent < 0 || input.hydrogenPercent > 100) {
+    errors.push('Hydrogen percent must be between 0 and 100');
+  }
+
+  const checkHCorg = (hydrogenPercent: number, organicCarbonPercent: number, prefix: string) => {
+    if (organicCarbonPercent <= 0 || hydrogenPercent < 0) return;
+    const hCorgRatio = calculateHCorgRatio({ hydrogenPercent, organicCarbonPercent });
+    if (hCorgRatio > rules.hCorgThreshold) {
+      errors.push(`${prefix}H/C_org ratio (${hCorgRatio.toFixed(3)}) exceeds ${rules.hCorgThreshold} threshold.`);
+    } else if (hCorgRatio > rules.hCorgWarningThreshold) {
+      warnings.push(`${prefix}H/C_org ratio (${hCorgRatio.toFixed(3)}) is close to ${rules.hCorgThreshold} threshold.`);
+    }
+  };
+
+  if (input.storageLines && input.storageLines.length > 0) {
+    for (const line of input.storageLines) {
+      const label = line.label ?? `${line.productionBatchId} → ${line.sequestrationEventId}`;
+      if (line.biocharDryMassTonnes <= 0) {
+        errors.push(`Storage line ${label}: biochar dry mass must be greater than 0`);
+      }
+      checkHCorg(line.hydrogenPercent, line.organicCarbonPercent, `Storage line ${label}: `);
+    }
+  } else {
+    checkHCorg(input.hydrogenPercent, input.organicCarbonPercent, '');
+  }
+
+  if (
+    input.baselineType === 'CHARCOAL_REPURPOSE' &&
+    (!input.baselineCarbonStorageTCO2e || input.baselineCarbonStorageTCO2e <= 0)
+  ) {
+    warnings.push('Charcoal repurpose baseline type requires baseline carbon storage value');
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
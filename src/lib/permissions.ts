@@ -0,0 +1,147 @@
+import type { UserRole } from '@/lib/validations/user';
+
+/**
+ * Role-based permissions
+ *
+ * Each role is granted a set of permissions, and every API route and action
+ * maps to the permission it needs (see ROUTE_RULES). The middleware checks
+ * the rule before a handler runs; handlers that need a finer distinction
+ * than method and path (e.g. which status a period moves to) call
+ * requestHasPermission themselves.
+ */
+
+export const PERMISSIONS = [
+  'records:read',
+  'records:write',
+  'lab_tests:write',
+  'evidence:write',
+  'calculation:run',
+  'periods:manage',
+  'periods:verify',
+  'credits:manage',
+  'credits:issue',
+  'datasets:manage',
+  'facility:manage',
+  'data_room:export',
+  'audit:read',
+  'users:manage',
+  // Writes to API routes without a specific rule
+  'admin:write',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  operator: ['records:read', 'records:write', 'evidence:write'],
+  lab_technician: ['records:read', 'lab_tests:write', 'evidence:write'],
+  mrv_manager: [
+    'records:read',
+    'records:write',
+    'lab_tests:write',
+    'evidence:write',
+    'calculation:run',
+    'periods:manage',
+    'credits:manage',
+    'credits:issue',
+    'datasets:manage',
+    'facility:manage',
+    'data_room:export',
+    'audit:read',
+  ],
+  verifier: ['records:read', 'periods:verify', 'data_room:export', 'audit:read'],
+  admin: PERMISSIONS,
+};
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!role || !(role in ROLE_PERMISSIONS)) return false;
+  return ROLE_PERMISSIONS[role as UserRole].includes(permission);
+}
+
+export function getRolePermissions(role: string): readonly Permission[] {
+  return ROLE_PERMISSIONS[role as UserRole] ?? [];
+}
+
+interface RouteRule {
+  pattern: RegExp;
+  /** Methods the rule applies to (all when omitted) */
+  methods?: readonly string[];
+  /** Any one of these grants access; empty means any signed-in user */
+  anyOf: readonly Permission[];
+}
+
+const WRITE_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+/**
+ * First matching rule wins. API routes not listed here need records:read
+ * for GET and admin:write for anything else.
+ */
+export const ROUTE_RULES: readonly RouteRule[] = [
+  // Own session, profile and API tokens
+  { pattern: /^\/api\/auth(\/|$)/, anyOf: [] },
+  { pattern: /^\/account(\/|$)/, anyOf: [] },
+
+  // User management
+  { pattern: /^\/api\/users(\/|$)/, anyOf: ['users:manage'] },
+  { pattern: /^\/users(\/|$)/, anyOf: ['users:manage'] },
+
+  // Audit trail and verifier export
+  { pattern: /^\/api\/audit(\/|$)/, anyOf: ['audit:read'] },
+  { pattern: /^\/api\/monitoring-period\/[^/]+\/export\/?$/, anyOf: ['data_room:export'] },
+
+  // Monitoring periods and calculation
+  { pattern: /^\/api\/monitoring-period\/[^/]+\/calculate\/?$/, methods: ['POST'], anyOf: ['calculation:run'] },
+  // Status changes are refined in the handler: verifying needs periods:verify
+  { pattern: /^\/api\/monitoring-period\/[^/]+\/?$/, methods: ['PUT'], anyOf: ['periods:manage', 'periods:verify'] },
+  { pattern: /^\/api\/monitoring-period(\/|$)/, methods: WRITE_METHODS, anyOf: ['periods:manage'] },
+  { pattern: /^\/api\/leakage-assessment(\/|$)/, methods: WRITE_METHODS, anyOf: ['calculation:run'] },
+
+  // Credits
+  { pattern: /^\/api\/corc\/[^/]+\/issue\/?$/, methods: ['POST'], anyOf: ['credits:issue'] },
+  { pattern: /^\/api\/corc(\/|$)/, methods: WRITE_METHODS, anyOf: ['credits:manage'] },
+  { pattern: /^\/api\/registry(\/|$)/, methods: WRITE_METHODS, anyOf: ['credits:manage'] },
+
+  // Lab results
+  { pattern: /^\/api\/production\/[^/]+\/(lab-test|sampling-campaigns)(\/|$)/, methods: WRITE_METHODS, anyOf: ['lab_tests:write'] },
+
+  // Evidence
+  { pattern: /^\/api\/evidence(\/|$)/, methods: WRITE_METHODS, anyOf: ['evidence:write'] },
+
+  // Operational records
+  { pattern: /^\/api\/(feedstock|production|temperature-readings|energy|transport|sequestration)(\/|$)/, methods: WRITE_METHODS, anyOf: ['records:write'] },
+  { pattern: /^\/api\/routes\/recalculate\/?$/, methods: ['POST'], anyOf: ['records:write'] },
+
+  // Reference data and settings
+  { pattern: /^\/api\/(datasets|emission-factors)(\/|$)/, methods: WRITE_METHODS, anyOf: ['datasets:manage'] },
+  { pattern: /^\/api\/(facility|settings|plant-settings)(\/|$)/, methods: WRITE_METHODS, anyOf: ['facility:manage'] },
+
+  // Lookups that use POST but change nothing
+  { pattern: /^\/api\/(geocode|qr|chatbot)(\/|$)/, anyOf: ['records:read'] },
+];
+
+/**
+ * Permissions that grant a request (any one suffices; empty means any
+ * signed-in user)
+ */
+export function getRequiredPermissions(method: string, pathname: string): readonly Permission[] {
+  const upper = method.toUpperCase();
+  const rule = ROUTE_RULES.find(
+    (r) => r.pattern.test(pathname) && (!r.methods || r.methods.includes(upper))
+  );
+  if (rule) return rule.anyOf;
+
+  if (upper === 'GET' || upper === 'HEAD' || !pathname.startsWith('/api')) {
+    return ['records:read'];
+  }
+  return ['admin:write'];
+}
+
+export function isAllowed(role: string | null | undefined, required: readonly Permission[]): boolean {
+  return required.length === 0 || required.some((p) => hasPermission(role, p));
+}
+
+/**
+ * Check a permission for the caller of an API request (role set by the middleware)
+ */
+export function requestHasPermission(request: { headers: Headers }, permission: Permission): boolean {
+  return hasPermission(request.headers.get('X-User-Role'), permission);
+}
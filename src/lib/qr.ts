@@ -13,15 +13,24 @@ export type EntityType = keyof typeof ENTITY_TYPES;
 
 export const ENTITY_TYPE_LIST = Object.keys(ENTITY_TYPES) as EntityType[];
 
+function getBaseUrl(): string {
+  return typeof window !== 'undefined'
+    ? window.location.origin
+    : process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+}
+
 /**
  * Get the full URL for an entity (for QR code encoding)
  */
 export function getEntityUrl(entityType: EntityType, id: string): string {
-  const baseUrl =
-    typeof window !== 'undefined'
-      ? window.location.origin
-      : process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-  return `${baseUrl}/scan/${entityType}/${id}`;
+  return `${getBaseUrl()}/scan/${entityType}/${id}`;
+}
+
+/**
+ * Get the public verification URL of a retirement certificate
+ */
+export function getCertificateVerificationUrl(verificationCode: string): string {
+  return `${getBaseUrl()}/verify/certificate/${verificationCode}`;
 }
 
 /**
@@ -51,6 +60,17 @@ export async function generateQRCodeDataURL(
   });
 }
 
+/**
+ * Module grid of a QR code (true = dark), for drawing it as vector squares
+ * in generated documents such as PDFs
+ */
+export function generateQRCodeMatrix(text: string): boolean[][] {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, col) => Boolean(modules.get(row, col)))
+  );
+}
+
 /**
  * Parse a scanned QR code URL and extract entity info
  */
@@ -0,0 +1,101 @@
+import type { NextRequest } from 'next/server';
+
+/**
+ * Fixed-window rate limiting, kept in process memory
+ *
+ * Counts are per server process: behind several instances each keeps its
+ * own windows, so a client can make up to `limit` requests per instance.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Epoch milliseconds when the current window ends */
+  resetAt: number;
+}
+
+// Windows kept before expired ones are swept
+const SWEEP_THRESHOLD = 10_000;
+
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }) {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    check(key: string, now = Date.now()): RateLimitResult {
+      if (windows.size > SWEEP_THRESHOLD) {
+        for (const [k, w] of windows) {
+          if (now - w.start >= windowMs) windows.delete(k);
+        }
+      }
+
+      let window = windows.get(key);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(key, window);
+      }
+      window.count++;
+
+      return {
+        allowed: window.count <= limit,
+        limit,
+        remaining: Math.max(0, limit - window.count),
+        resetAt: window.start + windowMs,
+      };
+    },
+  };
+}
+
+/**
+ * Client address for rate limiting
+ *
+ * Each of the `trustedProxyHops` proxies in front of the app appends the
+ * address it received the request from to X-Forwarded-For, so the client
+ * is that many hops from the end; anything before it was sent by the
+ * client and can be forged. X-Real-IP is only read behind a proxy too.
+ * With no proxy (0 hops, the default) both headers come from the client
+ * itself and are ignored, so null is returned.
+ */
+export function getClientAddress(request: NextRequest, trustedProxyHops = 0): string | null {
+  if (!(trustedProxyHops > 0)) return null;
+
+  const forwarded = request.headers.get('X-Forwarded-For');
+  if (forwarded) {
+    const hops = forwarded.split(',').map((hop) => hop.trim());
+    const client = hops[hops.length - trustedProxyHops];
+    if (client) return client;
+  }
+  return request.headers.get('X-Real-IP')?.trim() || null;
+}
+
+/**
+ * Rate limit key for a request: its client address, or one bucket shared
+ * by every caller without one, so no header the caller controls can open
+ * a fresh window
+ */
+export function getRateLimitKey(request: NextRequest, trustedProxyHops = 0): string {
+  const address = getClientAddress(request, trustedProxyHops);
+  return address ? `ip:${address}` : 'unidentified';
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)),
+  };
+}
+
+/**
+ * Helper to create a 429 response
+ */
+export function rateLimitedResponse(result: RateLimitResult, now = Date.now()) {
+  return new Response(JSON.stringify({ error: 'Too many requests', code: 'RATE_LIMITED' }), {
+    status: 429,
+    headers: {
+      'Content-Type': 'application/json',
+      'Retry-After': String(Math.max(1, Math.ceil((result.resetAt - now) / 1000))),
+      ...rateLimitHeaders(result),
+    },
+  });
+}
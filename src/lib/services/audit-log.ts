@@ -0,0 +1,188 @@
+import type { AuditLog, Prisma } from '@prisma/client';
+import type { NextRequest } from 'next/server';
+import db from '@/lib/db';
+import type { AuditAction, AuditEntityType } from '@/lib/validations/audit';
+
+/**
+ * Audit log
+ *
+ * Every create, update and delete of an MRV record appends one AuditLog row
+ * with the scalar fields before and after the change, a field-level diff,
+ * the actor (X-User-ID set by the middleware) and the route. Rows are only
+ * ever inserted; nothing in the application updates or deletes them.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+// Bookkeeping fields that change on every write
+const IGNORED_FIELDS = new Set(['updatedAt']);
+
+// Large derived blobs not worth keeping per revision
+const OMITTED_FIELDS = new Set(['routeGeometry']);
+
+export interface AuditContext {
+  actor: string | null;
+  route: string;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+type Snapshot = Record<string, unknown>;
+
+/**
+ * Actor and route of the current request
+ */
+export function getAuditContext(request: NextRequest): AuditContext {
+  return {
+    actor: request.headers.get('X-User-ID'),
+    route: `${request.method} ${request.nextUrl.pathname}`,
+  };
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || value instanceof Date || typeof value !== 'object';
+}
+
+/**
+ * JSON-safe copy of a record's own columns
+ *
+ * Included relations (nested objects and arrays of objects) are dropped so
+ * the snapshot does not depend on what the route happened to include.
+ */
+export function toAuditSnapshot(record: object): Snapshot {
+  const snapshot: Snapshot = {};
+  for (const [key, value] of Object.entries(record)) {
+    if (OMITTED_FIELDS.has(key) || value === undefined) continue;
+    if (Array.isArray(value)) {
+      if (value.every(isScalar)) snapshot[key] = value.map(normalize);
+      continue;
+    }
+    if (!isScalar(value)) continue;
+    snapshot[key] = normalize(value);
+  }
+  return snapshot;
+}
+
+function normalize(value: unknown): unknown {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+/**
+ * Link rows as scalar entries, so allocation changes show up in the diff
+ */
+export function auditFeedstockAllocations(
+  allocations?: { feedstockDeliveryId: string; percentageUsed: number }[] | null
+): string[] {
+  return (allocations ?? []).map((a) => `${a.feedstockDeliveryId}: ${a.percentageUsed}%`);
+}
+
+export function auditSequestrationBatches(
+  batches?: { productionBatchId: string; quantityTonnes: number }[] | null
+): string[] {
+  return (batches ?? []).map((b) => `${b.productionBatchId}: ${b.quantityTonnes} t`);
+}
+
+/**
+ * Fields that differ between two snapshots
+ */
+export function diffSnapshots(before: Snapshot, after: Snapshot): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  const changes: AuditFieldChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes.push({ field, from, to });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Append an audit entry
+ *
+ * Pass the transaction client when the change runs in a transaction, so the
+ * entry is written (or rolled back) with it. Updates that change nothing are
+ * not recorded.
+ */
+export async function recordAudit(
+  context: AuditContext,
+  entry: {
+    entityType: AuditEntityType;
+    entityId: string;
+    action: AuditAction;
+    before?: object | null;
+    after?: object | null;
+    note?: string | null;
+  },
+  client: DbClient = db
+): Promise<AuditLog | null> {
+  const before = entry.before ? toAuditSnapshot(entry.before) : null;
+  const after = entry.after ? toAuditSnapshot(entry.after) : null;
+  const changes = before && after ? diffSnapshots(before, after) : null;
+
+  if (entry.action === 'update' && changes?.length === 0 && !entry.note) {
+    return null;
+  }
+
+  return client.auditLog.create({
+    data: {
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      action: entry.action,
+      actor: context.actor,
+      route: context.route,
+      before: (before ?? undefined) as Prisma.InputJsonValue | undefined,
+      after: (after ?? undefined) as Prisma.InputJsonValue | undefined,
+      changes: (changes ?? undefined) as Prisma.InputJsonValue | undefined,
+      note: entry.note ?? null,
+    },
+  });
+}
+
+/**
+ * Audit entries for one record, newest first
+ */
+export async function getEntityHistory(
+  entityType: AuditEntityType,
+  entityId: string,
+  limit = 50
+): Promise<AuditLog[]> {
+  return db.auditLog.findMany({
+    where: { entityType, entityId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
+
+/**
+ * Audit entries of child records that point at a parent, newest first
+ *
+ * Matches on the link column in the stored snapshots, so entries of deleted
+ * children are included (e.g. lab tests of a production batch).
+ */
+export async function getLinkedEntityHistory(
+  entityType: AuditEntityType,
+  linkField: string,
+  linkId: string,
+  limit = 50
+): Promise<AuditLog[]> {
+  return db.auditLog.findMany({
+    where: {
+      entityType,
+      OR: [
+        { after: { path: [linkField], equals: linkId } },
+        { before: { path: [linkField], equals: linkId } },
+      ],
+    },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+  });
+}
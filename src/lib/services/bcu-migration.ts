@@ -0,0 +1,529 @@
+import type { MonitoringPeriod, Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import { recordAudit, type AuditContext } from '@/lib/services/audit-log';
+import { ensureRootLot, toWholeUnits } from '@/lib/services/credit-lots';
+
+/**
+ * BCU -> CORC migration
+ *
+ * Converts every legacy BCU into a CORC issuance of type "legacy_bcu" with
+ * the same serial number, owner and retirement details. Production batch
+ * and sequestration links are copied, and evidence, credit lots and ledger
+ * transactions are re-pointed at the new issuance, so units keep their
+ * serial ranges and chain of custody. The BCU row is kept as a read-only
+ * archive linked from the issuance (legacyBcuId).
+ *
+ * Each issuance needs a monitoring period of the BCU's facility covering
+ * its issuance date. Without one the BCU is blocked, unless legacy periods
+ * may be created: a closed period for the calendar year, as long as it
+ * does not overlap an existing period.
+ *
+ * A BCU whose production batches or sequestration events already back a
+ * CORC issuance, or are shared with a BCU migrated earlier in the same run
+ * (by issuance date), is blocked as well, so no tonne is credited twice.
+ *
+ * planBCUMigration only reads, so the same report serves as the dry run.
+ * applyBCUMigration re-plans inside one transaction and converts the BCUs
+ * that are ready; already migrated BCUs are skipped, so it can be re-run.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export interface BCUMigrationOptions {
+  /** Create closed calendar-year periods where no period covers a BCU */
+  createPeriods?: boolean;
+}
+
+export interface MigrationFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface PlannedPeriod {
+  facilityId: string;
+  facilityName: string;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+export interface BCUMigrationItem {
+  bcuId: string;
+  serialNumber: string;
+  quantityTCO2e: number;
+  bcuStatus: string;
+  corcStatus: 'issued' | 'retired';
+  facility: { id: string; name: string } | null;
+  /** Existing period, or the legacy period that will be created */
+  monitoringPeriod:
+    | { action: 'use'; id: string; periodStart: Date; periodEnd: Date; status: string }
+    | ({ action: 'create' } & PlannedPeriod)
+    | null;
+  /** BCU field -> CORC field mapping */
+  changes: MigrationFieldChange[];
+  links: {
+    productionBatches: number;
+    sequestrationEvents: number;
+    evidence: number;
+    lots: number;
+    ledgerTransactions: number;
+  };
+  warnings: string[];
+  /** Reasons the BCU cannot be migrated yet */
+  blockers: string[];
+}
+
+export interface BCUMigrationReport {
+  generatedAt: Date;
+  createPeriods: boolean;
+  totalBCUs: number;
+  alreadyMigrated: number;
+  ready: number;
+  blocked: number;
+  periodsToCreate: PlannedPeriod[];
+  items: BCUMigrationItem[];
+}
+
+export interface BCUMigrationResult {
+  report: BCUMigrationReport;
+  migrated: Array<{ bcuId: string; corcId: string; serialNumber: string }>;
+  periodsCreated: Array<{ id: string; facilityId: string; periodStart: Date; periodEnd: Date }>;
+}
+
+const bcuInclude = {
+  productionBatches: {
+    include: {
+      productionBatch: {
+        select: { id: true, serialNumber: true, facilityId: true, corcBatches: { select: { corcId: true } } },
+      },
+    },
+  },
+  sequestrationEvents: {
+    include: {
+      sequestration: {
+        select: {
+          id: true,
+          batches: { include: { productionBatch: { select: { id: true, facilityId: true } } } },
+          corcEvents: { select: { corcId: true } },
+        },
+      },
+    },
+  },
+  migratedCorc: { select: { id: true } },
+  _count: { select: { evidence: true, lots: true, ledgerTransactions: true } },
+} satisfies Prisma.BCUInclude;
+
+type BCUWithLinks = Prisma.BCUGetPayload<{ include: typeof bcuInclude }>;
+
+function calendarYear(date: Date): { periodStart: Date; periodEnd: Date } {
+  const year = date.getUTCFullYear();
+  return {
+    periodStart: new Date(Date.UTC(year, 0, 1)),
+    periodEnd: new Date(Date.UTC(year, 11, 31, 23, 59, 59, 999)),
+  };
+}
+
+function periodKey(facilityId: string, periodStart: Date): string {
+  return `${facilityId}:${periodStart.toISOString()}`;
+}
+
+function toCORCStatus(bcuStatus: string): 'issued' | 'retired' {
+  return bcuStatus === 'retired' ? 'retired' : 'issued';
+}
+
+function fieldChanges(bcu: BCUWithLinks): MigrationFieldChange[] {
+  const status = toCORCStatus(bcu.status);
+  return [
+    { field: 'registrySerialNumber -> serialNumber', from: bcu.registrySerialNumber, to: bcu.registrySerialNumber },
+    { field: 'quantityTonnesCO2e -> netCORCsTCO2e', from: bcu.quantityTonnesCO2e, to: bcu.quantityTonnesCO2e },
+    { field: 'status', from: bcu.status, to: status },
+    { field: 'issuanceDate', from: bcu.issuanceDate, to: bcu.issuanceDate },
+    { field: 'ownerName', from: bcu.ownerName, to: bcu.ownerName },
+    { field: 'accountId -> ownerAccountId', from: bcu.accountId, to: bcu.accountId },
+    { field: 'retirementDate', from: bcu.retirementDate, to: bcu.retirementDate },
+    { field: 'retirementBeneficiary', from: bcu.retirementBeneficiary, to: bcu.retirementBeneficiary },
+    { field: 'issuanceType', from: null, to: 'legacy_bcu' },
+  ];
+}
+
+// Facilities of the production batches behind a BCU, directly or through
+// its sequestration events
+function linkedFacilityIds(bcu: BCUWithLinks): string[] {
+  const ids = new Set<string>();
+  for (const link of bcu.productionBatches) {
+    if (link.productionBatch.facilityId) ids.add(link.productionBatch.facilityId);
+  }
+  for (const link of bcu.sequestrationEvents) {
+    for (const batch of link.sequestration.batches) {
+      if (batch.productionBatch.facilityId) ids.add(batch.productionBatch.facilityId);
+    }
+  }
+  return [...ids];
+}
+
+/**
+ * The CORC issuance a BCU was migrated to, or null if it was not
+ */
+export async function getMigratedCORCId(bcuId: string, client: DbClient = db): Promise<string | null> {
+  const corc = await client.cORCIssuance.findUnique({ where: { legacyBcuId: bcuId }, select: { id: true } });
+  return corc?.id ?? null;
+}
+
+/**
+ * Response for writes to a migrated (archived) BCU
+ */
+export function migratedBCUProblem(corcId: string) {
+  return {
+    code: 'BCU_MIGRATED' as const,
+    message: 'This BCU was migrated to a CORC issuance and is read-only; transfer or retire it there',
+    corcId,
+  };
+}
+
+/**
+ * Dry run: what the migration would do for every BCU
+ */
+export async function planBCUMigration(
+  options: BCUMigrationOptions = {},
+  client: DbClient = db
+): Promise<BCUMigrationReport> {
+  const createPeriods = options.createPeriods ?? false;
+
+  const [bcus, facilities, periods] = await Promise.all([
+    client.bCU.findMany({ include: bcuInclude, orderBy: { issuanceDate: 'asc' } }),
+    client.facility.findMany({ select: { id: true, name: true } }),
+    client.monitoringPeriod.findMany({ orderBy: { periodStart: 'asc' } }),
+  ]);
+
+  const facilityNames = new Map(facilities.map((f) => [f.id, f.name]));
+  const planned = new Map<string, PlannedPeriod>();
+  const pending = bcus.filter((b) => !b.migratedCorc);
+
+  const serials = await client.cORCIssuance.findMany({
+    where: { serialNumber: { in: pending.map((b) => b.registrySerialNumber) } },
+    select: { serialNumber: true },
+  });
+  const takenSerials = new Set(serials.map((s) => s.serialNumber));
+
+  // Batches and events claimed by earlier BCUs in this run
+  const claimedBatches = new Map<string, string>();
+  const claimedEvents = new Map<string, string>();
+
+  const items = pending.map((bcu): BCUMigrationItem => {
+    const warnings: string[] = [];
+    const blockers: string[] = [];
+
+    // Facility
+    let facilityId: string | null = null;
+    const linked = linkedFacilityIds(bcu);
+    if (linked.length === 1) {
+      facilityId = linked[0];
+    } else if (linked.length > 1) {
+      blockers.push(`Linked production batches belong to ${linked.length} facilities`);
+    } else if (facilities.length === 1) {
+      facilityId = facilities[0].id;
+      warnings.push(`No linked batch has a facility; assigned to ${facilities[0].name}, the only facility`);
+    } else {
+      blockers.push(
+        facilities.length === 0
+          ? 'No facility exists to attach the issuance to'
+          : 'No linked batch has a facility and there are several facilities'
+      );
+    }
+
+    // Monitoring period
+    let monitoringPeriod: BCUMigrationItem['monitoringPeriod'] = null;
+    if (facilityId) {
+      const covering = periods.find(
+        (p) => p.facilityId === facilityId && p.periodStart <= bcu.issuanceDate && p.periodEnd >= bcu.issuanceDate
+      );
+      if (covering) {
+        monitoringPeriod = {
+          action: 'use',
+          id: covering.id,
+          periodStart: covering.periodStart,
+          periodEnd: covering.periodEnd,
+          status: covering.status,
+        };
+      } else {
+        const year = calendarYear(bcu.issuanceDate);
+        const overlapping = periods.find(
+          (p) => p.facilityId === facilityId && p.periodStart <= year.periodEnd && p.periodEnd >= year.periodStart
+        );
+        if (!createPeriods) {
+          blockers.push(
+            `No monitoring period covers ${bcu.issuanceDate.toISOString().slice(0, 10)}; create one or allow legacy periods`
+          );
+        } else if (overlapping) {
+          blockers.push(
+            `No monitoring period covers ${bcu.issuanceDate.toISOString().slice(0, 10)} and a legacy ${year.periodStart.getUTCFullYear()} period would overlap an existing period; create a covering period manually`
+          );
+        } else {
+          const period: PlannedPeriod = {
+            facilityId,
+            facilityName: facilityNames.get(facilityId) ?? facilityId,
+            ...year,
+          };
+          planned.set(periodKey(facilityId, year.periodStart), period);
+          monitoringPeriod = { action: 'create', ...period };
+        }
+      }
+    }
+
+    if (takenSerials.has(bcu.registrySerialNumber)) {
+      blockers.push(`A CORC issuance with serial ${bcu.registrySerialNumber} already exists`);
+    }
+    if (toWholeUnits(bcu.quantityTonnesCO2e) < 1) {
+      warnings.push('Less than 1 tCO2e: the issuance will hold no tradeable units');
+    }
+    // Copying these links would credit the same tonnes twice
+    for (const link of bcu.productionBatches) {
+      if (link.productionBatch.corcBatches.length > 0) {
+        blockers.push(`Production batch #${link.productionBatch.serialNumber} already backs another CORC issuance`);
+      }
+    }
+    for (const link of bcu.sequestrationEvents) {
+      if (link.sequestration.corcEvents.length > 0) {
+        blockers.push(`Sequestration event ${link.sequestration.id} is already linked to another CORC issuance`);
+      }
+    }
+    for (const link of bcu.productionBatches) {
+      const claimedBy = claimedBatches.get(link.productionBatch.id);
+      if (claimedBy) {
+        blockers.push(`Production batch #${link.productionBatch.serialNumber} is also linked to BCU ${claimedBy}, migrated first`);
+      }
+    }
+    for (const link of bcu.sequestrationEvents) {
+      const claimedBy = claimedEvents.get(link.sequestration.id);
+      if (claimedBy) {
+        blockers.push(`Sequestration event ${link.sequestration.id} is also linked to BCU ${claimedBy}, migrated first`);
+      }
+    }
+    if (blockers.length === 0) {
+      for (const link of bcu.productionBatches) claimedBatches.set(link.productionBatch.id, bcu.registrySerialNumber);
+      for (const link of bcu.sequestrationEvents) claimedEvents.set(link.sequestration.id, bcu.registrySerialNumber);
+    }
+
+    return {
+      bcuId: bcu.id,
+      serialNumber: bcu.registrySerialNumber,
+      quantityTCO2e: bcu.quantityTonnesCO2e,
+      bcuStatus: bcu.status,
+      corcStatus: toCORCStatus(bcu.status),
+      facility: facilityId ? { id: facilityId, name: facilityNames.get(facilityId) ?? facilityId } : null,
+      monitoringPeriod,
+      changes: fieldChanges(bcu),
+      links: {
+        productionBatches: bcu.productionBatches.length,
+        sequestrationEvents: bcu.sequestrationEvents.length,
+        evidence: bcu._count.evidence,
+        lots: bcu._count.lots,
+        ledgerTransactions: bcu._count.ledgerTransactions,
+      },
+      warnings,
+      blockers,
+    };
+  });
+
+  const ready = items.filter((i) => i.blockers.length === 0).length;
+
+  return {
+    generatedAt: new Date(),
+    createPeriods,
+    totalBCUs: bcus.length,
+    alreadyMigrated: bcus.length - pending.length,
+    ready,
+    blocked: items.length - ready,
+    periodsToCreate: [...planned.values()],
+    items,
+  };
+}
+
+async function createLegacyPeriod(
+  period: PlannedPeriod,
+  context: AuditContext,
+  client: DbClient
+): Promise<MonitoringPeriod> {
+  const now = new Date();
+  return client.monitoringPeriod.create({
+    data: {
+      facilityId: period.facilityId,
+      periodStart: period.periodStart,
+      periodEnd: period.periodEnd,
+      status: 'closed',
+      closedAt: now,
+      statusChanges: {
+        create: {
+          fromStatus: 'active',
+          toStatus: 'closed',
+          reason: 'Legacy period created by the BCU -> CORC migration',
+          changedBy: context.actor,
+        },
+      },
+    },
+  });
+}
+
+async function migrateBCU(
+  item: BCUMigrationItem,
+  monitoringPeriodId: string,
+  context: AuditContext,
+  client: DbClient
+) {
+  const bcu = await client.bCU.findUniqueOrThrow({
+    where: { id: item.bcuId },
+    include: { productionBatches: true, sequestrationEvents: true },
+  });
+  const quantity = bcu.quantityTonnesCO2e;
+
+  const corc = await client.cORCIssuance.create({
+    data: {
+      serialNumber: bcu.registrySerialNumber,
+      monitoringPeriodId,
+      issuanceType: 'legacy_bcu',
+      legacyBcuId: bcu.id,
+      cStoredTCO2e: quantity,
+      cBaselineTCO2e: 0,
+      cLossTCO2e: 0,
+      persistenceFractionPercent: 100,
+      eProjectTCO2e: 0,
+      eLeakageTCO2e: 0,
+      netCORCsTCO2e: quantity,
+      status: toCORCStatus(bcu.status),
+      issuanceDate: bcu.issuanceDate,
+      ownerName: bcu.ownerName,
+      ownerAccountId: bcu.accountId,
+      retirementDate: bcu.retirementDate,
+      retirementBeneficiary: bcu.retirementBeneficiary,
+      notes: bcu.notes,
+      productionBatches: {
+        create: bcu.productionBatches.map((link) => ({ productionBatchId: link.productionBatchId })),
+      },
+      sequestrationEvents: {
+        create: bcu.sequestrationEvents.map((link) => ({ sequestrationId: link.sequestrationId })),
+      },
+    },
+  });
+
+  await client.evidenceFile.updateMany({ where: { bcuId: bcu.id }, data: { corcId: corc.id } });
+  await client.creditLot.updateMany({ where: { bcuId: bcu.id }, data: { bcuId: null, corcIssuanceId: corc.id } });
+  await client.ledgerTransaction.updateMany({ where: { bcuId: bcu.id }, data: { bcuId: null, corcIssuanceId: corc.id } });
+
+  // BCUs that never had lots get their root lot and issuance ledger entry now
+  await ensureRootLot({ type: 'corc', id: corc.id }, client);
+
+  await recordAudit(context, {
+    entityType: 'corc_issuance',
+    entityId: corc.id,
+    action: 'create',
+    after: corc,
+    note: `Migrated from BCU ${bcu.registrySerialNumber}`,
+  }, client);
+  await recordAudit(context, {
+    entityType: 'bcu',
+    entityId: bcu.id,
+    action: 'update',
+    before: bcu,
+    after: bcu,
+    note: `Migrated to CORC issuance ${corc.id}; the BCU is now a read-only archive`,
+  }, client);
+
+  return corc;
+}
+
+/**
+ * Convert every BCU that is ready; blocked BCUs are left as they are
+ */
+export async function applyBCUMigration(
+  options: BCUMigrationOptions,
+  context: AuditContext
+): Promise<BCUMigrationResult> {
+  return db.$transaction(
+    async (tx) => {
+      const report = await planBCUMigration(options, tx);
+
+      const periodIds = new Map<string, string>();
+      const periodsCreated: BCUMigrationResult['periodsCreated'] = [];
+      const migrated: BCUMigrationResult['migrated'] = [];
+
+      for (const item of report.items) {
+        if (item.blockers.length > 0 || !item.monitoringPeriod) continue;
+
+        let monitoringPeriodId: string;
+        if (item.monitoringPeriod.action === 'use') {
+          monitoringPeriodId = item.monitoringPeriod.id;
+        } else {
+          const key = periodKey(item.monitoringPeriod.facilityId, item.monitoringPeriod.periodStart);
+          const existing = periodIds.get(key);
+          if (existing) {
+            monitoringPeriodId = existing;
+          } else {
+            const period = await createLegacyPeriod(item.monitoringPeriod, context, tx);
+            periodIds.set(key, period.id);
+            periodsCreated.push({
+              id: period.id,
+              facilityId: period.facilityId,
+              periodStart: period.periodStart,
+              periodEnd: period.periodEnd,
+            });
+            monitoringPeriodId = period.id;
+          }
+        }
+
+        const corc = await migrateBCU(item, monitoringPeriodId, context, tx);
+        migrated.push({ bcuId: item.bcuId, corcId: corc.id, serialNumber: corc.serialNumber });
+      }
+
+      return { report, migrated, periodsCreated };
+    },
+    { timeout: 10 * 60 * 1000 }
+  );
+}
+
+/**
+ * Plain-text diff of a migration report, for the command line
+ */
+export function formatMigrationReport(report: BCUMigrationReport): string {
+  const fmt = (value: unknown) =>
+    value instanceof Date ? value.toISOString().slice(0, 10) : value === null || value === undefined ? '-' : String(value);
+  const lines: string[] = [
+    `BCU -> CORC migration ${report.createPeriods ? '(legacy periods allowed)' : ''}`.trim(),
+    `BCUs: ${report.totalBCUs} · already migrated: ${report.alreadyMigrated} · ready: ${report.ready} · blocked: ${report.blocked}`,
+    '',
+  ];
+
+  for (const period of report.periodsToCreate) {
+    lines.push(`+ monitoring period ${fmt(period.periodStart)}..${fmt(period.periodEnd)} (closed) for ${period.facilityName}`);
+  }
+  if (report.periodsToCreate.length > 0) lines.push('');
+
+  for (const item of report.items) {
+    const state = item.blockers.length > 0 ? 'BLOCKED' : 'ready';
+    lines.push(`BCU ${item.serialNumber} (${item.quantityTCO2e} tCO2e) [${state}]`);
+    lines.push(`  + CORC issuance ${item.serialNumber} (legacy_bcu, ${item.corcStatus})`);
+    for (const change of item.changes) {
+      lines.push(
+        change.from === change.to || fmt(change.from) === fmt(change.to)
+          ? `    ${change.field}: ${fmt(change.to)}`
+          : `  ~ ${change.field}: ${fmt(change.from)} -> ${fmt(change.to)}`
+      );
+    }
+    if (item.facility) lines.push(`    facility: ${item.facility.name}`);
+    if (item.monitoringPeriod) {
+      lines.push(
+        `    monitoring period: ${fmt(item.monitoringPeriod.periodStart)}..${fmt(item.monitoringPeriod.periodEnd)}` +
+          (item.monitoringPeriod.action === 'create' ? ' (new)' : ` (${item.monitoringPeriod.status})`)
+      );
+    }
+    const { links } = item;
+    lines.push(
+      `  + links: ${links.productionBatches} production batch(es), ${links.sequestrationEvents} sequestration event(s)`,
+      `  ~ re-pointed: ${links.evidence} evidence file(s), ${links.lots} lot(s), ${links.ledgerTransactions} ledger transaction(s)`
+    );
+    for (const warning of item.warnings) lines.push(`  ! ${warning}`);
+    for (const blocker of item.blockers) lines.push(`  x ${blocker}`);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
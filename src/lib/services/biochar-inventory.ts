@@ -0,0 +1,313 @@
+import type { Prisma } from '@prisma/client';
+import db from '@/lib/db';
+
+/**
+ * Biochar inventory ledger
+ *
+ * Mass balance of each production batch from the kiln to the field:
+ * produced = stored + delivered + remaining. Quantities allocated to
+ * sequestration events (SequestrationBatch.quantityTonnes) are drawn from
+ * the batch's as-produced output, so a batch can never be credited for
+ * more biochar than it made, nor the same tonnes twice across events.
+ */
+
+// Float tolerance for comparing summed tonnages
+const TONNES_EPSILON = 1e-6;
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export type InventoryLocationStatus = 'on_hand' | 'in_storage' | 'awaiting_delivery' | 'delivered';
+
+export interface InventoryLocationLine {
+  status: InventoryLocationStatus;
+  /** Storage location, or the plant / delivery postcode when not stored */
+  location: string;
+  quantityTonnes: number;
+  sequestrationEventId: string | null;
+}
+
+export interface BatchInventory {
+  productionBatchId: string;
+  serialNumber: number;
+  productionDate: Date;
+  /** As-produced output (outputBiocharWeightTonnes) */
+  producedTonnes: number;
+  /** Dry mass reported for the batch, if measured */
+  dryMassTonnes: number | null;
+  /** Allocated to events and held in storage or awaiting delivery */
+  storedTonnes: number;
+  /** Allocated to events whose final delivery date has passed */
+  deliveredTonnes: number;
+  /** Not yet allocated to any sequestration event */
+  remainingTonnes: number;
+  /** Allocated beyond the produced quantity (legacy data only) */
+  overAllocatedTonnes: number;
+  locations: InventoryLocationLine[];
+}
+
+export interface AllocationRequest {
+  productionBatchId: string;
+  quantityTonnes: number;
+}
+
+export interface AllocationProblem {
+  productionBatchId: string;
+  reason: 'not_found' | 'duplicate' | 'invalid_quantity' | 'exceeds_available';
+  message: string;
+  requestedTonnes: number;
+  producedTonnes?: number;
+  allocatedElsewhereTonnes?: number;
+  availableTonnes?: number;
+}
+
+export const PLANT_LOCATION = 'Production site';
+
+function classifyAllocation(
+  event: {
+    storageBeforeDelivery: boolean;
+    storageLocation: string | null;
+    finalDeliveryDate: Date;
+    deliveryPostcode: string;
+  },
+  asOf: Date
+): { status: InventoryLocationStatus; location: string } {
+  if (event.finalDeliveryDate <= asOf) {
+    return { status: 'delivered', location: event.deliveryPostcode };
+  }
+  if (event.storageBeforeDelivery) {
+    return { status: 'in_storage', location: event.storageLocation || 'Unspecified storage' };
+  }
+  return { status: 'awaiting_delivery', location: PLANT_LOCATION };
+}
+
+/**
+ * Inventory ledger per production batch
+ *
+ * @param options.productionBatchIds - Restrict to these batches
+ * @param options.asOf - Date the stored/delivered split is taken at (default now)
+ */
+export async function getBiocharInventory(
+  options: { productionBatchIds?: string[]; asOf?: Date } = {}
+): Promise<BatchInventory[]> {
+  const asOf = options.asOf ?? new Date();
+
+  const batches = await db.productionBatch.findMany({
+    where: options.productionBatchIds ? { id: { in: options.productionBatchIds } } : undefined,
+    orderBy: { productionDate: 'desc' },
+    select: {
+      id: true,
+      serialNumber: true,
+      productionDate: true,
+      outputBiocharWeightTonnes: true,
+      dryMassTonnes: true,
+      sequestrationBatches: {
+        select: {
+          quantityTonnes: true,
+          sequestration: {
+            select: {
+              id: true,
+              storageBeforeDelivery: true,
+              storageLocation: true,
+              finalDeliveryDate: true,
+              deliveryPostcode: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return batches.map((batch) => {
+    let storedTonnes = 0;
+    let deliveredTonnes = 0;
+    const locations: InventoryLocationLine[] = [];
+
+    for (const allocation of batch.sequestrationBatches) {
+      const { status, location } = classifyAllocation(allocation.sequestration, asOf);
+      if (status === 'delivered') {
+        deliveredTonnes += allocation.quantityTonnes;
+      } else {
+        storedTonnes += allocation.quantityTonnes;
+      }
+      locations.push({
+        status,
+        location,
+        quantityTonnes: allocation.quantityTonnes,
+        sequestrationEventId: allocation.sequestration.id,
+      });
+    }
+
+    const balance = batch.outputBiocharWeightTonnes - storedTonnes - deliveredTonnes;
+    const remainingTonnes = Math.max(0, balance);
+
+    if (remainingTonnes > TONNES_EPSILON) {
+      locations.unshift({
+        status: 'on_hand',
+        location: PLANT_LOCATION,
+        quantityTonnes: remainingTonnes,
+        sequestrationEventId: null,
+      });
+    }
+
+    return {
+      productionBatchId: batch.id,
+      serialNumber: batch.serialNumber,
+      productionDate: batch.productionDate,
+      producedTonnes: batch.outputBiocharWeightTonnes,
+      dryMassTonnes: batch.dryMassTonnes,
+      storedTonnes,
+      deliveredTonnes,
+      remainingTonnes,
+      overAllocatedTonnes: balance < -TONNES_EPSILON ? -balance : 0,
+      locations,
+    };
+  });
+}
+
+/**
+ * Biochar not yet delivered, grouped by location
+ * (on hand at the plant, in storage, or awaiting delivery)
+ */
+export function summarizeStockByLocation(inventory: BatchInventory[]): Array<{
+  location: string;
+  status: InventoryLocationStatus;
+  quantityTonnes: number;
+  batchCount: number;
+}> {
+  const byLocation = new Map<string, { location: string; status: InventoryLocationStatus; quantityTonnes: number; batchIds: Set<string> }>();
+
+  for (const batch of inventory) {
+    for (const line of batch.locations) {
+      if (line.status === 'delivered') continue;
+      const key = `${line.status}:${line.location}`;
+      const entry = byLocation.get(key) ?? {
+        location: line.location,
+        status: line.status,
+        quantityTonnes: 0,
+        batchIds: new Set<string>(),
+      };
+      entry.quantityTonnes += line.quantityTonnes;
+      entry.batchIds.add(batch.productionBatchId);
+      byLocation.set(key, entry);
+    }
+  }
+
+  return [...byLocation.values()]
+    .map(({ batchIds, ...entry }) => ({ ...entry, batchCount: batchIds.size }))
+    .sort((a, b) => b.quantityTonnes - a.quantityTonnes);
+}
+
+/**
+ * Tonnes of each batch still available to a sequestration event
+ *
+ * @param productionBatchIds - Batches to look up
+ * @param excludeSequestrationId - Event being edited; its own allocations count as available
+ */
+export async function getAvailableBiocharTonnes(
+  productionBatchIds: string[],
+  excludeSequestrationId?: string,
+  client: DbClient = db
+): Promise<Map<string, { producedTonnes: number; allocatedElsewhereTonnes: number; availableTonnes: number }>> {
+  const [batches, allocations] = await Promise.all([
+    client.productionBatch.findMany({
+      where: { id: { in: productionBatchIds } },
+      select: { id: true, outputBiocharWeightTonnes: true },
+    }),
+    client.sequestrationBatch.groupBy({
+      by: ['productionBatchId'],
+      where: {
+        productionBatchId: { in: productionBatchIds },
+        ...(excludeSequestrationId ? { sequestrationId: { not: excludeSequestrationId } } : {}),
+      },
+      _sum: { quantityTonnes: true },
+    }),
+  ]);
+
+  const allocatedByBatch = new Map(
+    allocations.map((a) => [a.productionBatchId, a._sum.quantityTonnes ?? 0])
+  );
+
+  return new Map(
+    batches.map((batch) => {
+      const allocatedElsewhereTonnes = allocatedByBatch.get(batch.id) ?? 0;
+      return [
+        batch.id,
+        {
+          producedTonnes: batch.outputBiocharWeightTonnes,
+          allocatedElsewhereTonnes,
+          availableTonnes: Math.max(0, batch.outputBiocharWeightTonnes - allocatedElsewhereTonnes),
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Check a sequestration event's batch allocations against the ledger
+ *
+ * Run inside the same transaction as the write so two concurrent events
+ * cannot both claim the last tonnes of a batch.
+ *
+ * @returns Problems found; empty when the allocation can be saved
+ */
+export async function checkSequestrationAllocations(
+  allocations: AllocationRequest[],
+  excludeSequestrationId?: string,
+  client: DbClient = db
+): Promise<AllocationProblem[]> {
+  const problems: AllocationProblem[] = [];
+  const seen = new Set<string>();
+
+  for (const allocation of allocations) {
+    if (seen.has(allocation.productionBatchId)) {
+      problems.push({
+        productionBatchId: allocation.productionBatchId,
+        reason: 'duplicate',
+        message: 'Production batch is listed more than once',
+        requestedTonnes: allocation.quantityTonnes,
+      });
+    }
+    seen.add(allocation.productionBatchId);
+
+    if (!Number.isFinite(allocation.quantityTonnes) || allocation.quantityTonnes <= 0) {
+      problems.push({
+        productionBatchId: allocation.productionBatchId,
+        reason: 'invalid_quantity',
+        message: 'Quantity must be greater than zero',
+        requestedTonnes: allocation.quantityTonnes,
+      });
+    }
+  }
+
+  if (problems.length > 0) {
+    return problems;
+  }
+
+  const available = await getAvailableBiocharTonnes([...seen], excludeSequestrationId, client);
+
+  for (const allocation of allocations) {
+    const batch = available.get(allocation.productionBatchId);
+
+    if (!batch) {
+      problems.push({
+        productionBatchId: allocation.productionBatchId,
+        reason: 'not_found',
+        message: 'Production batch not found',
+        requestedTonnes: allocation.quantityTonnes,
+      });
+      continue;
+    }
+
+    if (allocation.quantityTonnes > batch.availableTonnes + TONNES_EPSILON) {
+      problems.push({
+        productionBatchId: allocation.productionBatchId,
+        reason: 'exceeds_available',
+        message: `Requested ${allocation.quantityTonnes.toFixed(2)} t but only ${batch.availableTonnes.toFixed(2)} t of ${batch.producedTonnes.toFixed(2)} t produced is unallocated`,
+        requestedTonnes: allocation.quantityTonnes,
+        ...batch,
+      });
+    }
+  }
+
+  return problems;
+}
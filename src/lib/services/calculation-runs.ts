@@ -0,0 +1,52 @@
+import { createHash } from 'crypto';
+import db from '@/lib/db';
+
+/**
+ * Calculation run snapshots
+ *
+ * Every saved CORC calculation is stored as an immutable CalculationRun so a
+ * figure can be reproduced later from the exact input it was computed from,
+ * and so any later change to the source records can be detected by hash.
+ */
+
+// Bookkeeping timestamps change on every save without changing the data
+const VOLATILE_KEYS = new Set(['createdAt', 'updatedAt']);
+
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.keys(value as Record<string, unknown>)
+      .filter((key) => !VOLATILE_KEYS.has(key))
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        acc[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return acc;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * SHA-256 of the source records behind a calculation
+ *
+ * Keys are sorted and timestamps stripped so the hash only changes when
+ * the data itself changes.
+ */
+export function hashSourceRecords(records: unknown): string {
+  return createHash('sha256').update(JSON.stringify(canonicalize(records))).digest('hex');
+}
+
+/**
+ * Most recent calculation run for a monitoring period
+ */
+export async function getLatestCalculationRun(monitoringPeriodId: string) {
+  return db.calculationRun.findFirst({
+    where: { monitoringPeriodId },
+    orderBy: { createdAt: 'desc' },
+  });
+}
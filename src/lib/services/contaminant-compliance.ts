@@ -0,0 +1,133 @@
+import type { Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import {
+  CONTAMINANT_PARAMETERS,
+  END_USE_CATEGORIES,
+  WBC_CONTAMINANT_LIMITS,
+  WBC_QUALITY_CLASS_LABELS,
+  checkContaminantPanel,
+  wbcClassForEndUse,
+} from '@/lib/corc';
+import type { ContaminantCheck, ContaminantPanel, ContaminantParameter, ContaminantResult } from '@/lib/corc';
+
+/**
+ * End-use contaminant compliance
+ *
+ * A batch's panel combines all of its lab tests that are not excluded on
+ * review: limited values take the highest result, declared-only values the
+ * most recent. Sequestration to an end-use whose limits the panel exceeds
+ * is refused; a panel with unmeasured values is reported as incomplete
+ * but does not block.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export const CONTAMINANT_PANEL_SELECT = {
+  testDate: true,
+  excludedFromStatistics: true,
+  pah16MgKg: true,
+  pah8MgKg: true,
+  leadMgKg: true,
+  cadmiumMgKg: true,
+  copperMgKg: true,
+  nickelMgKg: true,
+  mercuryMgKg: true,
+  zincMgKg: true,
+  chromiumMgKg: true,
+  arsenicMgKg: true,
+  pcbMgKg: true,
+  pcddfNgTeqKg: true,
+  ashPercent: true,
+  ph: true,
+  specificSurfaceAreaM2G: true,
+} satisfies Prisma.BiocharLabTestSelect;
+
+type PanelTest = { testDate: Date; excludedFromStatistics: boolean } & ContaminantPanel;
+
+export interface EndUseCompliance {
+  endUseCategory: string;
+  name: string;
+  check: ContaminantCheck;
+}
+
+export interface EndUseComplianceProblem {
+  productionBatchId: string;
+  batchSerialNumber: number;
+  endUseCategory: string | null;
+  message: string;
+  failures: ContaminantResult[];
+}
+
+const declaredOnly = (parameter: ContaminantParameter) =>
+  Object.values(WBC_CONTAMINANT_LIMITS).every((limits) => limits[parameter] === null);
+
+export function buildContaminantPanel(tests: PanelTest[]): ContaminantPanel {
+  const included = tests
+    .filter((t) => !t.excludedFromStatistics)
+    .sort((a, b) => b.testDate.getTime() - a.testDate.getTime());
+
+  const panel = {} as ContaminantPanel;
+  for (const { parameter } of CONTAMINANT_PARAMETERS) {
+    const values = included.map((t) => t[parameter]).filter((v): v is number => v !== null);
+    panel[parameter] = values.length === 0
+      ? null
+      : declaredOnly(parameter) ? values[0] : Math.max(...values);
+  }
+  return panel;
+}
+
+/**
+ * The panel checked against every end-use category
+ */
+export function checkPanelForEndUses(panel: ContaminantPanel): EndUseCompliance[] {
+  return Object.values(END_USE_CATEGORIES).map((category) => ({
+    endUseCategory: category.code,
+    name: category.name,
+    check: checkContaminantPanel(panel, category.wbcClass),
+  }));
+}
+
+export async function getBatchContaminantPanel(
+  productionBatchId: string,
+  client: DbClient = db
+): Promise<ContaminantPanel> {
+  const tests = await client.biocharLabTest.findMany({
+    where: { productionBatchId },
+    select: CONTAMINANT_PANEL_SELECT,
+  });
+  return buildContaminantPanel(tests);
+}
+
+/**
+ * Batches whose contaminant panel exceeds the limits of an end-use
+ */
+export async function checkEndUseCompliance(
+  productionBatchIds: string[],
+  endUseCategory: string | null,
+  client: DbClient = db
+): Promise<EndUseComplianceProblem[]> {
+  const qualityClass = wbcClassForEndUse(endUseCategory);
+  const batches = await client.productionBatch.findMany({
+    where: { id: { in: productionBatchIds } },
+    select: { id: true, serialNumber: true, labTests: { select: CONTAMINANT_PANEL_SELECT } },
+  });
+
+  const problems: EndUseComplianceProblem[] = [];
+  for (const batch of batches) {
+    const check = checkContaminantPanel(buildContaminantPanel(batch.labTests), qualityClass);
+    if (check.status !== 'fail') continue;
+
+    const exceeded = check.failures
+      .map((f) => CONTAMINANT_PARAMETERS.find((p) => p.parameter === f.parameter)?.label ?? f.parameter)
+      .join(', ');
+    problems.push({
+      productionBatchId: batch.id,
+      batchSerialNumber: batch.serialNumber,
+      endUseCategory,
+      message: `Batch #${batch.serialNumber} exceeds ${WBC_QUALITY_CLASS_LABELS[qualityClass]} limits ` +
+        `(${exceeded})${endUseCategory ? '' : '; declare an end-use category if it goes to a Material use'}`,
+      failures: check.failures,
+    });
+  }
+  return problems;
+}
@@ -0,0 +1,149 @@
+import type { Prisma } from '@prisma/client';
+import db from '@/lib/db';
+
+/**
+ * CORC issuance sources
+ *
+ * A CORC issuance is linked to the production batches and sequestration
+ * events its calculation run included. A production batch can back only one
+ * issuance, so the same tonnes are never credited twice. Sequestration
+ * events are not exclusive: one delivery can carry biochar from batches of
+ * two monitoring periods.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export interface CORCSources {
+  productionBatchIds: string[];
+  sequestrationEventIds: string[];
+}
+
+export interface BatchConflict {
+  productionBatchId: string;
+  batchSerialNumber: number;
+  corcId: string;
+  corcSerialNumber: string;
+  corcStatus: string;
+}
+
+export interface SourceProblem {
+  code: 'CALCULATION_RUN_NOT_FOUND' | 'BATCH_ALREADY_ISSUED';
+  message: string;
+  conflicts?: BatchConflict[];
+}
+
+export const SOURCE_PROBLEM_STATUS: Record<SourceProblem['code'], number> = {
+  CALCULATION_RUN_NOT_FOUND: 400,
+  BATCH_ALREADY_ISSUED: 409,
+};
+
+/**
+ * Batches among `productionBatchIds` already linked to a CORC issuance
+ * other than `excludeCorcId`
+ */
+export async function findBatchConflicts(
+  productionBatchIds: string[],
+  excludeCorcId: string | null = null,
+  client: DbClient = db
+): Promise<BatchConflict[]> {
+  if (productionBatchIds.length === 0) return [];
+
+  const links = await client.cORCProductionBatch.findMany({
+    where: {
+      productionBatchId: { in: productionBatchIds },
+      ...(excludeCorcId && { corcId: { not: excludeCorcId } }),
+    },
+    include: {
+      productionBatch: { select: { serialNumber: true } },
+      corc: { select: { serialNumber: true, status: true } },
+    },
+  });
+
+  return links.map((link) => ({
+    productionBatchId: link.productionBatchId,
+    batchSerialNumber: link.productionBatch.serialNumber,
+    corcId: link.corcId,
+    corcSerialNumber: link.corc.serialNumber,
+    corcStatus: link.corc.status,
+  }));
+}
+
+export function batchConflictProblem(conflicts: BatchConflict[]): SourceProblem {
+  const batches = conflicts
+    .map((c) => `#${c.batchSerialNumber} (${c.corcSerialNumber})`)
+    .join(', ');
+  return {
+    code: 'BATCH_ALREADY_ISSUED',
+    message: `Production batches already back another CORC issuance: ${batches}`,
+    conflicts,
+  };
+}
+
+/**
+ * The batches and events a saved calculation run included, checked against
+ * the batches other issuances already hold
+ *
+ * Call it in the same serializable transaction that writes the links, so
+ * two issuances racing for the same batch cannot both pass the check.
+ */
+export async function resolveCalculationRunSources(
+  calculationRunId: string,
+  excludeCorcId: string | null = null,
+  client: DbClient = db
+): Promise<{ ok: true; sources: CORCSources } | { ok: false; problem: SourceProblem }> {
+  const run = await client.calculationRun.findUnique({
+    where: { id: calculationRunId },
+    select: { productionBatchIds: true, sequestrationEventIds: true },
+  });
+  if (!run) {
+    return {
+      ok: false,
+      problem: { code: 'CALCULATION_RUN_NOT_FOUND', message: `Calculation run ${calculationRunId} not found` },
+    };
+  }
+
+  const conflicts = await findBatchConflicts(run.productionBatchIds, excludeCorcId, client);
+  if (conflicts.length > 0) {
+    return { ok: false, problem: batchConflictProblem(conflicts) };
+  }
+
+  return {
+    ok: true,
+    sources: {
+      productionBatchIds: [...new Set(run.productionBatchIds)],
+      sequestrationEventIds: [...new Set(run.sequestrationEventIds)],
+    },
+  };
+}
+
+/**
+ * Nested create input linking a new issuance to its sources
+ */
+export function sourceLinksCreateInput(sources: CORCSources) {
+  return {
+    productionBatches: {
+      create: sources.productionBatchIds.map((productionBatchId) => ({ productionBatchId })),
+    },
+    sequestrationEvents: {
+      create: sources.sequestrationEventIds.map((sequestrationId) => ({ sequestrationId })),
+    },
+  } satisfies Pick<Prisma.CORCIssuanceCreateInput, 'productionBatches' | 'sequestrationEvents'>;
+}
+
+/**
+ * Replace an existing issuance's batch and event links
+ */
+export async function replaceCORCSources(
+  corcId: string,
+  sources: CORCSources,
+  client: DbClient = db
+): Promise<void> {
+  await client.cORCProductionBatch.deleteMany({ where: { corcId } });
+  await client.cORCSequestrationEvent.deleteMany({ where: { corcId } });
+  await client.cORCProductionBatch.createMany({
+    data: sources.productionBatchIds.map((productionBatchId) => ({ corcId, productionBatchId })),
+  });
+  await client.cORCSequestrationEvent.createMany({
+    data: sources.sequestrationEventIds.map((sequestrationId) => ({ corcId, sequestrationId })),
+  });
+}
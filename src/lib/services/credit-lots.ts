@@ -0,0 +1,653 @@
+import type { BCU, CORCIssuance, CreditLot, Prisma, RegistryAccount } from '@prisma/client';
+import db from '@/lib/db';
+import { formatLotSerialRange, type LotSelection } from '@/lib/validations/credit-lot';
+import { isSystemAccountType, type LedgerTransactionType } from '@/lib/validations/registry-account';
+import {
+  getSystemAccount,
+  postLedgerTransaction,
+  resolveHolderAccount,
+} from '@/lib/services/registry-ledger';
+
+/**
+ * Credit lots: CORC issuances and BCUs held as divisible lots
+ *
+ * An issued holding starts as one root lot covering serials 1..N, where N
+ * is its quantity in whole tCO2e (a fractional remainder is not tradeable).
+ * Transferring or retiring units closes the lot ("split") and creates a
+ * child lot for the moved units plus one for the remainder, so serial
+ * ranges never overlap and every unit keeps its lineage.
+ *
+ * Every lot belongs to a registry account, and every lot change is posted
+ * to the ledger as a debit/credit pair in the same transaction (see
+ * registry-ledger.ts).
+ *
+ * Holdings issued before lots existed get their root lot on first use, and
+ * lots created before the ledger get their account and ledger history
+ * rebuilt from their lineage. Operations lock the holding row, so
+ * concurrent requests against the same holding run one after another.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export type CreditHoldingType = 'corc' | 'bcu';
+
+export interface CreditHolding {
+  type: CreditHoldingType;
+  id: string;
+}
+
+export interface LotBalance {
+  /** Whole tCO2e units issued (remaining + retired) */
+  issued: number;
+  remaining: number;
+  retired: number;
+  activeLots: number;
+}
+
+export interface LotOperationProblem {
+  code:
+    | 'NOT_FOUND'
+    | 'NOT_ISSUED'
+    | 'LOT_NOT_FOUND'
+    | 'LOT_NOT_ACTIVE'
+    | 'LOT_REQUIRED'
+    | 'INSUFFICIENT_BALANCE'
+    | 'ACCOUNT_NOT_FOUND'
+    | 'ACCOUNT_NOT_HOLDER'
+    | 'SAME_ACCOUNT';
+  message: string;
+  /** Units available in the lot or holding, for INSUFFICIENT_BALANCE */
+  available?: number;
+}
+
+export type LotOperationDetails =
+  | {
+      operation: 'transfer';
+      /** Registry account receiving the units */
+      toAccountId?: string | null;
+      /** Without toAccountId: the new owner, matched to (or created as) a buyer account */
+      ownerName?: string | null;
+      ownerAccountId?: string | null;
+      notes?: string | null;
+      createdBy?: string | null;
+    }
+  | {
+      operation: 'retirement';
+      retirementDate: Date;
+      retirementBeneficiary: string;
+      retirementPurpose?: string | null;
+      notes?: string | null;
+      createdBy?: string | null;
+    };
+
+export interface LotSplit {
+  parent: CreditLot;
+  /** The transferred or retired units */
+  moved: CreditLot;
+  /** Units left with the previous owner, if any */
+  remainder: CreditLot | null;
+}
+
+export type LotOperationOutcome =
+  | { ok: false; problem: LotOperationProblem }
+  | { ok: true; split: LotSplit };
+
+// Normalised view of the holding fields lots are derived from
+interface HoldingState {
+  serialNumber: string;
+  status: string;
+  quantityTCO2e: number;
+  issuanceDate: Date | null;
+  ownerName: string | null;
+  ownerAccountId: string | null;
+  retirementDate: Date | null;
+  retirementBeneficiary: string | null;
+  retirementPurpose: string | null;
+}
+
+/**
+ * Whole tCO2e units a holding quantity can be split into
+ */
+export function toWholeUnits(quantityTCO2e: number): number {
+  return Math.max(0, Math.floor(quantityTCO2e + 1e-9));
+}
+
+function holdingRef(holding: CreditHolding): { corcIssuanceId: string } | { bcuId: string } {
+  return holding.type === 'corc' ? { corcIssuanceId: holding.id } : { bcuId: holding.id };
+}
+
+function fromCORC(corc: CORCIssuance): HoldingState {
+  return {
+    serialNumber: corc.serialNumber,
+    status: corc.status,
+    quantityTCO2e: corc.netCORCsTCO2e,
+    issuanceDate: corc.issuanceDate,
+    ownerName: corc.ownerName,
+    ownerAccountId: corc.ownerAccountId,
+    retirementDate: corc.retirementDate,
+    retirementBeneficiary: corc.retirementBeneficiary,
+    retirementPurpose: corc.retirementPurpose,
+  };
+}
+
+function fromBCU(bcu: BCU): HoldingState {
+  return {
+    serialNumber: bcu.registrySerialNumber,
+    status: bcu.status,
+    quantityTCO2e: bcu.quantityTonnesCO2e,
+    issuanceDate: bcu.issuanceDate,
+    ownerName: bcu.ownerName,
+    ownerAccountId: bcu.accountId,
+    retirementDate: bcu.retirementDate,
+    retirementBeneficiary: bcu.retirementBeneficiary,
+    retirementPurpose: null,
+  };
+}
+
+async function loadHolding(holding: CreditHolding, client: DbClient): Promise<HoldingState | null> {
+  if (holding.type === 'corc') {
+    const corc = await client.cORCIssuance.findUnique({ where: { id: holding.id } });
+    return corc ? fromCORC(corc) : null;
+  }
+  const bcu = await client.bCU.findUnique({ where: { id: holding.id } });
+  return bcu ? fromBCU(bcu) : null;
+}
+
+// Updating the row takes a row lock until the transaction ends
+async function lockHolding(holding: CreditHolding, client: DbClient): Promise<void> {
+  if (holding.type === 'corc') {
+    await client.cORCIssuance.update({ where: { id: holding.id }, data: { updatedAt: new Date() } });
+  } else {
+    await client.bCU.update({ where: { id: holding.id }, data: { updatedAt: new Date() } });
+  }
+}
+
+function isIssued(holding: CreditHolding, state: HoldingState): boolean {
+  return holding.type === 'corc' ? state.status !== 'draft' : true;
+}
+
+/**
+ * Create the root lot of an issued holding that has none yet, and post its
+ * issuance to the ledger
+ *
+ * @param holderAccountId Registry account receiving the units; defaults to
+ *        the account matching the holding's owner, or our operator account
+ * @returns The root lot, or null if the holding already has lots, is not
+ *          issued, or holds less than one whole tCO2e
+ */
+export async function ensureRootLot(
+  holding: CreditHolding,
+  client: DbClient = db,
+  holderAccountId: string | null = null
+): Promise<CreditLot | null> {
+  const existing = await client.creditLot.count({ where: holdingRef(holding) });
+  if (existing > 0) return null;
+
+  const state = await loadHolding(holding, client);
+  if (!state || !isIssued(holding, state)) return null;
+
+  const units = toWholeUnits(state.quantityTCO2e);
+  if (units < 1) return null;
+
+  const account = holderAccountId
+    ? await client.registryAccount.findUniqueOrThrow({ where: { id: holderAccountId } })
+    : await resolveHolderAccount({ name: state.ownerName, externalAccountId: state.ownerAccountId }, client);
+
+  const retired = state.status === 'retired';
+  const lot = await client.creditLot.create({
+    data: {
+      ...holdingRef(holding),
+      operation: 'issuance',
+      serialStart: 1,
+      serialEnd: units,
+      quantity: units,
+      status: retired ? 'retired' : 'active',
+      accountId: account.id,
+      ownerName: state.ownerName ?? account.name,
+      ownerAccountId: state.ownerAccountId ?? account.externalAccountId,
+      retirementDate: retired ? state.retirementDate : null,
+      retirementBeneficiary: retired ? state.retirementBeneficiary : null,
+      retirementPurpose: retired ? state.retirementPurpose : null,
+    },
+  });
+
+  await syncHoldingLedger(holding, client);
+  return lot;
+}
+
+/**
+ * Whether units of the holding have been transferred or retired through lots
+ */
+export async function hasSplitLots(holding: CreditHolding, client: DbClient = db): Promise<boolean> {
+  const split = await client.creditLot.count({
+    where: { ...holdingRef(holding), parentLotId: { not: null } },
+  });
+  return split > 0;
+}
+
+/**
+ * Whether any of the holding's movements have been posted to the ledger
+ */
+export async function hasLedgerTransactions(holding: CreditHolding, client: DbClient = db): Promise<boolean> {
+  const posted = await client.ledgerTransaction.count({ where: holdingRef(holding) });
+  return posted > 0;
+}
+
+/**
+ * Rebuild the root lot after the holding's quantity, status or owner was
+ * edited directly. Only valid while hasLedgerTransactions is false: posted
+ * transactions are never deleted.
+ */
+export async function resetRootLot(holding: CreditHolding, client: DbClient = db): Promise<CreditLot | null> {
+  if (await hasLedgerTransactions(holding, client)) {
+    throw new Error('Cannot reset the root lot of a holding with ledger transactions');
+  }
+  await client.creditLot.deleteMany({ where: holdingRef(holding) });
+  return ensureRootLot(holding, client);
+}
+
+// Ledger transactions a lot records: how its units arrived, plus the
+// retirement of a root lot that was retired before lots existed
+function lotMovements(lot: CreditLot): LedgerTransactionType[] {
+  switch (lot.operation) {
+    case 'issuance':
+      return lot.status === 'retired' ? ['issuance', 'retirement'] : ['issuance'];
+    case 'transfer':
+      return ['transfer'];
+    case 'retirement':
+      return ['retirement'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Post any of the holding's lot movements that are not yet in the ledger
+ *
+ * Idempotent. Lots without a registry account (created before accounts
+ * existed) are assigned one from their owner name first, so the ledger
+ * history of older holdings is rebuilt from their lot lineage.
+ */
+export async function syncHoldingLedger(holding: CreditHolding, client: DbClient = db): Promise<number> {
+  const lots = await getHoldingLots(holding, client);
+  if (lots.length === 0) return 0;
+
+  for (const lot of lots) {
+    if (lot.accountId) continue;
+    const account = await resolveHolderAccount({ name: lot.ownerName, externalAccountId: lot.ownerAccountId }, client);
+    await client.creditLot.update({ where: { id: lot.id }, data: { accountId: account.id } });
+    lot.accountId = account.id;
+  }
+
+  const posted = await client.ledgerTransaction.findMany({
+    where: holdingRef(holding),
+    select: { lotId: true, transactionType: true },
+  });
+  const done = new Set(posted.map((t) => `${t.lotId}:${t.transactionType}`));
+  const byId = new Map(lots.map((lot) => [lot.id, lot]));
+
+  let issuanceAccount: RegistryAccount | null = null;
+  let retirementAccount: RegistryAccount | null = null;
+  let state: HoldingState | null = null;
+  let count = 0;
+
+  for (const lot of lots) {
+    for (const type of lotMovements(lot)) {
+      if (done.has(`${lot.id}:${type}`)) continue;
+
+      let fromAccountId: string;
+      let toAccountId: string;
+      let createdAt = lot.createdAt;
+
+      if (type === 'issuance') {
+        issuanceAccount ??= await getSystemAccount('issuance', client);
+        state ??= await loadHolding(holding, client);
+        fromAccountId = issuanceAccount.id;
+        toAccountId = lot.accountId as string;
+        createdAt = state?.issuanceDate ?? lot.createdAt;
+      } else if (type === 'transfer') {
+        const parent = lot.parentLotId ? byId.get(lot.parentLotId) : undefined;
+        if (!parent?.accountId) continue;
+        fromAccountId = parent.accountId;
+        toAccountId = lot.accountId as string;
+      } else {
+        retirementAccount ??= await getSystemAccount('retirement', client);
+        fromAccountId = lot.accountId as string;
+        toAccountId = retirementAccount.id;
+        if (lot.operation === 'issuance') {
+          createdAt = lot.retirementDate ?? lot.createdAt;
+        }
+      }
+
+      await postLedgerTransaction(
+        {
+          transactionType: type,
+          holding: holdingRef(holding),
+          lot,
+          fromAccountId,
+          toAccountId,
+          memo: lot.notes,
+          createdBy: lot.createdBy,
+          createdAt,
+        },
+        client
+      );
+      count++;
+    }
+  }
+
+  return count;
+}
+
+async function resolveTransferAccount(
+  details: Extract<LotOperationDetails, { operation: 'transfer' }>,
+  client: DbClient
+): Promise<{ account: RegistryAccount } | { problem: LotOperationProblem }> {
+  if (!details.toAccountId) {
+    return {
+      account: await resolveHolderAccount({ name: details.ownerName, externalAccountId: details.ownerAccountId }, client),
+    };
+  }
+
+  const account = await client.registryAccount.findUnique({ where: { id: details.toAccountId } });
+  if (!account) {
+    return { problem: { code: 'ACCOUNT_NOT_FOUND', message: 'Registry account not found' } };
+  }
+  if (!account.isActive || isSystemAccountType(account.accountType)) {
+    return {
+      problem: {
+        code: 'ACCOUNT_NOT_HOLDER',
+        message: `${account.name} cannot receive credits (${account.isActive ? 'system account' : 'inactive'})`,
+      },
+    };
+  }
+  return { account };
+}
+
+export function summarizeLots(lots: Array<Pick<CreditLot, 'status' | 'quantity'>>): LotBalance {
+  let remaining = 0;
+  let retired = 0;
+  let activeLots = 0;
+  for (const lot of lots) {
+    if (lot.status === 'active') {
+      remaining += lot.quantity;
+      activeLots++;
+    } else if (lot.status === 'retired') {
+      retired += lot.quantity;
+    }
+  }
+  return { issued: remaining + retired, remaining, retired, activeLots };
+}
+
+/**
+ * Balance of a holding that has no lots yet, derived from its status
+ */
+export function fallbackBalance(status: string, quantityTCO2e: number): LotBalance {
+  const units = status === 'draft' ? 0 : toWholeUnits(quantityTCO2e);
+  return status === 'retired'
+    ? { issued: units, remaining: 0, retired: units, activeLots: 0 }
+    : { issued: units, remaining: units, retired: 0, activeLots: units > 0 ? 1 : 0 };
+}
+
+/**
+ * Remaining and retired units for a list of holdings of one type
+ */
+export async function getLotBalances(
+  type: CreditHoldingType,
+  holdings: Array<{ id: string; status: string; quantityTCO2e: number }>,
+  client: DbClient = db
+): Promise<Map<string, LotBalance>> {
+  const ids = holdings.map((h) => h.id);
+  const lots = await client.creditLot.findMany({
+    where: type === 'corc' ? { corcIssuanceId: { in: ids } } : { bcuId: { in: ids } },
+    select: { corcIssuanceId: true, bcuId: true, status: true, quantity: true },
+  });
+
+  const byHolding = new Map<string, typeof lots>();
+  for (const lot of lots) {
+    const key = (type === 'corc' ? lot.corcIssuanceId : lot.bcuId) as string;
+    byHolding.set(key, [...(byHolding.get(key) ?? []), lot]);
+  }
+
+  return new Map(
+    holdings.map((h) => {
+      const holdingLots = byHolding.get(h.id);
+      return [h.id, holdingLots ? summarizeLots(holdingLots) : fallbackBalance(h.status, h.quantityTCO2e)];
+    })
+  );
+}
+
+/**
+ * All lots of a holding, oldest first
+ */
+export async function getHoldingLots(holding: CreditHolding, client: DbClient = db): Promise<CreditLot[]> {
+  return client.creditLot.findMany({
+    where: holdingRef(holding),
+    orderBy: [{ createdAt: 'asc' }, { serialStart: 'asc' }],
+  });
+}
+
+async function selectLot(
+  holding: CreditHolding,
+  lotId: string | null | undefined,
+  client: DbClient
+): Promise<{ lot: CreditLot } | { problem: LotOperationProblem }> {
+  if (lotId) {
+    const lot = await client.creditLot.findFirst({ where: { id: lotId, ...holdingRef(holding) } });
+    if (!lot) {
+      return { problem: { code: 'LOT_NOT_FOUND', message: 'Lot not found in this holding' } };
+    }
+    if (lot.status !== 'active') {
+      return { problem: { code: 'LOT_NOT_ACTIVE', message: `Lot ${lot.serialStart}-${lot.serialEnd} is ${lot.status}` } };
+    }
+    return { lot };
+  }
+
+  const active = await client.creditLot.findMany({
+    where: { ...holdingRef(holding), status: 'active' },
+    orderBy: { serialStart: 'asc' },
+  });
+  if (active.length === 0) {
+    return { problem: { code: 'INSUFFICIENT_BALANCE', message: 'No units remain in this holding', available: 0 } };
+  }
+  if (active.length > 1) {
+    return {
+      problem: {
+        code: 'LOT_REQUIRED',
+        message: `This holding has ${active.length} active lots; choose the lot to act on`,
+      },
+    };
+  }
+  return { lot: active[0] };
+}
+
+/**
+ * Bring the holding's own status, owner and retirement fields in line with
+ * its lots after an operation
+ */
+async function syncHolding(
+  holding: CreditHolding,
+  details: LotOperationDetails,
+  client: DbClient
+): Promise<void> {
+  const lots = await client.creditLot.findMany({
+    where: { ...holdingRef(holding), status: 'active' },
+    select: { accountId: true, ownerName: true, ownerAccountId: true },
+  });
+
+  const owners = new Set(lots.map((l) => l.accountId ?? `${l.ownerName ?? ''}\u0000${l.ownerAccountId ?? ''}`));
+  const soleOwner = owners.size === 1 ? lots[0] : null;
+  const fullyRetired = lots.length === 0;
+
+  const retirement = fullyRetired && details.operation === 'retirement'
+    ? {
+        retirementDate: details.retirementDate,
+        retirementBeneficiary: details.retirementBeneficiary,
+      }
+    : {};
+
+  if (holding.type === 'corc') {
+    await client.cORCIssuance.update({
+      where: { id: holding.id },
+      data: {
+        ...(fullyRetired ? { status: 'retired' } : {}),
+        ...retirement,
+        ...(fullyRetired && details.operation === 'retirement'
+          ? { retirementPurpose: details.retirementPurpose ?? null }
+          : {}),
+        ...(soleOwner ? { ownerName: soleOwner.ownerName, ownerAccountId: soleOwner.ownerAccountId } : {}),
+      },
+    });
+  } else {
+    await client.bCU.update({
+      where: { id: holding.id },
+      data: {
+        ...(fullyRetired
+          ? { status: 'retired' }
+          : details.operation === 'transfer'
+            ? { status: 'transferred' }
+            : {}),
+        ...retirement,
+        ...(soleOwner ? { ownerName: soleOwner.ownerName, accountId: soleOwner.ownerAccountId } : {}),
+      },
+    });
+  }
+}
+
+/**
+ * Transfer or retire units of a lot, splitting it
+ *
+ * Run inside a transaction. Without a lotId the holding's only active lot
+ * is used; without a quantity the whole lot moves.
+ */
+export async function applyLotOperation(
+  holding: CreditHolding,
+  selection: LotSelection,
+  details: LotOperationDetails,
+  client: DbClient
+): Promise<LotOperationOutcome> {
+  const state = await loadHolding(holding, client);
+  if (!state) {
+    return { ok: false, problem: { code: 'NOT_FOUND', message: 'Holding not found' } };
+  }
+  if (!isIssued(holding, state)) {
+    return {
+      ok: false,
+      problem: { code: 'NOT_ISSUED', message: `Credits must be issued first (current status: ${state.status})` },
+    };
+  }
+
+  await lockHolding(holding, client);
+  await ensureRootLot(holding, client);
+  await syncHoldingLedger(holding, client);
+
+  const selected = await selectLot(holding, selection.lotId, client);
+  if ('problem' in selected) {
+    return { ok: false, problem: selected.problem };
+  }
+  const { lot } = selected;
+
+  // Moved units go to the recipient account, or stay with the holder when retired
+  let ownership = { accountId: lot.accountId, ownerName: lot.ownerName, ownerAccountId: lot.ownerAccountId };
+  if (details.operation === 'transfer') {
+    const resolved = await resolveTransferAccount(details, client);
+    if ('problem' in resolved) {
+      return { ok: false, problem: resolved.problem };
+    }
+    const { account } = resolved;
+    if (account.id === lot.accountId) {
+      return {
+        ok: false,
+        problem: { code: 'SAME_ACCOUNT', message: `The lot is already held by ${account.name}` },
+      };
+    }
+    ownership = {
+      accountId: account.id,
+      ownerName: account.name,
+      ownerAccountId: account.externalAccountId ?? details.ownerAccountId ?? null,
+    };
+  }
+
+  const quantity = selection.quantity ?? lot.quantity;
+  if (quantity > lot.quantity) {
+    const verb = details.operation === 'transfer' ? 'transfer' : 'retire';
+    return {
+      ok: false,
+      problem: {
+        code: 'INSUFFICIENT_BALANCE',
+        message: `Cannot ${verb} ${quantity} tCO2e: lot ${formatLotSerialRange(state.serialNumber, lot)} holds ${lot.quantity} tCO2e`,
+        available: lot.quantity,
+      },
+    };
+  }
+
+  const closed = await client.creditLot.updateMany({
+    where: { id: lot.id, status: 'active' },
+    data: { status: 'split' },
+  });
+  if (closed.count === 0) {
+    return { ok: false, problem: { code: 'LOT_NOT_ACTIVE', message: 'The lot was changed by another request' } };
+  }
+
+  const common = {
+    ...holdingRef(holding),
+    parentLotId: lot.id,
+    createdBy: details.createdBy ?? null,
+  };
+
+  const moved = await client.creditLot.create({
+    data: {
+      ...common,
+      operation: details.operation,
+      serialStart: lot.serialStart,
+      serialEnd: lot.serialStart + quantity - 1,
+      quantity,
+      notes: details.notes ?? null,
+      ...ownership,
+      ...(details.operation === 'transfer'
+        ? { status: 'active' }
+        : {
+            status: 'retired',
+            retirementDate: details.retirementDate,
+            retirementBeneficiary: details.retirementBeneficiary,
+            retirementPurpose: details.retirementPurpose ?? null,
+          }),
+    },
+  });
+
+  const remainder = quantity < lot.quantity
+    ? await client.creditLot.create({
+        data: {
+          ...common,
+          operation: 'remainder',
+          serialStart: lot.serialStart + quantity,
+          serialEnd: lot.serialEnd,
+          quantity: lot.quantity - quantity,
+          status: 'active',
+          accountId: lot.accountId,
+          ownerName: lot.ownerName,
+          ownerAccountId: lot.ownerAccountId,
+        },
+      })
+    : null;
+
+  await syncHolding(holding, details, client);
+  await syncHoldingLedger(holding, client);
+
+  return { ok: true, split: { parent: { ...lot, status: 'split' }, moved, remainder } };
+}
+
+/**
+ * HTTP status for each lot problem
+ */
+export const LOT_PROBLEM_STATUS: Record<LotOperationProblem['code'], number> = {
+  NOT_FOUND: 404,
+  LOT_NOT_FOUND: 404,
+  NOT_ISSUED: 400,
+  LOT_REQUIRED: 400,
+  LOT_NOT_ACTIVE: 409,
+  INSUFFICIENT_BALANCE: 409,
+  ACCOUNT_NOT_FOUND: 404,
+  ACCOUNT_NOT_HOLDER: 400,
+  SAME_ACCOUNT: 400,
+};
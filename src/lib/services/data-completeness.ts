@@ -0,0 +1,138 @@
+import type { ProductionBatch } from '@prisma/client';
+import {
+  calculateDryMass,
+  ESTIMATE_ORGANIC_CARBON_PERCENT,
+  ESTIMATE_HYDROGEN_PERCENT,
+} from '@/lib/corc';
+import type { CampaignSummary } from '@/lib/services/lab-campaigns';
+
+/**
+ * Calculation data completeness
+ *
+ * A CORC calculation needs measured values for every batch it covers.
+ * Strict calculations refuse to run while any batch has a gap; estimate
+ * calculations fill the gaps with placeholders and are never issuable.
+ */
+
+export const CALCULATION_DATA_MODES = [
+  { value: 'strict', label: 'Strict (issuable)' },
+  { value: 'estimate', label: 'Estimate (not issuable)' },
+] as const;
+
+export type CalculationDataMode = typeof CALCULATION_DATA_MODES[number]['value'];
+
+export const DATA_GAP_FIELDS = [
+  { value: 'lab_test', label: 'Lab test' },
+  { value: 'dry_mass', label: 'Dry mass' },
+  { value: 'moisture', label: 'Moisture' },
+  { value: 'feedstock_allocation', label: 'Feedstock allocation' },
+] as const;
+
+export type DataGapField = typeof DATA_GAP_FIELDS[number]['value'];
+
+export interface BatchDataGap {
+  productionBatchId: string;
+  batchSerialNumber: number;
+  field: DataGapField;
+  message: string;
+}
+
+export interface DataCompletenessReport {
+  complete: boolean;
+  batchCount: number;
+  incompleteBatchCount: number;
+  gaps: BatchDataGap[];
+}
+
+export interface BatchCalculationData {
+  dryMassTonnes: number;
+  organicCarbonPercent: number;
+  hydrogenPercent: number;
+  /** Values above that are placeholders rather than measurements */
+  gaps: BatchDataGap[];
+}
+
+type CompletenessBatch = Pick<
+  ProductionBatch,
+  | 'id'
+  | 'serialNumber'
+  | 'outputBiocharWeightTonnes'
+  | 'dryMassTonnes'
+  | 'moisturePercent'
+  | 'organicCarbonPercent'
+  | 'hydrogenPercent'
+> & {
+  feedstockAllocations: unknown[];
+  labTestCount: number;
+  /** Current sampling campaign, see currentLabCampaign */
+  labCampaign: CampaignSummary | null;
+};
+
+/**
+ * Dry mass of a batch: as recorded, else from the moisture content, else
+ * the delivered weight
+ */
+export function resolveDryMassTonnes(
+  batch: Pick<ProductionBatch, 'outputBiocharWeightTonnes' | 'dryMassTonnes' | 'moisturePercent'>
+): number {
+  return batch.dryMassTonnes ??
+    (batch.moisturePercent !== null && batch.moisturePercent < 100
+      ? calculateDryMass(batch.outputBiocharWeightTonnes, batch.moisturePercent)
+      : batch.outputBiocharWeightTonnes);
+}
+
+/**
+ * The dry mass and quality a calculation uses for a batch, with a gap for
+ * each value that is not measured
+ */
+export function resolveBatchCalculationData(batch: CompletenessBatch): BatchCalculationData {
+  const gaps: BatchDataGap[] = [];
+  const gap = (field: DataGapField, message: string) =>
+    gaps.push({ productionBatchId: batch.id, batchSerialNumber: batch.serialNumber, field, message });
+
+  if (!batch.labCampaign) {
+    gap(
+      'lab_test',
+      batch.labTestCount === 0
+        ? 'No lab test on file'
+        : 'No usable lab results (every test excluded or replicates too scattered)'
+    );
+  }
+  if (batch.dryMassTonnes === null) {
+    gap('dry_mass', 'Dry mass not recorded');
+  }
+  if (batch.moisturePercent === null) {
+    gap('moisture', 'Moisture content not recorded');
+  }
+  if (batch.feedstockAllocations.length === 0) {
+    gap('feedstock_allocation', 'No feedstock allocated, so E_biomass would be understated');
+  }
+
+  // Placeholders, in order of preference: dry mass from moisture, then the
+  // delivered weight; quality entered on the batch, then the defaults
+  return {
+    dryMassTonnes: resolveDryMassTonnes(batch),
+    organicCarbonPercent: batch.labCampaign?.conservativeOrganicCarbonPercent ??
+      batch.organicCarbonPercent ??
+      ESTIMATE_ORGANIC_CARBON_PERCENT,
+    hydrogenPercent: batch.labCampaign?.hydrogenPercent ??
+      batch.hydrogenPercent ??
+      ESTIMATE_HYDROGEN_PERCENT,
+    gaps,
+  };
+}
+
+export function summarizeDataGaps(batchCount: number, gaps: BatchDataGap[]): DataCompletenessReport {
+  const incompleteBatchCount = new Set(gaps.map((g) => g.productionBatchId)).size;
+  return {
+    complete: gaps.length === 0,
+    batchCount,
+    incompleteBatchCount,
+    gaps,
+  };
+}
+
+export function describeDataGaps(report: DataCompletenessReport): string {
+  return `${report.incompleteBatchCount} of ${report.batchCount} production batch(es) lack data the calculation needs; ` +
+    'complete them or run an estimate, which cannot be issued';
+}
@@ -0,0 +1,355 @@
+import type { EvidenceFile } from '@prisma/client';
+import db from '@/lib/db';
+import { toCSV } from '@/lib/utils/csv';
+import { createZip, type ZipEntry } from '@/lib/utils/zip';
+import { openEvidenceFile, sha256Hex } from '@/lib/services/evidence-storage';
+
+/**
+ * Verifier data-room export
+ *
+ * Bundles everything a third-party verifier needs for one monitoring period
+ * into a single ZIP: source records as CSV, the calculation snapshot, the
+ * leakage assessment, every linked evidence file, and a manifest with a
+ * SHA-256 for each file so the bundle can be checked after transfer.
+ *
+ * Records are scoped the same way as the CORC calculation: production
+ * batches of the facility dated in the period, sequestration events of
+ * the facility's biochar delivered in the period, and the records linked
+ * to them. Energy and
+ * transport records not linked to any batch or event are included when
+ * they fall inside the period, so site-level entries are not lost.
+ */
+
+export const DATA_ROOM_EXPORT_VERSION = 1;
+
+// Large geometry blobs add nothing for a verifier
+const OMITTED_COLUMNS = new Set(['routeGeometry']);
+
+// The archive is assembled in memory, so evidence content is capped;
+// DATA_ROOM_MAX_EVIDENCE_MB overrides the default of 512 MB
+export const DATA_ROOM_MAX_EVIDENCE_BYTES =
+  (Number(process.env.DATA_ROOM_MAX_EVIDENCE_MB) || 512) * 1024 * 1024;
+
+export interface DataRoomManifestFile {
+  path: string;
+  bytes: number;
+  sha256: string;
+}
+
+export interface DataRoomManifestEvidence {
+  evidenceId: string;
+  fileName: string;
+  category: string;
+  /** Path in the archive, or null when the bytes could not be exported */
+  path: string | null;
+  /** Hash recorded at upload time */
+  storedSha256: string | null;
+  /** Whether the exported bytes match the hash recorded at upload */
+  verified: boolean | null;
+  missingReason?: string;
+}
+
+export interface DataRoomManifest {
+  exportVersion: number;
+  generatedAt: string;
+  generatedBy: string | null;
+  monitoringPeriod: {
+    id: string;
+    facilityId: string;
+    facilityName: string;
+    periodStart: string;
+    periodEnd: string;
+    status: string;
+  };
+  calculationRunId: string | null;
+  leakageAssessmentId: string | null;
+  recordCounts: Record<string, number>;
+  evidence: DataRoomManifestEvidence[];
+  files: DataRoomManifestFile[];
+}
+
+export interface DataRoomExport {
+  fileName: string;
+  zip: Buffer;
+  manifest: DataRoomManifest;
+}
+
+export interface DataRoomExportTooLarge {
+  problem: {
+    code: 'EXPORT_TOO_LARGE';
+    message: string;
+    evidenceBytes: number;
+    limitBytes: number;
+  };
+}
+
+function tooLarge(evidenceBytes: number): DataRoomExportTooLarge {
+  const mb = (bytes: number) => Math.ceil(bytes / (1024 * 1024));
+  return {
+    problem: {
+      code: 'EXPORT_TOO_LARGE',
+      message: `Evidence for this period exceeds ${mb(DATA_ROOM_MAX_EVIDENCE_BYTES)} MB (at least ${mb(evidenceBytes)} MB); download evidence files individually`,
+      evidenceBytes,
+      limitBytes: DATA_ROOM_MAX_EVIDENCE_BYTES,
+    },
+  };
+}
+
+function stripColumns<T extends object>(rows: T[]): Record<string, unknown>[] {
+  return rows.map((row) =>
+    Object.fromEntries(Object.entries(row).filter(([key]) => !OMITTED_COLUMNS.has(key)))
+  );
+}
+
+function safeFileName(name: string): string {
+  return name.replace(/[^\w.\-]+/g, '_').slice(0, 120) || 'file';
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+function evidenceFolder(evidence: EvidenceFile): string {
+  if (evidence.productionBatchId) return 'production-batches';
+  if (evidence.feedstockDeliveryId) return 'feedstock-deliveries';
+  if (evidence.energyUsageId) return 'energy-usage';
+  if (evidence.transportEventId) return 'transport-events';
+  if (evidence.sequestrationEventId) return 'sequestration-events';
+  if (evidence.corcId) return 'corc-issuances';
+  return 'other';
+}
+
+/**
+ * Build the data-room ZIP for a monitoring period
+ *
+ * @param generatedBy - User recorded in the manifest
+ * @returns null if the period does not exist, or a problem when its
+ *   evidence exceeds DATA_ROOM_MAX_EVIDENCE_BYTES
+ */
+export async function buildMonitoringPeriodExport(
+  monitoringPeriodId: string,
+  generatedBy: string | null = null
+): Promise<DataRoomExport | DataRoomExportTooLarge | null> {
+  const period = await db.monitoringPeriod.findUnique({
+    where: { id: monitoringPeriodId },
+    include: { facility: true },
+  });
+
+  if (!period) {
+    return null;
+  }
+
+  const productionBatches = await db.productionBatch.findMany({
+    where: {
+      facilityId: period.facilityId,
+      productionDate: { gte: period.periodStart, lte: period.periodEnd },
+    },
+    orderBy: { productionDate: 'asc' },
+  });
+  const productionBatchIds = productionBatches.map((b) => b.id);
+
+  const [labTests, feedstockAllocations, sequestrationEvents] = await Promise.all([
+    db.biocharLabTest.findMany({
+      where: { productionBatchId: { in: productionBatchIds } },
+      orderBy: { testDate: 'asc' },
+    }),
+    db.productionFeedstock.findMany({
+      where: { productionBatchId: { in: productionBatchIds } },
+    }),
+    db.sequestrationEvent.findMany({
+      where: {
+        finalDeliveryDate: { gte: period.periodStart, lte: period.periodEnd },
+        batches: { some: { productionBatch: { facilityId: period.facilityId } } },
+      },
+      orderBy: { finalDeliveryDate: 'asc' },
+    }),
+  ]);
+  const sequestrationEventIds = sequestrationEvents.map((e) => e.id);
+
+  const feedstockDeliveryIds = [
+    ...new Set([
+      ...feedstockAllocations.map((a) => a.feedstockDeliveryId),
+      ...productionBatches.map((b) => b.feedstockDeliveryId).filter((id): id is string => id !== null),
+    ]),
+  ];
+
+  const [feedstockDeliveries, sequestrationBatches, energyUsages, transportEvents, corcIssuances] =
+    await Promise.all([
+      db.feedstockDelivery.findMany({
+        where: { id: { in: feedstockDeliveryIds } },
+        orderBy: { date: 'asc' },
+      }),
+      db.sequestrationBatch.findMany({
+        where: { sequestrationId: { in: sequestrationEventIds } },
+      }),
+      db.energyUsage.findMany({
+        where: {
+          OR: [
+            { productionBatchId: { in: productionBatchIds } },
+            {
+              productionBatchId: null,
+              periodStart: { lte: period.periodEnd },
+              periodEnd: { gte: period.periodStart },
+            },
+          ],
+        },
+        orderBy: { periodStart: 'asc' },
+      }),
+      db.transportEvent.findMany({
+        where: {
+          OR: [
+            { feedstockDeliveryId: { in: feedstockDeliveryIds } },
+            { sequestrationEventId: { in: sequestrationEventIds } },
+            {
+              feedstockDeliveryId: null,
+              sequestrationEventId: null,
+              date: { gte: period.periodStart, lte: period.periodEnd },
+            },
+          ],
+        },
+        orderBy: { date: 'asc' },
+      }),
+      db.cORCIssuance.findMany({
+        where: { monitoringPeriodId: period.id },
+        select: { id: true },
+      }),
+    ]);
+
+  const [calculationRun, leakageAssessment] = await Promise.all([
+    db.calculationRun.findFirst({
+      where: { monitoringPeriodId: period.id },
+      orderBy: { createdAt: 'desc' },
+    }),
+    db.leakageAssessment.findFirst({
+      where: { facilityId: period.facilityId },
+      orderBy: { assessmentDate: 'desc' },
+    }),
+  ]);
+
+  const evidenceFiles = await db.evidenceFile.findMany({
+    where: {
+      OR: [
+        { productionBatchId: { in: productionBatchIds } },
+        { feedstockDeliveryId: { in: feedstockDeliveryIds } },
+        { energyUsageId: { in: energyUsages.map((e) => e.id) } },
+        { transportEventId: { in: transportEvents.map((t) => t.id) } },
+        { sequestrationEventId: { in: sequestrationEventIds } },
+        { corcId: { in: corcIssuances.map((c) => c.id) } },
+      ],
+    },
+    orderBy: { uploadedAt: 'asc' },
+  });
+
+  // Refuse before reading any content when the recorded sizes already exceed the cap
+  const declaredEvidenceBytes = evidenceFiles.reduce((sum, f) => sum + f.fileSize, 0);
+  if (declaredEvidenceBytes > DATA_ROOM_MAX_EVIDENCE_BYTES) {
+    return tooLarge(declaredEvidenceBytes);
+  }
+
+  const generatedAt = new Date();
+  const entries: ZipEntry[] = [];
+  const addFile = (path: string, data: Buffer | string) => {
+    entries.push({ name: path, data: typeof data === 'string' ? Buffer.from(data, 'utf8') : data, date: generatedAt });
+  };
+
+  // Source records
+  addFile('records/production-batches.csv', toCSV(stripColumns(productionBatches)));
+  addFile('records/production-feedstock-allocations.csv', toCSV(stripColumns(feedstockAllocations)));
+  addFile('records/lab-tests.csv', toCSV(stripColumns(labTests)));
+  addFile('records/feedstock-deliveries.csv', toCSV(stripColumns(feedstockDeliveries)));
+  addFile('records/energy-usage.csv', toCSV(stripColumns(energyUsages)));
+  addFile('records/transport-events.csv', toCSV(stripColumns(transportEvents)));
+  addFile('records/sequestration-events.csv', toCSV(stripColumns(sequestrationEvents)));
+  addFile('records/sequestration-batches.csv', toCSV(stripColumns(sequestrationBatches)));
+  addFile('records/evidence-files.csv', toCSV(stripColumns(evidenceFiles)));
+
+  // Calculation snapshot and leakage
+  if (calculationRun) {
+    addFile('calculation/calculation-run.json', JSON.stringify(calculationRun, null, 2));
+  }
+  if (leakageAssessment) {
+    addFile('leakage/leakage-assessment.json', JSON.stringify(leakageAssessment, null, 2));
+  }
+
+  // Evidence binaries
+  const evidence: DataRoomManifestEvidence[] = [];
+  let evidenceBytes = 0;
+  for (const file of evidenceFiles) {
+    const stream = await openEvidenceFile(file).catch((error) => {
+      console.error(`Failed to read evidence file ${file.id}:`, error);
+      return null;
+    });
+
+    if (!stream) {
+      evidence.push({
+        evidenceId: file.id,
+        fileName: file.fileName,
+        category: file.category,
+        path: null,
+        storedSha256: file.sha256,
+        verified: null,
+        missingReason: file.storageBackend ? 'Stored content not found' : 'No stored content (metadata only)',
+      });
+      continue;
+    }
+
+    const data = await readStream(stream);
+    evidenceBytes += data.length;
+    if (evidenceBytes > DATA_ROOM_MAX_EVIDENCE_BYTES) {
+      return tooLarge(evidenceBytes);
+    }
+    const path = `evidence/${evidenceFolder(file)}/${file.id}-${safeFileName(file.fileName)}`;
+    addFile(path, data);
+    evidence.push({
+      evidenceId: file.id,
+      fileName: file.fileName,
+      category: file.category,
+      path,
+      storedSha256: file.sha256,
+      verified: file.sha256 ? sha256Hex(data) === file.sha256 : null,
+    });
+  }
+
+  const files: DataRoomManifestFile[] = entries.map((entry) => ({
+    path: entry.name,
+    bytes: entry.data.length,
+    sha256: sha256Hex(entry.data),
+  }));
+
+  const manifest: DataRoomManifest = {
+    exportVersion: DATA_ROOM_EXPORT_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    generatedBy,
+    monitoringPeriod: {
+      id: period.id,
+      facilityId: period.facilityId,
+      facilityName: period.facility.name,
+      periodStart: period.periodStart.toISOString(),
+      periodEnd: period.periodEnd.toISOString(),
+      status: period.status,
+    },
+    calculationRunId: calculationRun?.id ?? null,
+    leakageAssessmentId: leakageAssessment?.id ?? null,
+    recordCounts: {
+      productionBatches: productionBatches.length,
+      productionFeedstockAllocations: feedstockAllocations.length,
+      labTests: labTests.length,
+      feedstockDeliveries: feedstockDeliveries.length,
+      energyUsages: energyUsages.length,
+      transportEvents: transportEvents.length,
+      sequestrationEvents: sequestrationEvents.length,
+      sequestrationBatches: sequestrationBatches.length,
+      evidenceFiles: evidenceFiles.length,
+    },
+    evidence,
+    files,
+  };
+
+  addFile('manifest.json', JSON.stringify(manifest, null, 2));
+  // sha256sum-compatible list, so the bundle can be checked with `sha256sum -c`
+  addFile('checksums.sha256', files.map((f) => `${f.sha256}  ${f.path}`).join('\n') + '\n');
+
+  const fileName = `data-room-${safeFileName(period.facility.name)}-${period.periodStart.toISOString().slice(0, 10)}-${period.periodEnd.toISOString().slice(0, 10)}.zip`;
+
+  return { fileName, zip: createZip(entries), manifest };
+}
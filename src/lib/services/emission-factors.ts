@@ -0,0 +1,332 @@
+import type { EmissionFactor } from '@prisma/client';
+import db from '@/lib/db';
+import { DEFAULT_GWP_SET, GWP_SETS } from '@/lib/corc';
+import type { GwpSet } from '@/lib/corc';
+
+/**
+ * Emission factor resolution
+ *
+ * Picks the active EmissionFactor from the /datasets table for each energy,
+ * fuel and transport line of a CORC calculation, so every kg CO2e can be
+ * traced back to a cited source. Falls back to methodology defaults when
+ * no dataset factor matches, and records that the default path was used.
+ * A default is only applied in its own unit, or one that converts to it
+ * exactly; otherwise the line is left unpriced and flagged.
+ *
+ * A factor that lists its CO2, CH4 and N2O components is re-derived under
+ * the calculation's GWP basis instead of using its stored total; one whose
+ * own GWP values differ from that basis is flagged.
+ */
+
+export interface EmissionFactorQuery {
+  category: 'electricity' | 'fuel' | 'transport';
+  /** Activity the factor applies to (e.g. diesel, electricity, road_freight) */
+  activityType: string;
+  /** Unit of the activity quantity (e.g. kWh, litres, tkm) */
+  unit: string;
+  /** Reference year of the activity */
+  year: number;
+  /** Facility region or country, matched against EmissionFactor.region */
+  region?: string | null;
+}
+
+export interface ResolvedEmissionFactor {
+  factorId: string | null;
+  factorName: string;
+  factorUnit: string;
+  factorYear: number | null;
+  factorSource: string;
+  kgCO2ePerUnit: number;
+  isDefault: boolean;
+  /** kgCO2ePerUnit was derived from the gas components rather than the stored total */
+  derivedFromComponents: boolean;
+  /** The factor's stored GWP values differ from the calculation's basis */
+  gwpMismatch: boolean;
+  /** No factor matches and the default is in another unit, so nothing was priced */
+  unitMismatch: boolean;
+}
+
+export interface EmissionFactorLine {
+  /** What the line covers, e.g. energy, feedstock_transport, end_use_transport */
+  lineType: string;
+  /** Source record the quantity came from */
+  recordType: string;
+  recordId: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  factorId: string | null;
+  factorName: string;
+  factorUnit: string;
+  factorYear: number | null;
+  factorSource: string;
+  kgCO2ePerUnit: number;
+  kgCO2e: number;
+  isDefault: boolean;
+  derivedFromComponents: boolean;
+  gwpMismatch: boolean;
+  unitMismatch: boolean;
+}
+
+/**
+ * Methodology default factors (kg CO2e per unit)
+ * Used only when no active dataset factor matches the query.
+ */
+export const DEFAULT_EMISSION_FACTORS: Record<string, { kgCO2ePerUnit: number; unit: string; name: string }> = {
+  electricity: { kgCO2ePerUnit: 0.5, unit: 'kgCO2e/kWh', name: 'Default grid electricity' },
+  diesel: { kgCO2ePerUnit: 2.7, unit: 'kgCO2e/litres', name: 'Default diesel combustion' },
+  gas: { kgCO2ePerUnit: 2.0, unit: 'kgCO2e/m3', name: 'Default natural gas combustion' },
+  propane: { kgCO2ePerUnit: 1.5, unit: 'kgCO2e/kg', name: 'Default propane combustion' },
+  other: { kgCO2ePerUnit: 0.5, unit: 'kgCO2e/unit', name: 'Default energy (unclassified)' },
+  road_freight: { kgCO2ePerUnit: 0.1, unit: 'kgCO2e/tkm', name: 'Default road freight' },
+  end_use_delivery: { kgCO2ePerUnit: 10, unit: 'kgCO2e/t', name: 'Default end-use delivery per tonne' },
+};
+
+// Spelling variants used across the energy, transport and feedstock forms
+const ACTIVITY_ALIASES: Record<string, string> = {
+  natural_gas: 'gas',
+  lpg: 'propane',
+  gasoline: 'petrol',
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  l: 'litres',
+  liter: 'litres',
+  liters: 'litres',
+  litre: 'litres',
+  'm³': 'm3',
+  'tonne-km': 'tkm',
+  't·km': 'tkm',
+  't-km': 'tkm',
+  tonnekm: 'tkm',
+  tonne: 't',
+  tonnes: 't',
+  gal: 'gallons',
+  gallon: 'gallons',
+};
+
+// Exact conversions of an activity quantity into a default factor's unit
+// (quantity in the first unit x value = quantity in the second)
+const UNIT_CONVERSIONS: Record<string, Record<string, number>> = {
+  mwh: { kwh: 1000 },
+  gj: { kwh: 1000 / 3.6 },
+  gallons: { litres: 3.785411784 },
+  kg: { t: 0.001 },
+};
+
+export function normalizeActivityType(activityType: string): string {
+  const normalized = activityType.trim().toLowerCase().replace(/\s+/g, '_');
+  return ACTIVITY_ALIASES[normalized] ?? normalized;
+}
+
+export function normalizeUnit(unit: string): string {
+  const normalized = unit.trim().toLowerCase().replace(/\s+/g, '');
+  return UNIT_ALIASES[normalized] ?? normalized;
+}
+
+/**
+ * Activity unit a factor applies to, taken from the denominator of its unit
+ * (e.g. "kgCO2e/kWh" -> "kwh")
+ */
+function getFactorActivityUnit(factorUnit: string): string {
+  const [, denominator] = factorUnit.split('/');
+  return normalizeUnit(denominator ?? factorUnit);
+}
+
+/**
+ * Factor to convert an activity quantity from one unit to another, or null
+ * when the units are not interchangeable
+ */
+export function getUnitConversion(fromUnit: string, toUnit: string): number | null {
+  const from = normalizeUnit(fromUnit);
+  const to = normalizeUnit(toUnit);
+  if (from === to) return 1;
+  return UNIT_CONVERSIONS[from]?.[to] ?? null;
+}
+
+function getRegionRank(factorRegion: string | null, region: string | null | undefined): number {
+  if (region && factorRegion && factorRegion.toLowerCase() === region.toLowerCase()) return 0;
+  if (!factorRegion || factorRegion.toLowerCase() === 'global') return 1;
+  return -1;
+}
+
+/**
+ * Select the best matching factor from a candidate list
+ *
+ * Matching rules:
+ * - category, activity type and unit must match
+ * - a factor for the exact region beats a Global (or unscoped) one;
+ *   factors for other regions are never used
+ * - the most recent year at or before the activity year wins, otherwise
+ *   the earliest year after it
+ */
+export function selectEmissionFactor(
+  factors: EmissionFactor[],
+  query: EmissionFactorQuery
+): EmissionFactor | null {
+  const activityType = normalizeActivityType(query.activityType);
+  const unit = normalizeUnit(query.unit);
+
+  const candidates = factors
+    .filter((f) =>
+      f.isActive &&
+      f.category === query.category &&
+      f.activityType !== null &&
+      normalizeActivityType(f.activityType) === activityType &&
+      getFactorActivityUnit(f.unit) === unit &&
+      getRegionRank(f.region, query.region) >= 0
+    )
+    .sort((a, b) => {
+      const regionDiff = getRegionRank(a.region, query.region) - getRegionRank(b.region, query.region);
+      if (regionDiff !== 0) return regionDiff;
+
+      const aPast = a.year <= query.year;
+      const bPast = b.year <= query.year;
+      if (aPast !== bPast) return aPast ? -1 : 1;
+      return aPast ? b.year - a.year : a.year - b.year;
+    });
+
+  return candidates[0] ?? null;
+}
+
+type FactorGases = Pick<EmissionFactor, 'co2Factor' | 'ch4Factor' | 'n2oFactor' | 'totalCo2e'>;
+
+/**
+ * A factor's kg CO2e per unit under a GWP basis
+ *
+ * Only a factor listing all three gas components is re-derived; a partial
+ * breakdown would drop the missing gases, so it keeps its stored total.
+ * So does an all-zero breakdown, which is how blank inputs were saved
+ * before they became null. Energy and transport methane is fossil.
+ */
+export function deriveFactorCo2e(
+  factor: FactorGases,
+  gwp: GwpSet
+): { kgCO2ePerUnit: number; derivedFromComponents: boolean } {
+  const { co2Factor, ch4Factor, n2oFactor } = factor;
+  if (
+    co2Factor === null || ch4Factor === null || n2oFactor === null ||
+    (co2Factor === 0 && ch4Factor === 0 && n2oFactor === 0)
+  ) {
+    return { kgCO2ePerUnit: factor.totalCo2e, derivedFromComponents: false };
+  }
+  return {
+    kgCO2ePerUnit: co2Factor * gwp.co2 + ch4Factor * gwp.ch4Fossil + n2oFactor * gwp.n2o,
+    derivedFromComponents: true,
+  };
+}
+
+/**
+ * Whether the GWP values stored with a factor differ from a basis; a
+ * stored CH4 value matches either of the basis' methane values
+ */
+export function hasGwpMismatch(
+  factor: Pick<EmissionFactor, 'gwpCh4' | 'gwpN2o'>,
+  gwp: GwpSet
+): boolean {
+  const ch4Mismatch = factor.gwpCh4 !== null &&
+    factor.gwpCh4 !== gwp.ch4Fossil && factor.gwpCh4 !== gwp.ch4NonFossil;
+  const n2oMismatch = factor.gwpN2o !== null && factor.gwpN2o !== gwp.n2o;
+  return ch4Mismatch || n2oMismatch;
+}
+
+/**
+ * Resolve a query to a factor, falling back to the methodology default
+ */
+export function resolveEmissionFactor(
+  factors: EmissionFactor[],
+  query: EmissionFactorQuery,
+  defaultKey: string = normalizeActivityType(query.activityType),
+  gwp: GwpSet = GWP_SETS[DEFAULT_GWP_SET]
+): ResolvedEmissionFactor {
+  const factor = selectEmissionFactor(factors, query);
+
+  if (factor) {
+    return {
+      factorId: factor.id,
+      factorName: factor.name,
+      factorUnit: factor.unit,
+      factorYear: factor.year,
+      factorSource: factor.source === 'Custom' && factor.sourceOther ? factor.sourceOther : factor.source,
+      ...deriveFactorCo2e(factor, gwp),
+      isDefault: false,
+      gwpMismatch: hasGwpMismatch(factor, gwp),
+      unitMismatch: false,
+    };
+  }
+
+  const fallback = DEFAULT_EMISSION_FACTORS[defaultKey] ?? DEFAULT_EMISSION_FACTORS.other;
+  const conversion = getUnitConversion(query.unit, getFactorActivityUnit(fallback.unit));
+
+  return {
+    factorId: null,
+    factorName: fallback.name,
+    factorUnit: conversion === 1 || conversion === null ? fallback.unit : `kgCO2e/${normalizeUnit(query.unit)}`,
+    factorYear: null,
+    factorSource: 'methodology_default',
+    kgCO2ePerUnit: conversion === null ? 0 : fallback.kgCO2ePerUnit * conversion,
+    isDefault: true,
+    derivedFromComponents: false,
+    gwpMismatch: false,
+    unitMismatch: conversion === null,
+  };
+}
+
+/**
+ * Emission factor resolver bound to the active factors loaded once per calculation
+ */
+export interface EmissionFactorResolver {
+  /** GWP basis the factors are priced under */
+  gwp: GwpSet;
+  resolve(query: EmissionFactorQuery, defaultKey?: string): ResolvedEmissionFactor;
+  /** Resolve a factor and record the resulting line */
+  applyLine(
+    line: Omit<EmissionFactorLine, keyof ResolvedEmissionFactor | 'kgCO2ePerUnit' | 'kgCO2e'>,
+    query: EmissionFactorQuery,
+    defaultKey?: string
+  ): EmissionFactorLine;
+  /** All lines applied so far */
+  lines: EmissionFactorLine[];
+  /** IDs of the dataset factors used so far */
+  getFactorIdsUsed(): string[];
+  /** Dataset factors used so far whose stored GWP values differ from the basis */
+  getGwpMismatches(): EmissionFactorLine[];
+  /** Lines priced with a methodology default, or left unpriced for want of one in their unit */
+  getFactorGaps(): EmissionFactorLine[];
+}
+
+export async function loadEmissionFactorResolver(
+  gwp: GwpSet = GWP_SETS[DEFAULT_GWP_SET]
+): Promise<EmissionFactorResolver> {
+  const factors = await db.emissionFactor.findMany({
+    where: { isActive: true },
+  });
+
+  const lines: EmissionFactorLine[] = [];
+
+  return {
+    gwp,
+    lines,
+    resolve: (query, defaultKey) => resolveEmissionFactor(factors, query, defaultKey, gwp),
+    applyLine(line, query, defaultKey) {
+      const resolved = resolveEmissionFactor(factors, query, defaultKey, gwp);
+      const applied: EmissionFactorLine = {
+        ...line,
+        ...resolved,
+        kgCO2e: line.quantity * resolved.kgCO2ePerUnit,
+      };
+      lines.push(applied);
+      return applied;
+    },
+    getFactorIdsUsed() {
+      return [...new Set(lines.map((l) => l.factorId).filter((id): id is string => id !== null))];
+    },
+    getGwpMismatches() {
+      const seen = new Set<string>();
+      return lines.filter((l) => l.gwpMismatch && l.factorId !== null && !seen.has(l.factorId) && seen.add(l.factorId));
+    },
+    getFactorGaps() {
+      return lines.filter((l) => l.isDefault);
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import { createHash } from 'crypto';
+import type { EvidenceFile } from '@prisma/client';
+import db from '@/lib/db';
+import { getStorageAdapter, getStorageAdapterByName } from '@/lib/storage';
+import {
+  EVIDENCE_LINK_FIELDS,
+  getEvidenceFileType,
+  type EvidenceLinks,
+} from '@/lib/validations/evidence';
+
+/**
+ * Evidence file storage
+ *
+ * Bytes are written to the configured storage backend under a key derived
+ * from their SHA-256, so the same document uploaded twice is stored once.
+ * Each EvidenceFile row records the backend, key and hash, which lets a
+ * verifier check that a downloaded file is the one that was submitted.
+ */
+
+export function sha256Hex(bytes: Buffer): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * Content-addressed storage key, fanned out by hash prefix
+ */
+export function getEvidenceStorageKey(sha256: string): string {
+  return `sha256/${sha256.slice(0, 2)}/${sha256}`;
+}
+
+/**
+ * Link fields that point at records which do not exist
+ */
+export async function findMissingEvidenceLinks(links: EvidenceLinks): Promise<string[]> {
+  const lookups: Record<keyof EvidenceLinks, (id: string) => Promise<number>> = {
+    feedstockDeliveryId: (id) => db.feedstockDelivery.count({ where: { id } }),
+    productionBatchId: (id) => db.productionBatch.count({ where: { id } }),
+    energyUsageId: (id) => db.energyUsage.count({ where: { id } }),
+    transportEventId: (id) => db.transportEvent.count({ where: { id } }),
+    sequestrationEventId: (id) => db.sequestrationEvent.count({ where: { id } }),
+    bcuId: (id) => db.bCU.count({ where: { id } }),
+    corcId: (id) => db.cORCIssuance.count({ where: { id } }),
+  };
+
+  const missing: string[] = [];
+  for (const field of EVIDENCE_LINK_FIELDS) {
+    const id = links[field];
+    if (id && (await lookups[field](id)) === 0) {
+      missing.push(field);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Store an uploaded file and attach it to the linked records
+ *
+ * If the same content is already attached to the same records the existing
+ * row is returned instead of creating a duplicate.
+ */
+export async function storeEvidenceFile(input: {
+  bytes: Buffer;
+  fileName: string;
+  mimeType: string;
+  category: string;
+  description?: string | null;
+  links: EvidenceLinks;
+}): Promise<{ evidence: EvidenceFile; deduplicated: boolean }> {
+  const sha256 = sha256Hex(input.bytes);
+
+  const existing = await db.evidenceFile.findFirst({
+    where: { sha256, ...input.links },
+  });
+  if (existing) {
+    return { evidence: existing, deduplicated: true };
+  }
+
+  const adapter = getStorageAdapter();
+  const storagePath = getEvidenceStorageKey(sha256);
+
+  if (!(await adapter.exists(storagePath))) {
+    await adapter.put(storagePath, input.bytes, { contentType: input.mimeType, sha256 });
+  }
+
+  const evidence = await db.evidenceFile.create({
+    data: {
+      fileName: input.fileName,
+      fileType: getEvidenceFileType(input.mimeType),
+      fileSize: input.bytes.length,
+      mimeType: input.mimeType,
+      storagePath,
+      storageBackend: adapter.name,
+      sha256,
+      category: input.category,
+      description: input.description ?? null,
+      ...input.links,
+    },
+  });
+
+  return { evidence, deduplicated: false };
+}
+
+/**
+ * Stream a stored evidence file
+ *
+ * @returns null for legacy records with no stored bytes, or if the blob is missing
+ */
+export async function openEvidenceFile(
+  evidence: Pick<EvidenceFile, 'storagePath' | 'storageBackend'>
+): Promise<ReadableStream<Uint8Array> | null> {
+  if (!evidence.storageBackend) {
+    return null;
+  }
+  return getStorageAdapterByName(evidence.storageBackend).get(evidence.storagePath);
+}
+
+/**
+ * Delete an evidence record, and its blob once no other record shares it
+ */
+export async function deleteEvidenceFile(id: string): Promise<EvidenceFile | null> {
+  const evidence = await db.evidenceFile.findUnique({ where: { id } });
+  if (!evidence) {
+    return null;
+  }
+
+  await db.evidenceFile.delete({ where: { id } });
+
+  if (evidence.storageBackend) {
+    const sharedBy = await db.evidenceFile.count({
+      where: { storageBackend: evidence.storageBackend, storagePath: evidence.storagePath },
+    });
+    if (sharedBy === 0) {
+      await getStorageAdapterByName(evidence.storageBackend).delete(evidence.storagePath);
+    }
+  }
+
+  return evidence;
+}
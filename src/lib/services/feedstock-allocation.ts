@@ -0,0 +1,213 @@
+import type { Prisma } from '@prisma/client';
+import db from '@/lib/db';
+
+/**
+ * Feedstock allocation ledger
+ *
+ * ProductionFeedstock.percentageUsed is only bounded per batch, so the same
+ * FeedstockDelivery could be drawn on by several batches for more than its
+ * full weight. E_biomass is attributed through these allocations, so the
+ * cumulative share of each delivery across all batches must stay ≤ 100%.
+ */
+
+// Float tolerance for comparing summed percentages
+const PERCENT_EPSILON = 1e-6;
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export interface FeedstockAllocationRequest {
+  feedstockDeliveryId: string;
+  percentageUsed: number;
+}
+
+export interface FeedstockDeliveryBalance {
+  feedstockDeliveryId: string;
+  weightTonnes: number | null;
+  /** Cumulative percentage allocated to batches (excluding the batch being edited) */
+  allocatedPercent: number;
+  remainingPercent: number;
+  /** Null when the delivery has no recorded weight */
+  remainingTonnes: number | null;
+}
+
+export interface FeedstockAllocationProblem {
+  feedstockDeliveryId: string;
+  reason: 'not_found' | 'duplicate' | 'exceeds_remaining';
+  message: string;
+  requestedPercent: number;
+  allocatedElsewherePercent?: number;
+  remainingPercent?: number;
+}
+
+/**
+ * Remaining share of each delivery
+ *
+ * @param feedstockDeliveryIds - Deliveries to look up (all when omitted)
+ * @param excludeProductionBatchId - Batch being edited; its own allocations count as remaining
+ */
+export async function getFeedstockDeliveryBalances(
+  feedstockDeliveryIds?: string[],
+  excludeProductionBatchId?: string,
+  client: DbClient = db
+): Promise<Map<string, FeedstockDeliveryBalance>> {
+  const [deliveries, allocations] = await Promise.all([
+    client.feedstockDelivery.findMany({
+      where: feedstockDeliveryIds ? { id: { in: feedstockDeliveryIds } } : undefined,
+      select: { id: true, weightTonnes: true },
+    }),
+    client.productionFeedstock.groupBy({
+      by: ['feedstockDeliveryId'],
+      where: {
+        ...(feedstockDeliveryIds ? { feedstockDeliveryId: { in: feedstockDeliveryIds } } : {}),
+        ...(excludeProductionBatchId ? { productionBatchId: { not: excludeProductionBatchId } } : {}),
+      },
+      _sum: { percentageUsed: true },
+    }),
+  ]);
+
+  const allocatedByDelivery = new Map(
+    allocations.map((a) => [a.feedstockDeliveryId, a._sum.percentageUsed ?? 0])
+  );
+
+  return new Map(
+    deliveries.map((delivery) => {
+      const allocatedPercent = allocatedByDelivery.get(delivery.id) ?? 0;
+      const remainingPercent = Math.max(0, 100 - allocatedPercent);
+      return [
+        delivery.id,
+        {
+          feedstockDeliveryId: delivery.id,
+          weightTonnes: delivery.weightTonnes,
+          allocatedPercent,
+          remainingPercent,
+          remainingTonnes: delivery.weightTonnes !== null
+            ? (delivery.weightTonnes * remainingPercent) / 100
+            : null,
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Check a batch's feedstock allocations against the cumulative ledger
+ *
+ * Run inside the same transaction as the write so two batches saved at
+ * once cannot both take the last share of a delivery.
+ *
+ * @returns Problems found; empty when the allocation can be saved
+ */
+export async function checkFeedstockAllocations(
+  allocations: FeedstockAllocationRequest[],
+  excludeProductionBatchId?: string,
+  client: DbClient = db
+): Promise<FeedstockAllocationProblem[]> {
+  const problems: FeedstockAllocationProblem[] = [];
+  const seen = new Set<string>();
+
+  for (const allocation of allocations) {
+    if (seen.has(allocation.feedstockDeliveryId)) {
+      problems.push({
+        feedstockDeliveryId: allocation.feedstockDeliveryId,
+        reason: 'duplicate',
+        message: 'Feedstock delivery is listed more than once',
+        requestedPercent: allocation.percentageUsed,
+      });
+    }
+    seen.add(allocation.feedstockDeliveryId);
+  }
+
+  if (problems.length > 0) {
+    return problems;
+  }
+
+  const balances = await getFeedstockDeliveryBalances([...seen], excludeProductionBatchId, client);
+
+  for (const allocation of allocations) {
+    const balance = balances.get(allocation.feedstockDeliveryId);
+
+    if (!balance) {
+      problems.push({
+        feedstockDeliveryId: allocation.feedstockDeliveryId,
+        reason: 'not_found',
+        message: 'Feedstock delivery not found',
+        requestedPercent: allocation.percentageUsed,
+      });
+      continue;
+    }
+
+    if (allocation.percentageUsed > balance.remainingPercent + PERCENT_EPSILON) {
+      problems.push({
+        feedstockDeliveryId: allocation.feedstockDeliveryId,
+        reason: 'exceeds_remaining',
+        message: `Requested ${allocation.percentageUsed.toFixed(1)}% but only ${balance.remainingPercent.toFixed(1)}% of the delivery is unallocated`,
+        requestedPercent: allocation.percentageUsed,
+        allocatedElsewherePercent: balance.allocatedPercent,
+        remainingPercent: balance.remainingPercent,
+      });
+    }
+  }
+
+  return problems;
+}
+
+export interface FeedstockAllocationReportEntry {
+  feedstockDeliveryId: string;
+  serialNumber: number;
+  date: Date;
+  feedstockType: string;
+  weightTonnes: number | null;
+  allocatedPercent: number;
+  batches: Array<{ productionBatchId: string; serialNumber: number; percentageUsed: number }>;
+}
+
+/**
+ * Deliveries allocated beyond 100% (legacy data saved before the check)
+ * and deliveries never allocated to any production batch
+ */
+export async function getFeedstockAllocationReport(): Promise<{
+  overAllocated: FeedstockAllocationReportEntry[];
+  unconsumed: FeedstockAllocationReportEntry[];
+}> {
+  const deliveries = await db.feedstockDelivery.findMany({
+    orderBy: { date: 'desc' },
+    select: {
+      id: true,
+      serialNumber: true,
+      date: true,
+      feedstockType: true,
+      weightTonnes: true,
+      productionAllocations: {
+        select: {
+          percentageUsed: true,
+          productionBatch: { select: { id: true, serialNumber: true } },
+        },
+      },
+      // Deprecated single-delivery link on ProductionBatch
+      _count: { select: { productionBatches: true } },
+    },
+  });
+
+  const entries: FeedstockAllocationReportEntry[] = deliveries.map((delivery) => ({
+    feedstockDeliveryId: delivery.id,
+    serialNumber: delivery.serialNumber,
+    date: delivery.date,
+    feedstockType: delivery.feedstockType,
+    weightTonnes: delivery.weightTonnes,
+    allocatedPercent: delivery.productionAllocations.reduce((sum, a) => sum + a.percentageUsed, 0),
+    batches: delivery.productionAllocations.map((a) => ({
+      productionBatchId: a.productionBatch.id,
+      serialNumber: a.productionBatch.serialNumber,
+      percentageUsed: a.percentageUsed,
+    })),
+  }));
+
+  const legacyLinked = new Set(
+    deliveries.filter((d) => d._count.productionBatches > 0).map((d) => d.id)
+  );
+
+  return {
+    overAllocated: entries.filter((e) => e.allocatedPercent > 100 + PERCENT_EPSILON),
+    unconsumed: entries.filter((e) => e.batches.length === 0 && !legacyLinked.has(e.feedstockDeliveryId)),
+  };
+}
@@ -0,0 +1,249 @@
+import type { BiocharLabTest, BiocharSamplingCampaign, Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import {
+  summarizeReplicates,
+  findOutliers,
+  modifiedZScores,
+  validateBiocharQuality,
+  LAB_SINGLE_REPLICATE_RELATIVE_SD,
+} from '@/lib/corc';
+import type { ReplicateStatistics } from '@/lib/corc';
+
+/**
+ * Lab sampling campaigns
+ *
+ * The lab tests of a production batch are grouped by sampling campaign and
+ * summarised per campaign. A batch's quality values come from its most
+ * recent campaign: the lower confidence bound of C_org and the mean H.
+ * Statistical outliers are only flagged; a reviewer excludes a confirmed
+ * one by marking the test excludedFromStatistics.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+type LabTestRecord = Pick<
+  BiocharLabTest,
+  | 'id'
+  | 'campaignId'
+  | 'testDate'
+  | 'labName'
+  | 'totalCarbonPercent'
+  | 'organicCarbonPercent'
+  | 'hydrogenPercent'
+  | 'excludedFromStatistics'
+>;
+
+type CampaignRecord = Pick<BiocharSamplingCampaign, 'id' | 'name' | 'samplingDate' | 'sampleType'>;
+
+export interface ReplicateOutlier {
+  labTestId: string;
+  labName: string;
+  testDate: Date;
+  parameter: 'organicCarbonPercent' | 'hydrogenPercent';
+  value: number;
+  zScore: number;
+}
+
+export interface CampaignSummary {
+  /** null for the implicit campaign of tests outside any campaign */
+  campaignId: string | null;
+  name: string;
+  sampleType: string | null;
+  /** Campaign sampling date, or the latest test date of the implicit campaign */
+  samplingDate: Date;
+  testCount: number;
+  /** Tests not excluded on review */
+  includedCount: number;
+  organicCarbon: ReplicateStatistics | null;
+  hydrogen: ReplicateStatistics | null;
+  totalCarbonMean: number | null;
+  outliers: ReplicateOutlier[];
+  /** Lower confidence bound of C_org, the value the calculation uses */
+  conservativeOrganicCarbonPercent: number | null;
+  /** The C_org bound assumes a default spread because there is a single sample */
+  spreadAssumed: boolean;
+  hydrogenPercent: number | null;
+  /** H/C_org from the values the calculation uses */
+  hCorgRatio: number | null;
+  warnings: string[];
+}
+
+export const LAB_TEST_CAMPAIGN_SELECT = {
+  id: true,
+  campaignId: true,
+  testDate: true,
+  labName: true,
+  totalCarbonPercent: true,
+  organicCarbonPercent: true,
+  hydrogenPercent: true,
+  excludedFromStatistics: true,
+} satisfies Prisma.BiocharLabTestSelect;
+
+export const SAMPLING_CAMPAIGN_SELECT = {
+  id: true,
+  name: true,
+  samplingDate: true,
+  sampleType: true,
+} satisfies Prisma.BiocharSamplingCampaignSelect;
+
+function outliersOf(
+  tests: LabTestRecord[],
+  parameter: ReplicateOutlier['parameter']
+): ReplicateOutlier[] {
+  const values = tests.map((t) => t[parameter]);
+  const flagged = new Set(findOutliers(values));
+  const scores = modifiedZScores(values);
+  return tests
+    .map((test, i) => ({ test, i }))
+    .filter(({ i }) => flagged.has(i))
+    .map(({ test, i }) => ({
+      labTestId: test.id,
+      labName: test.labName,
+      testDate: test.testDate,
+      parameter,
+      value: test[parameter],
+      zScore: scores[i],
+    }));
+}
+
+/**
+ * Statistics, outlier flags and calculation values of one campaign
+ */
+export function summarizeCampaign(campaign: CampaignRecord | null, tests: LabTestRecord[]): CampaignSummary {
+  const included = tests.filter((t) => !t.excludedFromStatistics);
+  const name = campaign?.name ?? 'Tests outside a campaign';
+  const latestTest = tests.reduce<Date | null>(
+    (latest, t) => (!latest || t.testDate > latest ? t.testDate : latest),
+    null
+  );
+
+  const organicCarbon = included.length > 0 ? summarizeReplicates(included.map((t) => t.organicCarbonPercent)) : null;
+  const hydrogen = included.length > 0 ? summarizeReplicates(included.map((t) => t.hydrogenPercent)) : null;
+  const totalCarbonMean = included.length > 0
+    ? included.reduce((sum, t) => sum + t.totalCarbonPercent, 0) / included.length
+    : null;
+
+  const outliers = [
+    ...outliersOf(included, 'organicCarbonPercent'),
+    ...outliersOf(included, 'hydrogenPercent'),
+  ];
+
+  const conservativeOrganicCarbonPercent = organicCarbon ? organicCarbon.lowerConfidenceBound : null;
+  const hydrogenPercent = hydrogen ? hydrogen.mean : null;
+  const hCorgRatio = conservativeOrganicCarbonPercent !== null && conservativeOrganicCarbonPercent > 0 && hydrogenPercent !== null
+    ? (hydrogenPercent / conservativeOrganicCarbonPercent) * 12.0
+    : null;
+
+  const warnings: string[] = [];
+  if (included.length === 0 && tests.length > 0) {
+    warnings.push(`${name}: every test is excluded from the statistics`);
+  }
+  if (included.length === 1) {
+    warnings.push(
+      `${name}: single sample, so C_org is discounted by an assumed ` +
+      `${(LAB_SINGLE_REPLICATE_RELATIVE_SD * 100).toFixed(0)}% relative SD; add replicates`
+    );
+  }
+  if (conservativeOrganicCarbonPercent !== null && conservativeOrganicCarbonPercent <= 0) {
+    warnings.push(`${name}: C_org lower confidence bound is not positive; replicates are too scattered to use`);
+  }
+  for (const outlier of outliers) {
+    warnings.push(
+      `${name}: ${outlier.labName} test of ${outlier.testDate.toISOString().slice(0, 10)} is a statistical outlier ` +
+      `(${outlier.parameter === 'organicCarbonPercent' ? 'C_org' : 'H'} ${outlier.value.toFixed(2)}%, ` +
+      `modified z ${outlier.zScore.toFixed(1)}); review and exclude it if confirmed`
+    );
+  }
+
+  return {
+    campaignId: campaign?.id ?? null,
+    name,
+    sampleType: campaign?.sampleType ?? null,
+    samplingDate: campaign?.samplingDate ?? latestTest ?? new Date(0),
+    testCount: tests.length,
+    includedCount: included.length,
+    organicCarbon,
+    hydrogen,
+    totalCarbonMean,
+    outliers,
+    conservativeOrganicCarbonPercent,
+    spreadAssumed: organicCarbon?.spreadAssumed ?? false,
+    hydrogenPercent,
+    hCorgRatio,
+    warnings,
+  };
+}
+
+/**
+ * Summaries of a batch's campaigns, most recent first; tests outside any
+ * campaign are summarised together as one more campaign
+ */
+export function summarizeLabCampaigns(
+  campaigns: CampaignRecord[],
+  tests: LabTestRecord[]
+): CampaignSummary[] {
+  const summaries = campaigns.map((campaign) =>
+    summarizeCampaign(campaign, tests.filter((t) => t.campaignId === campaign.id))
+  );
+  const known = new Set(campaigns.map((c) => c.id));
+  const ungrouped = tests.filter((t) => !t.campaignId || !known.has(t.campaignId));
+  if (ungrouped.length > 0) {
+    summaries.push(summarizeCampaign(null, ungrouped));
+  }
+  return summaries.sort((a, b) => b.samplingDate.getTime() - a.samplingDate.getTime());
+}
+
+/**
+ * The campaign a batch's quality values come from: the most recent one
+ * with usable results
+ */
+export function currentLabCampaign(summaries: CampaignSummary[]): CampaignSummary | null {
+  return summaries.find(
+    (s) => s.conservativeOrganicCarbonPercent !== null && s.conservativeOrganicCarbonPercent > 0
+  ) ?? null;
+}
+
+export async function getBatchLabCampaigns(
+  productionBatchId: string,
+  client: DbClient = db
+): Promise<CampaignSummary[]> {
+  const [campaigns, tests] = await Promise.all([
+    client.biocharSamplingCampaign.findMany({ where: { productionBatchId }, select: SAMPLING_CAMPAIGN_SELECT }),
+    client.biocharLabTest.findMany({ where: { productionBatchId }, select: LAB_TEST_CAMPAIGN_SELECT }),
+  ]);
+  return summarizeLabCampaigns(campaigns, tests);
+}
+
+/**
+ * Recompute a batch's stored quality fields from its current campaign
+ * after a lab test or campaign changes
+ */
+export async function refreshBatchLabQuality(
+  productionBatchId: string,
+  client: DbClient = db
+): Promise<CampaignSummary | null> {
+  const current = currentLabCampaign(await getBatchLabCampaigns(productionBatchId, client));
+
+  await client.productionBatch.update({
+    where: { id: productionBatchId },
+    data: current
+      ? {
+          totalCarbonPercent: current.totalCarbonMean,
+          organicCarbonPercent: current.conservativeOrganicCarbonPercent,
+          hydrogenPercent: current.hydrogenPercent,
+          hCorgRatio: current.hCorgRatio,
+          qualityValidationStatus: current.hCorgRatio !== null && validateBiocharQuality(current.hCorgRatio)
+            ? 'passed'
+            : 'failed',
+        }
+      : {
+          totalCarbonPercent: null,
+          organicCarbonPercent: null,
+          hydrogenPercent: null,
+          hCorgRatio: null,
+          qualityValidationStatus: 'pending',
+        },
+  });
+
+  return current;
+}
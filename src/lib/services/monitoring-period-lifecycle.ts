@@ -0,0 +1,124 @@
+import type { MonitoringPeriod, Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import {
+  MONITORING_PERIOD_TRANSITIONS,
+  type MonitoringPeriodStatus,
+} from '@/lib/validations/monitoring-period';
+import { activeUnlockWhere } from '@/lib/services/period-lock';
+
+/**
+ * Monitoring period lifecycle: active → closed → verified
+ *
+ * - active → closed: the period must have a saved calculation
+ * - closed → verified: the period must have a CalculationRun snapshot
+ * - closed → active: reopening needs a reason, and is refused once CORCs
+ *   from the period have been issued
+ * - verified is final
+ *
+ * Closing or verifying a period revokes any outstanding unlocks.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export interface StatusTransitionProblem {
+  code: 'INVALID_TRANSITION' | 'TRANSITION_GUARD';
+  message: string;
+  fromStatus: string;
+  toStatus: string;
+  allowed: readonly string[];
+}
+
+/**
+ * Check a requested status change
+ *
+ * @returns null when the transition is allowed
+ */
+export async function checkStatusTransition(
+  period: Pick<MonitoringPeriod, 'id' | 'status' | 'netCORCsTCO2e'>,
+  toStatus: MonitoringPeriodStatus,
+  reason: string | undefined,
+  client: DbClient = db
+): Promise<StatusTransitionProblem | null> {
+  const fromStatus = period.status as MonitoringPeriodStatus;
+  const allowed = MONITORING_PERIOD_TRANSITIONS[fromStatus] ?? [];
+  const problem = (code: StatusTransitionProblem['code'], message: string) => ({
+    code,
+    message,
+    fromStatus,
+    toStatus,
+    allowed,
+  });
+
+  if (!allowed.includes(toStatus)) {
+    return problem(
+      'INVALID_TRANSITION',
+      allowed.length > 0
+        ? `Cannot change a ${fromStatus} period to ${toStatus}; allowed: ${allowed.join(', ')}`
+        : `A ${fromStatus} period cannot change status`
+    );
+  }
+
+  if (toStatus === 'closed' && period.netCORCsTCO2e === null) {
+    return problem('TRANSITION_GUARD', 'CORC calculation must be completed before closing the period');
+  }
+
+  if (toStatus === 'verified') {
+    const runs = await client.calculationRun.count({ where: { monitoringPeriodId: period.id } });
+    if (runs === 0) {
+      return problem('TRANSITION_GUARD', 'The period has no saved calculation run to verify');
+    }
+  }
+
+  if (toStatus === 'active') {
+    if (!reason) {
+      return problem('TRANSITION_GUARD', 'A reason is required to reopen a closed period');
+    }
+    const issued = await client.cORCIssuance.count({
+      where: { monitoringPeriodId: period.id, status: { in: ['issued', 'retired'] } },
+    });
+    if (issued > 0) {
+      return problem('TRANSITION_GUARD', 'Cannot reopen a period whose CORCs have been issued');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply an allowed status change and record it
+ */
+export async function applyStatusTransition(
+  period: Pick<MonitoringPeriod, 'id' | 'status'>,
+  toStatus: MonitoringPeriodStatus,
+  options: { reason?: string; changedBy?: string | null },
+  client: DbClient = db
+): Promise<void> {
+  const now = new Date();
+
+  await client.monitoringPeriod.update({
+    where: { id: period.id },
+    data: {
+      status: toStatus,
+      ...(toStatus === 'closed' ? { closedAt: now } : {}),
+      ...(toStatus === 'verified' ? { verifiedAt: now } : {}),
+      ...(toStatus === 'active' ? { closedAt: null } : {}),
+    },
+  });
+
+  if (toStatus !== 'active') {
+    await client.monitoringPeriodUnlock.updateMany({
+      where: { monitoringPeriodId: period.id, ...activeUnlockWhere(now) },
+      data: { revokedAt: now, revokedBy: options.changedBy ?? null },
+    });
+  }
+
+  await client.monitoringPeriodStatusChange.create({
+    data: {
+      monitoringPeriodId: period.id,
+      fromStatus: period.status,
+      toStatus,
+      reason: options.reason ?? null,
+      changedBy: options.changedBy ?? null,
+    },
+  });
+}
@@ -0,0 +1,270 @@
+import type { Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import {
+  LOCKED_MONITORING_PERIOD_STATUSES,
+  isMonitoringPeriodLocked,
+} from '@/lib/validations/monitoring-period';
+import type { EvidenceLinkField } from '@/lib/validations/evidence';
+
+/**
+ * Monitoring period write-lock
+ *
+ * Once a period is closed its calculation is what the verifier reviews, so
+ * the records it was calculated from must not change underneath it. Any
+ * create, update or delete of a record dated inside a closed or verified
+ * period is refused, unless an unexpired MonitoringPeriodUnlock with a
+ * reason has been recorded for that period.
+ *
+ * Only production batches and leakage assessments carry a facility, so
+ * other records are matched against locked periods of every facility.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export type LockableRecordType =
+  | 'production_batch'
+  | 'lab_test'
+  | 'feedstock_delivery'
+  | 'energy_usage'
+  | 'transport_event'
+  | 'sequestration_event'
+  | 'leakage_assessment';
+
+export interface DateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface PeriodLockTarget {
+  /** Restrict to periods of this facility (any facility when null) */
+  facilityId?: string | null;
+  dates: Array<Date | DateRange>;
+}
+
+export interface PeriodLock {
+  monitoringPeriodId: string;
+  facilityId: string;
+  status: string;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+/**
+ * Unrevoked, unexpired unlocks
+ */
+export function activeUnlockWhere(now: Date = new Date()): Prisma.MonitoringPeriodUnlockWhereInput {
+  return { revokedAt: null, expiresAt: { gt: now } };
+}
+
+/**
+ * Whether the period's own results and records are currently read-only
+ */
+export async function isPeriodWriteLocked(
+  period: { id: string; status: string },
+  client: DbClient = db
+): Promise<boolean> {
+  if (!isMonitoringPeriodLocked(period.status)) {
+    return false;
+  }
+  const unlocks = await client.monitoringPeriodUnlock.count({
+    where: { monitoringPeriodId: period.id, ...activeUnlockWhere() },
+  });
+  return unlocks === 0;
+}
+
+/**
+ * First locked period (without an active unlock) that covers any of the dates
+ */
+export async function findPeriodLock(
+  targets: PeriodLockTarget | PeriodLockTarget[],
+  client: DbClient = db
+): Promise<PeriodLock | null> {
+  const now = new Date();
+
+  for (const target of Array.isArray(targets) ? targets : [targets]) {
+    const ranges = target.dates.map((d) => (d instanceof Date ? { start: d, end: d } : d));
+    if (ranges.length === 0) continue;
+
+    const period = await client.monitoringPeriod.findFirst({
+      where: {
+        status: { in: [...LOCKED_MONITORING_PERIOD_STATUSES] },
+        ...(target.facilityId ? { facilityId: target.facilityId } : {}),
+        OR: ranges.map((range) => ({
+          periodStart: { lte: range.end },
+          periodEnd: { gte: range.start },
+        })),
+        unlocks: { none: activeUnlockWhere(now) },
+      },
+      orderBy: { periodStart: 'asc' },
+      select: { id: true, facilityId: true, status: true, periodStart: true, periodEnd: true },
+    });
+
+    if (period) {
+      return {
+        monitoringPeriodId: period.id,
+        facilityId: period.facilityId,
+        status: period.status,
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Dates that place an existing record inside a monitoring period
+ *
+ * @returns null if the record does not exist
+ */
+export async function getRecordLockTargets(
+  type: LockableRecordType,
+  id: string,
+  client: DbClient = db
+): Promise<PeriodLockTarget[] | null> {
+  switch (type) {
+    case 'production_batch': {
+      const batch = await client.productionBatch.findUnique({
+        where: { id },
+        select: { facilityId: true, productionDate: true },
+      });
+      return batch ? [{ facilityId: batch.facilityId, dates: [batch.productionDate] }] : null;
+    }
+    case 'lab_test': {
+      const test = await client.biocharLabTest.findUnique({
+        where: { id },
+        select: { productionBatch: { select: { facilityId: true, productionDate: true } } },
+      });
+      return test
+        ? [{ facilityId: test.productionBatch.facilityId, dates: [test.productionBatch.productionDate] }]
+        : null;
+    }
+    case 'feedstock_delivery': {
+      // A delivery also feeds E_biomass of every batch that consumed it
+      const delivery = await client.feedstockDelivery.findUnique({
+        where: { id },
+        select: {
+          date: true,
+          productionAllocations: {
+            select: { productionBatch: { select: { facilityId: true, productionDate: true } } },
+          },
+          productionBatches: { select: { facilityId: true, productionDate: true } },
+        },
+      });
+      if (!delivery) return null;
+      const batches = [
+        ...delivery.productionAllocations.map((a) => a.productionBatch),
+        ...delivery.productionBatches,
+      ];
+      return [
+        { dates: [delivery.date] },
+        ...batches.map((b) => ({ facilityId: b.facilityId, dates: [b.productionDate] })),
+      ];
+    }
+    case 'energy_usage': {
+      const energy = await client.energyUsage.findUnique({
+        where: { id },
+        select: {
+          periodStart: true,
+          periodEnd: true,
+          productionBatch: { select: { facilityId: true, productionDate: true } },
+        },
+      });
+      if (!energy) return null;
+      return [
+        { dates: [{ start: energy.periodStart, end: energy.periodEnd }] },
+        ...(energy.productionBatch
+          ? [{ facilityId: energy.productionBatch.facilityId, dates: [energy.productionBatch.productionDate] }]
+          : []),
+      ];
+    }
+    case 'transport_event': {
+      // Fuel of delivery legs is attributed to the sequestration event
+      const transport = await client.transportEvent.findUnique({
+        where: { id },
+        select: { date: true, sequestrationEvent: { select: { finalDeliveryDate: true } } },
+      });
+      if (!transport) return null;
+      return [
+        {
+          dates: transport.sequestrationEvent
+            ? [transport.date, transport.sequestrationEvent.finalDeliveryDate]
+            : [transport.date],
+        },
+      ];
+    }
+    case 'sequestration_event': {
+      const event = await client.sequestrationEvent.findUnique({
+        where: { id },
+        select: { finalDeliveryDate: true },
+      });
+      return event ? [{ dates: [event.finalDeliveryDate] }] : null;
+    }
+    case 'leakage_assessment': {
+      const assessment = await client.leakageAssessment.findUnique({
+        where: { id },
+        select: { facilityId: true, assessmentDate: true },
+      });
+      return assessment ? [{ facilityId: assessment.facilityId, dates: [assessment.assessmentDate] }] : null;
+    }
+  }
+}
+
+/**
+ * Locked period covering an existing record, if any
+ */
+export async function findRecordPeriodLock(
+  type: LockableRecordType,
+  id: string,
+  client: DbClient = db
+): Promise<PeriodLock | null> {
+  const targets = await getRecordLockTargets(type, id, client);
+  return targets ? findPeriodLock(targets, client) : null;
+}
+
+/**
+ * Locked period covering a record as it is, or as it would be after an update
+ *
+ * @param next - Targets built from the dates being changed
+ */
+export async function findUpdatePeriodLock(
+  type: LockableRecordType,
+  id: string,
+  next: PeriodLockTarget[],
+  client: DbClient = db
+): Promise<PeriodLock | null> {
+  return (await findRecordPeriodLock(type, id, client)) ?? findPeriodLock(next, client);
+}
+
+/**
+ * Locked period covering any record an evidence file is (or will be) linked to
+ */
+export async function findEvidenceLinksPeriodLock(
+  links: Partial<Record<EvidenceLinkField, string | null>>,
+  client: DbClient = db
+): Promise<PeriodLock | null> {
+  const linked: Array<[LockableRecordType, string | null | undefined]> = [
+    ['feedstock_delivery', links.feedstockDeliveryId],
+    ['production_batch', links.productionBatchId],
+    ['energy_usage', links.energyUsageId],
+    ['transport_event', links.transportEventId],
+    ['sequestration_event', links.sequestrationEventId],
+  ];
+
+  for (const [type, id] of linked) {
+    if (!id) continue;
+    const lock = await findRecordPeriodLock(type, id, client);
+    if (lock) return lock;
+  }
+  return null;
+}
+
+/**
+ * Error message for a refused write
+ */
+export function describePeriodLock(lock: PeriodLock): string {
+  const start = lock.periodStart.toISOString().slice(0, 10);
+  const end = lock.periodEnd.toISOString().slice(0, 10);
+  return `Record falls inside the ${lock.status} monitoring period ${start} – ${end}. Record an unlock with a reason before changing it.`;
+}
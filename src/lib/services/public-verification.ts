@@ -0,0 +1,194 @@
+import type { Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import { lookupSerial } from '@/lib/services/serial-allocator';
+import { getHoldingLots, summarizeLots, fallbackBalance } from '@/lib/services/credit-lots';
+import { CORC_ISSUANCE_TYPES, PERMANENCE_TYPES } from '@/lib/validations/corc';
+import { formatLotSerialRange } from '@/lib/validations/credit-lot';
+import { formatUnitSerialRange } from '@/lib/validations/serial-number';
+
+/**
+ * Public credit verification
+ *
+ * What anyone may see about an issued CORC, given one of its serials. Every
+ * field is picked explicitly, so record IDs, owner accounts, suppliers and
+ * calculation inputs never leave this module; the calculation appears only
+ * as the headline terms of Equation 5.1.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export interface PublicRetirement {
+  beneficiary: string;
+  purpose: string | null;
+  quantityTCO2e: number;
+  retirementDate: Date | null;
+  serialRange: string;
+}
+
+export interface PublicCalculationSummary {
+  methodologyVersion: string | null;
+  monitoringPeriodStart: Date;
+  monitoringPeriodEnd: Date;
+  productionBatchCount: number;
+  grossStoredTCO2e: number;
+  baselineTCO2e: number;
+  persistenceLossTCO2e: number;
+  persistenceFractionPercent: number;
+  projectEmissionsTCO2e: number;
+  leakageTCO2e: number;
+  netTCO2e: number;
+}
+
+export interface PublicCreditRecord {
+  serial: string;
+  issuanceSerialNumber: string;
+  /** Unit of the issuance the serial names (from 1); null without a serial block */
+  unit: number | null;
+  /** Status of the issuance: issued or retired */
+  status: string;
+  /** Status of the unit the serial names, when it names one */
+  unitStatus: 'active' | 'retired' | null;
+  issuanceType: string;
+  issuanceDate: Date | null;
+  vintage: number;
+  facility: { name: string; country: string | null };
+  quantityTCO2e: number;
+  remainingTCO2e: number;
+  retiredTCO2e: number;
+  persistenceType: string;
+  /** Retirements of the issuance, or only the one covering the unit */
+  retirements: PublicRetirement[];
+  /** Null for credits converted from BCUs, which carry no calculation */
+  calculation: PublicCalculationSummary | null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The public record of the CORC holding a serial; `problems` explains a
+ * serial that matches no issued CORC
+ */
+export async function getPublicCreditRecord(
+  serial: string,
+  client: DbClient = db
+): Promise<{ ok: true; record: PublicCreditRecord } | { ok: false; problems: string[] }> {
+  const lookup = await lookupSerial(serial, client);
+  if (!lookup.issuance || lookup.issuance.status === 'draft') {
+    return {
+      ok: false,
+      problems: lookup.problems.length > 0 ? lookup.problems : ['No issued CORC has this serial'],
+    };
+  }
+
+  const corc = await client.cORCIssuance.findUniqueOrThrow({
+    where: { id: lookup.issuance.id },
+    select: {
+      id: true,
+      serialNumber: true,
+      status: true,
+      issuanceType: true,
+      issuanceDate: true,
+      permanenceType: true,
+      netCORCsTCO2e: true,
+      cStoredTCO2e: true,
+      cBaselineTCO2e: true,
+      cLossTCO2e: true,
+      persistenceFractionPercent: true,
+      eProjectTCO2e: true,
+      eLeakageTCO2e: true,
+      retirementDate: true,
+      retirementBeneficiary: true,
+      retirementPurpose: true,
+      serialPattern: true,
+      serialFacilityCode: true,
+      serialYear: true,
+      serialSequenceStart: true,
+      serialSequenceEnd: true,
+      monitoringPeriod: {
+        select: {
+          periodStart: true,
+          periodEnd: true,
+          facility: { select: { name: true, country: true } },
+        },
+      },
+      calculationRun: { select: { calculationVersion: true } },
+      _count: { select: { productionBatches: true } },
+    },
+  });
+
+  const unit = lookup.issuance.unit;
+  const lots = await getHoldingLots({ type: 'corc', id: corc.id }, client);
+  const balance = lots.length > 0 ? summarizeLots(lots) : fallbackBalance(corc.status, corc.netCORCsTCO2e);
+  const covering = unit === null
+    ? null
+    : lots.find((l) => l.status !== 'split' && l.serialStart <= unit && unit <= l.serialEnd) ?? null;
+
+  const unitStatus: PublicCreditRecord['unitStatus'] = unit === null
+    ? null
+    : covering
+      ? covering.status === 'retired' ? 'retired' : 'active'
+      : lots.length === 0 ? (corc.status === 'retired' ? 'retired' : 'active') : null;
+
+  let retirements: PublicRetirement[] = lots
+    .filter((l) => l.status === 'retired' && (unit === null || l === covering))
+    .map((l) => {
+      const units = formatUnitSerialRange(corc, l);
+      return {
+        beneficiary: l.retirementBeneficiary ?? '-',
+        purpose: l.retirementPurpose,
+        quantityTCO2e: l.quantity,
+        retirementDate: l.retirementDate,
+        serialRange: units
+          ? units.first === units.last ? units.first : `${units.first} – ${units.last}`
+          : formatLotSerialRange(corc.serialNumber, l),
+      };
+    });
+
+  // Retired before lots existed: the issuance itself is the retirement
+  if (lots.length === 0 && corc.status === 'retired') {
+    retirements = [{
+      beneficiary: corc.retirementBeneficiary ?? '-',
+      purpose: corc.retirementPurpose,
+      quantityTCO2e: balance.retired,
+      retirementDate: corc.retirementDate,
+      serialRange: corc.serialNumber,
+    }];
+  }
+
+  const { monitoringPeriod } = corc;
+
+  return {
+    ok: true,
+    record: {
+      serial: lookup.serial,
+      issuanceSerialNumber: corc.serialNumber,
+      unit,
+      status: corc.status,
+      unitStatus,
+      issuanceType: CORC_ISSUANCE_TYPES.find((t) => t.value === corc.issuanceType)?.label ?? corc.issuanceType,
+      issuanceDate: corc.issuanceDate,
+      vintage: corc.serialYear ?? monitoringPeriod.periodEnd.getFullYear(),
+      facility: monitoringPeriod.facility,
+      quantityTCO2e: round(corc.netCORCsTCO2e),
+      remainingTCO2e: balance.remaining,
+      retiredTCO2e: balance.retired,
+      persistenceType: PERMANENCE_TYPES.find((t) => t.value === corc.permanenceType)?.label ?? corc.permanenceType,
+      retirements,
+      calculation: corc.issuanceType === 'legacy_bcu'
+        ? null
+        : {
+            methodologyVersion: corc.calculationRun?.calculationVersion ?? null,
+            monitoringPeriodStart: monitoringPeriod.periodStart,
+            monitoringPeriodEnd: monitoringPeriod.periodEnd,
+            productionBatchCount: corc._count.productionBatches,
+            grossStoredTCO2e: round(corc.cStoredTCO2e),
+            baselineTCO2e: round(corc.cBaselineTCO2e),
+            persistenceLossTCO2e: round(corc.cLossTCO2e),
+            persistenceFractionPercent: round(corc.persistenceFractionPercent),
+            projectEmissionsTCO2e: round(corc.eProjectTCO2e),
+            leakageTCO2e: round(corc.eLeakageTCO2e),
+            netTCO2e: round(corc.netCORCsTCO2e),
+          },
+    },
+  };
+}
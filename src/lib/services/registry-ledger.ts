@@ -0,0 +1,391 @@
+import type { Prisma, RegistryAccount } from '@prisma/client';
+import db from '@/lib/db';
+import { formatLotSerialRange } from '@/lib/validations/credit-lot';
+import {
+  HOLDER_ACCOUNT_TYPES,
+  type LedgerDirection,
+  type LedgerTransactionType,
+  type SystemAccountType,
+} from '@/lib/validations/registry-account';
+
+/**
+ * Registry accounts and the credit ledger
+ *
+ * Every issuance, transfer and retirement of CORC or BCU units is a ledger
+ * transaction with exactly two entries: a debit on the account the units
+ * leave and a credit on the account they arrive in. Issued units come from
+ * the "issuance" system account and retired units go to the "retirement"
+ * system account, so the ledger always balances: the issuance account's
+ * balance is minus everything ever issued, the retirement account's is
+ * everything retired, and holder balances are what remains in circulation.
+ *
+ * Ledger rows are only written by the credit lot service (see
+ * syncHoldingLedger in credit-lots.ts), in the same database transaction
+ * as the lot change they record.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+const SYSTEM_ACCOUNT_NAMES: Record<SystemAccountType, string> = {
+  issuance: 'Registry Issuance',
+  retirement: 'Registry Retirement',
+};
+
+const DEFAULT_OPERATOR_ACCOUNT_NAME = 'Own Account';
+
+export interface AccountBalance {
+  credited: number;
+  debited: number;
+  /** Units held: credits minus debits */
+  balance: number;
+}
+
+export interface LedgerPosting {
+  transactionType: LedgerTransactionType;
+  holding: { corcIssuanceId: string } | { bcuId: string };
+  lot: { id: string; serialStart: number; serialEnd: number; quantity: number };
+  fromAccountId: string;
+  toAccountId: string;
+  memo?: string | null;
+  createdBy?: string | null;
+  createdAt?: Date;
+}
+
+const transactionInclude = {
+  entries: {
+    include: { account: { select: { id: true, name: true, accountType: true } } },
+  },
+  corcIssuance: { select: { id: true, serialNumber: true } },
+  bcu: { select: { id: true, registrySerialNumber: true } },
+} satisfies Prisma.LedgerTransactionInclude;
+
+type TransactionWithDetails = Prisma.LedgerTransactionGetPayload<{ include: typeof transactionInclude }>;
+
+type AccountRef = { id: string; name: string; accountType: string };
+
+export interface LedgerTransactionView {
+  id: string;
+  transactionType: string;
+  createdAt: Date;
+  quantity: number;
+  serialRange: string;
+  holding: { type: 'corc' | 'bcu'; id: string; serialNumber: string } | null;
+  from: AccountRef | null;
+  to: AccountRef | null;
+  memo: string | null;
+  createdBy: string | null;
+}
+
+export interface StatementLine extends LedgerTransactionView {
+  direction: LedgerDirection;
+  /** The other side of the transaction */
+  counterparty: AccountRef | null;
+  /** Signed change to the account: + for credits, - for debits */
+  change: number;
+  /** Account balance after this line */
+  balance: number;
+}
+
+export interface AccountStatement {
+  account: RegistryAccount;
+  from: Date | null;
+  to: Date | null;
+  openingBalance: number;
+  closingBalance: number;
+  totalCredited: number;
+  totalDebited: number;
+  lines: StatementLine[];
+}
+
+/**
+ * The issuance or retirement system account, created on first use
+ */
+export async function getSystemAccount(type: SystemAccountType, client: DbClient = db): Promise<RegistryAccount> {
+  const existing = await client.registryAccount.findFirst({
+    where: { accountType: type },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (existing) return existing;
+
+  return client.registryAccount.create({
+    data: { name: SYSTEM_ACCOUNT_NAMES[type], accountType: type },
+  });
+}
+
+/**
+ * Our own holder account, which receives credits issued without an owner.
+ * Created on first use, named after the plant.
+ */
+export async function getOperatorAccount(client: DbClient = db): Promise<RegistryAccount> {
+  const existing = await client.registryAccount.findFirst({
+    where: { accountType: 'operator', isActive: true },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (existing) return existing;
+
+  const settings = await client.plantSettings.findUnique({ where: { id: 'singleton' } });
+  return client.registryAccount.create({
+    data: { name: settings?.plantName ?? DEFAULT_OPERATOR_ACCOUNT_NAME, accountType: 'operator' },
+  });
+}
+
+/**
+ * Find the holder account for an owner name, creating a buyer account if
+ * there is none. Without a name the credits stay with the operator account.
+ */
+export async function resolveHolderAccount(
+  owner: { name: string | null | undefined; externalAccountId?: string | null },
+  client: DbClient = db
+): Promise<RegistryAccount> {
+  const name = owner.name?.trim();
+  if (!name) return getOperatorAccount(client);
+
+  const matches = await client.registryAccount.findMany({
+    where: {
+      name: { equals: name, mode: 'insensitive' },
+      accountType: { in: [...HOLDER_ACCOUNT_TYPES] },
+    },
+    orderBy: [{ isActive: 'desc' }, { createdAt: 'asc' }],
+  });
+  const exact = owner.externalAccountId
+    ? matches.find((a) => a.externalAccountId === owner.externalAccountId)
+    : undefined;
+  const match = exact ?? matches[0];
+  if (match) return match;
+
+  return client.registryAccount.create({
+    data: {
+      name,
+      accountType: 'buyer',
+      externalAccountId: owner.externalAccountId ?? null,
+    },
+  });
+}
+
+/**
+ * Active accounts that can receive credits, for transfer pickers
+ */
+export async function getHolderAccounts(client: DbClient = db): Promise<AccountRef[]> {
+  return client.registryAccount.findMany({
+    where: { isActive: true, accountType: { in: [...HOLDER_ACCOUNT_TYPES] } },
+    select: { id: true, name: true, accountType: true },
+    orderBy: { name: 'asc' },
+  });
+}
+
+/**
+ * Record a movement of units as a debit/credit pair
+ */
+export async function postLedgerTransaction(posting: LedgerPosting, client: DbClient = db) {
+  const createdAt = posting.createdAt ?? new Date();
+  return client.ledgerTransaction.create({
+    data: {
+      transactionType: posting.transactionType,
+      ...posting.holding,
+      lotId: posting.lot.id,
+      serialStart: posting.lot.serialStart,
+      serialEnd: posting.lot.serialEnd,
+      quantity: posting.lot.quantity,
+      memo: posting.memo ?? null,
+      createdBy: posting.createdBy ?? null,
+      createdAt,
+      entries: {
+        create: [
+          { accountId: posting.fromAccountId, direction: 'debit', quantity: posting.lot.quantity, createdAt },
+          { accountId: posting.toAccountId, direction: 'credit', quantity: posting.lot.quantity, createdAt },
+        ],
+      },
+    },
+  });
+}
+
+/**
+ * Ledger balances of accounts (all accounts when no ids are given)
+ *
+ * @param before Only count entries before this time (opening balances)
+ */
+export async function getAccountBalances(
+  accountIds?: string[],
+  before?: Date,
+  client: DbClient = db
+): Promise<Map<string, AccountBalance>> {
+  const sums = await client.ledgerEntry.groupBy({
+    by: ['accountId', 'direction'],
+    where: {
+      ...(accountIds ? { accountId: { in: accountIds } } : {}),
+      ...(before ? { createdAt: { lt: before } } : {}),
+    },
+    _sum: { quantity: true },
+  });
+
+  const balances = new Map<string, AccountBalance>(
+    (accountIds ?? []).map((id) => [id, { credited: 0, debited: 0, balance: 0 }])
+  );
+  for (const row of sums) {
+    const current = balances.get(row.accountId) ?? { credited: 0, debited: 0, balance: 0 };
+    const quantity = row._sum.quantity ?? 0;
+    if (row.direction === 'credit') current.credited += quantity;
+    else current.debited += quantity;
+    current.balance = current.credited - current.debited;
+    balances.set(row.accountId, current);
+  }
+  return balances;
+}
+
+export async function getAccountBalance(accountId: string, client: DbClient = db): Promise<AccountBalance> {
+  const balances = await getAccountBalances([accountId], undefined, client);
+  return balances.get(accountId) ?? { credited: 0, debited: 0, balance: 0 };
+}
+
+/**
+ * Active lots held by an account, i.e. where its balance sits
+ */
+export async function getAccountHoldings(accountId: string, client: DbClient = db) {
+  const lots = await client.creditLot.findMany({
+    where: { accountId, status: 'active' },
+    include: {
+      corcIssuance: { select: { id: true, serialNumber: true } },
+      bcu: { select: { id: true, registrySerialNumber: true } },
+    },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return lots.map((lot) => {
+    const holding = lot.corcIssuance
+      ? { type: 'corc' as const, id: lot.corcIssuance.id, serialNumber: lot.corcIssuance.serialNumber }
+      : lot.bcu
+        ? { type: 'bcu' as const, id: lot.bcu.id, serialNumber: lot.bcu.registrySerialNumber }
+        : null;
+    return {
+      lotId: lot.id,
+      holding,
+      quantity: lot.quantity,
+      serialRange: holding ? formatLotSerialRange(holding.serialNumber, lot) : `${lot.serialStart}-${lot.serialEnd}`,
+      acquiredAt: lot.createdAt,
+    };
+  });
+}
+
+function toView(transaction: TransactionWithDetails): LedgerTransactionView {
+  const holding = transaction.corcIssuance
+    ? { type: 'corc' as const, id: transaction.corcIssuance.id, serialNumber: transaction.corcIssuance.serialNumber }
+    : transaction.bcu
+      ? { type: 'bcu' as const, id: transaction.bcu.id, serialNumber: transaction.bcu.registrySerialNumber }
+      : null;
+
+  return {
+    id: transaction.id,
+    transactionType: transaction.transactionType,
+    createdAt: transaction.createdAt,
+    quantity: transaction.quantity,
+    serialRange: holding
+      ? formatLotSerialRange(holding.serialNumber, transaction)
+      : `${transaction.serialStart}-${transaction.serialEnd}`,
+    holding,
+    from: transaction.entries.find((e) => e.direction === 'debit')?.account ?? null,
+    to: transaction.entries.find((e) => e.direction === 'credit')?.account ?? null,
+    memo: transaction.memo,
+    createdBy: transaction.createdBy,
+  };
+}
+
+/**
+ * Ledger transactions, oldest first
+ */
+export async function getLedgerTransactions(
+  where: Prisma.LedgerTransactionWhereInput,
+  page?: { skip: number; take: number },
+  client: DbClient = db
+): Promise<{ transactions: LedgerTransactionView[]; total: number }> {
+  const [total, transactions] = await Promise.all([
+    client.ledgerTransaction.count({ where }),
+    client.ledgerTransaction.findMany({
+      where,
+      include: transactionInclude,
+      orderBy: [{ createdAt: 'asc' }, { serialStart: 'asc' }],
+      ...(page ?? {}),
+    }),
+  ]);
+  return { transactions: transactions.map(toView), total };
+}
+
+/**
+ * Chain of custody of a CORC issuance or BCU: every movement of its units
+ */
+export async function getHoldingLedger(
+  holding: { type: 'corc' | 'bcu'; id: string },
+  client: DbClient = db
+): Promise<LedgerTransactionView[]> {
+  const { transactions } = await getLedgerTransactions(
+    holding.type === 'corc' ? { corcIssuanceId: holding.id } : { bcuId: holding.id },
+    undefined,
+    client
+  );
+  return transactions;
+}
+
+/**
+ * Account statement: opening balance, every debit and credit in the period
+ * with a running balance, and the closing balance
+ *
+ * @returns null if the account does not exist
+ */
+export async function getAccountStatement(
+  accountId: string,
+  period: { from?: Date; to?: Date },
+  client: DbClient = db
+): Promise<AccountStatement | null> {
+  const account = await client.registryAccount.findUnique({ where: { id: accountId } });
+  if (!account) return null;
+
+  const opening = period.from
+    ? (await getAccountBalances([accountId], period.from, client)).get(accountId)?.balance ?? 0
+    : 0;
+
+  const entries = await client.ledgerEntry.findMany({
+    where: {
+      accountId,
+      ...(period.from || period.to
+        ? {
+            createdAt: {
+              ...(period.from ? { gte: period.from } : {}),
+              ...(period.to ? { lte: period.to } : {}),
+            },
+          }
+        : {}),
+    },
+    include: { transaction: { include: transactionInclude } },
+    orderBy: [{ createdAt: 'asc' }, { transaction: { serialStart: 'asc' } }],
+  });
+
+  let balance = opening;
+  let totalCredited = 0;
+  let totalDebited = 0;
+  const lines = entries.map((entry): StatementLine => {
+    const view = toView(entry.transaction);
+    const isCredit = entry.direction === 'credit';
+    const change = isCredit ? entry.quantity : -entry.quantity;
+    balance += change;
+    if (isCredit) totalCredited += entry.quantity;
+    else totalDebited += entry.quantity;
+
+    return {
+      ...view,
+      direction: entry.direction as LedgerDirection,
+      counterparty: isCredit ? view.from : view.to,
+      change,
+      balance,
+    };
+  });
+
+  return {
+    account,
+    from: period.from ?? null,
+    to: period.to ?? null,
+    openingBalance: opening,
+    closingBalance: balance,
+    totalCredited,
+    totalDebited,
+    lines,
+  };
+}
@@ -0,0 +1,348 @@
+import { randomBytes } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import { formatDate } from '@/lib/utils';
+import { createPdfPage, wrapText, type PdfColor } from '@/lib/utils/pdf';
+import { generateQRCodeMatrix, getCertificateVerificationUrl } from '@/lib/qr';
+import { PERMANENCE_TYPES } from '@/lib/validations/corc';
+import { formatLotSerialRange } from '@/lib/validations/credit-lot';
+import { formatUnitSerialRange } from '@/lib/validations/serial-number';
+import { findBatchConflicts } from '@/lib/services/corc-sources';
+import { takeSequenceValues } from '@/lib/services/serial-allocator';
+
+/**
+ * Retirement certificates
+ *
+ * Every retired CORC lot can have one certificate, numbered from a yearly
+ * counter and carrying a random verification code. The certificate's QR code
+ * opens a public page that re-checks the retirement against the registry
+ * each time it is scanned, rather than trusting what the PDF says.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export interface CertificateProblem {
+  code: 'LOT_NOT_FOUND' | 'NOT_A_CORC_LOT' | 'LOT_NOT_RETIRED';
+  message: string;
+}
+
+export const CERTIFICATE_PROBLEM_STATUS: Record<CertificateProblem['code'], number> = {
+  LOT_NOT_FOUND: 404,
+  NOT_A_CORC_LOT: 400,
+  LOT_NOT_RETIRED: 400,
+};
+
+const certificateInclude = {
+  lot: true,
+  corcIssuance: {
+    include: {
+      monitoringPeriod: {
+        select: { periodEnd: true, facility: { select: { name: true, country: true } } },
+      },
+      calculationRun: { select: { calculationVersion: true } },
+      productionBatches: { select: { productionBatchId: true } },
+    },
+  },
+} satisfies Prisma.RetirementCertificateInclude;
+
+type CertificateWithRelations = Prisma.RetirementCertificateGetPayload<{ include: typeof certificateInclude }>;
+
+/**
+ * What a certificate states, without internal record IDs
+ */
+export interface RetirementCertificateView {
+  certificateNumber: string;
+  verificationCode: string;
+  verificationUrl: string;
+  issuedAt: Date;
+  beneficiary: string;
+  purpose: string | null;
+  retirementDate: Date | null;
+  quantityTCO2e: number;
+  /** Registry serials of the first and last retired unit */
+  serialRange: string;
+  issuanceSerialNumber: string;
+  facilityName: string;
+  facilityCountry: string | null;
+  vintage: number;
+  methodologyVersion: string;
+  persistenceType: string;
+}
+
+function certificateNumber(year: number, sequence: number): string {
+  return `RC-${year}-${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * The certificate of a retired CORC lot, created on first request
+ */
+export async function ensureRetirementCertificate(
+  lotId: string,
+  createdBy: string | null = null,
+  client: DbClient = db
+): Promise<
+  | { ok: true; certificate: { id: string; certificateNumber: string; verificationCode: string } }
+  | { ok: false; problem: CertificateProblem }
+> {
+  const lot = await client.creditLot.findUnique({
+    where: { id: lotId },
+    include: { retirementCertificate: true },
+  });
+  if (!lot) {
+    return { ok: false, problem: { code: 'LOT_NOT_FOUND', message: `Lot ${lotId} not found` } };
+  }
+  if (!lot.corcIssuanceId) {
+    return { ok: false, problem: { code: 'NOT_A_CORC_LOT', message: 'Certificates are issued for CORC lots only' } };
+  }
+  if (lot.status !== 'retired') {
+    return {
+      ok: false,
+      problem: { code: 'LOT_NOT_RETIRED', message: `Lot is ${lot.status}; only retired lots have certificates` },
+    };
+  }
+  if (lot.retirementCertificate) {
+    return { ok: true, certificate: lot.retirementCertificate };
+  }
+
+  const year = (lot.retirementDate ?? new Date()).getFullYear();
+  const { start } = await takeSequenceValues(`certificate:${year}`, 1, 0, client);
+
+  // Upsert on the lot so two concurrent first downloads share one certificate
+  const certificate = await client.retirementCertificate.upsert({
+    where: { lotId },
+    create: {
+      certificateNumber: certificateNumber(year, start),
+      verificationCode: randomBytes(16).toString('base64url'),
+      lotId,
+      corcIssuanceId: lot.corcIssuanceId,
+      createdBy,
+    },
+    update: {},
+  });
+
+  return { ok: true, certificate };
+}
+
+function toView(certificate: CertificateWithRelations): RetirementCertificateView {
+  const { lot, corcIssuance: corc } = certificate;
+  const units = formatUnitSerialRange(corc, lot);
+
+  return {
+    certificateNumber: certificate.certificateNumber,
+    verificationCode: certificate.verificationCode,
+    verificationUrl: getCertificateVerificationUrl(certificate.verificationCode),
+    issuedAt: certificate.issuedAt,
+    beneficiary: lot.retirementBeneficiary ?? corc.retirementBeneficiary ?? '-',
+    purpose: lot.retirementPurpose ?? null,
+    retirementDate: lot.retirementDate,
+    quantityTCO2e: lot.quantity,
+    serialRange: units
+      ? units.first === units.last ? units.first : `${units.first} – ${units.last}`
+      : formatLotSerialRange(corc.serialNumber, lot),
+    issuanceSerialNumber: corc.serialNumber,
+    facilityName: corc.monitoringPeriod.facility.name,
+    facilityCountry: corc.monitoringPeriod.facility.country,
+    vintage: corc.serialYear ?? corc.monitoringPeriod.periodEnd.getFullYear(),
+    methodologyVersion: corc.calculationRun?.calculationVersion
+      ?? (corc.issuanceType === 'legacy_bcu' ? 'Legacy BCU (converted)' : 'Not recorded'),
+    persistenceType: PERMANENCE_TYPES.find((t) => t.value === corc.permanenceType)?.label ?? corc.permanenceType,
+  };
+}
+
+/**
+ * Certificate contents for a lot, or null when it has no certificate
+ */
+export async function getRetirementCertificateView(
+  lotId: string,
+  client: DbClient = db
+): Promise<RetirementCertificateView | null> {
+  const certificate = await client.retirementCertificate.findUnique({
+    where: { lotId },
+    include: certificateInclude,
+  });
+  return certificate && toView(certificate);
+}
+
+export interface CertificateCheck {
+  label: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface CertificateVerification {
+  /** Every check passed */
+  genuine: boolean;
+  checks: CertificateCheck[];
+  certificate: RetirementCertificateView;
+}
+
+/**
+ * Check a certificate against the registry: its units are retired, no other
+ * retirement covers them, and the production batches behind them back no
+ * other issuance. Null when the code matches no certificate.
+ */
+export async function verifyRetirementCertificate(
+  verificationCode: string,
+  client: DbClient = db
+): Promise<CertificateVerification | null> {
+  const certificate = await client.retirementCertificate.findUnique({
+    where: { verificationCode },
+    include: certificateInclude,
+  });
+  if (!certificate) return null;
+
+  const { lot, corcIssuance: corc } = certificate;
+
+  const overlapping = await client.creditLot.count({
+    where: {
+      corcIssuanceId: corc.id,
+      status: 'retired',
+      id: { not: lot.id },
+      serialStart: { lte: lot.serialEnd },
+      serialEnd: { gte: lot.serialStart },
+    },
+  });
+  const batchConflicts = await findBatchConflicts(
+    corc.productionBatches.map((b) => b.productionBatchId),
+    corc.id,
+    client
+  );
+
+  const retired = lot.status === 'retired' && corc.status !== 'draft';
+  const checks: CertificateCheck[] = [
+    {
+      label: 'Units retired',
+      passed: retired,
+      detail: retired
+        ? `${lot.quantity} tCO₂e retired${lot.retirementDate ? ` on ${formatDate(lot.retirementDate)}` : ''}`
+        : 'The registry does not show these units as retired',
+    },
+    {
+      label: 'Retired once',
+      passed: overlapping === 0,
+      detail: overlapping === 0
+        ? 'No other retirement covers these serials'
+        : `${overlapping} other retirement(s) cover some of these serials`,
+    },
+    {
+      label: 'Not credited elsewhere',
+      passed: batchConflicts.length === 0,
+      detail: batchConflicts.length === 0
+        ? 'The production batches behind these credits back no other issuance'
+        : `${batchConflicts.length} production batch(es) also back another issuance`,
+    },
+  ];
+
+  return {
+    genuine: checks.every((c) => c.passed),
+    checks,
+    certificate: toView(certificate),
+  };
+}
+
+const INK: PdfColor = [0.09, 0.09, 0.11];
+const MUTED: PdfColor = [0.42, 0.44, 0.48];
+const ACCENT: PdfColor = [0.02, 0.47, 0.34];
+const RULE: PdfColor = [0.85, 0.87, 0.89];
+
+/**
+ * Render a certificate as a one-page A4 PDF with a QR code linking to its
+ * verification page
+ */
+export function renderRetirementCertificatePdf(view: RetirementCertificateView): Buffer {
+  const pdf = createPdfPage({ title: `Retirement Certificate ${view.certificateNumber}`, createdAt: view.issuedAt });
+  const { width, height } = pdf;
+  const margin = 48;
+  const center = width / 2;
+
+  pdf.rect(24, 24, width - 48, height - 48, { stroke: ACCENT, lineWidth: 2 });
+  pdf.rect(30, 30, width - 60, height - 60, { stroke: RULE, lineWidth: 0.5 });
+
+  let y = height - 80;
+  pdf.text(margin, y, 'ECM MRV', { size: 10, bold: true, color: MUTED });
+  pdf.textRight(width - margin, y, view.certificateNumber, { size: 10, bold: true, color: MUTED });
+
+  y -= 56;
+  pdf.textCentered(center, y, 'CERTIFICATE OF RETIREMENT', { size: 24, bold: true, color: ACCENT });
+  y -= 22;
+  pdf.textCentered(center, y, 'CO₂ Removal Certificates (CORCs)', { size: 12, color: MUTED });
+
+  y -= 48;
+  pdf.textCentered(center, y, 'This certifies that', { size: 11, color: MUTED });
+  y -= 30;
+  pdf.textCentered(center, y, `${view.quantityTCO2e} tCO₂e`, { size: 28, bold: true, color: INK });
+  y -= 26;
+  pdf.textCentered(center, y, 'of carbon removal have been permanently retired on behalf of', { size: 11, color: MUTED });
+  for (const line of wrapText(view.beneficiary, width - margin * 2, 18, true)) {
+    y -= 26;
+    pdf.textCentered(center, y, line, { size: 18, bold: true, color: INK });
+  }
+
+  y -= 36;
+  pdf.line(margin, y, width - margin, y, { stroke: RULE });
+
+  const facility = view.facilityCountry ? `${view.facilityName}, ${view.facilityCountry}` : view.facilityName;
+  const fields: Array<[string, string]> = [
+    ['Beneficiary', view.beneficiary],
+    ['Purpose', view.purpose || '-'],
+    ['Quantity', `${view.quantityTCO2e} tCO₂e`],
+    ['Serial Range', view.serialRange],
+    ['Issuance', view.issuanceSerialNumber],
+    ['Facility', facility],
+    ['Vintage', String(view.vintage)],
+    ['Methodology Version', view.methodologyVersion],
+    ['Persistence Type', view.persistenceType],
+    ['Retirement Date', view.retirementDate ? formatDate(view.retirementDate) : '-'],
+    ['Certificate Issued', formatDate(view.issuedAt)],
+  ];
+
+  const labelWidth = 140;
+  const valueWidth = width - margin * 2 - labelWidth;
+  y -= 8;
+  for (const [label, value] of fields) {
+    const lines = wrapText(value, valueWidth, 10.5);
+    y -= 18;
+    pdf.text(margin, y, label, { size: 9, bold: true, color: MUTED });
+    lines.forEach((line, i) => {
+      pdf.text(margin + labelWidth, y - i * 14, line, { size: 10.5, color: INK });
+    });
+    y -= (lines.length - 1) * 14 + 4;
+  }
+
+  // QR code linking to the public verification page
+  const matrix = generateQRCodeMatrix(view.verificationUrl);
+  const qrSize = 112;
+  const quiet = 4;
+  const cell = qrSize / (matrix.length + quiet * 2);
+  const qrX = width - margin - qrSize;
+  const qrY = 60;
+  matrix.forEach((row, r) => {
+    row.forEach((dark, c) => {
+      if (!dark) return;
+      pdf.rect(
+        qrX + (c + quiet) * cell,
+        qrY + qrSize - (r + quiet + 1) * cell,
+        cell + 0.05,
+        cell + 0.05,
+        { fill: INK }
+      );
+    });
+  });
+
+  const textWidth = width - margin * 2 - qrSize - 24;
+  let footerY = qrY + qrSize - 14;
+  pdf.text(margin, footerY, 'Verify this certificate', { size: 11, bold: true, color: INK });
+  for (const line of wrapText(
+    'Scan the code or open the address below to confirm in the registry that these units are retired, ' +
+    'were retired only once and are not credited elsewhere.',
+    textWidth,
+    9
+  )) {
+    footerY -= 13;
+    pdf.text(margin, footerY, line, { size: 9, color: MUTED });
+  }
+  footerY -= 18;
+  pdf.text(margin, footerY, view.verificationUrl, { size: 8, color: ACCENT });
+
+  return pdf.toBuffer();
+}
@@ -1,4 +1,5 @@
 import db from '@/lib/db';
+import { findRecordPeriodLock } from '@/lib/services/period-lock';
 
 export interface RouteResult {
   success: boolean;
@@ -9,9 +10,18 @@ export interface RouteResult {
   error?: string;
 }
 
+export interface RecalculateSkippedRecord {
+  recordType: 'feedstock_delivery' | 'sequestration_event';
+  id: string;
+  /** Locked monitoring period the record's distance feeds */
+  monitoringPeriodId: string;
+}
+
 export interface RecalculateResult {
   feedstockCount: number;
   sequestrationCount: number;
+  /** Records left unchanged because a locked period covers them */
+  skipped: RecalculateSkippedRecord[];
   errors: string[];
 }
 
@@ -286,32 +296,58 @@ export async function calculateSequestrationRoute(sequestrationId: string): Prom
   return result;
 }
 
+/**
+ * Records whose route may be rewritten, and those a locked period covers
+ */
+async function partitionByPeriodLock(
+  recordType: RecalculateSkippedRecord['recordType'],
+  records: Array<{ id: string }>,
+  skipped: RecalculateSkippedRecord[]
+): Promise<Array<{ id: string }>> {
+  const open: Array<{ id: string }> = [];
+  for (const record of records) {
+    const lock = await findRecordPeriodLock(recordType, record.id);
+    if (lock) {
+      skipped.push({ recordType, id: record.id, monitoringPeriodId: lock.monitoringPeriodId });
+    } else {
+      open.push(record);
+    }
+  }
+  return open;
+}
+
 /**
  * Recalculate all routes - called when plant location changes
  * Processes in background with rate limiting
+ *
+ * Distances are CORC calculation inputs, so records in a locked monitoring
+ * period keep their route and are reported as skipped.
  */
 export async function recalculateAllRoutes(): Promise<RecalculateResult> {
   const errors: string[] = [];
+  const skipped: RecalculateSkippedRecord[] = [];
   let feedstockCount = 0;
   let sequestrationCount = 0;
 
   // Get all feedstock deliveries with coordinates
-  const feedstocks = await db.feedstockDelivery.findMany({
+  const feedstockRecords = await db.feedstockDelivery.findMany({
     where: {
       sourceLat: { not: null },
       sourceLng: { not: null },
     },
     select: { id: true },
   });
+  const feedstocks = await partitionByPeriodLock('feedstock_delivery', feedstockRecords, skipped);
 
   // Get all sequestration events with coordinates
-  const sequestrations = await db.sequestrationEvent.findMany({
+  const sequestrationRecords = await db.sequestrationEvent.findMany({
     where: {
       destinationLat: { not: null },
       destinationLng: { not: null },
     },
     select: { id: true },
   });
+  const sequestrations = await partitionByPeriodLock('sequestration_event', sequestrationRecords, skipped);
 
   // Mark all as pending
   await db.feedstockDelivery.updateMany({
@@ -358,5 +394,5 @@ export async function recalculateAllRoutes(): Promise<RecalculateResult> {
     }
   }
 
-  return { feedstockCount, sequestrationCount, errors };
+  return { feedstockCount, sequestrationCount, skipped, errors };
 }
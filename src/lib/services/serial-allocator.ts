@@ -0,0 +1,238 @@
+import type { Facility, Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import {
+  DEFAULT_CORC_SERIAL_PATTERN,
+  LEGACY_CORC_SERIAL_PATTERN,
+  decodeSerial,
+  formatSerial,
+  toFacilitySerialCode,
+  type DecodedSerial,
+  type SerialBlockFields,
+} from '@/lib/validations/serial-number';
+import { toWholeUnits } from '@/lib/services/credit-lots';
+
+/**
+ * CORC serial allocation
+ *
+ * Serials come from a counter per facility and vintage year, bumped with a
+ * single upsert so concurrent requests never receive the same numbers.
+ * Like a database sequence, numbers taken by a request that later fails are
+ * not handed out again; gaps are expected, reuse is not.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+type SerialFacility = Pick<Facility, 'id' | 'registrationNumber' | 'serialCode' | 'serialPattern'>;
+
+export interface CORCSerialBlock extends SerialBlockFields {
+  serialNumber: string;
+  serialPattern: string;
+  serialFacilityCode: string;
+  serialYear: number;
+  serialSequenceStart: number;
+  serialSequenceEnd: number;
+}
+
+export function facilitySerialPattern(facility: Pick<Facility, 'serialPattern'>): string {
+  return facility.serialPattern || DEFAULT_CORC_SERIAL_PATTERN;
+}
+
+function sequenceKey(facilityId: string, year: number): string {
+  return `corc:${facilityId}:${year}`;
+}
+
+// Highest sequence number the facility's existing CORC serials use for the
+// year, so a new counter starts above serials issued before the allocator
+async function highestUsedSequence(
+  facility: SerialFacility,
+  year: number,
+  client: DbClient
+): Promise<number> {
+  const code = toFacilitySerialCode(facility);
+  const patterns = [facilitySerialPattern(facility), LEGACY_CORC_SERIAL_PATTERN];
+  const corcs = await client.cORCIssuance.findMany({
+    where: { monitoringPeriod: { facilityId: facility.id } },
+    select: { serialNumber: true, serialYear: true, serialSequenceEnd: true },
+  });
+
+  let highest = 0;
+  for (const corc of corcs) {
+    if (corc.serialSequenceEnd !== null) {
+      if (corc.serialYear === year) highest = Math.max(highest, corc.serialSequenceEnd);
+      continue;
+    }
+    for (const pattern of patterns) {
+      const decoded = decodeSerial(pattern, corc.serialNumber);
+      if (decoded && decoded.facilityCode === code && decoded.year === year) {
+        highest = Math.max(highest, decoded.sequence);
+        break;
+      }
+    }
+  }
+  return highest;
+}
+
+/**
+ * Reserve `count` consecutive sequence numbers of a facility and year
+ */
+export async function reserveSequenceRange(
+  facility: SerialFacility,
+  year: number,
+  count: number,
+  client: DbClient = db
+): Promise<{ start: number; end: number }> {
+  const key = sequenceKey(facility.id, year);
+  const existing = await client.serialSequence.findUnique({ where: { key } });
+  const floor = existing ? 0 : await highestUsedSequence(facility, year, client);
+  return takeSequenceValues(key, count, floor, client);
+}
+
+/**
+ * Take the next `count` values of a named counter; a counter that does not
+ * exist yet starts after `floor`
+ */
+export async function takeSequenceValues(
+  key: string,
+  count: number,
+  floor = 0,
+  client: DbClient = db
+): Promise<{ start: number; end: number }> {
+  // A single INSERT ... ON CONFLICT DO UPDATE, so the increment is atomic
+  const sequence = await client.serialSequence.upsert({
+    where: { key },
+    create: { key, lastValue: floor + count },
+    update: { lastValue: { increment: count } },
+  });
+
+  return { start: sequence.lastValue - count + 1, end: sequence.lastValue };
+}
+
+/**
+ * Allocate an issuance serial with one sequence number reserved per whole
+ * tCO2e; the issuance serial is that of its first unit
+ */
+export async function allocateCORCSerialBlock(
+  facility: SerialFacility,
+  year: number,
+  quantityTCO2e: number,
+  client: DbClient = db
+): Promise<CORCSerialBlock> {
+  const pattern = facilitySerialPattern(facility);
+  const facilityCode = toFacilitySerialCode(facility);
+  const { start, end } = await reserveSequenceRange(facility, year, Math.max(1, toWholeUnits(quantityTCO2e)), client);
+
+  return {
+    serialNumber: formatSerial(pattern, { facilityCode, year, sequence: start }),
+    serialPattern: pattern,
+    serialFacilityCode: facilityCode,
+    serialYear: year,
+    serialSequenceStart: start,
+    serialSequenceEnd: end,
+  };
+}
+
+/**
+ * Whether an issuance's reserved block has a serial for each of its units
+ */
+export function serialBlockCovers(
+  block: SerialBlockFields,
+  quantityTCO2e: number
+): boolean {
+  if (block.serialSequenceStart === null || block.serialSequenceEnd === null) return true;
+  return block.serialSequenceEnd - block.serialSequenceStart + 1 >= toWholeUnits(quantityTCO2e);
+}
+
+export interface SerialLookup {
+  serial: string;
+  /** Fits a known pattern, has a correct check character and a known facility */
+  valid: boolean;
+  problems: string[];
+  decoded: DecodedSerial | null;
+  facility: { id: string; name: string; registrationNumber: string } | null;
+  vintage: number | null;
+  sequence: number | null;
+  /** The issuance holding the serial, and the unit within it when it has a block */
+  issuance: { id: string; serialNumber: string; status: string; unit: number | null } | null;
+}
+
+/**
+ * Decode a serial back to its facility, vintage and sequence, and find the
+ * issuance that holds it
+ */
+export async function lookupSerial(serial: string, client: DbClient = db): Promise<SerialLookup> {
+  const facilities = await client.facility.findMany({
+    select: { id: true, name: true, registrationNumber: true, serialCode: true, serialPattern: true },
+  });
+  const patterns = [
+    ...new Set([
+      ...facilities.map(facilitySerialPattern),
+      DEFAULT_CORC_SERIAL_PATTERN,
+      LEGACY_CORC_SERIAL_PATTERN,
+    ]),
+  ];
+
+  // Prefer a decoding whose facility code is known
+  let decoded: DecodedSerial | null = null;
+  let facility: (typeof facilities)[number] | null = null;
+  for (const pattern of patterns) {
+    const candidate = decodeSerial(pattern, serial);
+    if (!candidate) continue;
+    const match = facilities.find((f) => toFacilitySerialCode(f) === candidate.facilityCode) ?? null;
+    if (!decoded || (match && !facility)) {
+      decoded = candidate;
+      facility = match;
+    }
+    if (match) break;
+  }
+
+  const problems: string[] = [];
+  if (!decoded) {
+    problems.push('Does not match any CORC serial pattern');
+  } else {
+    if (decoded.checkCharacterValid === false) {
+      problems.push('Check character does not match; the serial has a typo');
+    }
+    if (!facility) {
+      problems.push(`Unknown facility code ${decoded.facilityCode}`);
+    }
+  }
+
+  const normalized = serial.trim().toUpperCase();
+  let issuance: SerialLookup['issuance'] = null;
+  const exact = await client.cORCIssuance.findFirst({
+    where: { serialNumber: { equals: normalized, mode: 'insensitive' } },
+    select: { id: true, serialNumber: true, status: true, serialSequenceStart: true },
+  });
+  if (exact) {
+    issuance = { id: exact.id, serialNumber: exact.serialNumber, status: exact.status, unit: exact.serialSequenceStart !== null ? 1 : null };
+  } else if (decoded && decoded.checkCharacterValid !== false) {
+    const holder = await client.cORCIssuance.findFirst({
+      where: {
+        serialFacilityCode: decoded.facilityCode,
+        serialYear: decoded.year,
+        serialSequenceStart: { lte: decoded.sequence },
+        serialSequenceEnd: { gte: decoded.sequence },
+      },
+      select: { id: true, serialNumber: true, status: true, serialSequenceStart: true },
+    });
+    if (holder && holder.serialSequenceStart !== null) {
+      issuance = {
+        id: holder.id,
+        serialNumber: holder.serialNumber,
+        status: holder.status,
+        unit: decoded.sequence - holder.serialSequenceStart + 1,
+      };
+    }
+  }
+
+  return {
+    serial: normalized,
+    valid: decoded !== null && problems.length === 0,
+    problems,
+    decoded,
+    facility: facility && { id: facility.id, name: facility.name, registrationNumber: facility.registrationNumber },
+    vintage: decoded?.year ?? null,
+    sequence: decoded?.sequence ?? null,
+    issuance,
+  };
+}
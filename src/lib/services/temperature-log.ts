@@ -0,0 +1,285 @@
+import type { Prisma } from '@prisma/client';
+import db from '@/lib/db';
+import {
+  analyzeTemperatureLog,
+  PYROLYSIS_MIN_TEMPERATURE_C,
+  TEMPERATURE_MAX_GAP_SECONDS,
+} from '@/lib/corc';
+import type { TemperatureMonitoringRules, TemperatureProfile } from '@/lib/corc';
+import { findRecordPeriodLock } from '@/lib/services/period-lock';
+import type { TemperatureReadingInput, TemperatureSource } from '@/lib/validations/temperature-reading';
+
+/**
+ * Pyrolysis temperature log
+ *
+ * Readings are stored per reactor and attached to the batch of that
+ * reactor whose pyrolysis window contains them. A batch with readings
+ * takes its min/max/avg from the log rather than the values entered, and
+ * is flagged when the log has gaps or excursions below the facility's
+ * threshold. Batches in a locked monitoring period are left as they are.
+ */
+
+type DbClient = Prisma.TransactionClient | typeof db;
+
+export const TEMPERATURE_READING_SELECT = {
+  recordedAt: true,
+  temperatureC: true,
+} satisfies Prisma.TemperatureReadingSelect;
+
+export interface BatchTemperatureLog {
+  rules: TemperatureMonitoringRules;
+  window: { start: Date; end: Date } | null;
+  readings: Array<{ recordedAt: Date; temperatureC: number }>;
+  profile: TemperatureProfile;
+}
+
+export interface TemperatureIngestResult {
+  received: number;
+  stored: number;
+  duplicates: number;
+  /** Batches whose log changed, with the outcome of the check */
+  batches: Array<{
+    productionBatchId: string;
+    batchSerialNumber: number;
+    status: TemperatureProfile['status'];
+  }>;
+  /** Batches with readings in their window that a period lock kept unattached */
+  lockedBatches: Array<{ productionBatchId: string; batchSerialNumber: number }>;
+}
+
+const BATCH_LOG_SELECT = {
+  id: true,
+  reactorId: true,
+  pyrolysisStartAt: true,
+  pyrolysisEndAt: true,
+  facility: { select: { pyrolysisMinTemperatureC: true, temperatureMaxGapSeconds: true } },
+} satisfies Prisma.ProductionBatchSelect;
+
+type LogBatch = Prisma.ProductionBatchGetPayload<{ select: typeof BATCH_LOG_SELECT }>;
+
+function monitoringRules(batch: LogBatch): TemperatureMonitoringRules {
+  return {
+    minTemperatureC: batch.facility?.pyrolysisMinTemperatureC ?? PYROLYSIS_MIN_TEMPERATURE_C,
+    maxGapSeconds: batch.facility?.temperatureMaxGapSeconds ?? TEMPERATURE_MAX_GAP_SECONDS,
+  };
+}
+
+function pyrolysisWindow(batch: LogBatch) {
+  return batch.pyrolysisStartAt && batch.pyrolysisEndAt
+    ? { start: batch.pyrolysisStartAt, end: batch.pyrolysisEndAt }
+    : null;
+}
+
+/**
+ * The batch's temperature log checked against its facility's rules
+ *
+ * @returns null when the batch has neither a pyrolysis window nor readings
+ */
+export async function getBatchTemperatureLog(
+  productionBatchId: string,
+  client: DbClient = db
+): Promise<BatchTemperatureLog | null> {
+  const batch = await client.productionBatch.findUnique({
+    where: { id: productionBatchId },
+    select: BATCH_LOG_SELECT,
+  });
+  if (!batch) return null;
+
+  const readings = await client.temperatureReading.findMany({
+    where: { productionBatchId },
+    select: TEMPERATURE_READING_SELECT,
+    orderBy: { recordedAt: 'asc' },
+  });
+  const window = pyrolysisWindow(batch);
+  if (!window && readings.length === 0) return null;
+
+  const rules = monitoringRules(batch);
+  return { rules, window, readings, profile: analyzeTemperatureLog(readings, rules, window) };
+}
+
+/**
+ * Thin a log for charting, keeping the lowest and highest reading of each
+ * bucket so dips and peaks survive
+ *
+ * @param maxPoints - Upper bound on the readings returned
+ */
+export function downsampleTemperatureReadings<T extends { recordedAt: Date; temperatureC: number }>(
+  readings: T[],
+  maxPoints = 1000
+): T[] {
+  if (readings.length <= maxPoints) return readings;
+
+  const bucketSize = Math.ceil(readings.length / Math.floor(maxPoints / 2));
+  const thinned: T[] = [];
+  for (let i = 0; i < readings.length; i += bucketSize) {
+    const bucket = readings.slice(i, i + bucketSize);
+    let low = bucket[0];
+    let high = bucket[0];
+    for (const reading of bucket) {
+      if (reading.temperatureC < low.temperatureC) low = reading;
+      if (reading.temperatureC > high.temperatureC) high = reading;
+    }
+    thinned.push(...(low === high ? [low] : low.recordedAt < high.recordedAt ? [low, high] : [high, low]));
+  }
+  return thinned;
+}
+
+/**
+ * Recompute the batch's temperature summary and compliance from its log
+ *
+ * Without readings the entered min/max/avg are kept; the batch is pending
+ * until it has a window, and flagged if the window has no readings.
+ */
+export async function refreshBatchTemperatureProfile(
+  productionBatchId: string,
+  client: DbClient = db
+): Promise<TemperatureProfile | null> {
+  const log = await getBatchTemperatureLog(productionBatchId, client);
+
+  await client.productionBatch.update({
+    where: { id: productionBatchId },
+    data: log
+      ? {
+          ...(log.profile.readingCount > 0 && {
+            temperatureMin: log.profile.minC,
+            temperatureMax: log.profile.maxC,
+            temperatureAvg: log.profile.avgC,
+          }),
+          temperatureResidenceMinutes: log.profile.residenceMinutes,
+          temperatureComplianceStatus: log.profile.status,
+        }
+      : {
+          temperatureResidenceMinutes: null,
+          temperatureComplianceStatus: 'pending',
+        },
+  });
+
+  return log?.profile ?? null;
+}
+
+/**
+ * Attach the readings of the batch's reactor and window, releasing any
+ * that no longer fall inside it, then recompute the summary
+ *
+ * Readings already attached to another batch (overlapping windows) stay
+ * where they are.
+ */
+export async function attachBatchTemperatureReadings(
+  productionBatchId: string,
+  client: DbClient = db
+): Promise<TemperatureProfile | null> {
+  const batch = await client.productionBatch.findUnique({
+    where: { id: productionBatchId },
+    select: BATCH_LOG_SELECT,
+  });
+  if (!batch) return null;
+
+  const window = pyrolysisWindow(batch);
+  const inWindow: Prisma.TemperatureReadingWhereInput | null = batch.reactorId && window
+    ? { reactorId: batch.reactorId, recordedAt: { gte: window.start, lte: window.end } }
+    : null;
+
+  await client.temperatureReading.updateMany({
+    where: { productionBatchId, ...(inWindow && { NOT: inWindow }) },
+    data: { productionBatchId: null },
+  });
+  if (inWindow) {
+    await client.temperatureReading.updateMany({
+      where: { ...inWindow, productionBatchId: null },
+      data: { productionBatchId },
+    });
+  }
+
+  return refreshBatchTemperatureProfile(productionBatchId, client);
+}
+
+/**
+ * Store readings, skipping any already logged for the reactor at that
+ * time, and attach them to the batches whose windows contain them
+ */
+export async function ingestTemperatureReadings(
+  readings: TemperatureReadingInput[],
+  source: TemperatureSource,
+  client: DbClient = db
+): Promise<TemperatureIngestResult> {
+  const { count: stored } = await client.temperatureReading.createMany({
+    data: readings.map((r) => ({ ...r, source })),
+    skipDuplicates: true,
+  });
+
+  // Time span of the upload per reactor
+  const spans = new Map<string, { from: Date; to: Date }>();
+  for (const { reactorId, recordedAt } of readings) {
+    const span = spans.get(reactorId);
+    if (!span) {
+      spans.set(reactorId, { from: recordedAt, to: recordedAt });
+    } else {
+      if (recordedAt < span.from) span.from = recordedAt;
+      if (recordedAt > span.to) span.to = recordedAt;
+    }
+  }
+
+  const batches = await client.productionBatch.findMany({
+    where: {
+      OR: [...spans].map(([reactorId, span]) => ({
+        reactorId,
+        pyrolysisStartAt: { lte: span.to },
+        pyrolysisEndAt: { gte: span.from },
+      })),
+    },
+    select: { id: true, serialNumber: true },
+    orderBy: { serialNumber: 'asc' },
+  });
+
+  const result: TemperatureIngestResult = {
+    received: readings.length,
+    stored,
+    duplicates: readings.length - stored,
+    batches: [],
+    lockedBatches: [],
+  };
+
+  for (const batch of batches) {
+    if (await findRecordPeriodLock('production_batch', batch.id, client)) {
+      result.lockedBatches.push({ productionBatchId: batch.id, batchSerialNumber: batch.serialNumber });
+      continue;
+    }
+    const profile = await attachBatchTemperatureReadings(batch.id, client);
+    if (profile) {
+      result.batches.push({
+        productionBatchId: batch.id,
+        batchSerialNumber: batch.serialNumber,
+        status: profile.status,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Recheck the logs of a facility's batches after its monitoring rules
+ * change; batches in a locked period keep their result
+ *
+ * @returns Number of batches rechecked
+ */
+export async function refreshFacilityTemperatureProfiles(
+  facilityId: string,
+  client: DbClient = db
+): Promise<number> {
+  const batches = await client.productionBatch.findMany({
+    where: {
+      facilityId,
+      OR: [{ pyrolysisStartAt: { not: null } }, { temperatureReadings: { some: {} } }],
+    },
+    select: { id: true },
+  });
+
+  let refreshed = 0;
+  for (const batch of batches) {
+    if (await findRecordPeriodLock('production_batch', batch.id, client)) continue;
+    await refreshBatchTemperatureProfile(batch.id, client);
+    refreshed++;
+  }
+  return refreshed;
+}
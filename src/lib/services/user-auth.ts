@@ -0,0 +1,195 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { ApiToken, User } from '@prisma/client';
+import db from '@/lib/db';
+
+/**
+ * User authentication: passwords, browser sessions and API tokens
+ *
+ * Passwords are hashed with scrypt. Session cookies and API tokens are
+ * random secrets shown to the client once; only their SHA-256 is stored,
+ * so a database leak does not expose usable credentials.
+ */
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+export const SESSION_TTL_HOURS = 12;
+
+// lastUsedAt is refreshed at most this often, to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export const SESSION_TOKEN_PREFIX = 'ecms_';
+export const API_TOKEN_PREFIX = 'ecmt_';
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+}
+
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+export type PublicApiToken = Omit<ApiToken, 'tokenHash'>;
+
+export function toPublicUser(user: User): PublicUser {
+  const publicUser: Partial<User> = { ...user };
+  delete publicUser.passwordHash;
+  return publicUser as PublicUser;
+}
+
+export function toPublicApiToken(token: ApiToken): PublicApiToken {
+  const publicToken: Partial<ApiToken> = { ...token };
+  delete publicToken.tokenHash;
+  return publicToken as PublicApiToken;
+}
+
+function toAuthenticatedUser(user: Pick<User, 'id' | 'email' | 'name' | 'role'>): AuthenticatedUser {
+  return { id: user.id, email: user.email, name: user.name, role: user.role };
+}
+
+/**
+ * Hash a password as "scrypt:<salt>:<key>" (hex)
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = stored.split(':');
+  if (scheme !== 'scrypt' || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, 'hex');
+  const key = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return timingSafeEqual(key, expected);
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function generateToken(prefix: string): string {
+  return `${prefix}${randomBytes(32).toString('base64url')}`;
+}
+
+function isStale(lastUsedAt: Date | null, now: Date): boolean {
+  return !lastUsedAt || now.getTime() - lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS;
+}
+
+/**
+ * Check an email and password
+ *
+ * @returns The user, or null for unknown, inactive or wrong credentials
+ */
+export async function verifyLogin(email: string, password: string): Promise<User | null> {
+  const user = await db.user.findUnique({ where: { email } });
+  if (!user || !user.isActive) return null;
+  if (!(await verifyPassword(password, user.passwordHash))) return null;
+
+  return db.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  });
+}
+
+/**
+ * Start a browser session
+ *
+ * @returns The cookie value (not stored) and its expiry
+ */
+export async function createSession(
+  userId: string,
+  userAgent: string | null = null
+): Promise<{ token: string; expiresAt: Date }> {
+  const token = generateToken(SESSION_TOKEN_PREFIX);
+  const expiresAt = new Date(Date.now() + SESSION_TTL_HOURS * 60 * 60 * 1000);
+
+  await db.session.create({
+    data: { userId, tokenHash: hashToken(token), expiresAt, userAgent },
+  });
+
+  return { token, expiresAt };
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  await db.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+}
+
+/**
+ * End every session of a user (e.g. after deactivation or a password change)
+ */
+export async function deleteUserSessions(userId: string): Promise<void> {
+  await db.session.deleteMany({ where: { userId } });
+}
+
+export async function authenticateSession(token: string): Promise<AuthenticatedUser | null> {
+  const session = await db.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  const now = new Date();
+  if (!session || session.expiresAt <= now || !session.user.isActive) {
+    return null;
+  }
+
+  if (isStale(session.lastUsedAt, now)) {
+    await db.session.update({ where: { id: session.id }, data: { lastUsedAt: now } });
+  }
+
+  return toAuthenticatedUser(session.user);
+}
+
+/**
+ * Create an API token for a user
+ *
+ * @returns The token value, which is only available now
+ */
+export async function createApiToken(
+  userId: string,
+  options: { name: string; expiresInDays?: number }
+): Promise<{ token: string; apiToken: PublicApiToken }> {
+  const token = generateToken(API_TOKEN_PREFIX);
+  const expiresAt = options.expiresInDays
+    ? new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const apiToken = await db.apiToken.create({
+    data: {
+      userId,
+      name: options.name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, API_TOKEN_PREFIX.length + 6),
+      expiresAt,
+    },
+  });
+
+  return { token, apiToken: toPublicApiToken(apiToken) };
+}
+
+export async function authenticateApiToken(token: string): Promise<AuthenticatedUser | null> {
+  const apiToken = await db.apiToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+
+  const now = new Date();
+  if (
+    !apiToken ||
+    apiToken.revokedAt ||
+    (apiToken.expiresAt && apiToken.expiresAt <= now) ||
+    !apiToken.user.isActive
+  ) {
+    return null;
+  }
+
+  if (isStale(apiToken.lastUsedAt, now)) {
+    await db.apiToken.update({ where: { id: apiToken.id }, data: { lastUsedAt: now } });
+  }
+
+  return toAuthenticatedUser(apiToken.user);
+}
@@ -0,0 +1,70 @@
+import path from 'path';
+import type { StorageAdapter } from './types';
+import { createLocalStorageAdapter } from './local';
+import { createS3StorageAdapter } from './s3';
+
+export type { StorageAdapter } from './types';
+export { createLocalStorageAdapter } from './local';
+export { createS3StorageAdapter, type S3StorageConfig } from './s3';
+
+/**
+ * Evidence storage configuration
+ *
+ * - EVIDENCE_STORAGE: local (default) or s3
+ * - EVIDENCE_STORAGE_DIR: root directory for the local backend
+ *   (default: ./storage/evidence, outside /public)
+ * - S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY,
+ *   S3_ENDPOINT, S3_FORCE_PATH_STYLE, S3_PREFIX: s3 backend
+ */
+let adapter: StorageAdapter | null = null;
+const adaptersByName = new Map<string, StorageAdapter>();
+
+function createConfiguredAdapter(name: string): StorageAdapter {
+  if (name === 's3') {
+    const { S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3 evidence storage requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+    return createS3StorageAdapter({
+      bucket: S3_BUCKET,
+      region: S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+        ? process.env.S3_FORCE_PATH_STYLE === 'true'
+        : undefined,
+      prefix: process.env.S3_PREFIX || undefined,
+    });
+  }
+
+  if (name === 'local') {
+    return createLocalStorageAdapter(
+      process.env.EVIDENCE_STORAGE_DIR || path.join(process.cwd(), 'storage', 'evidence')
+    );
+  }
+
+  throw new Error(`Unknown evidence storage backend: ${name}`);
+}
+
+/**
+ * Adapter used for new uploads
+ */
+export function getStorageAdapter(): StorageAdapter {
+  if (!adapter) {
+    adapter = getStorageAdapterByName(process.env.EVIDENCE_STORAGE || 'local');
+  }
+  return adapter;
+}
+
+/**
+ * Adapter a stored file was written with (the backend may have changed since)
+ */
+export function getStorageAdapterByName(name: string): StorageAdapter {
+  let named = adaptersByName.get(name);
+  if (!named) {
+    named = createConfiguredAdapter(name);
+    adaptersByName.set(name, named);
+  }
+  return named;
+}
@@ -0,0 +1,58 @@
+import { createReadStream } from 'fs';
+import { mkdir, writeFile, rename, stat, unlink } from 'fs/promises';
+import { Readable } from 'stream';
+import path from 'path';
+import type { StorageAdapter } from './types';
+
+/**
+ * Local filesystem backend
+ *
+ * Files live outside /public so they are only reachable through the
+ * authenticated download route.
+ */
+export function createLocalStorageAdapter(rootDir: string): StorageAdapter {
+  const root = path.resolve(rootDir);
+
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  const exists = async (key: string): Promise<boolean> => {
+    try {
+      return (await stat(resolveKey(key))).isFile();
+    } catch {
+      return false;
+    }
+  };
+
+  return {
+    name: 'local',
+    exists,
+
+    async put(key, body) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      // Write then rename so readers never see a partial file
+      const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(tmpPath, body);
+      await rename(tmpPath, filePath);
+    },
+
+    async get(key) {
+      if (!(await exists(key))) return null;
+      return Readable.toWeb(createReadStream(resolveKey(key))) as ReadableStream<Uint8Array>;
+    },
+
+    async delete(key) {
+      try {
+        await unlink(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    },
+  };
+}
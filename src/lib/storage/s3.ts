@@ -0,0 +1,146 @@
+import { createHash, createHmac } from 'crypto';
+import type { StorageAdapter } from './types';
+
+/**
+ * S3-compatible backend
+ *
+ * Talks to the S3 REST API directly with AWS Signature V4, so the same
+ * adapter works against AWS S3 and local stand-ins such as MinIO
+ * (set S3_ENDPOINT=http://localhost:9000 and S3_FORCE_PATH_STYLE=true).
+ */
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Custom endpoint, e.g. http://localhost:9000; defaults to AWS */
+  endpoint?: string;
+  /** Use https://endpoint/bucket/key instead of https://bucket.endpoint/key */
+  forcePathStyle?: boolean;
+  /** Optional key prefix inside the bucket */
+  prefix?: string;
+}
+
+const EMPTY_PAYLOAD_SHA256 = createHash('sha256').update('').digest('hex');
+
+function sha256Hex(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+  return createHmac('sha256', key).update(value).digest();
+}
+
+// RFC 3986 encoding as required by SigV4 (encodeURIComponent leaves !'()* alone)
+function encodeSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+export function createS3StorageAdapter(config: S3StorageConfig): StorageAdapter {
+  const baseUrl = config.endpoint
+    ? new URL(config.endpoint)
+    : new URL(`https://s3.${config.region}.amazonaws.com`);
+  const pathStyle = config.forcePathStyle ?? Boolean(config.endpoint);
+
+  const objectUrl = (key: string): URL => {
+    const fullKey = config.prefix ? `${config.prefix.replace(/\/+$/, '')}/${key}` : key;
+    const encodedKey = fullKey.split('/').map(encodeSegment).join('/');
+    const url = new URL(baseUrl.toString());
+    if (pathStyle) {
+      url.pathname = `${url.pathname.replace(/\/+$/, '')}/${encodeSegment(config.bucket)}/${encodedKey}`;
+    } else {
+      url.hostname = `${config.bucket}.${url.hostname}`;
+      url.pathname = `${url.pathname.replace(/\/+$/, '')}/${encodedKey}`;
+    }
+    return url;
+  };
+
+  const signedFetch = async (
+    method: 'GET' | 'PUT' | 'HEAD' | 'DELETE',
+    key: string,
+    options: { body?: Buffer; payloadSha256?: string; contentType?: string } = {}
+  ): Promise<Response> => {
+    const url = objectUrl(key);
+    const now = new Date();
+    const amzDate = now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = options.payloadSha256 ?? EMPTY_PAYLOAD_SHA256;
+
+    const requestHeaders: Record<string, string> = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    if (options.contentType) {
+      requestHeaders['content-type'] = options.contentType;
+    }
+    // fetch sets Host from the URL, but it must still be signed
+    const headers: Record<string, string> = { host: url.host, ...requestHeaders };
+
+    const signedHeaderNames = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      signedHeaderNames.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+      signedHeaderNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(
+      hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'),
+      'aws4_request'
+    );
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaderNames.join(';')}, Signature=${signature}`,
+      },
+      body: options.body ? new Uint8Array(options.body) : undefined,
+    });
+  };
+
+  const ensureOk = async (response: Response, action: string, key: string) => {
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`S3 ${action} failed for ${key}: ${response.status} ${detail.slice(0, 200)}`);
+    }
+  };
+
+  return {
+    name: 's3',
+
+    async put(key, body, { contentType, sha256 }) {
+      const response = await signedFetch('PUT', key, { body, payloadSha256: sha256, contentType });
+      await ensureOk(response, 'PUT', key);
+    },
+
+    async get(key) {
+      const response = await signedFetch('GET', key);
+      if (response.status === 404) return null;
+      await ensureOk(response, 'GET', key);
+      return response.body;
+    },
+
+    async exists(key) {
+      const response = await signedFetch('HEAD', key);
+      if (response.status === 404) return false;
+      await ensureOk(response, 'HEAD', key);
+      return true;
+    },
+
+    async delete(key) {
+      const response = await signedFetch('DELETE', key);
+      if (response.status === 404) return;
+      await ensureOk(response, 'DELETE', key);
+    },
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Evidence storage adapter
+ *
+ * Backends store opaque blobs under a key. Evidence keys are derived from
+ * the SHA-256 of the content, so identical files share one blob.
+ */
+export interface StorageAdapter {
+  /** Backend name recorded on EvidenceFile.storageBackend */
+  readonly name: string;
+  put(key: string, body: Buffer, options: { contentType: string; sha256: string }): Promise<void>;
+  /** Stream the blob, or null if it does not exist */
+  get(key: string): Promise<ReadableStream<Uint8Array> | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
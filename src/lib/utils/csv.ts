@@ -0,0 +1,91 @@
+// Server-compatible CSV serialisation and parsing (RFC 4180)
+
+// Spreadsheets run text cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object') return JSON.stringify(value);
+  // Only text is neutralised, so negative numbers stay numeric
+  if (typeof value === 'string' && FORMULA_PREFIX.test(value)) return `'${value}`;
+  return String(value);
+}
+
+function escapeCell(cell: string): string {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
+
+/**
+ * Serialise rows to CSV
+ *
+ * Text cells that a spreadsheet would evaluate as a formula are prefixed
+ * with an apostrophe.
+ *
+ * @param rows - Records to write, one per line
+ * @param columns - Column order; defaults to every key seen across the rows
+ */
+export function toCSV(rows: Record<string, unknown>[], columns?: string[]): string {
+  const header = columns ?? [...new Set(rows.flatMap((row) => Object.keys(row)))];
+
+  const lines = [
+    header.map(escapeCell).join(','),
+    ...rows.map((row) => header.map((key) => escapeCell(formatCell(row[key]))).join(',')),
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Parse CSV text into records keyed by header
+ *
+ * Headers are trimmed, lower-cased and have spaces replaced by
+ * underscores. Quoted cells may contain commas, line breaks and doubled
+ * quotes; blank lines are skipped.
+ */
+export function parseCSV(text: string): Record<string, string>[] {
+  const lines: string[][] = [];
+  let line: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      line.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line.push(cell);
+      lines.push(line);
+      line = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  line.push(cell);
+  lines.push(line);
+
+  const [header, ...rows] = lines.filter((l) => l.some((c) => c.trim() !== ''));
+  if (!header) return [];
+  const keys = header.map((h) => h.trim().toLowerCase().replace(/\s+/g, '_'));
+
+  return rows.map((row, index) => {
+    if (row.length !== keys.length) {
+      throw new Error(`Row ${index + 2} has ${row.length} columns, expected ${keys.length}`);
+    }
+    return Object.fromEntries(keys.map((key, i) => [key, row[i].trim()]));
+  });
+}
@@ -0,0 +1,228 @@
+// Minimal single-page PDF writer (standard Helvetica fonts, text and
+// rectangles) for server-generated documents such as certificates
+
+import { deflateSync } from 'zlib';
+
+export type PdfColor = [number, number, number];
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+}
+
+export interface PdfShapeOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+// A4 portrait in points
+export const PDF_A4 = { width: 595.28, height: 841.89 };
+
+const BLACK: PdfColor = [0, 0, 0];
+
+// Helvetica and Helvetica-Bold advance widths for characters 32-126, in
+// 1/1000 of the font size (from the standard AFM metrics)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+// Subscript digits (e.g. CO₂) have no glyph in the standard fonts
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+
+function toWinAnsi(char: string): number {
+  const subscript = SUBSCRIPTS.indexOf(char);
+  if (subscript >= 0) return 0x30 + subscript;
+  if (char in WIN_ANSI_EXTRAS) return WIN_ANSI_EXTRAS[char];
+  const code = char.codePointAt(0) ?? 0x3f;
+  return code <= 0xff && (code < 0x80 || code > 0x9f) ? code : 0x3f;
+}
+
+function pdfString(value: string): string {
+  let out = '(';
+  for (const char of value) {
+    const code = toWinAnsi(char);
+    if (code === 0x28 || code === 0x29 || code === 0x5c) {
+      out += `\\${String.fromCharCode(code)}`;
+    } else if (code < 0x20 || code > 0x7e) {
+      out += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      out += String.fromCharCode(code);
+    }
+  }
+  return `${out})`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function color(value: PdfColor): string {
+  return value.map(num).join(' ');
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Width of a line of text in points
+ */
+export function measureText(value: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of value) {
+    const code = toWinAnsi(char);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth, at spaces where possible
+ */
+export function wrapText(value: string, maxWidth: number, size: number, bold = false): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of value.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measureText(candidate, size, bold) <= maxWidth || !line) {
+      line = candidate;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+/**
+ * Build a one-page PDF. Coordinates are in points from the bottom-left
+ * corner; text is positioned by its baseline.
+ */
+export function createPdfPage(options: { width?: number; height?: number; title?: string; createdAt?: Date } = {}) {
+  const width = options.width ?? PDF_A4.width;
+  const height = options.height ?? PDF_A4.height;
+  const ops: string[] = [];
+
+  return {
+    width,
+    height,
+
+    text(x: number, y: number, value: string, textOptions: PdfTextOptions = {}) {
+      const size = textOptions.size ?? 11;
+      ops.push(
+        `BT /${textOptions.bold ? 'F2' : 'F1'} ${num(size)} Tf ${color(textOptions.color ?? BLACK)} rg ` +
+        `${num(x)} ${num(y)} Td ${pdfString(value)} Tj ET`
+      );
+    },
+
+    /** Text ending at x */
+    textRight(x: number, y: number, value: string, textOptions: PdfTextOptions = {}) {
+      this.text(x - measureText(value, textOptions.size ?? 11, textOptions.bold), y, value, textOptions);
+    },
+
+    /** Text centred on x */
+    textCentered(x: number, y: number, value: string, textOptions: PdfTextOptions = {}) {
+      this.text(x - measureText(value, textOptions.size ?? 11, textOptions.bold) / 2, y, value, textOptions);
+    },
+
+    rect(x: number, y: number, w: number, h: number, shape: PdfShapeOptions = {}) {
+      const paint = shape.fill && shape.stroke ? 'B' : shape.fill ? 'f' : 'S';
+      ops.push(
+        'q' +
+        (shape.fill ? ` ${color(shape.fill)} rg` : '') +
+        (shape.stroke || !shape.fill ? ` ${color(shape.stroke ?? BLACK)} RG ${num(shape.lineWidth ?? 1)} w` : '') +
+        ` ${num(x)} ${num(y)} ${num(w)} ${num(h)} re ${paint} Q`
+      );
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, shape: Omit<PdfShapeOptions, 'fill'> = {}) {
+      ops.push(
+        `q ${color(shape.stroke ?? BLACK)} RG ${num(shape.lineWidth ?? 1)} w ` +
+        `${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S Q`
+      );
+    },
+
+    toBuffer(): Buffer {
+      const content = deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+      const objects: Buffer[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(width)} ${num(height)}] ` +
+          '/Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>',
+        null,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+        `<< /Title ${pdfString(options.title ?? '')} /Producer (ECM MRV) ` +
+          `/CreationDate (${pdfDate(options.createdAt ?? new Date())}) >>`,
+      ].map((body) =>
+        body === null
+          ? Buffer.concat([
+              Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+              content,
+              Buffer.from('\nendstream', 'latin1'),
+            ])
+          : Buffer.from(body, 'latin1')
+      );
+
+      const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+      let offset = parts[0].length;
+      const offsets: number[] = [];
+
+      objects.forEach((body, i) => {
+        const part = Buffer.concat([
+          Buffer.from(`${i + 1} 0 obj\n`, 'latin1'),
+          body,
+          Buffer.from('\nendobj\n', 'latin1'),
+        ]);
+        offsets.push(offset);
+        parts.push(part);
+        offset += part.length;
+      });
+
+      const xref = [
+        'xref',
+        `0 ${objects.length + 1}`,
+        '0000000000 65535 f ',
+        ...offsets.map((o) => `${o.toString().padStart(10, '0')} 00000 n `),
+        'trailer',
+        `<< /Size ${objects.length + 1} /Root 1 0 R /Info 7 0 R >>`,
+        'startxref',
+        offset.toString(),
+        '%%EOF',
+        '',
+      ].join('\n');
+      parts.push(Buffer.from(xref, 'latin1'));
+
+      return Buffer.concat(parts);
+    },
+  };
+}
+
+export type PdfPage = ReturnType<typeof createPdfPage>;
@@ -0,0 +1,104 @@
+// Minimal ZIP archive writer (deflate, no ZIP64) for server-side exports
+
+import { crc32, deflateRawSync } from 'zlib';
+
+export interface ZipEntry {
+  /** Path inside the archive, using forward slashes */
+  name: string;
+  data: Buffer;
+  date?: Date;
+}
+
+// Archives above these limits need ZIP64, which this writer does not produce
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive in memory
+ *
+ * Entries are deflated unless that makes them larger (e.g. images, PDFs),
+ * in which case they are stored as-is.
+ */
+export function createZip(entries: ZipEntry[]): Buffer {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`ZIP archive cannot hold more than ${MAX_ENTRIES} entries`);
+  }
+
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const deflated = deflateRawSync(entry.data);
+    const useDeflate = deflated.length < entry.data.length;
+    const body = useDeflate ? deflated : entry.data;
+    const checksum = crc32(entry.data) >>> 0;
+    const { time, date } = toDosDateTime(entry.date ?? new Date());
+
+    if (entry.data.length > MAX_SIZE || offset > MAX_SIZE) {
+      throw new Error(`ZIP archive too large at ${entry.name}`);
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 file names
+    local.writeUInt16LE(useDeflate ? 8 : 0, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(checksum, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(useDeflate ? 8 : 0, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(checksum, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt16LE(0, 30); // extra length
+    central.writeUInt16LE(0, 32); // comment length
+    central.writeUInt16LE(0, 34); // disk number
+    central.writeUInt16LE(0, 36); // internal attributes
+    central.writeUInt32LE(0, 38); // external attributes
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  if (offset > MAX_SIZE) {
+    throw new Error('ZIP archive too large');
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(0, 4);
+  end.writeUInt16LE(0, 6);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  end.writeUInt16LE(0, 20);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+/**
+ * Audit log entity types and query schema
+ */
+
+export const AUDIT_ENTITY_TYPES = [
+  { value: 'feedstock_delivery', label: 'Feedstock Delivery' },
+  { value: 'production_batch', label: 'Production Batch' },
+  { value: 'lab_test', label: 'Lab Test' },
+  { value: 'sampling_campaign', label: 'Sampling Campaign' },
+  { value: 'energy_usage', label: 'Energy Usage' },
+  { value: 'transport_event', label: 'Transport Event' },
+  { value: 'sequestration_event', label: 'Sequestration Event' },
+  { value: 'corc_issuance', label: 'CORC Issuance' },
+  { value: 'bcu', label: 'BCU' },
+  { value: 'registry_account', label: 'Registry Account' },
+  { value: 'facility', label: 'Facility' },
+  { value: 'emission_factor', label: 'Emission Factor' },
+  { value: 'user', label: 'User' },
+] as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number]['value'];
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete'] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+const entityTypeValues = AUDIT_ENTITY_TYPES.map((t) => t.value) as [AuditEntityType, ...AuditEntityType[]];
+
+export const auditQuerySchema = z.object({
+  entityType: z.enum(entityTypeValues).optional(),
+  entityId: z.string().optional(),
+  actor: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { lotSelectionSchema } from './credit-lot';
 
 export const bcuSchema = z.object({
   id: z.string().uuid().optional(),
@@ -17,14 +18,18 @@ export const createBCUSchema = bcuSchema.omit({ id: true });
 
 export const updateBCUSchema = bcuSchema.partial().required({ id: true });
 
-export const transferBCUSchema = z.object({
+export const transferBCUSchema = lotSelectionSchema.extend({
   id: z.string().uuid(),
-  newOwnerName: z.string().min(1, 'New owner name is required'),
+  toAccountId: z.string().uuid().optional().nullable(),
+  newOwnerName: z.string().optional().nullable(),
   newAccountId: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
+}).refine((data) => data.toAccountId || data.newOwnerName?.trim(), {
+  message: 'Choose a registry account or enter the new owner name',
+  path: ['toAccountId'],
 });
 
-export const retireBCUSchema = z.object({
+export const retireBCUSchema = lotSelectionSchema.extend({
   id: z.string().uuid(),
   retirementBeneficiary: z.string().min(1, 'Beneficiary is required'),
   notes: z.string().optional().nullable(),
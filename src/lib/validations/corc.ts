@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { lotSelectionSchema } from './credit-lot';
 
 /**
  * CORC Issuance Validation Schema
@@ -16,6 +17,13 @@ export const PERMANENCE_TYPES = [
   { value: 'BC200+', label: 'BC+200', description: '200-year permanence claim (default)' },
 ] as const;
 
+export const CORC_ISSUANCE_TYPES = [
+  { value: 'puro', label: 'Puro', description: 'Calculated from a monitoring period' },
+  { value: 'legacy_bcu', label: 'Legacy BCU', description: 'Converted from the retired BCU registry' },
+] as const;
+
+export type CORCIssuanceType = typeof CORC_ISSUANCE_TYPES[number]['value'];
+
 export const corcIssuanceSchema = z.object({
   id: z.string().uuid().optional(),
   serialNumber: z.string().min(1, 'Serial number is required'),
@@ -45,6 +53,9 @@ export const corcIssuanceSchema = z.object({
   retirementDate: z.coerce.date().optional().nullable(),
   retirementBeneficiary: z.string().optional().nullable(),
 
+  // Calculation snapshot the issuance was created from
+  calculationRunId: z.string().uuid().optional().nullable(),
+
   notes: z.string().optional().nullable(),
 });
 
@@ -122,29 +133,33 @@ export const issueCORCSchema = z.object({
   issuanceDate: z.coerce.date().default(() => new Date()),
   ownerName: z.string().optional().nullable(),
   ownerAccountId: z.string().optional().nullable(),
+  // Registry account receiving the credits; defaults to the owner's or our own
+  registryAccountId: z.string().uuid().optional().nullable(),
 });
 
-// Schema for retiring a CORC
-export const retireCORCSchema = z.object({
+// Schema for retiring a CORC lot (all of it, or part of it)
+export const retireCORCSchema = lotSelectionSchema.extend({
   id: z.string().uuid(),
   retirementDate: z.coerce.date().default(() => new Date()),
   retirementBeneficiary: z.string().min(1, 'Beneficiary is required for retirement'),
+  retirementPurpose: z.string().optional().nullable(),
   notes: z.string().optional().nullable(),
 });
 
+// Schema for transferring a CORC lot (all of it, or part of it) to a new owner
+export const transferCORCSchema = lotSelectionSchema.extend({
+  id: z.string().uuid(),
+  toAccountId: z.string().uuid().optional().nullable(),
+  newOwnerName: z.string().optional().nullable(),
+  newAccountId: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+}).refine((data) => data.toAccountId || data.newOwnerName?.trim(), {
+  message: 'Choose a registry account or enter the new owner name',
+  path: ['toAccountId'],
+});
+
 export type CORCIssuanceInput = z.infer<typeof createCORCSchema>;
 export type CORCIssuanceUpdate = z.infer<typeof updateCORCSchema>;
 export type IssueCORCInput = z.infer<typeof issueCORCSchema>;
 export type RetireCORCInput = z.infer<typeof retireCORCSchema>;
-
-/**
- * Generate a CORC serial number
- */
-export function generateCORCSerialNumber(
-  facilityCode: string,
-  year: number,
-  sequence: number
-): string {
-  const paddedSequence = sequence.toString().padStart(6, '0');
-  return `CORC-${facilityCode}-${year}-${paddedSequence}`;
-}
+export type TransferCORCInput = z.infer<typeof transferCORCSchema>;
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+
+/**
+ * Credit lot validation schemas
+ *
+ * CORC issuances and BCUs are held as lots of whole tCO2e units with
+ * serial-number ranges. Transfers and retirements act on one lot, or on
+ * the holding's only active lot when no lot is given.
+ */
+
+export const CREDIT_LOT_STATUSES = [
+  { value: 'active', label: 'Active', description: 'Held by the owner and available to transfer or retire' },
+  { value: 'retired', label: 'Retired', description: 'Retired for an offset claim' },
+  { value: 'split', label: 'Split', description: 'Closed; its units moved to child lots' },
+] as const;
+
+export const CREDIT_LOT_OPERATIONS = [
+  { value: 'issuance', label: 'Issuance' },
+  { value: 'transfer', label: 'Transfer' },
+  { value: 'retirement', label: 'Retirement' },
+  { value: 'remainder', label: 'Remainder' },
+] as const;
+
+export type CreditLotStatus = typeof CREDIT_LOT_STATUSES[number]['value'];
+export type CreditLotOperation = typeof CREDIT_LOT_OPERATIONS[number]['value'];
+
+/**
+ * Lot selection shared by transfer and retirement requests.
+ * quantity is in whole tCO2e and defaults to the whole lot.
+ */
+export const lotSelectionSchema = z.object({
+  lotId: z.string().uuid().optional().nullable(),
+  quantity: z.coerce.number().int('Quantity must be a whole number of tCO2e').positive('Quantity must be positive').optional().nullable(),
+});
+
+export type LotSelection = z.infer<typeof lotSelectionSchema>;
+
+/**
+ * Serial range of a lot within its holding, e.g. CORC-SBF-2025-000001/1-400
+ */
+export function formatLotSerialRange(
+  baseSerial: string,
+  lot: { serialStart: number; serialEnd: number }
+): string {
+  return lot.serialStart === lot.serialEnd
+    ? `${baseSerial}/${lot.serialStart}`
+    : `${baseSerial}/${lot.serialStart}-${lot.serialEnd}`;
+}
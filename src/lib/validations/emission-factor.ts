@@ -1,20 +1,28 @@
 import { z } from 'zod';
 
+// Blank number inputs arrive as '' (or NaN); store them as null so an
+// empty breakdown is not read as a zero factor
+const optionalNumber = z.preprocess(
+  (value) => (value === '' || value === undefined || (typeof value === 'number' && Number.isNaN(value)) ? null : value),
+  z.coerce.number().nullable()
+);
+
 export const emissionFactorSchema = z.object({
   name: z.string().min(1, 'Name is required'),
   category: z.enum(['electricity', 'fuel', 'transport', 'feedstock', 'other']),
   categoryOther: z.string().optional(),
+  activityType: z.string().optional().nullable(),
   unit: z.string().min(1, 'Unit is required'),
   year: z.coerce.number().int().min(1990).max(2100),
   source: z.enum(['IPCC', 'DEFRA', 'EPA', 'BEIS', 'GHG_Protocol', 'Custom']),
   sourceOther: z.string().optional(),
   region: z.string().optional(),
-  co2Factor: z.coerce.number().optional(),
-  ch4Factor: z.coerce.number().optional(),
-  n2oFactor: z.coerce.number().optional(),
+  co2Factor: optionalNumber,
+  ch4Factor: optionalNumber,
+  n2oFactor: optionalNumber,
   totalCo2e: z.coerce.number().positive('Total CO2e must be positive'),
-  gwpCh4: z.coerce.number().optional(),
-  gwpN2o: z.coerce.number().optional(),
+  gwpCh4: optionalNumber,
+  gwpN2o: optionalNumber,
   notes: z.string().optional(),
   isActive: z.boolean().default(true),
 });
@@ -29,6 +37,17 @@ export const CATEGORIES = [
   { value: 'other', label: 'Other' },
 ] as const;
 
+// Activities the CORC calculation resolves factors for
+export const ACTIVITY_TYPES = [
+  { value: 'electricity', label: 'Electricity', category: 'electricity' },
+  { value: 'diesel', label: 'Diesel', category: 'fuel' },
+  { value: 'petrol', label: 'Petrol', category: 'fuel' },
+  { value: 'gas', label: 'Natural Gas', category: 'fuel' },
+  { value: 'propane', label: 'Propane', category: 'fuel' },
+  { value: 'biomass', label: 'Biomass', category: 'fuel' },
+  { value: 'road_freight', label: 'Road Freight (per tonne-km)', category: 'transport' },
+] as const;
+
 export const SOURCES = [
   { value: 'IPCC', label: 'IPCC' },
   { value: 'DEFRA', label: 'DEFRA (UK)' },
@@ -16,12 +16,47 @@ export const evidenceFileSchema = z.object({
   transportEventId: z.string().uuid().optional().nullable(),
   sequestrationEventId: z.string().uuid().optional().nullable(),
   bcuId: z.string().uuid().optional().nullable(),
+  corcId: z.string().uuid().optional().nullable(),
+  // Set by the storage subsystem, never by clients
+  storageBackend: z.string().optional().nullable(),
+  sha256: z.string().regex(/^[a-f0-9]{64}$/).optional().nullable(),
 });
 
 export const createEvidenceFileSchema = evidenceFileSchema.omit({ id: true });
 
 export type EvidenceFileInput = z.infer<typeof createEvidenceFileSchema>;
 
+// Records an evidence file can be attached to
+export const EVIDENCE_LINK_FIELDS = [
+  'feedstockDeliveryId',
+  'productionBatchId',
+  'energyUsageId',
+  'transportEventId',
+  'sequestrationEventId',
+  'bcuId',
+  'corcId',
+] as const;
+
+export type EvidenceLinkField = typeof EVIDENCE_LINK_FIELDS[number];
+export type EvidenceLinks = Partial<Record<EvidenceLinkField, string>>;
+
+// Multipart form fields sent alongside the uploaded file(s)
+export const evidenceUploadSchema = z
+  .object({
+    category: z.string().min(1).default('general'),
+    description: z.string().optional().nullable(),
+    feedstockDeliveryId: z.string().uuid().optional(),
+    productionBatchId: z.string().uuid().optional(),
+    energyUsageId: z.string().uuid().optional(),
+    transportEventId: z.string().uuid().optional(),
+    sequestrationEventId: z.string().uuid().optional(),
+    bcuId: z.string().uuid().optional(),
+    corcId: z.string().uuid().optional(),
+  })
+  .refine((data) => EVIDENCE_LINK_FIELDS.some((field) => data[field]), {
+    message: 'Evidence must be linked to at least one record',
+  });
+
 export const EVIDENCE_CATEGORIES = [
   { value: 'sustainability', label: 'Sustainability Certificate' },
   { value: 'transport_license', label: 'Transport License' },
@@ -45,4 +80,13 @@ export const ALLOWED_FILE_TYPES = [
   { value: 'excel', label: 'Excel', mimeTypes: ['application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'] },
 ] as const;
 
+export const ACCEPTED_EVIDENCE_MIME_TYPES: readonly string[] = ALLOWED_FILE_TYPES.flatMap((t) => t.mimeTypes);
+
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+
+/**
+ * Stored file type (pdf, image, csv, excel, other) for a MIME type
+ */
+export function getEvidenceFileType(mimeType: string): string {
+  return ALLOWED_FILE_TYPES.find((t) => (t.mimeTypes as readonly string[]).includes(mimeType))?.value ?? 'other';
+}
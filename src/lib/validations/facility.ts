@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { serialPatternSchema } from './serial-number';
 
 /**
  * Facility Validation Schema
@@ -11,6 +12,12 @@ export const BASELINE_TYPES = [
   { value: 'CHARCOAL_REPURPOSE', label: 'Charcoal Repurpose', description: 'Existing charcoal diverted from combustion to long-term storage' },
 ] as const;
 
+export const GWP_SET_OPTIONS = [
+  { value: 'AR4', label: 'IPCC AR4', description: 'CH4 25, N2O 298' },
+  { value: 'AR5', label: 'IPCC AR5', description: 'CH4 28, N2O 265 (methodology default)' },
+  { value: 'AR6', label: 'IPCC AR6', description: 'CH4 29.8 fossil / 27.0 non-fossil, N2O 273' },
+] as const;
+
 export const facilitySchema = z.object({
   id: z.string().uuid().optional(),
   name: z.string().min(1, 'Facility name is required'),
@@ -27,9 +34,21 @@ export const facilitySchema = z.object({
   creditingPeriodStart: z.coerce.date(),
   creditingPeriodEnd: z.coerce.date(),
 
+  // CORC serial numbers (see serial-number.ts); defaults apply when unset
+  serialCode: z.string().regex(/^[A-Za-z0-9]{1,6}$/, 'Serial code must be 1-6 letters or digits').optional().nullable(),
+  serialPattern: serialPatternSchema.optional().nullable(),
+
   // Infrastructure for embodied emissions calculation
   infrastructureLifetimeYears: z.coerce.number().int().min(1).max(50).default(10),
   totalInfrastructureEmissionsTCO2e: z.coerce.number().nonnegative().default(0),
+
+  // Pyrolysis temperature monitoring: residence threshold and longest
+  // allowed silence in a batch's temperature log
+  pyrolysisMinTemperatureC: z.coerce.number().min(0).max(1500).default(350),
+  temperatureMaxGapSeconds: z.coerce.number().int().min(1).max(86400).default(300),
+
+  // GWP basis for CO2e conversions; unset follows the methodology default
+  gwpSet: z.enum(['AR4', 'AR5', 'AR6']).optional().nullable(),
 });
 
 // Validation to ensure crediting period end is after start
@@ -4,12 +4,19 @@ export * from './energy';
 export * from './transport';
 export * from './sequestration';
 export * from './bcu';
+export * from './credit-lot';
+export * from './serial-number';
+export * from './registry-account';
 export * from './evidence';
+export * from './audit';
+export * from './user';
 
 // Puro.earth Biochar Methodology validations
 export * from './facility';
 export * from './monitoring-period';
 export * from './lab-test';
+export * from './temperature-reading';
+export * from './stack-emission';
 export * from './corc';
 export * from './leakage-assessment';
 export * from './puro-categories';
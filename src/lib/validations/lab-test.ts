@@ -13,9 +13,17 @@ export const CARBON_ANALYSIS_METHODS = [
   { value: 'OTHER', label: 'Other (specify in notes)' },
 ] as const;
 
+export const SAMPLE_TYPES = [
+  { value: 'replicate', label: 'Replicate samples', description: 'Separate samples of the batch, each analysed' },
+  { value: 'composite', label: 'Composite sample', description: 'One composite sample analysed in replicate' },
+] as const;
+
 // H/C_org threshold from Puro methodology (Section 3.5)
 const H_C_ORG_THRESHOLD = 0.7;
 
+const panelValue = (label: string) =>
+  z.coerce.number().min(0, `${label} cannot be negative`).optional().nullable();
+
 export const biocharLabTestSchema = z.object({
   id: z.string().uuid().optional(),
   productionBatchId: z.string().uuid(),
@@ -47,8 +55,32 @@ export const biocharLabTestSchema = z.object({
     .optional()
     .nullable(),
 
+  // WBC/EBC contaminant panel (mg/kg dry matter unless noted)
+  pah16MgKg: panelValue('PAH16'),
+  pah8MgKg: panelValue('PAH8'),
+  leadMgKg: panelValue('Lead'),
+  cadmiumMgKg: panelValue('Cadmium'),
+  copperMgKg: panelValue('Copper'),
+  nickelMgKg: panelValue('Nickel'),
+  mercuryMgKg: panelValue('Mercury'),
+  zincMgKg: panelValue('Zinc'),
+  chromiumMgKg: panelValue('Chromium'),
+  arsenicMgKg: panelValue('Arsenic'),
+  pcbMgKg: panelValue('PCB'),
+  pcddfNgTeqKg: panelValue('PCDD/F'),
+  ashPercent: z.coerce.number().min(0, 'Ash cannot be negative').max(100, 'Ash cannot exceed 100%').optional().nullable(),
+  ph: z.coerce.number().min(0, 'pH must be 0-14').max(14, 'pH must be 0-14').optional().nullable(),
+  specificSurfaceAreaM2G: panelValue('Specific surface area'),
+
   // Evidence file reference
   reportFileId: z.string().uuid().optional().nullable(),
+
+  // Sampling campaign the test is a replicate of
+  campaignId: z.string().uuid().optional().nullable(),
+
+  // Set on review to leave a confirmed outlier out of the statistics
+  excludedFromStatistics: z.boolean().optional(),
+  exclusionReason: z.string().optional().nullable(),
 });
 
 // Calculate organic carbon and H/C_org ratio with validation
@@ -83,11 +115,42 @@ const labTestRefinement = (data: z.infer<typeof biocharLabTestSchema>, ctx: z.Re
   }
 };
 
+// A test left out of the statistics needs a recorded reason
+const exclusionRefinement = (
+  data: { excludedFromStatistics?: boolean; exclusionReason?: string | null },
+  ctx: z.RefinementCtx
+) => {
+  if (data.excludedFromStatistics && !data.exclusionReason?.trim()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'A reason is required to exclude a test from the statistics',
+      path: ['exclusionReason'],
+    });
+  }
+};
+
 export const biocharLabTestWithRefinementSchema = biocharLabTestSchema.superRefine(labTestRefinement);
 
-export const createLabTestSchema = biocharLabTestSchema.omit({ id: true }).superRefine(labTestRefinement);
+export const createLabTestSchema = biocharLabTestSchema
+  .omit({ id: true })
+  .superRefine(labTestRefinement)
+  .superRefine(exclusionRefinement);
+
+export const updateLabTestSchema = biocharLabTestSchema
+  .partial()
+  .required({ id: true })
+  .superRefine(exclusionRefinement);
+
+export const samplingCampaignSchema = z.object({
+  name: z.string().trim().min(1, 'Campaign name is required'),
+  samplingDate: z.coerce.date(),
+  sampleType: z.enum(['replicate', 'composite']).default('replicate'),
+  notes: z.string().optional().nullable(),
+});
+
+export const updateSamplingCampaignSchema = samplingCampaignSchema.partial();
 
-export const updateLabTestSchema = biocharLabTestSchema.partial().required({ id: true });
+export type SamplingCampaignInput = z.infer<typeof samplingCampaignSchema>;
 
 export type LabTestInput = z.infer<typeof createLabTestSchema>;
 export type LabTestUpdate = z.infer<typeof updateLabTestSchema>;
@@ -11,6 +11,25 @@ export const MONITORING_PERIOD_STATUS = [
   { value: 'verified', label: 'Verified', description: 'Verified by third party, CORCs issued' },
 ] as const;
 
+export type MonitoringPeriodStatus = typeof MONITORING_PERIOD_STATUS[number]['value'];
+
+/**
+ * Allowed lifecycle transitions. A closed period can be reopened for
+ * corrections; a verified period is final.
+ */
+export const MONITORING_PERIOD_TRANSITIONS: Record<MonitoringPeriodStatus, readonly MonitoringPeriodStatus[]> = {
+  active: ['closed'],
+  closed: ['active', 'verified'],
+  verified: [],
+};
+
+// Records dated inside periods in these statuses are read-only
+export const LOCKED_MONITORING_PERIOD_STATUSES = ['closed', 'verified'] as const;
+
+export function isMonitoringPeriodLocked(status: string): boolean {
+  return (LOCKED_MONITORING_PERIOD_STATUSES as readonly string[]).includes(status);
+}
+
 export const monitoringPeriodSchema = z.object({
   id: z.string().uuid().optional(),
   facilityId: z.string().uuid(),
@@ -18,6 +37,11 @@ export const monitoringPeriodSchema = z.object({
   periodEnd: z.coerce.date(),
   status: z.enum(['active', 'closed', 'verified']).default('active'),
 
+  // Registered methodology version; new periods default to the current one
+  methodologyVersion: z.string().trim().min(1).optional(),
+  // Versions calculated alongside it, e.g. under another standard
+  additionalMethodologyVersions: z.array(z.string().trim().min(1)).max(5).optional(),
+
   // CORC calculation results (cached after calculation)
   cStoredTCO2e: z.coerce.number().nonnegative().optional().nullable(),
   cBaselineTCO2e: z.coerce.number().nonnegative().optional().nullable(),
@@ -66,7 +90,16 @@ export const monitoringPeriodWithRefinementSchema = monitoringPeriodSchema.super
 
 export const createMonitoringPeriodSchema = monitoringPeriodSchema.omit({ id: true }).superRefine(monitoringPeriodRefinement);
 
-export const updateMonitoringPeriodSchema = monitoringPeriodSchema.partial().required({ id: true });
+export const updateMonitoringPeriodSchema = monitoringPeriodSchema.partial().required({ id: true }).extend({
+  // Recorded with a status change; required to reopen a closed period
+  reason: z.string().trim().max(1000).optional(),
+});
+
+// Temporary exception to the write-lock of a closed or verified period
+export const monitoringPeriodUnlockSchema = z.object({
+  reason: z.string().trim().min(10, 'Give a reason of at least 10 characters').max(1000),
+  durationHours: z.coerce.number().int().min(1).max(168).default(24),
+});
 
 // Schema for running CORC calculation on a monitoring period
 export const calculateCORCSchema = z.object({
@@ -74,11 +107,14 @@ export const calculateCORCSchema = z.object({
   // Optional overrides for calculation inputs
   meanSoilTempCOverride: z.coerce.number().min(7).max(40).optional(),
   coProductAllocationFactorOverride: z.coerce.number().min(0).max(1).optional(),
+  // Per batch × sequestration event persistence instead of period averages
+  calculationMode: z.enum(['aggregated', 'disaggregated']).default('aggregated'),
 });
 
 export type MonitoringPeriodInput = z.infer<typeof createMonitoringPeriodSchema>;
 export type MonitoringPeriodUpdate = z.infer<typeof updateMonitoringPeriodSchema>;
 export type CalculateCORCInput = z.infer<typeof calculateCORCSchema>;
+export type MonitoringPeriodUnlockInput = z.infer<typeof monitoringPeriodUnlockSchema>;
 
 /**
  * Check if a date falls within a monitoring period
@@ -26,6 +26,12 @@ export const productionBatchSchema = z.object({
   temperatureMin: z.coerce.number().min(0).optional().nullable(),
   temperatureMax: z.coerce.number().min(0).optional().nullable(),
   temperatureAvg: z.coerce.number().min(0).optional().nullable(),
+
+  // Pyrolysis temperature log: readings the reactor logs inside the window
+  // are attached to the batch
+  reactorId: z.string().trim().min(1).max(100).optional().nullable(),
+  pyrolysisStartAt: z.coerce.date().optional().nullable(),
+  pyrolysisEndAt: z.coerce.date().optional().nullable(),
   status: z.enum(['draft', 'complete']).default('draft'),
   wizardStep: z.number().int().min(1).max(5).default(1),
   notes: z.string().optional().nullable(),
@@ -61,6 +67,16 @@ export const createProductionBatchSchema = productionBatchSchema.omit({ id: true
 
 export const updateProductionBatchSchema = productionBatchSchema.partial().required({ id: true });
 
+/**
+ * A pyrolysis window must end after it starts
+ */
+export function pyrolysisWindowError(
+  start: Date | null | undefined,
+  end: Date | null | undefined
+): string | null {
+  return start && end && end <= start ? 'Pyrolysis end must be after start' : null;
+}
+
 // Wizard step validation schemas
 export const productionStep1Schema = z.object({
   productionDate: z.coerce.date({ required_error: 'Production date is required' }),
@@ -80,7 +96,13 @@ export const productionStep4Schema = z.object({
   temperatureMin: z.coerce.number().min(0, 'Temperature must be at least 0').optional().nullable(),
   temperatureMax: z.coerce.number().min(0, 'Temperature must be at least 0').optional().nullable(),
   temperatureAvg: z.coerce.number().min(0, 'Temperature must be at least 0').optional().nullable(),
-});
+  reactorId: z.string().max(100).optional().nullable(),
+  pyrolysisStartAt: z.string().optional().nullable(),
+  pyrolysisEndAt: z.string().optional().nullable(),
+}).refine(
+  (data) => !data.pyrolysisStartAt || !data.pyrolysisEndAt || data.pyrolysisEndAt > data.pyrolysisStartAt,
+  { message: 'Pyrolysis end must be after start', path: ['pyrolysisEndAt'] }
+);
 
 export const productionStep5Schema = z.object({
   notes: z.string().optional().nullable(),
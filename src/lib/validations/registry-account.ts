@@ -0,0 +1,77 @@
+import { z } from 'zod';
+
+/**
+ * Registry account and ledger validation schemas
+ *
+ * Accounts hold CORC and BCU units. Holder accounts are ours (operator),
+ * buyers' or brokers'; the issuance and retirement system accounts are
+ * the source and sink of every unit, so each ledger transaction debits
+ * one account and credits another.
+ */
+
+export const REGISTRY_ACCOUNT_TYPES = [
+  { value: 'operator', label: 'Own Account', system: false },
+  { value: 'buyer', label: 'Buyer', system: false },
+  { value: 'broker', label: 'Broker', system: false },
+  { value: 'issuance', label: 'Issuance (system)', system: true },
+  { value: 'retirement', label: 'Retirement (system)', system: true },
+] as const;
+
+export type RegistryAccountType = typeof REGISTRY_ACCOUNT_TYPES[number]['value'];
+
+export const HOLDER_ACCOUNT_TYPES = ['operator', 'buyer', 'broker'] as const;
+
+export type HolderAccountType = typeof HOLDER_ACCOUNT_TYPES[number];
+
+export const SYSTEM_ACCOUNT_TYPES = ['issuance', 'retirement'] as const;
+
+export type SystemAccountType = typeof SYSTEM_ACCOUNT_TYPES[number];
+
+export function isSystemAccountType(type: string): type is SystemAccountType {
+  return (SYSTEM_ACCOUNT_TYPES as readonly string[]).includes(type);
+}
+
+export const LEDGER_TRANSACTION_TYPES = [
+  { value: 'issuance', label: 'Issuance' },
+  { value: 'transfer', label: 'Transfer' },
+  { value: 'retirement', label: 'Retirement' },
+] as const;
+
+export type LedgerTransactionType = typeof LEDGER_TRANSACTION_TYPES[number]['value'];
+
+/** A debit removes units from an account, a credit adds them */
+export const LEDGER_DIRECTIONS = ['debit', 'credit'] as const;
+
+export type LedgerDirection = typeof LEDGER_DIRECTIONS[number];
+
+export const createRegistryAccountSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  accountType: z.enum(HOLDER_ACCOUNT_TYPES),
+  externalAccountId: z.string().optional().nullable(),
+  contactEmail: z.string().email('Invalid email').optional().nullable().or(z.literal('')),
+  notes: z.string().optional().nullable(),
+});
+
+export const updateRegistryAccountSchema = createRegistryAccountSchema.partial().extend({
+  id: z.string().uuid(),
+  isActive: z.boolean().optional(),
+});
+
+export const accountStatementQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const ledgerQuerySchema = z.object({
+  accountId: z.string().uuid().optional(),
+  corcIssuanceId: z.string().uuid().optional(),
+  bcuId: z.string().uuid().optional(),
+  transactionType: z.enum(['issuance', 'transfer', 'retirement']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type RegistryAccountInput = z.infer<typeof createRegistryAccountSchema>;
+export type RegistryAccountUpdate = z.infer<typeof updateRegistryAccountSchema>;
+export type AccountStatementQuery = z.infer<typeof accountStatementQuerySchema>;
+export type LedgerQuery = z.infer<typeof ledgerQuerySchema>;
@@ -0,0 +1,257 @@
+import { z } from 'zod';
+
+/**
+ * Registry serial number patterns
+ *
+ * A pattern is literal text with tokens:
+ *   {FACILITY}  facility serial code (letters and digits)
+ *   {YEAR}      vintage year
+ *   {SEQ:n}     sequence within the facility and year, zero-padded to n digits
+ *   {CHECK}     check character (Luhn mod 36) over every other letter and digit
+ *
+ * Each issuance reserves one sequence number per whole tCO2e, so every unit
+ * has its own serial and a lot's units are a contiguous run of them.
+ */
+
+export const DEFAULT_CORC_SERIAL_PATTERN = 'CORC-{FACILITY}-{YEAR}-{SEQ:6}-{CHECK}';
+
+/** Format of serials issued before the allocator, still accepted when decoding */
+export const LEGACY_CORC_SERIAL_PATTERN = 'CORC-{FACILITY}-{YEAR}-{SEQ:6}';
+
+export const SERIAL_PATTERN_TOKENS = [
+  { value: 'FACILITY', label: '{FACILITY}', description: 'Facility serial code' },
+  { value: 'YEAR', label: '{YEAR}', description: 'Vintage year' },
+  { value: 'SEQ', label: '{SEQ:n}', description: 'Sequence, zero-padded to n digits' },
+  { value: 'CHECK', label: '{CHECK}', description: 'Check character' },
+] as const;
+
+type SerialToken = typeof SERIAL_PATTERN_TOKENS[number]['value'];
+
+type PatternPart =
+  | { kind: 'literal'; text: string }
+  | { kind: 'token'; token: SerialToken; width: number };
+
+const TOKEN_REGEX = /\{([A-Z]+)(?::(\d+))?\}/g;
+const CHECK_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const DEFAULT_SEQUENCE_WIDTH = 6;
+const MAX_SEQUENCE_WIDTH = 12;
+
+function parsePattern(pattern: string): { parts: PatternPart[]; errors: string[] } {
+  const parts: PatternPart[] = [];
+  const errors: string[] = [];
+  const seen = new Map<string, number>();
+  let last = 0;
+
+  for (const match of pattern.matchAll(TOKEN_REGEX)) {
+    if (match.index > last) {
+      parts.push({ kind: 'literal', text: pattern.slice(last, match.index) });
+    }
+    last = match.index + match[0].length;
+
+    const token = match[1];
+    if (!SERIAL_PATTERN_TOKENS.some((t) => t.value === token)) {
+      errors.push(`Unknown token {${token}}`);
+      continue;
+    }
+    if (match[2] !== undefined && token !== 'SEQ') {
+      errors.push(`{${token}} does not take a width`);
+    }
+    const width = match[2] !== undefined ? parseInt(match[2], 10) : DEFAULT_SEQUENCE_WIDTH;
+    if (token === 'SEQ' && (width < 1 || width > MAX_SEQUENCE_WIDTH)) {
+      errors.push(`{SEQ} width must be between 1 and ${MAX_SEQUENCE_WIDTH}`);
+    }
+    seen.set(token, (seen.get(token) ?? 0) + 1);
+    parts.push({ kind: 'token', token: token as SerialToken, width });
+  }
+  if (last < pattern.length) {
+    parts.push({ kind: 'literal', text: pattern.slice(last) });
+  }
+
+  for (const token of ['FACILITY', 'YEAR', 'SEQ']) {
+    if (!seen.has(token)) errors.push(`Pattern must contain {${token}}`);
+  }
+  for (const [token, count] of seen) {
+    if (count > 1) errors.push(`{${token}} can appear only once`);
+  }
+
+  // Two adjacent tokens could not be told apart when decoding
+  parts.forEach((part, i) => {
+    const next = parts[i + 1];
+    if (part.kind === 'token' && next?.kind === 'token' && part.token === 'FACILITY') {
+      errors.push('{FACILITY} must be followed by a separator');
+    }
+  });
+
+  return { parts, errors };
+}
+
+/**
+ * Problems with a serial pattern; empty when it is usable
+ */
+export function validateSerialPattern(pattern: string): string[] {
+  return parsePattern(pattern).errors;
+}
+
+/**
+ * Luhn mod 36 check character: catches any single wrong character and
+ * most swaps of two adjacent ones
+ */
+export function serialCheckCharacter(payload: string): string {
+  const chars = payload.toUpperCase().replace(/[^0-9A-Z]/g, '');
+  const n = CHECK_ALPHABET.length;
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = chars.length - 1; i >= 0; i--) {
+    const addend = factor * CHECK_ALPHABET.indexOf(chars[i]);
+    factor = factor === 2 ? 1 : 2;
+    sum += Math.floor(addend / n) + (addend % n);
+  }
+
+  return CHECK_ALPHABET[(n - (sum % n)) % n];
+}
+
+/**
+ * Facility code for serials: letters and digits of the given code, or of
+ * the registration number, upper-cased and at most 6 characters
+ */
+export function toFacilitySerialCode(facility: { serialCode?: string | null; registrationNumber: string }): string {
+  const source = facility.serialCode || facility.registrationNumber;
+  return source.toUpperCase().replace(/[^0-9A-Z]/g, '').slice(0, 6);
+}
+
+export interface SerialFields {
+  facilityCode: string;
+  year: number;
+  sequence: number;
+}
+
+function render(parts: PatternPart[], fields: SerialFields, check: string): string {
+  return parts
+    .map((part) => {
+      if (part.kind === 'literal') return part.text;
+      switch (part.token) {
+        case 'FACILITY':
+          return fields.facilityCode;
+        case 'YEAR':
+          return String(fields.year);
+        case 'SEQ':
+          return String(fields.sequence).padStart(part.width, '0');
+        case 'CHECK':
+          return check;
+      }
+    })
+    .join('');
+}
+
+/**
+ * Render a serial from a pattern
+ */
+export function formatSerial(pattern: string, fields: SerialFields): string {
+  const { parts, errors } = parsePattern(pattern);
+  if (errors.length > 0) {
+    throw new Error(`Invalid serial pattern "${pattern}": ${errors.join('; ')}`);
+  }
+  const check = parts.some((p) => p.kind === 'token' && p.token === 'CHECK')
+    ? serialCheckCharacter(render(parts, fields, ''))
+    : '';
+  return render(parts, fields, check);
+}
+
+export interface DecodedSerial extends SerialFields {
+  pattern: string;
+  /** Null when the pattern has no check character */
+  checkCharacter: string | null;
+  checkCharacterValid: boolean | null;
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Decode a serial against a pattern; null when it does not fit the pattern
+ */
+export function decodeSerial(pattern: string, serial: string): DecodedSerial | null {
+  const { parts, errors } = parsePattern(pattern);
+  if (errors.length > 0) return null;
+
+  const groups: SerialToken[] = [];
+  const source = parts
+    .map((part) => {
+      if (part.kind === 'literal') return escapeRegex(part.text.toUpperCase());
+      groups.push(part.token);
+      switch (part.token) {
+        case 'FACILITY':
+          return '([0-9A-Z]+?)';
+        case 'YEAR':
+          return '(\\d{4})';
+        case 'SEQ':
+          return `(\\d{${part.width},})`;
+        case 'CHECK':
+          return '([0-9A-Z])';
+      }
+    })
+    .join('');
+
+  const match = new RegExp(`^${source}$`).exec(serial.trim().toUpperCase());
+  if (!match) return null;
+
+  const value = (token: SerialToken) => match[groups.indexOf(token) + 1];
+  const fields: SerialFields = {
+    facilityCode: value('FACILITY'),
+    year: parseInt(value('YEAR'), 10),
+    sequence: parseInt(value('SEQ'), 10),
+  };
+  const checkCharacter = groups.includes('CHECK') ? value('CHECK') : null;
+
+  return {
+    ...fields,
+    pattern,
+    checkCharacter,
+    checkCharacterValid: checkCharacter === null
+      ? null
+      : checkCharacter === serialCheckCharacter(render(parts, fields, '')),
+  };
+}
+
+/** Serial block an issuance reserved; the fields are null for unallocated serials */
+export interface SerialBlockFields {
+  serialPattern: string | null;
+  serialFacilityCode: string | null;
+  serialYear: number | null;
+  serialSequenceStart: number | null;
+  serialSequenceEnd: number | null;
+}
+
+/**
+ * Serials of a lot's first and last units (units count from 1 within the
+ * issuance), or null when the issuance has no reserved block
+ */
+export function formatUnitSerialRange(
+  block: SerialBlockFields,
+  lot: { serialStart: number; serialEnd: number }
+): { first: string; last: string } | null {
+  const { serialPattern, serialFacilityCode, serialYear, serialSequenceStart } = block;
+  if (!serialPattern || !serialFacilityCode || serialYear === null || serialSequenceStart === null) {
+    return null;
+  }
+  const unit = (n: number) => formatSerial(serialPattern, {
+    facilityCode: serialFacilityCode,
+    year: serialYear,
+    sequence: serialSequenceStart + n - 1,
+  });
+  return { first: unit(lot.serialStart), last: unit(lot.serialEnd) };
+}
+
+export const serialPatternSchema = z.string().min(1, 'Pattern is required').superRefine((pattern, ctx) => {
+  for (const message of validateSerialPattern(pattern)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+  }
+});
+
+export const validateSerialQuerySchema = z.object({
+  serial: z.string().trim().min(1, 'Serial is required'),
+});
+
+export type ValidateSerialQuery = z.infer<typeof validateSerialQuerySchema>;
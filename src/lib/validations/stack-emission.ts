@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+/**
+ * Stack Emission Sample Validation Schema
+ * Based on Puro.earth Biochar Methodology Section 3.5 (direct emissions at stack)
+ */
+
+export const STACK_GASES = [
+  { value: 'CH4', label: 'Methane (CH₄)' },
+  { value: 'N2O', label: 'Nitrous oxide (N₂O)' },
+] as const;
+
+export const STACK_MEASUREMENT_METHODS = [
+  { value: 'cems', label: 'Continuous (CEMS)', description: 'Logged continuously through the batch' },
+  { value: 'spot', label: 'Spot measurement', description: 'Sampled during the batch and scaled to its duration' },
+] as const;
+
+export const STACK_CONCENTRATION_UNITS = [
+  { value: 'ppm', label: 'ppm (by volume)' },
+  { value: 'mg_nm3', label: 'mg/Nm³' },
+] as const;
+
+export const stackEmissionSampleSchema = z.object({
+  sampledAt: z.coerce.date(),
+  concentration: z.coerce.number().nonnegative('Concentration cannot be negative'),
+  flueGasFlowNm3PerHour: z.coerce.number().positive('Flue-gas flow must be positive'),
+});
+
+export const stackEmissionUploadSchema = z.object({
+  gas: z.enum(['CH4', 'N2O']),
+  method: z.enum(['cems', 'spot']),
+  concentrationUnit: z.enum(['ppm', 'mg_nm3']),
+  samples: z.array(stackEmissionSampleSchema)
+    .min(1, 'At least one sample is required')
+    .max(50000, 'At most 50000 samples per upload'),
+});
+
+export type StackEmissionUpload = z.infer<typeof stackEmissionUploadSchema>;
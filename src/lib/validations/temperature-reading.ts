@@ -0,0 +1,34 @@
+import { z } from 'zod';
+
+/**
+ * Pyrolysis Temperature Reading Validation Schema
+ * Readings pushed by kiln controllers or imported from CSV/PLC exports
+ */
+
+export const TEMPERATURE_SOURCES = [
+  { value: 'controller', label: 'Kiln controller' },
+  { value: 'csv', label: 'CSV export' },
+  { value: 'plc', label: 'PLC export' },
+] as const;
+
+// Largest upload accepted in one request; longer logs are sent in parts
+export const MAX_TEMPERATURE_READINGS_PER_UPLOAD = 50000;
+
+export const temperatureReadingSchema = z.object({
+  reactorId: z.string().trim().min(1, 'Reactor ID is required').max(100),
+  recordedAt: z.coerce.date(),
+  temperatureC: z.coerce.number()
+    .min(-50, 'Temperature below -50°C')
+    .max(2000, 'Temperature above 2000°C'),
+});
+
+export const temperatureUploadSchema = z.object({
+  source: z.enum(['controller', 'csv', 'plc']).default('controller'),
+  readings: z.array(temperatureReadingSchema)
+    .min(1, 'At least one reading is required')
+    .max(MAX_TEMPERATURE_READINGS_PER_UPLOAD, `At most ${MAX_TEMPERATURE_READINGS_PER_UPLOAD} readings per upload`),
+});
+
+export type TemperatureSource = typeof TEMPERATURE_SOURCES[number]['value'];
+export type TemperatureReadingInput = z.infer<typeof temperatureReadingSchema>;
+export type TemperatureUpload = z.infer<typeof temperatureUploadSchema>;
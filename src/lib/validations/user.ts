@@ -0,0 +1,49 @@
+import { z } from 'zod';
+
+/**
+ * User, login and API token validation schemas
+ */
+
+export const USER_ROLES = [
+  { value: 'operator', label: 'Operator', description: 'Records feedstock, production, energy, transport and sequestration data' },
+  { value: 'lab_technician', label: 'Lab Technician', description: 'Records biochar lab test results' },
+  { value: 'mrv_manager', label: 'MRV Manager', description: 'Runs calculations, manages monitoring periods, issues and retires credits' },
+  { value: 'verifier', label: 'Verifier', description: 'Read-only access, exports the data room and signs off verified periods' },
+  { value: 'admin', label: 'Admin', description: 'Full access, including user management' },
+] as const;
+
+export type UserRole = typeof USER_ROLES[number]['value'];
+
+const roleValues = USER_ROLES.map((r) => r.value) as [UserRole, ...UserRole[]];
+
+export const PASSWORD_MIN_LENGTH = 10;
+
+export const createUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  name: z.string().trim().min(1, 'Name is required').max(120),
+  role: z.enum(roleValues),
+  password: z.string().min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`),
+});
+
+export const updateUserSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  role: z.enum(roleValues).optional(),
+  isActive: z.boolean().optional(),
+  password: z.string().min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`).optional(),
+});
+
+export const loginSchema = z.object({
+  email: z.string().trim().toLowerCase().email('Enter a valid email address'),
+  password: z.string().min(1, 'Password is required'),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Token name is required').max(80),
+  /** Days until the token expires; omit for a token that does not expire */
+  expiresInDays: z.coerce.number().int().min(1).max(730).optional(),
+});
+
+export type CreateUserInput = z.infer<typeof createUserSchema>;
+export type UpdateUserInput = z.infer<typeof updateUserSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type CreateApiTokenInput = z.infer<typeof createApiTokenSchema>;
@@ -1,54 +1,129 @@
 import { NextResponse, type NextRequest } from 'next/server';
-import { validateAuth, unauthorizedResponse, isPublicPath } from '@/lib/auth';
+import {
+  validateAuth,
+  identifyRequest,
+  unauthorizedResponse,
+  forbiddenResponse,
+  isPublicPath,
+  isPublicVerificationPath,
+} from '@/lib/auth';
+import { getRequiredPermissions, isAllowed } from '@/lib/permissions';
+import { createRateLimiter, getRateLimitKey, rateLimitHeaders, rateLimitedResponse } from '@/lib/rate-limit';
+
+// Requests per client per minute to the public verification pages and API
+const publicVerificationLimiter = createRateLimiter({
+  limit: Number(process.env.PUBLIC_RATE_LIMIT_PER_MINUTE) || 30,
+  windowMs: 60_000,
+});
+
+// Proxies in front of the app that append to X-Forwarded-For
+const trustedProxyHops = Number(process.env.TRUSTED_PROXY_HOPS) || 0;
 
 /**
- * Middleware that protects API routes with authentication
+ * Middleware that authenticates every request and checks route permissions
  *
  * Configuration:
- * - Set API_KEY environment variable to enable authentication
  * - Set AUTH_ENABLED=false to disable authentication (e.g., in development)
+ * - PUBLIC_RATE_LIMIT_PER_MINUTE caps public verification requests per
+ *   client (default 30)
+ * - TRUSTED_PROXY_HOPS is the number of proxies in front of the app that
+ *   append to X-Forwarded-For (default 0: the forwarding headers are
+ *   ignored and all public callers share one rate limit window)
  *
  * Authentication methods:
- * - Authorization: Bearer <API_KEY>
- * - X-API-Key: <API_KEY>
+ * - Session cookie set by POST /api/auth/login
+ * - Authorization: Bearer <API token>
+ * - X-API-Key: <API token>
+ *
+ * The caller is passed to handlers in the X-User-ID, X-User-Email and
+ * X-User-Role request headers, except on the public verification paths,
+ * which are anonymous, GET-only and rate-limited. Sessions and tokens are
+ * looked up in the database, so this runs on the Node.js runtime.
  */
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
+  const isApi = pathname.startsWith('/api');
+
+  // Identity headers are only ever set here; never trust client-supplied values
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete('X-User-ID');
+  requestHeaders.delete('X-User-Email');
+  requestHeaders.delete('X-User-Role');
 
-  // Only protect API routes
-  if (!pathname.startsWith('/api')) {
-    return NextResponse.next();
+  // Public verification is anonymous and read-only, whoever is calling
+  if (isPublicVerificationPath(pathname)) {
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      return new Response(JSON.stringify({ error: 'Method not allowed' }), {
+        status: 405,
+        headers: { 'Content-Type': 'application/json', Allow: 'GET, HEAD' },
+      });
+    }
+    const limit = publicVerificationLimiter.check(getRateLimitKey(request, trustedProxyHops));
+    if (!limit.allowed) {
+      console.warn(`[AUTH] Rate limited public verification request to ${pathname}`);
+      return rateLimitedResponse(limit);
+    }
+    const response = NextResponse.next({ request: { headers: requestHeaders } });
+    for (const [name, value] of Object.entries(rateLimitHeaders(limit))) {
+      response.headers.set(name, value);
+    }
+    return response;
   }
 
-  // Skip authentication for public paths
+  // Public paths don't require authentication, but still record the
+  // caller when credentials are sent (used by the audit log)
   if (isPublicPath(pathname)) {
-    return NextResponse.next();
+    const user = await identifyRequest(request);
+    if (user) {
+      requestHeaders.set('X-User-ID', user.id);
+      requestHeaders.set('X-User-Email', user.email);
+      requestHeaders.set('X-User-Role', user.role);
+    }
+    return NextResponse.next({ request: { headers: requestHeaders } });
   }
 
   // Validate authentication
-  const authResult = validateAuth(request);
+  const authResult = await validateAuth(request);
 
-  if (!authResult.authenticated) {
+  if (!authResult.authenticated || !authResult.user) {
+    if (!isApi) {
+      const loginUrl = new URL('/login', request.url);
+      loginUrl.searchParams.set('next', `${pathname}${request.nextUrl.search}`);
+      return NextResponse.redirect(loginUrl);
+    }
     console.warn(`[AUTH] Unauthorized access attempt to ${pathname}`);
     return unauthorizedResponse(authResult.error);
   }
 
-  // Add user info to headers for downstream use
-  const response = NextResponse.next();
-  if (authResult.userId) {
-    response.headers.set('X-User-ID', authResult.userId);
+  const { user } = authResult;
+
+  // Check the role against the route's permission rule
+  const required = getRequiredPermissions(request.method, pathname);
+  if (!isAllowed(user.role, required)) {
+    if (!isApi) {
+      return NextResponse.redirect(new URL('/', request.url));
+    }
+    console.warn(`[AUTH] ${user.email} (${user.role}) denied ${request.method} ${pathname}`);
+    return forbiddenResponse(`Your role (${user.role}) is not allowed to do this`, required);
   }
 
+  // Add user info to headers for downstream use
+  requestHeaders.set('X-User-ID', user.id);
+  requestHeaders.set('X-User-Email', user.email);
+  requestHeaders.set('X-User-Role', user.role);
+  const response = NextResponse.next({ request: { headers: requestHeaders } });
+  response.headers.set('X-User-ID', user.id);
+
   return response;
 }
 
 /**
  * Configure which routes the middleware runs on
- * This matcher includes all API routes except those listed in PUBLIC_PATHS
+ * Everything except Next.js assets and static files
  */
 export const config = {
+  runtime: 'nodejs',
   matcher: [
-    // Match all API routes
-    '/api/:path*',
+    '/((?!_next/static|_next/image|favicon.ico|.*\\.(?:png|jpg|jpeg|gif|svg|ico|webp)$).*)',
   ],
 };